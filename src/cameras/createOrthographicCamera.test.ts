@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { createOrthographicCamera } from './createOrthographicCamera';
+import {
+  createOrthographicCamera,
+  zoomOrthographicCamera,
+} from './createOrthographicCamera';
 import { setupCanvasMock } from '../test-utils/mockCanvas';
 import { createEditorScene } from '../editor/createEditorScene';
 
@@ -88,4 +91,21 @@ describe('createOrthographicCamera', () => {
 
     sceneConfig.dispose();
   });
+
+  it('should zoom out while keeping the aspect ratio', () => {
+    const canvas = document.createElement('canvas');
+    const sceneConfig = createEditorScene(canvas);
+    const camera = createOrthographicCamera('testCamera', sceneConfig.scene);
+    camera.orthoLeft = -20;
+    camera.orthoRight = 20;
+
+    zoomOrthographicCamera(camera, 25);
+
+    expect(camera.orthoTop).toBe(25);
+    expect(camera.orthoBottom).toBe(-25);
+    expect(camera.orthoLeft).toBe(-50);
+    expect(camera.orthoRight).toBe(50);
+
+    sceneConfig.dispose();
+  });
 });
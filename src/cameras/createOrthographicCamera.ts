@@ -75,3 +75,25 @@ export const createOrthographicCamera = (
 
   return camera;
 };
+
+/**
+ * Changes how much of the floor an orthographic camera shows, keeping its aspect ratio
+ *
+ * @param camera - Orthographic camera to zoom
+ * @param halfHeight - Half of the visible height in world units (10 shows the default 20x20 area)
+ */
+export const zoomOrthographicCamera = (
+  camera: UniversalCamera,
+  halfHeight: number
+): void => {
+  const top = camera.orthoTop ?? 10;
+  const bottom = camera.orthoBottom ?? -10;
+  const left = camera.orthoLeft ?? -10;
+  const right = camera.orthoRight ?? 10;
+  const aspectRatio = (right - left) / (top - bottom);
+
+  camera.orthoTop = halfHeight;
+  camera.orthoBottom = -halfHeight;
+  camera.orthoLeft = -halfHeight * aspectRatio;
+  camera.orthoRight = halfHeight * aspectRatio;
+};
@@ -8,6 +8,16 @@ export const ROOM_SIZE = 20;
 export const WALL_THICKNESS = 0.2;
 export const ROOM_HALF = 10;
 
+/**
+ * Clearance kept between objects and walls (the sphere's radius)
+ */
+export const WALL_CLEARANCE = 1;
+
+/**
+ * Maximum reflections traced for rays and virtual images (enough for corridor demos)
+ */
+export const MAX_BOUNCES = 20;
+
 /**
  * Wall names for identification
  */
@@ -21,10 +31,19 @@ export const WALL_NAMES = {
 } as const;
 
 /**
- * Mirror wall names (subset of walls that have mirrors)
+ * Default mirror wall names for the initial lesson room
+ * Any wall, the floor or the ceiling can be toggled at runtime
  */
 export const MIRROR_WALLS = [
   WALL_NAMES.NORTH,
   WALL_NAMES.EAST,
   WALL_NAMES.WEST,
 ] as const;
+
+/**
+ * Names of the objects that can be selected and moved (also their mesh names)
+ */
+export const OBJECT_IDS = {
+  SPHERE: 'colorSphere',
+  CAMERA_INDICATOR: 'cameraIndicator',
+} as const;
@@ -0,0 +1,117 @@
+// ABOUTME: Tests for drawing the reflected room cells around the real room
+// ABOUTME: Verifies which cells are tiled, the view extent and line system reuse
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Matrix } from 'babylonjs';
+import {
+  createUnfoldedRoom,
+  getUnfoldedCellReflections,
+  getUnfoldedRoomExtent,
+  UNFOLDED_ROOM_NAME,
+} from './createUnfoldedRoom';
+import {
+  createRoomDefinition,
+  getWallById,
+  getWallReflectionMatrix,
+} from '../geometry/roomDefinition';
+import { EDITOR_LAYER } from '../constants/layerMasks';
+import { setupCanvasMock } from '../test-utils/mockCanvas';
+import { createEditorScene } from './createEditorScene';
+
+const room = createRoomDefinition(10, []);
+const east = getWallById(room, 'east');
+const west = getWallById(room, 'west');
+const eastReflection = getWallReflectionMatrix(east);
+const eastWestReflection = getWallReflectionMatrix(east).multiply(
+  getWallReflectionMatrix(west)
+);
+
+describe('getUnfoldedCellReflections', () => {
+  it('should keep only cells reached through side walls', () => {
+    const reflections = getUnfoldedCellReflections(room, [
+      { walls: ['east'], reflection: eastReflection },
+      { walls: ['floor'], reflection: Matrix.Identity() },
+      { walls: ['east', 'ceiling'], reflection: Matrix.Identity() },
+      { walls: ['east', 'west'], reflection: eastWestReflection },
+    ]);
+
+    expect(reflections).toEqual([eastReflection, eastWestReflection]);
+  });
+});
+
+describe('getUnfoldedRoomExtent', () => {
+  it('should cover the real room when there are no cells', () => {
+    expect(getUnfoldedRoomExtent(room, [])).toBeCloseTo(5);
+  });
+
+  it('should reach the far side of the furthest cell', () => {
+    expect(getUnfoldedRoomExtent(room, [eastReflection])).toBeCloseTo(15);
+    expect(
+      getUnfoldedRoomExtent(room, [eastReflection, eastWestReflection])
+    ).toBeCloseTo(25);
+  });
+});
+
+describe('createUnfoldedRoom', () => {
+  beforeEach(() => {
+    setupCanvasMock();
+  });
+
+  it('should outline every wall of each cell in the editor only', () => {
+    const canvas = document.createElement('canvas');
+    const sceneConfig = createEditorScene(canvas);
+
+    const mesh = createUnfoldedRoom(
+      room,
+      [eastReflection, eastWestReflection],
+      sceneConfig.scene
+    );
+
+    expect(mesh?.name).toBe(UNFOLDED_ROOM_NAME);
+    expect(mesh?.isPickable).toBe(false);
+    expect(mesh?.layerMask).toBe(EDITOR_LAYER);
+    expect(mesh?.getTotalVertices()).toBe(2 * room.walls.length * 2);
+    const bounds = mesh?.getBoundingInfo().boundingBox;
+    expect(bounds?.minimumWorld.x).toBeCloseTo(-25);
+    expect(bounds?.maximumWorld.x).toBeCloseTo(15);
+
+    sceneConfig.dispose();
+  });
+
+  it('should update the previous line system for the same number of cells', () => {
+    const canvas = document.createElement('canvas');
+    const sceneConfig = createEditorScene(canvas);
+
+    const first = createUnfoldedRoom(room, [eastReflection], sceneConfig.scene);
+    const second = createUnfoldedRoom(
+      room,
+      [eastWestReflection],
+      sceneConfig.scene,
+      first
+    );
+    const third = createUnfoldedRoom(
+      room,
+      [eastReflection, eastWestReflection],
+      sceneConfig.scene,
+      second
+    );
+
+    expect(second).toBe(first);
+    expect(third).not.toBe(second);
+    expect(second?.isDisposed()).toBe(true);
+
+    sceneConfig.dispose();
+  });
+
+  it('should dispose the line system when there are no cells', () => {
+    const canvas = document.createElement('canvas');
+    const sceneConfig = createEditorScene(canvas);
+
+    const mesh = createUnfoldedRoom(room, [eastReflection], sceneConfig.scene);
+
+    expect(createUnfoldedRoom(room, [], sceneConfig.scene, mesh)).toBeNull();
+    expect(mesh?.isDisposed()).toBe(true);
+
+    sceneConfig.dispose();
+  });
+});
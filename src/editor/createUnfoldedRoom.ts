@@ -0,0 +1,145 @@
+// ABOUTME: Draws the reflected copies of the room around the real one in the editor view
+// ABOUTME: Tiles the wall outlines of every image cell, so straightened rays can be followed through them
+
+import {
+  Scene,
+  MeshBuilder,
+  LinesMesh,
+  Color4,
+  Matrix,
+  Vector3,
+} from 'babylonjs';
+import type {
+  RoomDefinition,
+  WallDefinition,
+} from '../geometry/roomDefinition';
+import type { ReflectionPath } from '../mirrors/ReflectionInstanceManager';
+import { markAsEditorOnly } from '../utils/applyLayerMask';
+
+/**
+ * Name of the line system outlining the image cells
+ */
+export const UNFOLDED_ROOM_NAME = 'unfoldedRoom';
+
+/**
+ * Height of the outlines, just above the floor so they are not hidden by it
+ */
+const OUTLINE_HEIGHT = 0.05;
+
+/**
+ * Outline colours: mirror walls in the editor's mirror blue-grey, others grey
+ */
+const MIRROR_EDGE_COLOR = new Color4(0.55, 0.55, 0.75, 0.8);
+const WALL_EDGE_COLOR = new Color4(0.6, 0.6, 0.6, 0.5);
+
+/**
+ * Gets the floor-level end points of a wall
+ *
+ * @param wall - Vertical wall
+ * @returns Start and end of the wall's base
+ */
+const getWallEnds = (wall: WallDefinition): [Vector3, Vector3] => {
+  if (wall.start && wall.end) {
+    return [wall.start, wall.end];
+  }
+  const along = Vector3.Cross(wall.normal, Vector3.Up()).scale(wall.width / 2);
+  return [wall.position.subtract(along), wall.position.add(along)];
+};
+
+/**
+ * Picks the image cells that lie beside the room rather than above or below it,
+ * i.e. those reached only through side walls, since the editor looks down on the floor
+ *
+ * @param room - Room definition
+ * @param paths - Reflection paths (e.g., from ReflectionInstanceManager.getPaths())
+ * @returns Reflection of each side cell
+ */
+export const getUnfoldedCellReflections = (
+  room: RoomDefinition,
+  paths: readonly Pick<ReflectionPath, 'walls' | 'reflection'>[]
+): Matrix[] => {
+  const wallIds = new Set(room.walls.map((wall) => wall.id));
+  return paths
+    .filter((path) => path.walls.every((wallId) => wallIds.has(wallId)))
+    .map((path) => path.reflection);
+};
+
+/**
+ * Finds how far from the origin the cells reach, to fit them in the editor view
+ *
+ * @param room - Room definition
+ * @param reflections - Reflection of each cell
+ * @returns Largest |x| or |z| of any cell corner, the real room included
+ */
+export const getUnfoldedRoomExtent = (
+  room: RoomDefinition,
+  reflections: readonly Matrix[]
+): number =>
+  [Matrix.Identity(), ...reflections]
+    .flatMap((reflection) =>
+      room.outline.map((corner) =>
+        Vector3.TransformCoordinates(corner, reflection)
+      )
+    )
+    .reduce(
+      (extent, corner) =>
+        Math.max(extent, Math.abs(corner.x), Math.abs(corner.z)),
+      0
+    );
+
+/**
+ * Creates a line system outlining each cell's walls, or updates an existing one
+ * An existing line system is updated in place when the number of cells is unchanged
+ *
+ * @param room - Room definition
+ * @param reflections - Reflection of each cell
+ * @param scene - Editor scene
+ * @param existing - Line system from the previous update (optional)
+ * @returns Line system, or null when there are no cells
+ */
+export const createUnfoldedRoom = (
+  room: RoomDefinition,
+  reflections: readonly Matrix[],
+  scene: Scene,
+  existing: LinesMesh | null = null
+): LinesMesh | null => {
+  const lines: Vector3[][] = [];
+  const colors: Color4[][] = [];
+  const lift = new Vector3(0, OUTLINE_HEIGHT, 0);
+  reflections.forEach((reflection) => {
+    room.walls.forEach((wall) => {
+      const edgeColor = wall.isMirror ? MIRROR_EDGE_COLOR : WALL_EDGE_COLOR;
+      lines.push(
+        getWallEnds(wall).map((point) =>
+          Vector3.TransformCoordinates(point, reflection).add(lift)
+        )
+      );
+      colors.push([edgeColor, edgeColor]);
+    });
+  });
+
+  const instance =
+    existing?.getTotalVertices() === lines.length * 2 ? existing : null;
+  if (existing && !instance) {
+    existing.dispose();
+  }
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const mesh = MeshBuilder.CreateLineSystem(
+    UNFOLDED_ROOM_NAME,
+    {
+      lines,
+      colors,
+      useVertexAlpha: true,
+      updatable: true,
+      instance: instance ?? undefined,
+    },
+    scene
+  );
+  mesh.isPickable = false;
+  markAsEditorOnly(mesh);
+
+  return mesh;
+};
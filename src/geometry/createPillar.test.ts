@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Vector3 } from 'babylonjs';
+import {
+  createPillar,
+  createPillarObstacle,
+  PILLAR_NAME,
+} from './createPillar';
+import { setupCanvasMock } from '../test-utils/mockCanvas';
+import { createEditorScene } from '../editor/createEditorScene';
+
+describe('createPillar', () => {
+  beforeEach(() => {
+    setupCanvasMock();
+  });
+
+  it('should stand the pillar on the floor', () => {
+    const sceneConfig = createEditorScene(document.createElement('canvas'));
+    const pillar = createPillar(sceneConfig.scene, new Vector3(3, 0, -2));
+
+    expect(pillar.name).toBe(PILLAR_NAME);
+    expect(pillar.position.x).toBe(3);
+    expect(pillar.position.z).toBe(-2);
+    expect(pillar.getBoundingInfo().boundingBox.minimum.y).toBeCloseTo(
+      -pillar.position.y
+    );
+    expect(pillar.isPickable).toBe(false);
+
+    sceneConfig.dispose();
+  });
+
+  it('should describe the pillar as a matching box obstacle', () => {
+    const sceneConfig = createEditorScene(document.createElement('canvas'));
+    const pillar = createPillar(sceneConfig.scene);
+    const obstacle = createPillarObstacle(pillar);
+
+    expect(obstacle.kind).toBe('box');
+    expect(obstacle.id).toBe(PILLAR_NAME);
+    expect(obstacle.center.y).toBe(pillar.position.y);
+    expect(obstacle.size.y).toBe(pillar.position.y * 2);
+    expect(obstacle.isMirror).toBe(false);
+
+    sceneConfig.dispose();
+  });
+});
@@ -0,0 +1,73 @@
+// ABOUTME: Pure functions to create a solid pillar that blocks light in the room
+// ABOUTME: Returns the pillar mesh and the matching ray obstacle description
+
+import { MeshBuilder, Scene, Mesh, Vector3 } from 'babylonjs';
+import { createMatteMaterial } from '../materials/createMatteMaterial';
+import { markAsRenderable } from '../utils/applyLayerMask';
+import type { BoxObstacle } from '../rays/types';
+
+/**
+ * Mesh name and obstacle id of the pillar
+ */
+export const PILLAR_NAME = 'obstaclePillar';
+
+/**
+ * Pillar dimensions - taller than the sphere so it blocks sightlines
+ */
+const PILLAR_WIDTH = 2;
+const PILLAR_HEIGHT = 8;
+
+/**
+ * Default spot between the sphere and the camera
+ */
+const DEFAULT_PILLAR_POSITION = new Vector3(0, 0, 0);
+
+/**
+ * Creates the pillar mesh, standing on the floor at the given position
+ *
+ * @param scene - The scene to add the pillar to
+ * @param position - Floor position of the pillar's base centre
+ * @returns Pillar mesh
+ */
+export const createPillar = (
+  scene: Scene,
+  position: Vector3 = DEFAULT_PILLAR_POSITION
+): Mesh => {
+  const pillar = MeshBuilder.CreateBox(
+    PILLAR_NAME,
+    { width: PILLAR_WIDTH, height: PILLAR_HEIGHT, depth: PILLAR_WIDTH },
+    scene
+  );
+
+  pillar.position = new Vector3(
+    position.x,
+    position.y + PILLAR_HEIGHT / 2,
+    position.z
+  );
+  pillar.material = createMatteMaterial(`${PILLAR_NAME}Material`, scene, {
+    r: 0.45,
+    g: 0.35,
+    b: 0.3,
+  });
+  pillar.isPickable = false; // Fixed obstacle, not draggable
+
+  // Mark as renderable so it appears in both views
+  markAsRenderable(pillar);
+
+  return pillar;
+};
+
+/**
+ * Describes a pillar mesh as an obstacle for ray tracing
+ *
+ * @param pillar - Pillar mesh created by createPillar
+ * @returns Box obstacle matching the pillar
+ */
+export const createPillarObstacle = (pillar: Mesh): BoxObstacle => ({
+  kind: 'box',
+  id: PILLAR_NAME,
+  center: pillar.position.clone(),
+  size: new Vector3(PILLAR_WIDTH, PILLAR_HEIGHT, PILLAR_WIDTH),
+  rotationY: pillar.rotation.y,
+  isMirror: false,
+});
@@ -4,7 +4,11 @@ import {
   createFloor,
   createCeiling,
   createWall,
+  disposeRoom,
+  updateRoomMirrors,
 } from './createRoom';
+import { createRoomDefinition, setWallMirror } from './roomDefinition';
+import { getRoomPreset } from './roomPresets';
 import { setupCanvasMock } from '../test-utils/mockCanvas';
 import { createEditorScene } from '../editor/createEditorScene';
 import { ROOM_HALF, WALL_NAMES } from '../constants';
@@ -245,6 +249,40 @@ describe('createRoom', () => {
       sceneConfig.dispose();
     });
 
+    it('should build walls along a polygon outline', () => {
+      const canvas = document.createElement('canvas');
+      const sceneConfig = createEditorScene(canvas);
+      const room = createRoom(
+        sceneConfig.scene,
+        true,
+        getRoomPreset('lShape').create()
+      );
+
+      expect(Object.keys(room.walls)).toHaveLength(6);
+      expect(room.walls.side2.name).toBe('side2Wall');
+      expect(room.walls.side2.position.x).toBeCloseTo(2);
+      expect(room.walls.side2.position.z).toBeCloseTo(-6);
+      expect(room.walls.side2.rotation.y).toBeCloseTo(Math.PI / 2);
+
+      sceneConfig.dispose();
+    });
+
+    it('should centre the floor under an off-centre room', () => {
+      const canvas = document.createElement('canvas');
+      const sceneConfig = createEditorScene(canvas);
+      const room = createRoom(
+        sceneConfig.scene,
+        true,
+        getRoomPreset('triangle').create()
+      );
+
+      expect(room.floor.position.z).toBeCloseTo(0);
+      expect(room.floor.position.x).toBeCloseTo(0);
+      expect(room.ceiling.position.y).toBe(20);
+
+      sceneConfig.dispose();
+    });
+
     it('should return immutable room configuration', () => {
       const canvas = document.createElement('canvas');
       const sceneConfig = createEditorScene(canvas);
@@ -259,4 +297,58 @@ describe('createRoom', () => {
       sceneConfig.dispose();
     });
   });
+
+  describe('updateRoomMirrors', () => {
+    it('should outline walls that become mirrors', () => {
+      const canvas = document.createElement('canvas');
+      const sceneConfig = createEditorScene(canvas);
+      const room = createRoom(sceneConfig.scene);
+
+      expect(room.walls.south.edgesRenderer).toBeFalsy();
+
+      const definition = setWallMirror(
+        setWallMirror(createRoomDefinition(), 'south', true),
+        'north',
+        false
+      );
+      updateRoomMirrors(room, definition);
+
+      expect(room.walls.south.edgesRenderer).toBeTruthy();
+      expect(room.walls.north.edgesRenderer).toBeFalsy();
+
+      sceneConfig.dispose();
+    });
+
+    it('should make a mirror floor translucent', () => {
+      const canvas = document.createElement('canvas');
+      const sceneConfig = createEditorScene(canvas);
+      const room = createRoom(sceneConfig.scene);
+
+      updateRoomMirrors(
+        room,
+        setWallMirror(createRoomDefinition(), 'floor', true)
+      );
+
+      expect(room.floor.material.alpha).toBeLessThan(1);
+
+      sceneConfig.dispose();
+    });
+  });
+
+  describe('disposeRoom', () => {
+    it('should remove every room mesh from the scene', () => {
+      const canvas = document.createElement('canvas');
+      const sceneConfig = createEditorScene(canvas);
+      const room = createRoom(sceneConfig.scene);
+
+      disposeRoom(room);
+
+      expect(room.floor.isDisposed()).toBe(true);
+      expect(room.ceiling.isDisposed()).toBe(true);
+      expect(room.walls.north.isDisposed()).toBe(true);
+      expect(sceneConfig.scene.getMeshByName(WALL_NAMES.EAST)).toBeNull();
+
+      sceneConfig.dispose();
+    });
+  });
 });
@@ -6,14 +6,21 @@ import {
   Scene,
   Mesh,
   Color3,
+  Color4,
   StandardMaterial,
   Texture,
   DynamicTexture,
 } from 'babylonjs';
-import { ROOM_SIZE, WALL_THICKNESS, ROOM_HALF, WALL_NAMES } from '../constants';
+import { ROOM_SIZE, WALL_THICKNESS, WALL_NAMES } from '../constants';
 import { createMatteMaterial } from '../materials/createMatteMaterial';
 import { createEmissiveMaterial } from '../materials/createEmissiveMaterial';
 import { markAsRenderable } from '../utils/applyLayerMask';
+import {
+  createRoomDefinition,
+  getWallRotationY,
+  RoomDefinition,
+  WallDefinition,
+} from './roomDefinition';
 
 /**
  * Position configuration
@@ -39,12 +46,7 @@ interface Rotation {
 export interface RoomConfig {
   floor: Mesh;
   ceiling: Mesh;
-  walls: {
-    north: Mesh;
-    south: Mesh;
-    east: Mesh;
-    west: Mesh;
-  };
+  walls: Record<string, Mesh>; // Keyed by wall id (e.g., 'north')
 }
 
 /**
@@ -52,6 +54,11 @@ export interface RoomConfig {
  */
 const WALL_HEIGHT = ROOM_SIZE;
 
+/**
+ * Outline colour marking surfaces that are currently mirrors
+ */
+const MIRROR_EDGE_COLOR = new Color4(0.55, 0.7, 1, 1);
+
 /**
  * Creates a grid texture for the floor
  */
@@ -119,13 +126,33 @@ const createGridTexture = (scene: Scene): Texture | null => {
   }
 };
 
+/**
+ * Tints the floor blue and makes it translucent while it is a mirror
+ * so virtual images below the floor show through
+ */
+const applyFloorMirrorAppearance = (floor: Mesh, isMirror: boolean): void => {
+  if (!(floor.material instanceof StandardMaterial)) {
+    return;
+  }
+
+  floor.material.emissiveColor = isMirror
+    ? new Color3(0.1, 0.1, 0.3)
+    : new Color3(0.1, 0.1, 0.1);
+  floor.material.alpha = isMirror ? 0.6 : 1;
+};
+
 /**
  * Creates the floor mesh with grid pattern
  */
-export const createFloor = (scene: Scene): Mesh => {
+export const createFloor = (
+  scene: Scene,
+  size: number = ROOM_SIZE,
+  isMirror: boolean = false,
+  depth: number = size
+): Mesh => {
   const floor = MeshBuilder.CreateGround(
     WALL_NAMES.FLOOR,
-    { width: ROOM_SIZE, height: ROOM_SIZE },
+    { width: size, height: depth },
     scene
   );
 
@@ -139,8 +166,9 @@ export const createFloor = (scene: Scene): Mesh => {
   if (gridTexture) {
     floorMat.diffuseTexture = gridTexture;
     if (floorMat.diffuseTexture) {
-      (floorMat.diffuseTexture as any).uScale = 1;
-      (floorMat.diffuseTexture as any).vScale = 1;
+      // Repeat the 20-unit grid so cells stay one unit wide on larger floors
+      (floorMat.diffuseTexture as any).uScale = size / ROOM_SIZE;
+      (floorMat.diffuseTexture as any).vScale = depth / ROOM_SIZE;
     }
     floorMat.specularColor = new Color3(0, 0, 0); // No specular
     floorMat.emissiveColor = new Color3(0.1, 0.1, 0.1); // Slight emissive for visibility
@@ -156,23 +184,50 @@ export const createFloor = (scene: Scene): Mesh => {
   floor.material.backFaceCulling = false; // Ensure visible from both sides
   floor.isPickable = false; // Room geometry should not be selectable
 
+  applyFloorMirrorAppearance(floor, isMirror);
+
   // Mark as renderable so it appears in both views
   markAsRenderable(floor);
 
   return floor;
 };
 
+/**
+ * Switches the ceiling between plain white and mirror blue-grey
+ */
+const applyCeilingMirrorAppearance = (
+  ceiling: Mesh,
+  isMirror: boolean
+): void => {
+  if (!(ceiling.material instanceof StandardMaterial)) {
+    return;
+  }
+
+  const color = isMirror
+    ? new Color3(0.55, 0.55, 0.75) // Light blue-grey like mirror walls
+    : new Color3(0.9, 0.9, 0.9); // Slightly dimmed white for comfortable viewing
+  ceiling.material.emissiveColor = color;
+  ceiling.material.diffuseColor = color;
+};
+
 /**
  * Creates the ceiling mesh
  */
-export const createCeiling = (scene: Scene, includeInRenderLayer: boolean = true): Mesh => {
+export const createCeiling = (
+  scene: Scene,
+  includeInRenderLayer: boolean = true,
+  size: number = ROOM_SIZE,
+  height: number = WALL_HEIGHT,
+  isMirror: boolean = false,
+  depth: number = size
+): Mesh => {
   const ceiling = MeshBuilder.CreateGround(
     WALL_NAMES.CEILING,
-    { width: ROOM_SIZE, height: ROOM_SIZE },
+    { width: size, height: depth },
     scene
   );
 
-  ceiling.position.y = WALL_HEIGHT;
+  ceiling.position.y = height;
   ceiling.material = createEmissiveMaterial(
     'ceilingMaterial',
     scene,
@@ -181,6 +236,8 @@ export const createCeiling = (scene: Scene, includeInRenderLayer: boolean = true
   ceiling.material.backFaceCulling = false; // Ensure visible from both sides
   ceiling.isPickable = false; // Room geometry should not be selectable
 
+  applyCeilingMirrorAppearance(ceiling, isMirror);
+
   // Flip ceiling to face downward
   ceiling.rotation.x = Math.PI;
 
@@ -192,6 +249,62 @@ export const createCeiling = (scene: Scene, includeInRenderLayer: boolean = true
   return ceiling;
 };
 
+/**
+ * Creates the material for a wall - different color for reflective walls
+ */
+const createWallMaterial = (
+  name: string,
+  scene: Scene,
+  isReflective: boolean
+): StandardMaterial => {
+  if (isReflective) {
+    // Light blue-grey for reflective walls (will be replaced with mirror material in render scene)
+    return createMatteMaterial(
+      `${name}Material`,
+      scene,
+      {
+        r: 0.55,
+        g: 0.55,
+        b: 0.75,
+      },
+      0.01
+    ); // 99% transparent (1% opacity)
+  }
+
+  // Standard grey for non-reflective walls
+  return createMatteMaterial(
+    `${name}Material`,
+    scene,
+    {
+      r: 0.65,
+      g: 0.65,
+      b: 0.65,
+    },
+    0.01
+  ); // 99% transparent (1% opacity)
+};
+
+/**
+ * Applies the mirror or plain wall material and outline to a wall mesh
+ */
+const applyWallMirrorAppearance = (wall: Mesh, isReflective: boolean): void => {
+  const previousMaterial = wall.material;
+  wall.material = createWallMaterial(wall.name, wall.getScene(), isReflective);
+  previousMaterial?.dispose();
+
+  // Ensure walls are visible from inside (disable backface culling)
+  wall.material.backFaceCulling = false;
+
+  // Outline mirror walls so they stand out from plain walls
+  if (isReflective) {
+    wall.enableEdgesRendering();
+    wall.edgesWidth = 4.0;
+    wall.edgesColor = MIRROR_EDGE_COLOR.clone();
+  } else {
+    wall.disableEdgesRendering();
+  }
+};
+
 /**
  * Creates a wall mesh with specified position and rotation
  */
@@ -201,13 +314,15 @@ export const createWall = (
   name: string,
   scene: Scene,
   isReflective: boolean = false,
-  includeInRenderLayer: boolean = true
+  includeInRenderLayer: boolean = true,
+  width: number = ROOM_SIZE,
+  height: number = WALL_HEIGHT
 ): Mesh => {
   const wall = MeshBuilder.CreateBox(
     name,
     {
-      width: ROOM_SIZE,
-      height: WALL_HEIGHT,
+      width,
+      height,
       depth: WALL_THICKNESS,
     },
     scene
@@ -223,26 +338,10 @@ export const createWall = (
   wall.rotation.y = rotation.y;
   wall.rotation.z = rotation.z;
 
-  // Apply material - different color for reflective walls
-  if (isReflective) {
-    // Light blue-grey for reflective walls (will be replaced with mirror material in render scene)
-    wall.material = createMatteMaterial(`${name}Material`, scene, {
-      r: 0.55,
-      g: 0.55,
-      b: 0.75,
-    }, 0.01); // 99% transparent (1% opacity)
-  } else {
-    // Standard grey for non-reflective walls
-    wall.material = createMatteMaterial(`${name}Material`, scene, {
-      r: 0.65,
-      g: 0.65,
-      b: 0.65,
-    }, 0.01); // 99% transparent (1% opacity)
-  }
   wall.isPickable = false; // Room geometry should not be selectable
-  
-  // Ensure walls are visible from inside (disable backface culling)
-  wall.material.backFaceCulling = false;
+
+  // Apply material and mirror outline
+  applyWallMirrorAppearance(wall, isReflective);
 
   // Mark as renderable only if requested
   if (includeInRenderLayer) {
@@ -253,52 +352,45 @@ export const createWall = (
 };
 
 /**
- * Creates wall position for center of wall at room edge
+ * Creates the mesh for a wall definition, centred vertically on the wall
  */
-const createWallPosition = (x: number, z: number): Position => ({
-  x,
-  y: WALL_HEIGHT / 2,
-  z,
-});
+const createWallFromDefinition = (
+  definition: WallDefinition,
+  scene: Scene,
+  includeInRenderLayer: boolean
+): Mesh =>
+  createWall(
+    {
+      x: definition.position.x,
+      y: definition.position.y + definition.height / 2,
+      z: definition.position.z,
+    },
+    { x: 0, y: getWallRotationY(definition), z: 0 },
+    definition.meshName,
+    scene,
+    definition.isMirror,
+    includeInRenderLayer,
+    definition.width,
+    definition.height
+  );
 
 /**
  * Creates all walls for the room
  */
-const createWalls = (scene: Scene, includeInRenderLayer: boolean = true): RoomConfig['walls'] => {
-  const walls = {
-    north: createWall(
-      createWallPosition(0, ROOM_HALF),
-      { x: 0, y: 0, z: 0 },
-      WALL_NAMES.NORTH,
-      scene,
-      true, // reflective
-      includeInRenderLayer
-    ),
-    south: createWall(
-      createWallPosition(0, -ROOM_HALF),
-      { x: 0, y: Math.PI, z: 0 },
-      WALL_NAMES.SOUTH,
-      scene,
-      false, // non-reflective
-      includeInRenderLayer
-    ),
-    east: createWall(
-      createWallPosition(ROOM_HALF, 0),
-      { x: 0, y: Math.PI / 2, z: 0 },
-      WALL_NAMES.EAST,
-      scene,
-      true, // reflective
-      includeInRenderLayer
-    ),
-    west: createWall(
-      createWallPosition(-ROOM_HALF, 0),
-      { x: 0, y: -Math.PI / 2, z: 0 },
-      WALL_NAMES.WEST,
+const createWalls = (
+  scene: Scene,
+  room: RoomDefinition,
+  includeInRenderLayer: boolean = true
+): RoomConfig['walls'] => {
+  const walls: RoomConfig['walls'] = {};
+
+  room.walls.forEach((definition) => {
+    walls[definition.id] = createWallFromDefinition(
+      definition,
       scene,
-      true, // reflective
       includeInRenderLayer
-    ),
-  };
+    );
+  });
 
   return walls;
 };
@@ -308,12 +400,35 @@ const createWalls = (scene: Scene, includeInRenderLayer: boolean = true): RoomCo
  *
  * @param scene - The scene to add the room to
  * @param includeWallsAndCeiling - Whether to include walls and ceiling in render layer (default: true)
+ * @param room - Room definition describing walls and mirrors
  * @returns Room configuration with all meshes
  */
-export const createRoom = (scene: Scene, includeWallsAndCeiling: boolean = true): RoomConfig => {
-  const floor = createFloor(scene);
-  const ceiling = createCeiling(scene, includeWallsAndCeiling);
-  const walls = createWalls(scene, includeWallsAndCeiling);
+export const createRoom = (
+  scene: Scene,
+  includeWallsAndCeiling: boolean = true,
+  room: RoomDefinition = createRoomDefinition()
+): RoomConfig => {
+  const floor = createFloor(
+    scene,
+    room.floor.width,
+    room.floor.isMirror,
+    room.floor.height
+  );
+  const ceiling = createCeiling(
+    scene,
+    includeWallsAndCeiling,
+    room.ceiling.width,
+    room.height,
+    room.ceiling.isMirror,
+    room.ceiling.height
+  );
+  const walls = createWalls(scene, room, includeWallsAndCeiling);
+
+  // Centre floor and ceiling under rooms that are not centred on the origin
+  floor.position.x = room.floor.position.x;
+  floor.position.z = room.floor.position.z;
+  ceiling.position.x = room.ceiling.position.x;
+  ceiling.position.z = room.ceiling.position.z;
 
   return {
     floor,
@@ -321,3 +436,34 @@ export const createRoom = (scene: Scene, includeWallsAndCeiling: boolean = true)
     walls,
   };
 };
+
+/**
+ * Updates wall, floor and ceiling appearance after mirror flags change
+ *
+ * @param roomConfig - Room configuration returned by createRoom
+ * @param room - Room definition with the new mirror flags
+ */
+export const updateRoomMirrors = (
+  roomConfig: RoomConfig,
+  room: RoomDefinition
+): void => {
+  room.walls.forEach((definition) => {
+    const wall = roomConfig.walls[definition.id];
+    if (wall) {
+      applyWallMirrorAppearance(wall, definition.isMirror);
+    }
+  });
+  applyFloorMirrorAppearance(roomConfig.floor, room.floor.isMirror);
+  applyCeilingMirrorAppearance(roomConfig.ceiling, room.ceiling.isMirror);
+};
+
+/**
+ * Disposes every mesh of a room, e.g. before building a different shape
+ *
+ * @param roomConfig - Room configuration returned by createRoom
+ */
+export const disposeRoom = (roomConfig: RoomConfig): void => {
+  Object.values(roomConfig.walls).forEach((wall) => wall.dispose(false, true));
+  roomConfig.floor.dispose(false, true);
+  roomConfig.ceiling.dispose(false, true);
+};
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { Vector3, StandardMaterial, Color3 } from 'babylonjs';
+import {
+  createSceneObjectMesh,
+  createSceneObjectObstacle,
+  setObjectMaterial,
+} from './createSceneObject';
+import { setupCanvasMock } from '../test-utils/mockCanvas';
+import { createEditorScene } from '../editor/createEditorScene';
+import { CHIRAL_OBJECT_KINDS, OBJECT_KINDS } from '../state/objectsState';
+import type { SceneConfig } from '../types';
+
+describe('createSceneObject', () => {
+  let sceneConfig: SceneConfig;
+
+  beforeEach(() => {
+    setupCanvasMock();
+    sceneConfig = createEditorScene(document.createElement('canvas'));
+  });
+
+  afterEach(() => {
+    sceneConfig.dispose();
+  });
+
+  // Spheres and labels need a dynamic texture, which the mock canvas can't create
+  it('should build every shape as one pickable mesh named by its id', () => {
+    OBJECT_KINDS.filter(
+      (kind) => kind !== 'sphere' && kind !== 'label'
+    ).forEach((kind) => {
+      const mesh = createSceneObjectMesh(
+        sceneConfig.scene,
+        { id: `${kind}-1`, kind, color: '#ff0000' },
+        new Vector3(2, 5, 1),
+        new Vector3(0, 1, 0)
+      );
+
+      expect(sceneConfig.scene.getMeshByName(`${kind}-1`)).toBe(mesh);
+      expect(mesh.position.asArray()).toEqual([2, 5, 1]);
+      expect(mesh.rotation.y).toBe(1);
+      expect(mesh.isPickable).toBe(true);
+
+      // Seen from above, shapes stay within the sphere's radius at any turn
+      const positions = mesh.getVerticesData('position') ?? [];
+      const reach = Math.max(
+        ...positions
+          .filter((_, index) => index % 3 === 0)
+          .map((x, vertex) => Math.hypot(x, positions[vertex * 3 + 2]))
+      );
+      expect(reach).toBeLessThanOrEqual(1.001);
+    });
+  });
+
+  it('should build chiral shapes that differ from their mirror image', () => {
+    CHIRAL_OBJECT_KINDS.filter((kind) => kind !== 'label').forEach((kind) => {
+      const mesh = createSceneObjectMesh(
+        sceneConfig.scene,
+        { id: `${kind}-1`, kind, color: null },
+        Vector3.Zero(),
+        Vector3.Zero()
+      );
+      const positions = mesh.getVerticesData('position') ?? [];
+      const toKeys = (flipX: number): Set<string> =>
+        new Set(
+          Array.from({ length: positions.length / 3 }, (_, vertex) =>
+            [
+              positions[vertex * 3] * flipX,
+              positions[vertex * 3 + 1],
+              positions[vertex * 3 + 2],
+            ]
+              .map((value) => value.toFixed(3))
+              .join(',')
+          )
+        );
+
+      const mirrored = toKeys(-1);
+      expect(
+        [...toKeys(1)].every((key) => mirrored.has(key)),
+        `${kind} matches its mirror image`
+      ).toBe(false);
+    });
+  });
+
+  it('should describe a shape as the box around it where it stands', () => {
+    const object = { id: 'cube-1', kind: 'cube' as const, color: '#ff0000' };
+    const cube = createSceneObjectMesh(
+      sceneConfig.scene,
+      object,
+      new Vector3(2, 5, 1),
+      new Vector3(0, 1, 0)
+    );
+
+    const obstacle = createSceneObjectObstacle(cube, object);
+
+    expect(obstacle).toMatchObject({
+      kind: 'box',
+      id: 'cube-1',
+      rotationY: 1,
+      isMirror: false,
+    });
+    expect(obstacle.center.asArray()).toEqual([2, 5, 1]);
+    expect(obstacle.kind === 'box' && obstacle.size.asArray()).toEqual([
+      1.4, 1.4, 1.4,
+    ]);
+  });
+
+  it('should swap in a material with the new colour', () => {
+    const cube = createSceneObjectMesh(
+      sceneConfig.scene,
+      { id: 'cube-1', kind: 'cube', color: '#ff0000' },
+      Vector3.Zero(),
+      Vector3.Zero()
+    );
+    const previous = cube.material;
+
+    setObjectMaterial(cube, { id: 'cube-1', kind: 'cube', color: '#0000ff' });
+
+    expect(cube.material).not.toBe(previous);
+    expect((cube.material as StandardMaterial).diffuseColor).toEqual(
+      new Color3(0, 0, 1)
+    );
+  });
+});
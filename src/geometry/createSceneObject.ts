@@ -0,0 +1,424 @@
+// ABOUTME: Pure functions to build the mesh of a placeable object from its shape and colour
+// ABOUTME: Seen from above every shape fits the sphere's 2-unit circle, so wall clearance still holds
+
+import {
+  MeshBuilder,
+  Scene,
+  Mesh,
+  Vector3,
+  Vector4,
+  StandardMaterial,
+  Color3,
+  Color4,
+  DynamicTexture,
+  VertexBuffer,
+} from 'babylonjs';
+import { createSphere, createSphereMaterial } from './createSphere';
+import { markAsRenderable } from '../utils/applyLayerMask';
+import type { SceneObject } from '../state/objectsState';
+import type { Obstacle } from '../rays/types';
+
+/**
+ * Cube edge, short enough for its corners to stay within the sphere's radius when turned
+ */
+const CUBE_SIZE = 1.4;
+
+/**
+ * Arrow dimensions along its length (it points along +Z)
+ */
+const ARROW_SHAFT_LENGTH = 1.1;
+const ARROW_SHAFT_DIAMETER = 0.4;
+const ARROW_HEAD_LENGTH = 0.8;
+const ARROW_HEAD_DIAMETER = 1;
+
+/**
+ * Stroke thickness of the block letter
+ */
+const LETTER_STROKE = 0.4;
+const LETTER_SIZE = 1.6;
+
+/**
+ * Stripe along the right side of the striped arrow's shaft
+ */
+const STRIPE_WIDTH = 0.3;
+const STRIPE_THICKNESS = 0.1;
+const STRIPE_LENGTH = 0.8;
+const STRIPE_SHADE = new Color4(0.15, 0.15, 0.15, 1); // Darkens the object's colour
+
+/**
+ * Thickness of the flat hand, and its palm size
+ */
+const HAND_THICKNESS = 0.25;
+const HAND_PALM_SIZE = 0.8;
+
+/**
+ * Fingers of a left hand lying palm down, little finger first: x offset and length
+ */
+const HAND_FINGERS = [
+  { x: -0.3, length: 0.5 },
+  { x: -0.1, length: 0.65 },
+  { x: 0.1, length: 0.7 },
+  { x: 0.3, length: 0.65 },
+] as const;
+const HAND_FINGER_WIDTH = 0.16;
+
+/**
+ * Text plate of the label, and the text it shows
+ */
+const LABEL_WIDTH = 1.8;
+const LABEL_HEIGHT = 0.6;
+const LABEL_DEPTH = 0.1;
+const LABEL_TEXT = 'ABC';
+const LABEL_TEXTURE_WIDTH = 512;
+const LABEL_TEXTURE_HEIGHT = 170; // Matches the plate's aspect ratio
+
+/**
+ * Colour used for shapes without one of their own
+ */
+const DEFAULT_OBJECT_COLOR = new Color3(0.8, 0.8, 0.8);
+
+/**
+ * Draws the label text on the object's colour
+ */
+const createLabelTexture = (
+  scene: Scene,
+  object: SceneObject
+): DynamicTexture => {
+  const texture = new DynamicTexture(
+    `${object.id}Text`,
+    { width: LABEL_TEXTURE_WIDTH, height: LABEL_TEXTURE_HEIGHT },
+    scene
+  );
+  texture.drawText(
+    LABEL_TEXT,
+    null, // Centred
+    LABEL_TEXTURE_HEIGHT * 0.75,
+    `bold ${LABEL_TEXTURE_HEIGHT * 0.7}px sans-serif`,
+    '#111111',
+    object.color ?? DEFAULT_OBJECT_COLOR.toHexString(),
+    true
+  );
+  return texture;
+};
+
+/**
+ * Creates the material for an object: its colour, or the gradient for a sphere without one
+ * Labels show their text on their colour
+ *
+ * @param scene - The scene the material belongs to
+ * @param object - Object to colour
+ * @returns Material for the object's mesh
+ */
+export const createObjectMaterial = (
+  scene: Scene,
+  object: SceneObject
+): StandardMaterial => {
+  if (object.color === null && object.kind === 'sphere') {
+    return createSphereMaterial(scene);
+  }
+
+  const material = new StandardMaterial(`${object.id}Material`, scene);
+  if (object.kind === 'label') {
+    material.diffuseTexture = createLabelTexture(scene, object);
+  } else {
+    material.diffuseColor = object.color
+      ? Color3.FromHexString(object.color)
+      : DEFAULT_OBJECT_COLOR.clone();
+  }
+  material.specularColor = new Color3(0.5, 0.5, 0.5);
+  material.specularPower = 32;
+  material.emissiveColor = new Color3(0.1, 0.1, 0.1); // Slight glow, as on the sphere
+  return material;
+};
+
+/**
+ * Joins shape parts into one mesh, so picking and images treat them as one object
+ */
+const mergeParts = (name: string, parts: Mesh[]): Mesh => {
+  const merged = Mesh.MergeMeshes(parts, true);
+  if (!merged) {
+    throw new Error(`Could not build the mesh for ${name}`);
+  }
+  merged.name = name;
+  merged.id = name;
+  return merged;
+};
+
+/**
+ * Shades every vertex of a part, so one merged mesh can show a stripe in its own material
+ */
+const shadePart = (part: Mesh, shade: Color4): Mesh => {
+  const colors = Array.from({ length: part.getTotalVertices() }, () =>
+    shade.asArray()
+  ).flat();
+  part.setVerticesData(VertexBuffer.ColorKind, colors);
+  return part;
+};
+
+/**
+ * Builds the parts of an arrow pointing along +Z, centred on its middle
+ */
+const createArrowParts = (name: string, scene: Scene): Mesh[] => {
+  const length = ARROW_SHAFT_LENGTH + ARROW_HEAD_LENGTH;
+
+  const shaft = MeshBuilder.CreateCylinder(
+    `${name}Shaft`,
+    { height: ARROW_SHAFT_LENGTH, diameter: ARROW_SHAFT_DIAMETER },
+    scene
+  );
+  shaft.rotation.x = Math.PI / 2;
+  shaft.position.z = (ARROW_SHAFT_LENGTH - length) / 2;
+
+  const head = MeshBuilder.CreateCylinder(
+    `${name}Head`,
+    {
+      height: ARROW_HEAD_LENGTH,
+      diameterTop: 0,
+      diameterBottom: ARROW_HEAD_DIAMETER,
+    },
+    scene
+  );
+  head.rotation.x = Math.PI / 2;
+  head.position.z = (length - ARROW_HEAD_LENGTH) / 2;
+
+  return [shaft, head];
+};
+
+/**
+ * Builds an arrow pointing along +Z with a dark stripe along the right (+X) side of its shaft
+ */
+const createStripedArrow = (name: string, scene: Scene): Mesh => {
+  const parts = createArrowParts(name, scene);
+  const [shaft] = parts;
+
+  const stripe = MeshBuilder.CreateBox(
+    `${name}Stripe`,
+    { width: STRIPE_WIDTH, height: STRIPE_THICKNESS, depth: STRIPE_LENGTH },
+    scene
+  );
+  stripe.position.x = (ARROW_SHAFT_DIAMETER + STRIPE_WIDTH) / 2;
+  stripe.position.z = shaft.position.z;
+
+  const white = new Color4(1, 1, 1, 1);
+  return mergeParts(name, [
+    ...parts.map((part) => shadePart(part, white)),
+    shadePart(stripe, STRIPE_SHADE),
+  ]);
+};
+
+/**
+ * Builds a block letter T standing upright and facing +Z
+ */
+const createLetter = (name: string, scene: Scene): Mesh => {
+  const bar = MeshBuilder.CreateBox(
+    `${name}Bar`,
+    { width: LETTER_SIZE, height: LETTER_STROKE, depth: LETTER_STROKE },
+    scene
+  );
+  bar.position.y = (LETTER_SIZE - LETTER_STROKE) / 2;
+
+  const stem = MeshBuilder.CreateBox(
+    `${name}Stem`,
+    {
+      width: LETTER_STROKE,
+      height: LETTER_SIZE - LETTER_STROKE,
+      depth: LETTER_STROKE,
+    },
+    scene
+  );
+  stem.position.y = -LETTER_STROKE / 2;
+
+  return mergeParts(name, [bar, stem]);
+};
+
+/**
+ * Builds a block letter F standing upright and facing +Z, its bars pointing right (+X)
+ */
+const createLetterF = (name: string, scene: Scene): Mesh => {
+  const width = LETTER_SIZE * 0.75;
+
+  const stem = MeshBuilder.CreateBox(
+    `${name}Stem`,
+    { width: LETTER_STROKE, height: LETTER_SIZE, depth: LETTER_STROKE },
+    scene
+  );
+  stem.position.x = (LETTER_STROKE - width) / 2;
+
+  const top = MeshBuilder.CreateBox(
+    `${name}Top`,
+    { width, height: LETTER_STROKE, depth: LETTER_STROKE },
+    scene
+  );
+  top.position.y = (LETTER_SIZE - LETTER_STROKE) / 2;
+
+  const middleWidth = width * 0.75;
+  const middle = MeshBuilder.CreateBox(
+    `${name}Middle`,
+    { width: middleWidth, height: LETTER_STROKE, depth: LETTER_STROKE },
+    scene
+  );
+  middle.position.x = (middleWidth - width) / 2;
+
+  return mergeParts(name, [stem, top, middle]);
+};
+
+/**
+ * Builds a left hand lying palm down, fingers along +Z and thumb towards +X
+ */
+const createHand = (name: string, scene: Scene): Mesh => {
+  const palm = MeshBuilder.CreateBox(
+    `${name}Palm`,
+    { width: HAND_PALM_SIZE, height: HAND_THICKNESS, depth: HAND_PALM_SIZE },
+    scene
+  );
+  const palmFront = 0.15;
+  palm.position.z = palmFront - HAND_PALM_SIZE / 2;
+
+  const fingers = HAND_FINGERS.map(({ x, length }, index) => {
+    const finger = MeshBuilder.CreateBox(
+      `${name}Finger${index}`,
+      { width: HAND_FINGER_WIDTH, height: HAND_THICKNESS, depth: length },
+      scene
+    );
+    finger.position.set(x, 0, palmFront + length / 2);
+    return finger;
+  });
+
+  const thumb = MeshBuilder.CreateBox(
+    `${name}Thumb`,
+    { width: 0.18, height: HAND_THICKNESS, depth: 0.5 },
+    scene
+  );
+  thumb.position.set(0.5, 0, -0.15);
+  thumb.rotation.y = Math.PI / 4; // Spread out and forwards
+
+  return mergeParts(name, [palm, ...fingers, thumb]);
+};
+
+/**
+ * Builds the label plate standing upright, its text on the faces towards ±Z
+ * The other faces show a corner of the texture, which is plain colour
+ */
+const createLabel = (name: string, scene: Scene): Mesh => {
+  const text = new Vector4(0, 0, 1, 1);
+  const plain = new Vector4(0, 0, 0.01, 0.01);
+  return MeshBuilder.CreateBox(
+    name,
+    {
+      width: LABEL_WIDTH,
+      height: LABEL_HEIGHT,
+      depth: LABEL_DEPTH,
+      faceUV: [text, text, plain, plain, plain, plain],
+    },
+    scene
+  );
+};
+
+/**
+ * Builds the mesh of a shape other than the sphere
+ */
+const createShape = (
+  name: string,
+  kind: Exclude<SceneObject['kind'], 'sphere'>,
+  scene: Scene
+): Mesh => {
+  switch (kind) {
+    case 'cube':
+      return MeshBuilder.CreateBox(name, { size: CUBE_SIZE }, scene);
+    case 'arrow':
+      return mergeParts(name, createArrowParts(name, scene));
+    case 'letter':
+      return createLetter(name, scene);
+    case 'letterF':
+      return createLetterF(name, scene);
+    case 'hand':
+      return createHand(name, scene);
+    case 'stripedArrow':
+      return createStripedArrow(name, scene);
+    case 'label':
+      return createLabel(name, scene);
+  }
+};
+
+/**
+ * Replaces an object mesh's material after its colour changed
+ *
+ * @param mesh - Mesh created by createSceneObjectMesh
+ * @param object - Object with its new colour
+ */
+export const setObjectMaterial = (mesh: Mesh, object: SceneObject): void => {
+  const previous = mesh.material;
+  mesh.material = createObjectMaterial(mesh.getScene(), object);
+  previous?.dispose(false, true);
+};
+
+/**
+ * Creates the mesh for a placeable object, named by the object's id
+ *
+ * @param scene - The scene to add the object to
+ * @param object - Object to build
+ * @param position - Initial position vector
+ * @param rotation - Initial rotation vector
+ * @returns Pickable mesh shown in both views
+ */
+export const createSceneObjectMesh = (
+  scene: Scene,
+  object: SceneObject,
+  position: Vector3,
+  rotation: Vector3
+): Mesh => {
+  if (object.kind === 'sphere') {
+    const sphere = createSphere(scene, position, rotation, object.id);
+    if (object.color !== null) {
+      setObjectMaterial(sphere, object);
+    }
+    return sphere;
+  }
+
+  const mesh = createShape(object.id, object.kind, scene);
+
+  mesh.position.copyFrom(position);
+  mesh.rotation.copyFrom(rotation);
+  mesh.material = createObjectMaterial(scene, object);
+  mesh.isPickable = true;
+  markAsRenderable(mesh);
+
+  return mesh;
+};
+
+/**
+ * Describes an object's mesh as an obstacle for ray tracing:
+ * a sphere for the sphere, and the box around its parts for other shapes
+ *
+ * @param mesh - Mesh created by createSceneObjectMesh
+ * @param object - Object the mesh shows
+ * @returns Obstacle where the mesh is now, with the object's id
+ */
+export const createSceneObjectObstacle = (
+  mesh: Mesh,
+  object: SceneObject
+): Obstacle => {
+  const { center, extendSize } = mesh.getBoundingInfo().boundingBox;
+  const worldCenter = Vector3.TransformCoordinates(
+    center,
+    mesh.computeWorldMatrix(true)
+  );
+
+  if (object.kind === 'sphere') {
+    return {
+      kind: 'sphere',
+      id: object.id,
+      center: worldCenter,
+      radius: extendSize.x,
+      isMirror: false,
+    };
+  }
+  return {
+    kind: 'box',
+    id: object.id,
+    center: worldCenter,
+    size: extendSize.scale(2),
+    rotationY: mesh.rotation.y,
+    isMirror: false,
+  };
+};
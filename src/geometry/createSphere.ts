@@ -1,8 +1,9 @@
 // ABOUTME: Pure function to create an interactive sphere with smooth color gradient
 // ABOUTME: Returns configured sphere mesh with seamless color transitions
 
-import { MeshBuilder, Scene, Mesh, Vector3, StandardMaterial, Color3, DynamicTexture } from 'babylonjs';
+import { MeshBuilder, Scene, Mesh, Vector3, StandardMaterial, Color3, DynamicTexture, VertexData } from 'babylonjs';
 import { markAsRenderable } from '../utils/applyLayerMask';
+import { OBJECT_IDS } from '../constants';
 
 /**
  * Sphere dimensions
@@ -36,21 +37,38 @@ const createGradientTexture = (scene: Scene): DynamicTexture => {
   return texture;
 };
 
+/**
+ * Creates the gradient material the rays' colours are matched to
+ *
+ * @param scene - The scene the material belongs to
+ * @returns Gradient material
+ */
+export const createSphereMaterial = (scene: Scene): StandardMaterial => {
+  const material = new StandardMaterial('sphereMaterial', scene);
+  material.diffuseTexture = createGradientTexture(scene);
+  material.specularColor = new Color3(0.5, 0.5, 0.5);
+  material.specularPower = 32;
+  material.emissiveColor = new Color3(0.1, 0.1, 0.1); // Slight glow
+  return material;
+};
+
 /**
  * Creates and configures the interactive sphere
  *
  * @param scene - The scene to add the sphere to
  * @param position - Initial position vector
  * @param rotation - Initial rotation vector
+ * @param name - Mesh name, which is also the object id (default: the gradient sphere)
  * @returns Configured sphere mesh
  */
 export const createSphere = (
   scene: Scene,
   position: Vector3,
-  rotation: Vector3
+  rotation: Vector3,
+  name: string = OBJECT_IDS.SPHERE
 ): Mesh => {
   const sphere = MeshBuilder.CreateSphere(
-    'colorSphere',
+    name,
     {
       diameter: SPHERE_DIAMETER,
       segments: SPHERE_SEGMENTS,
@@ -63,12 +81,7 @@ export const createSphere = (
   sphere.rotation.copyFrom(rotation);
 
   // Create material with gradient texture
-  const material = new StandardMaterial('sphereMaterial', scene);
-  material.diffuseTexture = createGradientTexture(scene);
-  material.specularColor = new Color3(0.5, 0.5, 0.5);
-  material.specularPower = 32;
-  material.emissiveColor = new Color3(0.1, 0.1, 0.1); // Slight glow
-  sphere.material = material;
+  sphere.material = createSphereMaterial(scene);
 
   // Make sphere pickable for interaction
   sphere.isPickable = true;
@@ -78,3 +91,17 @@ export const createSphere = (
 
   return sphere;
 };
+
+/**
+ * Rebuilds the sphere's geometry with a different tessellation
+ * Position, rotation, material and meshes sharing the geometry are kept
+ *
+ * @param sphere - Sphere created by createSphere
+ * @param segments - Number of horizontal segments
+ */
+export const setSphereSegments = (sphere: Mesh, segments: number): void => {
+  VertexData.CreateSphere({
+    diameter: SPHERE_DIAMETER,
+    segments,
+  }).applyToMesh(sphere);
+};
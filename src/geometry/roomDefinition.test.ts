@@ -0,0 +1,306 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'babylonjs';
+import {
+  createPolygonRoomDefinition,
+  createRoomDefinition,
+  getWallReflectionMatrix,
+  isPointInsideRoom,
+  getMirrorWallDefinitions,
+  getWallById,
+  getWallRotationY,
+  getRoomSurfaces,
+  reflectPointAcrossWall,
+  setWallMirror,
+} from './roomDefinition';
+import { ROOM_HALF, ROOM_SIZE, WALL_NAMES } from '../constants';
+
+describe('roomDefinition', () => {
+  describe('createRoomDefinition', () => {
+    it('should describe four walls of the default room', () => {
+      const room = createRoomDefinition();
+
+      expect(room.size).toBe(ROOM_SIZE);
+      expect(room.walls.map((wall) => wall.id)).toEqual([
+        'north',
+        'south',
+        'east',
+        'west',
+      ]);
+    });
+
+    it('should place walls on the room boundary with inward normals', () => {
+      const room = createRoomDefinition();
+      const north = getWallById(room, 'north');
+      const west = getWallById(room, 'west');
+
+      expect(north.position.z).toBe(ROOM_HALF);
+      expect(north.normal.z).toBe(-1);
+      expect(west.position.x).toBe(-ROOM_HALF);
+      expect(west.normal.x).toBe(1);
+    });
+
+    it('should give every wall the full room extent', () => {
+      const room = createRoomDefinition();
+
+      room.walls.forEach((wall) => {
+        expect(wall.width).toBe(ROOM_SIZE);
+        expect(wall.height).toBe(ROOM_SIZE);
+      });
+    });
+
+    it('should default to north, east and west mirrors', () => {
+      const room = createRoomDefinition();
+
+      expect(getMirrorWallDefinitions(room).map((wall) => wall.id)).toEqual([
+        'north',
+        'east',
+        'west',
+      ]);
+    });
+
+    it('should accept a custom mirror set and size', () => {
+      const room = createRoomDefinition(10, [WALL_NAMES.SOUTH]);
+
+      expect(getWallById(room, 'south').isMirror).toBe(true);
+      expect(getWallById(room, 'north').isMirror).toBe(false);
+      expect(getWallById(room, 'east').position.x).toBe(5);
+    });
+
+    it('should return immutable definitions', () => {
+      const room = createRoomDefinition();
+
+      expect(Object.isFrozen(room)).toBe(true);
+      expect(Object.isFrozen(room.walls)).toBe(true);
+      expect(Object.isFrozen(room.walls[0])).toBe(true);
+    });
+  });
+
+  describe('getRoomSurfaces', () => {
+    it('should list walls followed by floor and ceiling', () => {
+      const room = createRoomDefinition();
+      const ids = getRoomSurfaces(room).map((surface) => surface.id);
+
+      expect(ids).toEqual([
+        'north',
+        'south',
+        'east',
+        'west',
+        'floor',
+        'ceiling',
+      ]);
+      expect(room.floor.normal.y).toBe(1);
+      expect(room.ceiling.position.y).toBe(room.height);
+    });
+  });
+
+  describe('setWallMirror', () => {
+    it('should turn a plain wall into a mirror', () => {
+      const room = createRoomDefinition();
+      const updated = setWallMirror(room, 'south', true);
+
+      expect(getWallById(updated, 'south').isMirror).toBe(true);
+      expect(getWallById(room, 'south').isMirror).toBe(false);
+    });
+
+    it('should toggle the floor and ceiling', () => {
+      const room = setWallMirror(
+        setWallMirror(createRoomDefinition(), 'floor', true),
+        'north',
+        false
+      );
+
+      expect(room.floor.isMirror).toBe(true);
+      expect(getMirrorWallDefinitions(room).map((wall) => wall.id)).toEqual([
+        'east',
+        'west',
+        'floor',
+      ]);
+    });
+
+    it('should return same room if flag unchanged or wall unknown', () => {
+      const room = createRoomDefinition();
+
+      expect(setWallMirror(room, 'north', true)).toBe(room);
+      expect(setWallMirror(room, 'nowhere', true)).toBe(room);
+    });
+
+    it('should keep untouched walls shared between definitions', () => {
+      const room = createRoomDefinition();
+      const updated = setWallMirror(room, 'south', true);
+
+      expect(updated.walls[0]).toBe(room.walls[0]);
+      expect(Object.isFrozen(updated)).toBe(true);
+    });
+  });
+
+  describe('getWallById', () => {
+    it('should return null for unknown walls', () => {
+      expect(getWallById(createRoomDefinition(), 'nowhere')).toBeNull();
+    });
+
+    it('should find the floor and ceiling', () => {
+      const room = createRoomDefinition();
+
+      expect(getWallById(room, 'floor')).toBe(room.floor);
+      expect(getWallById(room, 'ceiling')).toBe(room.ceiling);
+    });
+  });
+
+  describe('getWallRotationY', () => {
+    it('should turn each wall to face into the room', () => {
+      const room = createRoomDefinition();
+
+      expect(getWallRotationY(getWallById(room, 'north'))).toBeCloseTo(0);
+      expect(getWallRotationY(getWallById(room, 'south'))).toBeCloseTo(Math.PI);
+      expect(getWallRotationY(getWallById(room, 'east'))).toBeCloseTo(
+        Math.PI / 2
+      );
+      expect(getWallRotationY(getWallById(room, 'west'))).toBeCloseTo(
+        -Math.PI / 2
+      );
+    });
+  });
+
+  describe('reflectPointAcrossWall', () => {
+    it('should mirror points across each wall plane', () => {
+      const room = createRoomDefinition();
+      const point = new Vector3(2, 5, 3);
+
+      const north = reflectPointAcrossWall(point, getWallById(room, 'north'));
+      const east = reflectPointAcrossWall(point, getWallById(room, 'east'));
+      const west = reflectPointAcrossWall(point, getWallById(room, 'west'));
+
+      expect(north.z).toBeCloseTo(17);
+      expect(north.x).toBeCloseTo(2);
+      expect(east.x).toBeCloseTo(18);
+      expect(west.x).toBeCloseTo(-22);
+      expect(west.y).toBeCloseTo(5);
+    });
+  });
+
+  describe('createPolygonRoomDefinition', () => {
+    const triangle = [
+      new Vector3(0, 0, 0),
+      new Vector3(6, 0, 0),
+      new Vector3(0, 0, 6),
+    ];
+
+    it('should create one wall per outline edge', () => {
+      const room = createPolygonRoomDefinition(triangle);
+
+      expect(room.walls.map((wall) => wall.id)).toEqual([
+        'side1',
+        'side2',
+        'side3',
+      ]);
+      expect(room.walls[0].meshName).toBe('side1Wall');
+      expect(room.walls[0].label).toBe('Side 1');
+    });
+
+    it('should span each wall between its corners', () => {
+      const room = createPolygonRoomDefinition(triangle);
+      const hypotenuse = room.walls[1];
+
+      expect(hypotenuse.start?.x).toBe(6);
+      expect(hypotenuse.end?.z).toBe(6);
+      expect(hypotenuse.position.x).toBeCloseTo(3);
+      expect(hypotenuse.position.z).toBeCloseTo(3);
+      expect(hypotenuse.width).toBeCloseTo(6 * Math.SQRT2);
+    });
+
+    it('should point normals inwards for either winding', () => {
+      const clockwise = createPolygonRoomDefinition([...triangle].reverse());
+      const counterClockwise = createPolygonRoomDefinition(triangle);
+
+      [clockwise, counterClockwise].forEach((room) => {
+        room.walls.forEach((wall) => {
+          const inside = new Vector3(1, 0, 1).subtract(wall.position);
+          expect(Vector3.Dot(inside, wall.normal)).toBeGreaterThan(0);
+        });
+      });
+    });
+
+    it('should size floor and ceiling to the outline bounds', () => {
+      const room = createPolygonRoomDefinition(triangle, { height: 8 });
+
+      expect(room.floor.width).toBe(6);
+      expect(room.floor.height).toBe(6);
+      expect(room.floor.position.x).toBe(3);
+      expect(room.ceiling.position.y).toBe(8);
+      expect(room.size).toBe(6);
+    });
+
+    it('should mark the requested mirror walls', () => {
+      const room = createPolygonRoomDefinition(triangle, {
+        mirrorWalls: ['side2Wall', 'floor'],
+      });
+
+      expect(getMirrorWallDefinitions(room).map((wall) => wall.id)).toEqual([
+        'side2',
+        'floor',
+      ]);
+    });
+
+    it('should reject outlines that do not enclose an area', () => {
+      expect(() => createPolygonRoomDefinition(triangle.slice(0, 2))).toThrow(
+        'at least three corners'
+      );
+      expect(() =>
+        createPolygonRoomDefinition([
+          new Vector3(0, 0, 0),
+          new Vector3(1, 0, 0),
+          new Vector3(2, 0, 0),
+        ])
+      ).toThrow('enclose an area');
+    });
+  });
+
+  describe('getWallReflectionMatrix', () => {
+    it('should reflect points like reflectPointAcrossWall', () => {
+      const room = createPolygonRoomDefinition([
+        new Vector3(0, 0, 0),
+        new Vector3(6, 0, 0),
+        new Vector3(0, 0, 6),
+      ]);
+      const point = new Vector3(1, 2, 1);
+
+      room.walls.forEach((wall) => {
+        const expected = reflectPointAcrossWall(point, wall);
+        const actual = Vector3.TransformCoordinates(
+          point,
+          getWallReflectionMatrix(wall)
+        );
+        expect(actual.x).toBeCloseTo(expected.x);
+        expect(actual.y).toBeCloseTo(expected.y);
+        expect(actual.z).toBeCloseTo(expected.z);
+      });
+    });
+  });
+
+  describe('isPointInsideRoom', () => {
+    const lShape = createPolygonRoomDefinition([
+      new Vector3(-10, 0, -10),
+      new Vector3(2, 0, -10),
+      new Vector3(2, 0, -2),
+      new Vector3(10, 0, -2),
+      new Vector3(10, 0, 10),
+      new Vector3(-10, 0, 10),
+    ]);
+
+    it('should accept points inside the outline', () => {
+      expect(isPointInsideRoom(lShape, new Vector3(0, 5, -5))).toBe(true);
+      expect(isPointInsideRoom(lShape, new Vector3(6, 5, 6))).toBe(true);
+    });
+
+    it('should reject points in the missing corner', () => {
+      expect(isPointInsideRoom(lShape, new Vector3(6, 5, -6))).toBe(false);
+    });
+
+    it('should require clearance from the walls', () => {
+      const point = new Vector3(1.5, 0, -5);
+
+      expect(isPointInsideRoom(lShape, point)).toBe(true);
+      expect(isPointInsideRoom(lShape, point, 1)).toBe(false);
+    });
+  });
+});
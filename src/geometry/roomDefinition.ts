@@ -0,0 +1,426 @@
+// ABOUTME: Data-driven description of the room's walls, extents and mirror flags
+// ABOUTME: Single source consumed by room meshes, ray wall planes and virtual images
+
+import { Matrix, Plane, Vector3 } from 'babylonjs';
+import { ROOM_SIZE, WALL_NAMES, MIRROR_WALLS } from '../constants';
+
+/**
+ * A single wall of the room
+ * For the floor and ceiling, width runs along X and height along Z
+ */
+export interface WallDefinition {
+  readonly id: string; // Short identifier (e.g., 'north')
+  readonly label: string; // Human readable name for controls
+  readonly meshName: string; // Name of the wall mesh in the scene
+  readonly position: Vector3; // Centre of the wall's base (on the floor)
+  readonly normal: Vector3; // Unit normal pointing into the room
+  readonly width: number; // Horizontal extent along the wall
+  readonly height: number; // Vertical extent from the floor
+  readonly isMirror: boolean;
+  readonly start?: Vector3; // Floor-level end points of a vertical wall
+  readonly end?: Vector3;
+}
+
+/**
+ * Complete room description
+ * Floor and ceiling use the same shape as walls so they can become mirrors too
+ */
+export interface RoomDefinition {
+  readonly size: number; // Largest horizontal extent of the floor
+  readonly height: number; // Floor to ceiling distance
+  readonly outline: readonly Vector3[]; // Floor polygon corners in order (y = 0)
+  readonly walls: readonly WallDefinition[];
+  readonly floor: WallDefinition;
+  readonly ceiling: WallDefinition;
+}
+
+/**
+ * Options for building a room from a floor polygon
+ */
+export interface PolygonRoomOptions {
+  height?: number; // Floor to ceiling distance (default: ROOM_SIZE)
+  mirrorWalls?: readonly string[]; // Mesh names of the surfaces that are mirrors
+}
+
+/**
+ * Creates a vertical wall spanning a floor segment
+ */
+const createSegmentWall = (
+  id: string,
+  label: string,
+  meshName: string,
+  start: Vector3,
+  end: Vector3,
+  normal: Vector3,
+  height: number,
+  mirrorWalls: readonly string[]
+): WallDefinition =>
+  Object.freeze({
+    id,
+    label,
+    meshName,
+    position: Vector3.Center(start, end),
+    normal,
+    width: Vector3.Distance(start, end),
+    height,
+    isMirror: mirrorWalls.includes(meshName),
+    start,
+    end,
+  });
+
+/**
+ * Creates a horizontal surface (floor or ceiling) covering the outline's bounds
+ */
+const createHorizontalSurface = (
+  id: string,
+  label: string,
+  meshName: string,
+  outline: readonly Vector3[],
+  y: number,
+  normal: Vector3,
+  mirrorWalls: readonly string[]
+): WallDefinition => {
+  const xs = outline.map((corner) => corner.x);
+  const zs = outline.map((corner) => corner.z);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minZ = Math.min(...zs);
+  const maxZ = Math.max(...zs);
+
+  return Object.freeze({
+    id,
+    label,
+    meshName,
+    position: new Vector3((minX + maxX) / 2, y, (minZ + maxZ) / 2),
+    normal,
+    width: maxX - minX,
+    height: maxZ - minZ,
+    isMirror: mirrorWalls.includes(meshName),
+  });
+};
+
+/**
+ * Assembles a frozen room from its outline and walls
+ */
+const assembleRoom = (
+  outline: readonly Vector3[],
+  walls: WallDefinition[],
+  height: number,
+  mirrorWalls: readonly string[]
+): RoomDefinition => {
+  const floor = createHorizontalSurface(
+    'floor',
+    'Floor',
+    WALL_NAMES.FLOOR,
+    outline,
+    0,
+    new Vector3(0, 1, 0),
+    mirrorWalls
+  );
+  const ceiling = createHorizontalSurface(
+    'ceiling',
+    'Ceiling',
+    WALL_NAMES.CEILING,
+    outline,
+    height,
+    new Vector3(0, -1, 0),
+    mirrorWalls
+  );
+
+  return Object.freeze({
+    size: Math.max(floor.width, floor.height),
+    height,
+    outline: Object.freeze([...outline]),
+    walls: Object.freeze(walls),
+    floor,
+    ceiling,
+  });
+};
+
+/**
+ * Creates the definition of a square room centred on the origin
+ *
+ * @param size - Edge length of the room (default: ROOM_SIZE)
+ * @param mirrorWalls - Mesh names of the walls that are mirrors
+ * @returns Immutable room definition
+ */
+export const createRoomDefinition = (
+  size: number = ROOM_SIZE,
+  mirrorWalls: readonly string[] = MIRROR_WALLS
+): RoomDefinition => {
+  const half = size / 2;
+  const height = size; // Cubic room
+
+  const southWest = new Vector3(-half, 0, -half);
+  const southEast = new Vector3(half, 0, -half);
+  const northEast = new Vector3(half, 0, half);
+  const northWest = new Vector3(-half, 0, half);
+
+  return assembleRoom(
+    [southWest, southEast, northEast, northWest],
+    [
+      createSegmentWall(
+        'north',
+        'North',
+        WALL_NAMES.NORTH,
+        northWest,
+        northEast,
+        new Vector3(0, 0, -1),
+        height,
+        mirrorWalls
+      ),
+      createSegmentWall(
+        'south',
+        'South',
+        WALL_NAMES.SOUTH,
+        southWest,
+        southEast,
+        new Vector3(0, 0, 1),
+        height,
+        mirrorWalls
+      ),
+      createSegmentWall(
+        'east',
+        'East',
+        WALL_NAMES.EAST,
+        southEast,
+        northEast,
+        new Vector3(-1, 0, 0),
+        height,
+        mirrorWalls
+      ),
+      createSegmentWall(
+        'west',
+        'West',
+        WALL_NAMES.WEST,
+        southWest,
+        northWest,
+        new Vector3(1, 0, 0),
+        height,
+        mirrorWalls
+      ),
+    ],
+    height,
+    mirrorWalls
+  );
+};
+
+/**
+ * Calculates twice the signed area of an outline in the XZ plane
+ * Positive when corners run counter-clockwise seen from +X towards +Z
+ */
+const calculateSignedArea = (outline: readonly Vector3[]): number =>
+  outline.reduce((sum, corner, index) => {
+    const next = outline[(index + 1) % outline.length];
+    return sum + corner.x * next.z - next.x * corner.z;
+  }, 0);
+
+/**
+ * Creates a room whose walls follow a closed polygon on the floor
+ * Wall i runs from corner i to corner i + 1 and is named `side{i + 1}`
+ *
+ * @param outline - Floor polygon corners in order (either winding, y ignored)
+ * @param options - Room height and mirror walls
+ * @returns Immutable room definition
+ */
+export const createPolygonRoomDefinition = (
+  outline: readonly Vector3[],
+  options: PolygonRoomOptions = {}
+): RoomDefinition => {
+  if (outline.length < 3) {
+    throw new Error('A room outline needs at least three corners');
+  }
+
+  const height = options.height ?? ROOM_SIZE;
+  const mirrorWalls = options.mirrorWalls ?? [];
+  const corners = outline.map((corner) => new Vector3(corner.x, 0, corner.z));
+  const winding = Math.sign(calculateSignedArea(corners));
+
+  if (winding === 0) {
+    throw new Error('A room outline must enclose an area');
+  }
+
+  const walls = corners.map((start, index) => {
+    const end = corners[(index + 1) % corners.length];
+    const along = end.subtract(start);
+
+    // Left of the edge is inside for counter-clockwise outlines
+    const normal = new Vector3(
+      -along.z * winding,
+      0,
+      along.x * winding
+    ).normalize();
+
+    return createSegmentWall(
+      `side${index + 1}`,
+      `Side ${index + 1}`,
+      `side${index + 1}Wall`,
+      start,
+      end,
+      normal,
+      height,
+      mirrorWalls
+    );
+  });
+
+  return assembleRoom(corners, walls, height, mirrorWalls);
+};
+
+/**
+ * Gets every surface of the room: walls first, then floor and ceiling
+ *
+ * @param room - Room definition
+ * @returns All surfaces in definition order
+ */
+export const getRoomSurfaces = (room: RoomDefinition): WallDefinition[] => [
+  ...room.walls,
+  room.floor,
+  room.ceiling,
+];
+
+/**
+ * Gets the surfaces of a room that are mirrors
+ *
+ * @param room - Room definition
+ * @returns Mirror surfaces in definition order
+ */
+export const getMirrorWallDefinitions = (
+  room: RoomDefinition
+): WallDefinition[] => getRoomSurfaces(room).filter((wall) => wall.isMirror);
+
+/**
+ * Finds a wall, floor or ceiling by its id
+ *
+ * @param room - Room definition
+ * @param wallId - Surface id to look up
+ * @returns Wall definition or null if not found
+ */
+export const getWallById = (
+  room: RoomDefinition,
+  wallId: string
+): WallDefinition | null =>
+  getRoomSurfaces(room).find((wall) => wall.id === wallId) ?? null;
+
+/**
+ * Turns a wall, floor or ceiling into a mirror or back into a plain surface
+ *
+ * @param room - Current room definition
+ * @param wallId - Surface id to update
+ * @param isMirror - New mirror flag
+ * @returns New room definition, or the same one if nothing changed
+ */
+export const setWallMirror = (
+  room: RoomDefinition,
+  wallId: string,
+  isMirror: boolean
+): RoomDefinition => {
+  const wall = getWallById(room, wallId);
+
+  // Return same room if surface unknown or flag unchanged
+  if (!wall || wall.isMirror === isMirror) {
+    return room;
+  }
+
+  const update = (surface: WallDefinition): WallDefinition =>
+    surface.id === wallId ? Object.freeze({ ...surface, isMirror }) : surface;
+
+  return Object.freeze({
+    ...room,
+    walls: Object.freeze(room.walls.map(update)),
+    floor: update(room.floor),
+    ceiling: update(room.ceiling),
+  });
+};
+
+/**
+ * Calculates the Y rotation that turns a wall mesh to face into the room
+ * A wall with rotation 0 faces -Z (the north wall)
+ *
+ * @param wall - Wall definition
+ * @returns Rotation around the Y axis in radians
+ */
+export const getWallRotationY = (wall: WallDefinition): number =>
+  // Subtract from zero rather than negate so a zero component never becomes -0
+  Math.atan2(0 - wall.normal.x, 0 - wall.normal.z);
+
+/**
+ * Reflects a point across the plane of a wall
+ *
+ * @param point - Point to reflect
+ * @param wall - Wall whose plane acts as the mirror
+ * @returns Reflected point
+ */
+export const reflectPointAcrossWall = (
+  point: Vector3,
+  wall: WallDefinition
+): Vector3 => {
+  const distance = Vector3.Dot(point.subtract(wall.position), wall.normal);
+  return point.subtract(wall.normal.scale(2 * distance));
+};
+
+/**
+ * Builds the transform that reflects world space across a wall's plane
+ * Multiply matrices in the order the reflections happen to chain bounces
+ *
+ * @param wall - Wall whose plane acts as the mirror
+ * @returns Reflection matrix
+ */
+export const getWallReflectionMatrix = (wall: WallDefinition): Matrix =>
+  Matrix.Reflection(Plane.FromPositionAndNormal(wall.position, wall.normal));
+
+/**
+ * Calculates the horizontal distance from a point to a wall segment
+ */
+const distanceToWallSegment = (
+  point: Vector3,
+  wall: WallDefinition
+): number => {
+  if (!wall.start || !wall.end) {
+    return Infinity;
+  }
+
+  const along = wall.end.subtract(wall.start);
+  along.y = 0;
+  const offset = point.subtract(wall.start);
+  offset.y = 0;
+  const t = Math.max(
+    0,
+    Math.min(1, Vector3.Dot(offset, along) / along.lengthSquared())
+  );
+
+  return offset.subtract(along.scale(t)).length();
+};
+
+/**
+ * Tests whether a point lies inside the room's floor outline
+ *
+ * @param room - Room definition
+ * @param point - Point to test (only X and Z are used)
+ * @param margin - Minimum clearance required from every wall
+ * @returns True if the point is inside and clear of the walls
+ */
+export const isPointInsideRoom = (
+  room: RoomDefinition,
+  point: Vector3,
+  margin: number = 0
+): boolean => {
+  const { outline } = room;
+  let inside = false;
+
+  // Even-odd rule: count outline edges crossed by a ray towards +X
+  for (let i = 0, j = outline.length - 1; i < outline.length; j = i++) {
+    const a = outline[i];
+    const b = outline[j];
+    if (
+      a.z > point.z !== b.z > point.z &&
+      point.x < ((b.x - a.x) * (point.z - a.z)) / (b.z - a.z) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+
+  return (
+    inside &&
+    room.walls.every((wall) => distanceToWallSegment(point, wall) >= margin)
+  );
+};
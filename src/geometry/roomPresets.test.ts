@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'babylonjs';
+import {
+  createRegularPolygonOutline,
+  getRoomPreset,
+  ROOM_PRESETS,
+} from './roomPresets';
+import { getMirrorWallDefinitions, isPointInsideRoom } from './roomDefinition';
+import { createInitialStateConfig } from '../config/initialState';
+
+describe('roomPresets', () => {
+  describe('createRegularPolygonOutline', () => {
+    it('should place corners on a circle around the centre', () => {
+      const center = new Vector3(1, 0, -2);
+      const outline = createRegularPolygonOutline(6, 4, 0, center);
+
+      expect(outline).toHaveLength(6);
+      outline.forEach((corner) => {
+        expect(Vector3.Distance(corner, center)).toBeCloseTo(4);
+        expect(corner.y).toBe(0);
+      });
+      expect(outline[0].x).toBeCloseTo(5);
+    });
+  });
+
+  describe('ROOM_PRESETS', () => {
+    it('should offer every room shape in dropdown order', () => {
+      expect(ROOM_PRESETS.map((preset) => preset.id)).toEqual([
+        'square',
+        'cornerCube',
+        'triangle',
+        'hexagon',
+        'lShape',
+      ]);
+    });
+
+    it('should build rooms with the expected number of walls', () => {
+      const wallCounts = ROOM_PRESETS.map(
+        (preset) => preset.create().walls.length
+      );
+
+      expect(wallCounts).toEqual([4, 4, 3, 6, 6]);
+    });
+
+    it('should give every preset at least one mirror', () => {
+      ROOM_PRESETS.forEach((preset) => {
+        expect(
+          getMirrorWallDefinitions(preset.create()).length
+        ).toBeGreaterThan(0);
+      });
+    });
+
+    it('should keep the default sphere and camera inside every room', () => {
+      const initialState = createInitialStateConfig();
+
+      ROOM_PRESETS.forEach((preset) => {
+        const room = preset.create();
+        expect(isPointInsideRoom(room, initialState.cube.position, 1)).toBe(
+          true
+        );
+        expect(
+          isPointInsideRoom(room, initialState.cameraIndicator.position, 1)
+        ).toBe(true);
+      });
+    });
+
+    it('should mirror the floor of the corner cube', () => {
+      const room = getRoomPreset('cornerCube')?.create();
+
+      expect(getMirrorWallDefinitions(room).map((wall) => wall.id)).toEqual([
+        'north',
+        'east',
+        'floor',
+      ]);
+    });
+  });
+
+  describe('getRoomPreset', () => {
+    it('should find presets by id', () => {
+      expect(getRoomPreset('hexagon')?.label).toBe('Hexagon kaleidoscope');
+    });
+
+    it('should return null for unknown ids', () => {
+      expect(getRoomPreset('octagon')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,131 @@
+// ABOUTME: Ready-made room shapes for lessons (square box, corner cube, kaleidoscopes, L-shaped room)
+// ABOUTME: Each preset builds a RoomDefinition with its default mirror walls
+
+import { Vector3 } from 'babylonjs';
+import {
+  createPolygonRoomDefinition,
+  createRoomDefinition,
+  RoomDefinition,
+} from './roomDefinition';
+import { ROOM_SIZE, WALL_NAMES } from '../constants';
+
+/**
+ * Identifiers of the built-in room shapes
+ */
+export type RoomPresetId =
+  | 'square'
+  | 'cornerCube'
+  | 'triangle'
+  | 'hexagon'
+  | 'lShape';
+
+/**
+ * A named room shape the user can pick
+ */
+export interface RoomPreset {
+  readonly id: RoomPresetId;
+  readonly label: string;
+  readonly create: () => RoomDefinition;
+}
+
+/**
+ * Creates the corners of a regular polygon on the floor
+ *
+ * @param sides - Number of corners
+ * @param radius - Distance from the centre to each corner
+ * @param startAngle - Angle of the first corner, measured from +X towards +Z
+ * @param center - Centre of the polygon (default: origin)
+ * @returns Corners in counter-clockwise order
+ */
+export const createRegularPolygonOutline = (
+  sides: number,
+  radius: number,
+  startAngle: number = 0,
+  center: Vector3 = Vector3.Zero()
+): Vector3[] =>
+  Array.from({ length: sides }, (_, index) => {
+    const angle = startAngle + (index * 2 * Math.PI) / sides;
+    return new Vector3(
+      center.x + radius * Math.cos(angle),
+      0,
+      center.z + radius * Math.sin(angle)
+    );
+  });
+
+/**
+ * Mesh names of every side wall of a polygon room
+ */
+const allSideWalls = (sides: number): string[] =>
+  Array.from({ length: sides }, (_, index) => `side${index + 1}Wall`);
+
+/**
+ * Built-in room shapes, in the order shown in the shape dropdown
+ * Every shape fits the editor view and keeps the default sphere and camera inside
+ */
+export const ROOM_PRESETS: readonly RoomPreset[] = Object.freeze([
+  Object.freeze({
+    id: 'square' as const,
+    label: 'Square',
+    create: () => createRoomDefinition(),
+  }),
+  Object.freeze({
+    id: 'cornerCube' as const,
+    label: 'Corner cube',
+    // Three mutually perpendicular mirrors send every ray back where it came from
+    create: () =>
+      createRoomDefinition(ROOM_SIZE, [
+        WALL_NAMES.NORTH,
+        WALL_NAMES.EAST,
+        WALL_NAMES.FLOOR,
+      ]),
+  }),
+  Object.freeze({
+    id: 'triangle' as const,
+    label: 'Triangle kaleidoscope',
+    create: () =>
+      createPolygonRoomDefinition(
+        // Apex points north; shifted south so the room is centred in the view
+        createRegularPolygonOutline(
+          3,
+          11,
+          Math.PI / 2,
+          new Vector3(0, 0, -2.75)
+        ),
+        { mirrorWalls: allSideWalls(3) }
+      ),
+  }),
+  Object.freeze({
+    id: 'hexagon' as const,
+    label: 'Hexagon kaleidoscope',
+    create: () =>
+      createPolygonRoomDefinition(createRegularPolygonOutline(6, 10), {
+        mirrorWalls: allSideWalls(6),
+      }),
+  }),
+  Object.freeze({
+    id: 'lShape' as const,
+    label: 'L-shaped room',
+    create: () =>
+      createPolygonRoomDefinition(
+        [
+          new Vector3(-10, 0, -10),
+          new Vector3(2, 0, -10),
+          new Vector3(2, 0, -2),
+          new Vector3(10, 0, -2),
+          new Vector3(10, 0, 10),
+          new Vector3(-10, 0, 10),
+        ],
+        // The east and north walls meet at a right angle: a corner reflector
+        { mirrorWalls: ['side4Wall', 'side5Wall'] }
+      ),
+  }),
+]);
+
+/**
+ * Finds a room preset by id
+ *
+ * @param id - Preset identifier
+ * @returns Room preset or null if not found
+ */
+export const getRoomPreset = (id: string): RoomPreset | null =>
+  ROOM_PRESETS.find((preset) => preset.id === id) ?? null;
@@ -4,28 +4,105 @@
 import './style.css';
 import { createEditorScene } from './editor/createEditorScene';
 import { createRenderScene } from './render/createRenderScene';
-import { createOrthographicCamera } from './cameras/createOrthographicCamera';
+import {
+  createOrthographicCamera,
+  zoomOrthographicCamera,
+} from './cameras/createOrthographicCamera';
 import { createPerspectiveCamera } from './cameras/createPerspectiveCamera';
 import { attachCamera } from './cameras/attachCamera';
-import { createRoom } from './geometry/createRoom';
-import { createSphere } from './geometry/createSphere';
+import {
+  createRoom,
+  disposeRoom,
+  updateRoomMirrors,
+} from './geometry/createRoom';
+import {
+  getRoomSurfaces,
+  isPointInsideRoom,
+  type RoomDefinition,
+} from './geometry/roomDefinition';
+import { setSphereSegments } from './geometry/createSphere';
+import {
+  createSceneObjectMesh,
+  createSceneObjectObstacle,
+  setObjectMaterial,
+} from './geometry/createSceneObject';
+import { createPillar, createPillarObstacle } from './geometry/createPillar';
 import { createCameraIndicator } from './editor/createCameraIndicator';
 import { syncCameraWithIndicator } from './render/syncCameraWithIndicator';
 import { createAmbientLight } from './lighting/createLighting';
 import { createInitialStateConfig } from './config/initialState';
+import { createStore } from './state/store';
+import {
+  selectRayConfiguration,
+  selectSelectedSceneObject,
+  type AppState,
+} from './state/appState';
+import { isObjectKind, type SceneObject } from './state/objectsState';
+import {
+  createHistoryState,
+  updateHistory,
+  canUndo,
+  canRedo,
+  type HistoryState,
+  type HistoryAction,
+} from './state/history';
+import {
+  applyStateEffects,
+  createRayUpdateEffect,
+  type EffectContext,
+  type RayEffectTarget,
+  type RayUpdate,
+} from './state/stateEffects';
+import { createSceneRoom } from './state/sceneState';
 import {
-  createInitialSelectionState,
-  selectObject,
-  clearSelection,
-} from './state/selectionState';
-import { getMirrorWalls } from './mirrors/applyMirrors';
+  createSceneDocument,
+  parseSceneDocument,
+  serializeSceneDocument,
+  type SceneDocument,
+} from './state/sceneDocument';
+import {
+  AUTOSAVE_DELAY_MS,
+  clearSavedSession,
+  readSavedSession,
+  writeSavedSession,
+  type SavedSession,
+} from './state/savedSession';
+import { createDebounce } from './utils/debounce';
+import {
+  decodeSceneHash,
+  encodeSceneHash,
+  isSceneHash,
+} from './state/sceneHash';
+import {
+  applyMirrorsToRoom,
+  getMirrorWalls,
+  removeMirrors,
+  type AppliedMirror,
+} from './mirrors/applyMirrors';
 import { RenderPassManager } from './render/RenderPassManager';
+import {
+  getFirstInstancedBounce,
+  getMirrorTextureBounces,
+  getRenderStrategy,
+  RENDER_STRATEGIES,
+  type RenderStrategy,
+} from './render/renderStrategies';
+import {
+  createAutoQualityState,
+  getQualityPreset,
+  updateAutoQuality,
+  type QualityPreset,
+} from './render/qualitySettings';
 import { createPickHandler } from './editor/handlePicking';
+import {
+  createUnfoldedRoom,
+  getUnfoldedCellReflections,
+  getUnfoldedRoomExtent,
+} from './editor/createUnfoldedRoom';
 import { applyHighlight, removeHighlight } from './effects/highlightEffect';
 import {
-  createInitialTransformState,
-  updateObjectPosition,
-  updateObjectRotation,
+  getObjectTransform,
+  type ObjectTransform,
 } from './state/transformState';
 import { applyPositionConstraints } from './transforms/positionTransforms';
 import { applyRotationConstraints } from './transforms/rotationTransforms';
@@ -33,27 +110,66 @@ import {
   GizmoManager,
   UtilityLayerRenderer,
   Vector3,
+  Mesh,
+  PointerEventTypes,
+  type AbstractMesh,
+  GlowLayer,
+  type PointerInfo,
+  Matrix,
+  type LinesMesh,
 } from 'babylonjs';
-import * as BABYLON from 'babylonjs';
 import type { SceneConfig } from './types';
-import type { SelectionState } from './state/selectionState';
-import type { TransformState } from './state/transformState';
+import { OBJECT_IDS, WALL_CLEARANCE } from './constants';
+import { RENDER_LAYER } from './constants/layerMasks';
 import {
   createRayManager,
   showRays,
   hideRays,
   updateRays,
+  setRayRoom,
+  setRayObstacles,
+  setRayReflections,
+  setRayUnfoldedCells,
   disposeRayManager,
+  createImagePathManager,
+  showImagePaths,
+  hideImagePaths,
+  updateImagePaths,
+  setImagePathRoom,
+  setImagePathObstacles,
+  disposeImagePathManager,
+  benchmarkRayRenderers,
   type RayManager,
+  type ImagePathManager,
+  type Obstacle,
 } from './rays';
 import {
-  createInitialUIState,
-  updateRayCount,
-  updateFanRays,
-  updateMaxBounces,
-  type UIState,
+  validateEmissionPattern,
+  validateRayStyle,
+  validateEditorMode,
+  validateRenderMode,
+  validateQuality,
+  type QualityLevel,
+  type QualitySetting,
 } from './state/uiState';
-import { bindSliderToState } from './ui/bindControls';
+import {
+  bindSliderToState,
+  bindDropdownToState,
+  bindCheckboxToState,
+  bindUndoRedoKeys,
+} from './ui/bindControls';
+import {
+  bindFileDrop,
+  bindFileInput,
+  downloadTextFile,
+  readFileText,
+} from './ui/sceneFile';
+import { renderMirrorToggles } from './ui/createMirrorToggles';
+import { updateImageTooltip } from './ui/createImageTooltip';
+import {
+  projectHandednessLabels,
+  updateHandednessOverlay,
+} from './ui/createHandednessOverlay';
 import { ReflectionInstanceManager } from './mirrors/ReflectionInstanceManager';
 
 /**
@@ -72,16 +188,32 @@ const getCanvas = (id: string): HTMLCanvasElement => {
  */
 let editorConfig: SceneConfig | null = null;
 let renderConfig: SceneConfig | null = null;
-let selectionState: SelectionState = createInitialSelectionState();
-let transformState: TransformState = createInitialTransformState();
-let uiState: UIState = createInitialUIState();
+const store = createStore<HistoryState, HistoryAction>(
+  updateHistory,
+  createHistoryState()
+);
+// Scene edits without the undo history around them
+const getAppState = (): AppState => store.getState().present;
 let gizmoManager: GizmoManager | null = null;
-let rayManager: RayManager | null = null;
+let imagePathManager: ImagePathManager | null = null;
 let renderPassManager: RenderPassManager | null = null;
-let cubeReflectionManager: ReflectionInstanceManager | null = null;
+// Virtual images of each placeable object, keyed by object id
+const objectReflectionManagers = new Map<string, ReflectionInstanceManager>();
+// Rays each placeable object emits in the editor and the render view, keyed by object id
+const objectRayManagers = new Map<
+  string,
+  { editor: RayManager; render: RayManager }
+>();
 let groundReflectionManager: ReflectionInstanceManager | null = null;
+let pillarReflectionManager: ReflectionInstanceManager | null = null;
 let unbindFunctions: Array<() => void> = [];
 
+/**
+ * Render strategy currently chosen in the control panel
+ */
+const getCurrentRenderStrategy = (): RenderStrategy =>
+  getRenderStrategy(getAppState().ui.renderMode) ?? RENDER_STRATEGIES[0];
+
 /**
  * Cleanup function for disposing resources
  */
@@ -90,22 +222,29 @@ const cleanup = (): void => {
   unbindFunctions.forEach((unbind) => unbind());
   unbindFunctions = [];
 
-  if (rayManager) {
-    disposeRayManager(rayManager);
-    rayManager = null;
+  objectRayManagers.forEach(({ editor, render }) => {
+    disposeRayManager(editor);
+    disposeRayManager(render);
+  });
+  objectRayManagers.clear();
+  if (imagePathManager) {
+    disposeImagePathManager(imagePathManager);
+    imagePathManager = null;
   }
   if (renderPassManager) {
     renderPassManager.dispose();
     renderPassManager = null;
   }
-  if (cubeReflectionManager) {
-    cubeReflectionManager.dispose();
-    cubeReflectionManager = null;
-  }
+  objectReflectionManagers.forEach((manager) => manager.dispose());
+  objectReflectionManagers.clear();
   if (groundReflectionManager) {
     groundReflectionManager.dispose();
     groundReflectionManager = null;
   }
+  if (pillarReflectionManager) {
+    pillarReflectionManager.dispose();
+    pillarReflectionManager = null;
+  }
   if (gizmoManager) {
     gizmoManager.dispose();
     gizmoManager = null;
@@ -153,143 +292,364 @@ const initialize = (): void => {
     const renderLight = createAmbientLight('renderLight', renderConfig.scene);
     renderLight.intensity = 1.5; // Much brighter for better visibility
 
-    // Create room geometry in both scenes
-    createRoom(editorConfig.scene);
-    createRoom(renderConfig.scene, false); // Exclude walls and ceiling from render layer
+    // Single room definition shared by meshes, rays and reflections
+    let room = createSceneRoom(getAppState().scene);
+
+    // Create room geometry in both scenes (rebuilt when the room shape changes)
+    let editorRoom = createRoom(editorConfig.scene, true, room);
+    let renderRoom = createRoom(renderConfig.scene, false, room); // Exclude walls and ceiling from render layer
 
     // Get initial state configuration
     const initialState = createInitialStateConfig();
 
-    // Create the interactive sphere in both scenes (before mirrors so it's included in render lists)
-    const editorSphere = createSphere(
-      editorConfig.scene,
-      initialState.cube.position,
-      initialState.cube.rotation
-    );
-    const renderSphere = createSphere(
-      renderConfig.scene,
-      initialState.cube.position,
-      initialState.cube.rotation
+    // Optional pillar that blocks light, hidden until switched on
+    const editorPillar = createPillar(editorConfig.scene);
+    const renderPillar = createPillar(renderConfig.scene);
+    editorPillar.setEnabled(false);
+    renderPillar.setEnabled(false);
+
+    // Initialize reflection instance managers
+    // Soft glow around the objects and their images, scaled by the quality setting
+    const glowLayer = new GlowLayer('sphereGlow', renderConfig.scene);
+    let qualityPreset: QualityPreset = getQualityPreset(
+      getAppState().ui.quality
     );
 
+    // Editor and render meshes of each placeable object, keyed by object id
+    const objectMeshes = new Map<
+      string,
+      { object: SceneObject; editor: Mesh; render: Mesh }
+    >();
+
+    // Find the object an editor mesh belongs to
+    const getObjectMeshes = (
+      mesh: AbstractMesh | null | undefined
+    ): { object: SceneObject; editor: Mesh; render: Mesh } | null => {
+      const meshes = mesh ? objectMeshes.get(mesh.name) : undefined;
+      return meshes?.editor === mesh ? meshes : null;
+    };
 
+    // Virtual images of an object, drawn from its render mesh
+    const createObjectReflectionManager = (
+      object: SceneObject
+    ): ReflectionInstanceManager => {
+      const manager = new ReflectionInstanceManager({
+        scene: renderConfig.scene,
+        room,
+        glowLayer,
+        maxImages: qualityPreset.maxImages,
+      });
+      manager.setMinBounces(
+        getFirstInstancedBounce(getCurrentRenderStrategy())
+      );
+      objectReflectionManagers.set(object.id, manager);
+      return manager;
+    };
 
+    // The pillar while it's shown, and the unfolded cells straightened rays cross
+    let pillarObstacles: Obstacle[] = [];
+    let unfoldedCells: Matrix[] = [];
+
+    // What an object's rays hit besides the walls: the pillar and every other
+    // placed object where it stands (the emitter itself is the rays' source)
+    const getRayObstacles = (objectId: string): Obstacle[] => [
+      ...pillarObstacles,
+      ...Array.from(objectMeshes.values())
+        .filter(({ object }) => object.id !== objectId)
+        .map(({ object, editor }) => createSceneObjectObstacle(editor, object)),
+    ];
+
+    // Rays of an object: shown in the editor, and in the render view when asked for
+    const createObjectRayManagers = (objectId: string): void => {
+      const obstacles = getRayObstacles(objectId);
+      objectRayManagers.set(objectId, {
+        editor: setRayUnfoldedCells(
+          showRays(createRayManager(editorConfig.scene, room, obstacles)),
+          unfoldedCells
+        ),
+        render: createRayManager(
+          renderConfig.scene,
+          room,
+          obstacles,
+          RENDER_LAYER
+        ),
+      });
+    };
 
-    // Initialize reflection instance managers
-    cubeReflectionManager = new ReflectionInstanceManager({
-      scene: renderConfig.scene,
-      mirrorWalls: {
-        north: { position: 10, normal: new Vector3(0, 0, -1) },
-        east: { position: 10, normal: new Vector3(-1, 0, 0) },
-        west: { position: -10, normal: new Vector3(1, 0, 0) }
-      }
-    });
-    
-    const floor = renderConfig.scene.getMeshByName('floor');
-    
-    if (floor && floor instanceof BABYLON.Mesh) {
-      groundReflectionManager = new ReflectionInstanceManager({
-        scene: renderConfig.scene,
-        mirrorWalls: {
-          north: { position: 10, normal: new Vector3(0, 0, -1) },
-          east: { position: 10, normal: new Vector3(-1, 0, 0) },
-          west: { position: -10, normal: new Vector3(1, 0, 0) }
-        }
+    // Give every object's rays what they hit now; they redraw on their next update
+    const updateRayObstacles = (): void => {
+      objectRayManagers.forEach(({ editor, render }, objectId) => {
+        const obstacles = getRayObstacles(objectId);
+        objectRayManagers.set(objectId, {
+          editor: setRayObstacles(editor, obstacles),
+          render: setRayObstacles(render, obstacles),
+        });
       });
-    }
-    
-    // Helper functions to show/hide instances
-    const hideInstances = () => {
-      if (cubeReflectionManager) {
-        cubeReflectionManager.hideAll();
+    };
+
+    // Apply a change to every object's ray managers, which return a new value on every change
+    const updateObjectRayManagers = (
+      update: (manager: RayManager) => RayManager
+    ): void => {
+      objectRayManagers.forEach(({ editor, render }, objectId) =>
+        objectRayManagers.set(objectId, {
+          editor: update(editor),
+          render: update(render),
+        })
+      );
+    };
+
+    // Create an object in both scenes, where its transform (or the initial placement) says
+    const placeObject = (
+      object: SceneObject,
+      transform: ObjectTransform | null
+    ): void => {
+      const position = transform?.position ?? initialState.cube.position;
+      const rotation = transform?.rotation ?? initialState.cube.rotation;
+      const editor = createSceneObjectMesh(
+        editorConfig.scene,
+        object,
+        position,
+        rotation
+      );
+      const render = createSceneObjectMesh(
+        renderConfig.scene,
+        object,
+        position,
+        rotation
+      );
+      if (object.kind === 'sphere') {
+        setSphereSegments(editor, qualityPreset.sphereSegments);
+        setSphereSegments(render, qualityPreset.sphereSegments);
       }
-      if (groundReflectionManager) {
-        groundReflectionManager.hideAll();
+      glowLayer.addIncludedOnlyMesh(render);
+
+      objectMeshes.set(object.id, { object, editor, render });
+      createObjectReflectionManager(object);
+      createObjectRayManagers(object.id);
+      updateAttachableMeshes();
+    };
+
+    // Dispose an object's meshes and images
+    const removePlacedObject = (objectId: string): void => {
+      const meshes = objectMeshes.get(objectId);
+      if (!meshes) {
+        return;
+      }
+
+      if (gizmoManager?.attachedMesh === meshes.editor) {
+        gizmoManager.attachToMesh(null);
+      }
+      removeHighlight(editorConfig.scene, objectId);
+      removeHighlight(renderConfig.scene, objectId);
+      objectReflectionManagers.get(objectId)?.dispose();
+      objectReflectionManagers.delete(objectId);
+      const rayManagers = objectRayManagers.get(objectId);
+      if (rayManagers) {
+        disposeRayManager(rayManagers.editor);
+        disposeRayManager(rayManagers.render);
+        objectRayManagers.delete(objectId);
+      }
+      glowLayer.removeIncludedOnlyMesh(meshes.render);
+      meshes.editor.dispose(false, true);
+      meshes.render.dispose(false, true);
+
+      objectMeshes.delete(objectId);
+      updateAttachableMeshes();
+    };
+
+    // Repaint an object; its images are recreated with the new material
+    const recolorObject = (object: SceneObject): void => {
+      const meshes = objectMeshes.get(object.id);
+      if (!meshes) {
+        return;
+      }
+
+      setObjectMaterial(meshes.editor, object);
+      setObjectMaterial(meshes.render, object);
+      objectMeshes.set(object.id, { ...meshes, object });
+      objectReflectionManagers.get(object.id)?.dispose();
+      createObjectReflectionManager(object);
+    };
+
+    // Objects and the camera indicator can be dragged
+    const updateAttachableMeshes = (): void => {
+      if (gizmoManager) {
+        gizmoManager.attachableMeshes = [
+          ...[...objectMeshes.values()].map(({ editor }) => editor),
+          cameraIndicator.indicator,
+        ];
       }
     };
+
+    // Floor images are instances of the floor mesh, so recreated with the room
+    const createGroundReflectionManager = (): ReflectionInstanceManager =>
+      new ReflectionInstanceManager({
+        scene: renderConfig.scene,
+        room,
+        excludedWalls: ['floor'], // The floor never reflects itself
+      });
+    groundReflectionManager = createGroundReflectionManager();
+
+    pillarReflectionManager = new ReflectionInstanceManager({
+      scene: renderConfig.scene,
+      room,
+    });
     
+    // Helper function to show instances
     const showInstances = () => {
-      if (cubeReflectionManager) {
-        cubeReflectionManager.showAll(uiState.maxBounces);
-      }
+      const { ui, scene } = getAppState();
+      objectReflectionManagers.forEach((manager) =>
+        manager.showAll(ui.maxBounces)
+      );
       if (groundReflectionManager) {
-        groundReflectionManager.showAll(uiState.maxBounces);
+        groundReflectionManager.showAll(ui.maxBounces);
+      }
+      if (pillarReflectionManager && scene.isPillarEnabled) {
+        pillarReflectionManager.showAll(ui.maxBounces);
       }
     };
     
+    // Position the render camera looks from; images are checked against it
+    const getViewpoint = (): Vector3 =>
+      getObjectTransform(getAppState().transform, OBJECT_IDS.CAMERA_INDICATOR)
+        ?.position ?? initialState.cameraIndicator.position;
+
     // Helper function to update instance positions
     const updateInstancePositions = () => {
-      if (cubeReflectionManager) {
-        cubeReflectionManager.updateInstances(
-          renderSphere,
-          renderSphere.position,
-          renderSphere.rotation,
-          uiState.maxBounces
+      const { ui, scene } = getAppState();
+
+      // Only show object and pillar images the camera has a light path to
+      pillarReflectionManager?.setViewpoint(getViewpoint());
+
+      objectMeshes.forEach(({ render }, objectId) => {
+        const manager = objectReflectionManagers.get(objectId);
+        manager?.setViewpoint(getViewpoint());
+        manager?.updateInstances(
+          render,
+          render.position,
+          render.rotation,
+          ui.maxBounces
         );
-      }
+      });
       
-      if (floor && floor instanceof BABYLON.Mesh && groundReflectionManager) {
+      if (groundReflectionManager) {
         groundReflectionManager.updateInstances(
-          floor,
-          floor.position,
-          floor.rotation,
-          uiState.maxBounces
+          renderRoom.floor,
+          renderRoom.floor.position,
+          renderRoom.floor.rotation,
+          ui.maxBounces
         );
       }
+
+      if (pillarReflectionManager) {
+        if (scene.isPillarEnabled) {
+          pillarReflectionManager.updateInstances(
+            renderPillar,
+            renderPillar.position,
+            renderPillar.rotation,
+            ui.maxBounces
+          );
+        } else {
+          pillarReflectionManager.hideAll();
+        }
+      }
+
+      refreshImagePaths();
+
+      // Objects or the camera moved, so mirror textures are stale
+      renderPassManager?.requestUpdate();
     };
-    
-    // Initialize instances
-    updateInstancePositions();
-    showInstances();
 
-    // TEMPORARILY DISABLED: Mirror materials for testing instanced geometry
-    // const mirrorWalls = getMirrorWalls();
-    // for (const wallName of mirrorWalls) {
-    //   const wall = renderConfig.scene.getMeshByName(wallName);
-    //   if (wall && wall instanceof BABYLON.Mesh) {
-    //     let position: Vector3;
-    //     let normal: Vector3;
-
-    //     switch (wallName) {
-    //       case 'northWall':
-    //         position = new Vector3(0, 0, 10);
-    //         normal = new Vector3(0, 0, -1);
-    //         break;
-    //       case 'eastWall':
-    //         position = new Vector3(10, 0, 0);
-    //         normal = new Vector3(-1, 0, 0);
-    //         break;
-    //       case 'westWall':
-    //         position = new Vector3(-10, 0, 0);
-    //         normal = new Vector3(1, 0, 0);
-    //         break;
-    //       default:
-    //         continue;
-    //     }
-
-    //     const mirrorConfig = createMirrorConfig(
-    //       wallName,
-    //       position,
-    //       normal,
-    //       renderConfig.scene
-    //     );
-    //     applyMirrorToWall(wall, mirrorConfig);
-    //   }
-    // }
+    // Retrace which images of the first object the camera can see, and along which bounces
+    const refreshImagePaths = (): void => {
+      const [firstObject] = getAppState().objects.objects;
+      const meshes = firstObject ? objectMeshes.get(firstObject.id) : undefined;
+      const manager = firstObject
+        ? objectReflectionManagers.get(firstObject.id)
+        : undefined;
+      if (!getAppState().scene.showImagePaths || !imagePathManager) {
+        return;
+      }
+      if (!meshes || !manager) {
+        imagePathManager = updateImagePaths(
+          imagePathManager,
+          getViewpoint(),
+          getViewpoint(),
+          []
+        );
+        return;
+      }
+
+      imagePathManager = updateImagePaths(
+        imagePathManager,
+        getViewpoint(),
+        meshes.render.position,
+        // Merged images can be reached along any of their sequences
+        manager
+          .getPaths()
+          .flatMap((path) =>
+            path.sequences.map((walls) => ({ id: walls.join('_'), walls }))
+          )
+      );
+    };
 
     // Initialize multi-pass render manager
     renderPassManager = new RenderPassManager({
       scene: renderConfig.scene,
-      maxBounces: 2, // Initial bounce count
-      mirrorWalls: getMirrorWalls(),
+      maxBounces: getAppState().ui.maxBounces,
+      mirrorWalls: getMirrorWalls(room),
     });
-    
-    // Execute initial render passes after a small delay to ensure scene is ready
-    setTimeout(() => {
-      if (renderPassManager) {
-        renderPassManager.executeRenderPasses();
+
+    // Live mirror materials on the render room while mirror textures are shown
+    let appliedMirrors: AppliedMirror[] = [];
+    let mirrorTextureSize = getQualityPreset(
+      getAppState().ui.quality
+    ).mirrorTextureSize;
+
+    // Take the mirror materials off the render room walls
+    const releaseMirrorTextures = (): void => {
+      removeMirrors(appliedMirrors);
+      appliedMirrors = [];
+    };
+
+    // Render as many mirror texture passes as the strategy draws bounces
+    const updateMirrorPasses = (): void => {
+      const textureBounces = getMirrorTextureBounces(
+        getCurrentRenderStrategy(),
+        getAppState().ui.maxBounces
+      );
+      renderPassManager?.setBounceCount(Math.max(1, textureBounces));
+    };
+
+    // Split the bounces between mirror textures and instances as the strategy says
+    const applyRenderStrategy = (): void => {
+      const strategy = getCurrentRenderStrategy();
+      const firstInstancedBounce = getFirstInstancedBounce(strategy);
+      objectReflectionManagers.forEach((manager) =>
+        manager.setMinBounces(firstInstancedBounce)
+      );
+      groundReflectionManager?.setMinBounces(firstInstancedBounce);
+      pillarReflectionManager?.setMinBounces(firstInstancedBounce);
+
+      releaseMirrorTextures();
+      if (getMirrorTextureBounces(strategy, getAppState().ui.maxBounces) > 0) {
+        appliedMirrors = applyMirrorsToRoom(
+          renderConfig.scene,
+          room,
+          mirrorTextureSize
+        );
       }
-    }, 100);
+      renderPassManager?.setMirrorWalls(getMirrorWalls(room));
+      updateMirrorPasses();
+    };
+
+    // Mirror render lists are taken when mirrors are applied, so added or removed objects need fresh ones
+    const refreshMirrorRenderLists = (): void => {
+      if (appliedMirrors.length > 0) {
+        applyRenderStrategy();
+      }
+    };
 
     // Create camera indicator in editor scene only (shows render camera position)
     const cameraIndicator = createCameraIndicator(
@@ -299,6 +659,16 @@ const initialize = (): void => {
       initialState.cube.position // Look at cube position
     );
 
+    // Place the objects in both scenes and initialize their images
+    getAppState().objects.objects.forEach((object) =>
+      placeObject(
+        object,
+        getObjectTransform(getAppState().transform, object.id)
+      )
+    );
+    updateInstancePositions();
+    showInstances();
+
     // Create and configure gizmo manager following reference pattern
     console.log('🔧 Creating GizmoManager...');
 
@@ -324,14 +694,13 @@ const initialize = (): void => {
     }
 
     if (gizmoManager) {
-      gizmoManager.attachableMeshes = [editorSphere, cameraIndicator.indicator]; // Sphere and camera indicator are draggable
+      updateAttachableMeshes(); // Objects and camera indicator are draggable
       gizmoManager.clearGizmoOnEmptyPointerEvent = true; // Auto-clear on empty click
     }
-    console.log('📦 EditorCube for gizmo:', editorSphere);
 
     // Bootstrap once so gizmo sub-objects exist
-    console.log('🔗 Attaching to editorSphere...');
-    gizmoManager.attachToMesh(editorSphere);
+    console.log('🔗 Attaching to cameraIndicator...');
+    gizmoManager.attachToMesh(cameraIndicator.indicator);
     console.log('✅ Attached mesh:', gizmoManager.attachedMesh);
 
     // ── TRANSLATE ── (following exact reference pattern)
@@ -379,65 +748,49 @@ const initialize = (): void => {
       }
     }, 100);
 
+    // Keep a dragged object inside the room's outline, falling back to its last position
+    const keepInsideRoom = (candidate: Vector3, previous: Vector3): Vector3 =>
+      isPointInsideRoom(room, candidate, WALL_CLEARANCE)
+        ? candidate
+        : previous.clone();
+
+    // Record where the gizmo left an object; effects update its copy, images and rays
+    const dispatchTransform = (objectId: string, mesh: AbstractMesh): void => {
+      store.dispatch({
+        type: 'UPDATE_TRANSFORM',
+        payload: { objectId, position: mesh.position, rotation: mesh.rotation },
+      });
+    };
+
     // Add constraint callbacks for position and rotation
     const limitToRoom = (): void => {
       if (gizmoManager?.attachedMesh) {
         const attachedMesh = gizmoManager.attachedMesh;
 
-        if (attachedMesh === editorSphere && editorSphere.position) {
-          // Handle cube position constraints
-          const constrained = applyPositionConstraints(
-            editorSphere.position,
-            1,
-            8
-          );
-          editorSphere.position.copyFrom(constrained);
+        const meshes = getObjectMeshes(attachedMesh);
 
-          // Update transform state
-          transformState = updateObjectPosition(
-            transformState,
-            'colorSphere',
-            editorSphere.position
+        if (meshes) {
+          // Handle object position constraints
+          const constrained = keepInsideRoom(
+            applyPositionConstraints(meshes.editor.position, 1, 8),
+            meshes.render.position
           );
-
-          // Sync to render scene
-          if (renderSphere.position) {
-            renderSphere.position.copyFrom(editorSphere.position);
-          }
-          
-          // Update instance positions in case of constraint changes
-          updateInstancePositions();
-
-          // Update rays if cube is selected
-          if (rayManager && selectionState.selectedObjectId === 'colorSphere') {
-            rayManager = updateRays(
-              rayManager,
-              editorSphere.position,
-              editorSphere.getWorldMatrix(),
-              { count: uiState.rayCount, fanRays: uiState.fanRays, maxBounces: uiState.maxBounces }
-            );
-          }
+          meshes.editor.position.copyFrom(constrained);
+          dispatchTransform(meshes.object.id, meshes.editor);
         } else if (
           attachedMesh === cameraIndicator.indicator &&
           cameraIndicator.indicator.position
         ) {
           // Handle camera indicator position constraints
-          const constrained = applyPositionConstraints(
-            cameraIndicator.indicator.position,
-            1,
-            8
+          const constrained = keepInsideRoom(
+            applyPositionConstraints(cameraIndicator.indicator.position, 1, 8),
+            getViewpoint()
           );
           cameraIndicator.indicator.position.copyFrom(constrained);
-
-          // Update transform state
-          transformState = updateObjectPosition(
-            transformState,
-            'cameraIndicator',
-            cameraIndicator.indicator.position
+          dispatchTransform(
+            OBJECT_IDS.CAMERA_INDICATOR,
+            cameraIndicator.indicator
           );
-
-          // Sync render camera
-          syncRenderCamera();
         }
       }
     };
@@ -446,35 +799,16 @@ const initialize = (): void => {
       if (gizmoManager?.attachedMesh) {
         const attachedMesh = gizmoManager.attachedMesh;
 
-        if (attachedMesh === editorSphere && editorSphere.rotation) {
-          // Handle cube rotation constraints
-          const constrained = applyRotationConstraints(editorSphere.rotation, 15);
-          editorSphere.rotation.copyFrom(constrained);
+        const meshes = getObjectMeshes(attachedMesh);
 
-          // Update transform state
-          transformState = updateObjectRotation(
-            transformState,
-            'colorSphere',
-            editorSphere.rotation
+        if (meshes) {
+          // Handle object rotation constraints
+          const constrained = applyRotationConstraints(
+            meshes.editor.rotation,
+            15
           );
-
-          // Sync to render scene
-          if (renderSphere.rotation) {
-            renderSphere.rotation.copyFrom(editorSphere.rotation);
-          }
-          
-          // Update instance rotations in case of constraint changes
-          updateInstancePositions();
-
-          // Update rays if cube is selected
-          if (rayManager && selectionState.selectedObjectId === 'colorSphere') {
-            rayManager = updateRays(
-              rayManager,
-              editorSphere.position,
-              editorSphere.getWorldMatrix(),
-              { count: uiState.rayCount, fanRays: uiState.fanRays, maxBounces: uiState.maxBounces }
-            );
-          }
+          meshes.editor.rotation.copyFrom(constrained);
+          dispatchTransform(meshes.object.id, meshes.editor);
         } else if (
           attachedMesh === cameraIndicator.indicator &&
           cameraIndicator.indicator.rotation
@@ -485,16 +819,10 @@ const initialize = (): void => {
             15
           );
           cameraIndicator.indicator.rotation.copyFrom(constrained);
-
-          // Update transform state
-          transformState = updateObjectRotation(
-            transformState,
-            'cameraIndicator',
-            cameraIndicator.indicator.rotation
+          dispatchTransform(
+            OBJECT_IDS.CAMERA_INDICATOR,
+            cameraIndicator.indicator
           );
-
-          // Sync render camera
-          syncRenderCamera();
         }
       }
     };
@@ -502,90 +830,7 @@ const initialize = (): void => {
     // Apply constraints on drag (delayed to ensure gizmos are ready)
     setTimeout(() => {
       if (gizmoManager.gizmos.positionGizmo) {
-        // Hide rays and instances on drag start (for cube only)
-        gizmoManager.gizmos.positionGizmo.xGizmo.dragBehavior.onDragStartObservable.add(
-          () => {
-            if (gizmoManager.attachedMesh === editorSphere) {
-              if (rayManager) {
-                rayManager = hideRays(rayManager);
-              }
-              hideInstances();
-            }
-          }
-        );
-        gizmoManager.gizmos.positionGizmo.yGizmo.dragBehavior.onDragStartObservable.add(
-          () => {
-            if (gizmoManager.attachedMesh === editorSphere) {
-              if (rayManager) {
-                rayManager = hideRays(rayManager);
-              }
-              hideInstances();
-            }
-          }
-        );
-        gizmoManager.gizmos.positionGizmo.zGizmo.dragBehavior.onDragStartObservable.add(
-          () => {
-            if (gizmoManager.attachedMesh === editorSphere) {
-              if (rayManager) {
-                rayManager = hideRays(rayManager);
-              }
-              hideInstances();
-            }
-          }
-        );
-
-        gizmoManager.gizmos.positionGizmo.xGizmo.dragBehavior.onDragEndObservable.add(
-          () => {
-            if (gizmoManager.attachedMesh === editorSphere) {
-              if (rayManager) {
-                rayManager = showRays(rayManager);
-                rayManager = updateRays(
-                  rayManager,
-                  editorSphere.position,
-                  editorSphere.getWorldMatrix(),
-                  { count: uiState.rayCount, fanRays: uiState.fanRays, maxBounces: uiState.maxBounces }
-                );
-              }
-              updateInstancePositions();
-              showInstances();
-            }
-          }
-        );
-        gizmoManager.gizmos.positionGizmo.yGizmo.dragBehavior.onDragEndObservable.add(
-          () => {
-            if (gizmoManager.attachedMesh === editorSphere) {
-              if (rayManager) {
-                rayManager = showRays(rayManager);
-                rayManager = updateRays(
-                  rayManager,
-                  editorSphere.position,
-                  editorSphere.getWorldMatrix(),
-                  { count: uiState.rayCount, fanRays: uiState.fanRays, maxBounces: uiState.maxBounces }
-                );
-              }
-              updateInstancePositions();
-              showInstances();
-            }
-          }
-        );
-        gizmoManager.gizmos.positionGizmo.zGizmo.dragBehavior.onDragEndObservable.add(
-          () => {
-            if (gizmoManager.attachedMesh === editorSphere) {
-              if (rayManager) {
-                rayManager = showRays(rayManager);
-                rayManager = updateRays(
-                  rayManager,
-                  editorSphere.position,
-                  editorSphere.getWorldMatrix(),
-                  { count: uiState.rayCount, fanRays: uiState.fanRays, maxBounces: uiState.maxBounces }
-                );
-              }
-              updateInstancePositions();
-              showInstances();
-            }
-          }
-        );
-
+        // Rays and images follow the object through the store while it is dragged
         gizmoManager.gizmos.positionGizmo.xGizmo.dragBehavior.onDragObservable.add(
           limitToRoom
         );
@@ -603,40 +848,24 @@ const initialize = (): void => {
           constrainRotation
         );
 
-        // Hide rays and instances during rotation drag
-        gizmoManager.gizmos.rotationGizmo.yGizmo.dragBehavior.onDragStartObservable.add(
-          () => {
-            if (gizmoManager.attachedMesh === editorSphere) {
-              if (rayManager) {
-                rayManager = hideRays(rayManager);
-              }
-              hideInstances();
-            }
-          }
-        );
-
-        // Show and update rays and instances after rotation
-        gizmoManager.gizmos.rotationGizmo.yGizmo.dragBehavior.onDragEndObservable.add(
-          () => {
-            if (gizmoManager.attachedMesh === editorSphere) {
-              if (rayManager) {
-                rayManager = showRays(rayManager);
-                rayManager = updateRays(
-                  rayManager,
-                  editorSphere.position,
-                  editorSphere.getWorldMatrix(),
-                  { count: uiState.rayCount, fanRays: uiState.fanRays, maxBounces: uiState.maxBounces }
-                );
-              }
-              // Update instance positions and rotations
-              updateInstancePositions();
-              showInstances();
-            }
-          }
-        );
-
         console.log('✅ Rotation drag constraints attached');
       }
+
+      // Each gizmo drag becomes a single undo entry
+      const { positionGizmo, rotationGizmo } = gizmoManager.gizmos;
+      [
+        positionGizmo?.xGizmo,
+        positionGizmo?.yGizmo,
+        positionGizmo?.zGizmo,
+        rotationGizmo?.yGizmo,
+      ].forEach((axisGizmo) => {
+        axisGizmo?.dragBehavior.onDragStartObservable.add(() =>
+          store.dispatch({ type: 'BEGIN_GESTURE' })
+        );
+        axisGizmo?.dragBehavior.onDragEndObservable.add(() =>
+          store.dispatch({ type: 'END_GESTURE' })
+        );
+      });
     }, 150);
 
     // Following reference pattern: start with nothing selected
@@ -645,40 +874,199 @@ const initialize = (): void => {
       gizmoManager.attachToMesh(null);
     }, 200);
 
-    // Create ray visualization manager
-    rayManager = createRayManager(editorConfig.scene);
-    console.log('✅ Ray manager created');
+    // Render view rays glow when the control panel asks for it
+    const rayGlowLayer = new GlowLayer('rayGlow', renderConfig.scene);
+    rayGlowLayer.customEmissiveColorSelector = (
+      _mesh,
+      _subMesh,
+      _material,
+      color
+    ): void => {
+      color.set(1, 1, 1, 1); // Vertex colours tint the glow to each ray
+    };
+    rayGlowLayer.isEnabled = false;
 
-    // Set up selection handling
-    const handleSelection = (objectId: string | null): void => {
-      if (editorConfig && renderConfig) {
-        // Remove highlight from previously selected object
-        if (selectionState.selectedObjectId) {
-          removeHighlight(editorConfig.scene, selectionState.selectedObjectId);
-          removeHighlight(renderConfig.scene, selectionState.selectedObjectId);
-        }
+    imagePathManager = createImagePathManager(editorConfig.scene, room);
 
-        // Update selection state
-        if (objectId) {
-          selectionState = selectObject(selectionState, objectId);
-          // Apply highlight to newly selected object
-          applyHighlight(editorConfig.scene, objectId);
-          applyHighlight(renderConfig.scene, objectId);
-
-          // Attach gizmo to selected object
-          const editorMesh = editorConfig.scene.getMeshByName(objectId);
-          if (editorMesh && gizmoManager) {
-            // Attach gizmo directly to the selected mesh
-            gizmoManager.attachToMesh(editorMesh);
-          }
-        } else {
-          selectionState = clearSelection(selectionState);
-          // Detach gizmo
-          if (gizmoManager) {
-            gizmoManager.attachToMesh(null);
+    // Push a new room definition to meshes, rays, instances and render passes
+    // (the reflection and ray effects redraw images and rays afterwards)
+    const applyRoomDefinition = (nextRoom: RoomDefinition): void => {
+      room = nextRoom;
+
+      releaseMirrorTextures();
+      updateRoomMirrors(editorRoom, room);
+      updateRoomMirrors(renderRoom, room);
+      applyRenderStrategy();
+
+      objectReflectionManagers.forEach((manager) => manager.setRoom(room));
+      groundReflectionManager?.setRoom(room);
+      pillarReflectionManager?.setRoom(room);
+      if (imagePathManager) {
+        imagePathManager = setImagePathRoom(imagePathManager, room);
+      }
+      updateObjectRayManagers((manager) => setRayRoom(manager, room));
+    };
+
+    // Spot for a new object: the start position, or the nearest ring spot clear of other objects
+    const findFreeObjectPosition = (): Vector3 => {
+      const start = initialState.cube.position;
+      const others = [...objectMeshes.values()].map(({ editor }) => editor);
+      for (let ring = 0; ring <= 3; ring++) {
+        const spots = ring === 0 ? 1 : 8;
+        for (let spot = 0; spot < spots; spot++) {
+          const angle = (spot / spots) * Math.PI * 2;
+          const candidate = start.add(
+            new Vector3(Math.cos(angle), 0, Math.sin(angle)).scale(ring * 2.5)
+          );
+          const isClear = others.every(
+            ({ position }) => Vector3.Distance(position, candidate) >= 2 // Objects fit in a 1-unit radius
+          );
+          if (isClear && isPointInsideRoom(room, candidate, WALL_CLEARANCE)) {
+            return candidate;
           }
         }
       }
+      return start.clone();
+    };
+
+    // Replace the room meshes with a new shape and update everything that uses them
+    const rebuildRoom = (nextRoom: RoomDefinition): void => {
+      // Dispose floor instances before the floor mesh they come from
+      groundReflectionManager?.dispose();
+      releaseMirrorTextures();
+      disposeRoom(editorRoom);
+      disposeRoom(renderRoom);
+
+      room = nextRoom;
+      editorRoom = createRoom(editorConfig.scene, true, room);
+      renderRoom = createRoom(renderConfig.scene, false, room);
+      groundReflectionManager = createGroundReflectionManager();
+
+      applyRoomDefinition(room);
+    };
+
+    // Show or hide the pillar and its effect on rays and sight lines
+    const setPillarEnabled = (enabled: boolean): void => {
+      editorPillar.setEnabled(enabled);
+      renderPillar.setEnabled(enabled);
+
+      const obstacles = enabled ? [createPillarObstacle(editorPillar)] : [];
+      if (imagePathManager) {
+        imagePathManager = setImagePathObstacles(imagePathManager, obstacles);
+      }
+      pillarObstacles = obstacles;
+      updateRayObstacles();
+    };
+
+    // Show or hide the sight lines from the camera to each sphere image
+    const setImagePathMode = (enabled: boolean): void => {
+      if (!imagePathManager) {
+        return;
+      }
+
+      if (enabled) {
+        refreshImagePaths();
+        imagePathManager = showImagePaths(imagePathManager);
+      } else {
+        imagePathManager = hideImagePaths(imagePathManager);
+      }
+    };
+
+    // Label each shown object image as flipped or not, where the render camera sees it
+    const handednessOverlay = document.getElementById('handednessOverlay');
+    const refreshHandednessLabels = (): void => {
+      if (!handednessOverlay) {
+        return;
+      }
+
+      const { ui, scene } = getAppState();
+      const paths = scene.showHandedness
+        ? [...objectReflectionManagers.values()].flatMap((manager) =>
+            manager
+              .getPaths()
+              .filter(
+                (path) =>
+                  path.bounceCount <= ui.maxBounces &&
+                  manager.isPathVisible(path.id)
+              )
+          )
+        : [];
+      updateHandednessOverlay(
+        handednessOverlay,
+        projectHandednessLabels(
+          paths,
+          renderConfig.scene.getTransformMatrix(),
+          renderCamera.globalPosition,
+          renderCanvas.clientWidth,
+          renderCanvas.clientHeight
+        )
+      );
+    };
+
+    // Frame time measurements for automatic quality
+    let autoQuality = createAutoQualityState();
+
+    // Scale resolution, tessellation, image count, glow and mirrors to a quality level
+    const applyQualityLevel = (level: QualityLevel): void => {
+      const preset = getQualityPreset(level);
+      qualityPreset = preset;
+
+      editorConfig.engine.setHardwareScalingLevel(preset.hardwareScalingLevel);
+      renderConfig.engine.setHardwareScalingLevel(preset.hardwareScalingLevel);
+      objectMeshes.forEach(({ object, editor, render }) => {
+        if (object.kind === 'sphere') {
+          setSphereSegments(editor, preset.sphereSegments);
+          setSphereSegments(render, preset.sphereSegments);
+        }
+      });
+      glowLayer.intensity = preset.glowIntensity;
+      glowLayer.isEnabled = preset.glowIntensity > 0;
+
+      objectReflectionManagers.forEach((manager) =>
+        manager.setMaxImages(preset.maxImages)
+      );
+      groundReflectionManager?.setMaxImages(preset.maxImages);
+      pillarReflectionManager?.setMaxImages(preset.maxImages);
+      updateInstancePositions();
+      showInstances();
+
+      // Mirror textures are recreated at the new size
+      if (preset.mirrorTextureSize !== mirrorTextureSize) {
+        mirrorTextureSize = preset.mirrorTextureSize;
+        applyRenderStrategy();
+      }
+    };
+
+    // Use a fixed quality level, or start measuring frames for automatic quality
+    const setQuality = (quality: QualitySetting): void => {
+      autoQuality = createAutoQualityState();
+      applyQualityLevel(quality === 'auto' ? autoQuality.level : quality);
+    };
+
+    // Step automatic quality up or down once enough frames are measured
+    const measureFrameTime = (frameTime: number): void => {
+      if (getAppState().ui.quality !== 'auto') {
+        return;
+      }
+
+      const previousLevel = autoQuality.level;
+      autoQuality = updateAutoQuality(autoQuality, frameTime);
+      if (autoQuality.level !== previousLevel) {
+        applyQualityLevel(autoQuality.level);
+      }
+    };
+
+    // Set up selection handling (the selection effect highlights and attaches the gizmo)
+    const handleSelection = (objectId: string | null): void => {
+      if (objectId === getAppState().selection.selectedObjectId) {
+        return;
+      }
+
+      store.dispatch(
+        objectId
+          ? { type: 'SELECT_OBJECT', payload: { objectId } }
+          : { type: 'CLEAR_SELECTION' }
+      );
     };
 
     // Create pick handler for editor scene
@@ -691,43 +1079,68 @@ const initialize = (): void => {
     // Register pick handler
     editorConfig.scene.onPointerObservable.add(pickHandler);
 
+    // Show which mirror sequences form the image under the pointer in the render view
+    const imageTooltip = document.getElementById('imageTooltip');
+    const hoverHandler = (pointerInfo: PointerInfo): void => {
+      if (pointerInfo.type !== PointerEventTypes.POINTERMOVE || !imageTooltip) {
+        return;
+      }
+
+      const scene = renderConfig.scene;
+      const pick = scene.pick(
+        scene.pointerX,
+        scene.pointerY,
+        (mesh) =>
+          mesh instanceof Mesh &&
+          mesh.thinInstanceEnablePicking &&
+          mesh.isEnabled()
+      );
+      const mesh = pick?.hit ? pick.pickedMesh : null;
+      const path = mesh
+        ? ([...objectReflectionManagers.values()]
+            .map((manager) =>
+              manager.getPathForMesh(mesh, pick.thinInstanceIndex)
+            )
+            .find((objectPath) => objectPath) ??
+          pillarReflectionManager?.getPathForMesh(
+            mesh,
+            pick.thinInstanceIndex
+          ) ??
+          null)
+        : null;
+      updateImageTooltip(
+        imageTooltip,
+        path?.sequences ?? null,
+        room,
+        scene.pointerX,
+        scene.pointerY
+      );
+    };
+    renderConfig.scene.onPointerObservable.add(hoverHandler);
+    const hideImageTooltip = (): void => {
+      if (imageTooltip) imageTooltip.hidden = true;
+    };
+    renderCanvas.addEventListener('pointerleave', hideImageTooltip);
+    unbindFunctions.push(() =>
+      renderCanvas.removeEventListener('pointerleave', hideImageTooltip)
+    );
+
     // Also handle gizmo attachment changes (matches reference pattern)
     gizmoManager.onAttachedToMeshObservable.add((mesh) => {
-      if (mesh === editorSphere) {
-        // Cube selected - show rays and instances, lock Y movement
-        if (rayManager) {
-          rayManager = showRays(rayManager);
-          rayManager = updateRays(
-            rayManager,
-            editorSphere.position,
-            editorSphere.getWorldMatrix(),
-            { count: uiState.rayCount, fanRays: uiState.fanRays, maxBounces: uiState.maxBounces }
-          );
-        }
-        showInstances();
+      if (getObjectMeshes(mesh)) {
+        // Object selected - lock Y movement
         if (gizmoManager.gizmos.positionGizmo) {
           gizmoManager.gizmos.positionGizmo.yGizmo.isEnabled = false;
         }
       } else if (mesh === cameraIndicator.indicator) {
-        // Camera indicator selected - hide rays, keep instances visible, allow Y movement
-        if (rayManager) {
-          rayManager = hideRays(rayManager);
-        }
-        // Keep instances visible
+        // Camera indicator selected - allow Y movement
         if (gizmoManager.gizmos.positionGizmo) {
           gizmoManager.gizmos.positionGizmo.yGizmo.isEnabled = true;
         }
-      } else if (mesh === null) {
-        // Nothing selected - hide rays but keep instances visible
-        if (rayManager) {
-          rayManager = hideRays(rayManager);
-        }
-        // Remove highlight from render scene when nothing is selected
-        if (selectionState.selectedObjectId) {
-          removeHighlight(renderConfig.scene, selectionState.selectedObjectId);
-        }
-        // Keep instances visible
       }
+
+      // The gizmo attaches and clears itself on pointer events, so keep the store in step
+      handleSelection(mesh?.name ?? null);
     });
 
     // Sync render camera with indicator position
@@ -737,19 +1150,208 @@ const initialize = (): void => {
 
     // Keep Y positions locked (matches reference behavior)
     const lockYPositions = (): void => {
-      if (editorSphere) {
-        editorSphere.position.y = initialState.cube.position.y; // Keep sphere at initial Y
-      }
-      if (renderSphere) {
-        renderSphere.position.y = initialState.cube.position.y; // Keep render sphere synced
-      }
+      objectMeshes.forEach(({ editor, render }) => {
+        editor.position.y = initialState.cube.position.y; // Keep objects at initial Y
+        render.position.y = initialState.cube.position.y; // Keep render copies synced
+      });
       // Camera indicator Y position is not locked - it can move freely
     };
 
     // Initial sync
     syncRenderCamera();
 
+    // Most image cells unfolded rays continue into, fewest bounces first, to keep the ray mesh small
+    const MAX_UNFOLDED_RAY_CELLS = 40;
+
+    // Mirror render lists hold meshes, so a new render view ray mesh needs fresh ones
+    let renderRayMeshIds = '';
+
+    // Draw an object's rays in the render view too, continued into the image
+    // cells its instances fill when unfolded rays are on
+    const updateRenderViewRays = (
+      manager: RayManager,
+      { objectId, position, worldMatrix, config }: RayUpdate
+    ): RayManager => {
+      const { ui } = getAppState();
+      if (!ui.showRenderViewRays) {
+        return hideRays(manager);
+      }
+
+      const imageManager = objectReflectionManagers.get(objectId);
+      const firstInstancedBounce = getFirstInstancedBounce(
+        getCurrentRenderStrategy()
+      );
+      const reflections =
+        ui.showUnfoldedRays && imageManager
+          ? imageManager
+              .getPaths()
+              .filter(
+                (path) =>
+                  path.bounceCount >= firstInstancedBounce &&
+                  imageManager.isPathVisible(path.id)
+              )
+              .slice(0, MAX_UNFOLDED_RAY_CELLS)
+              .map((path) => path.reflection)
+          : [];
+
+      return showRays(
+        updateRays(
+          setRayReflections(manager, reflections),
+          position,
+          worldMatrix,
+          {
+            ...config,
+            straightLines: false, // Straightened rays follow the editor's unfolded cells
+          }
+        )
+      );
+    };
+
+    // Render view rays of every object glow together and show in the mirrors
+    const refreshRenderViewRayMeshes = (): void => {
+      const rayMeshes = [...objectRayManagers.values()].flatMap(({ render }) =>
+        render.isVisible ? render.parentNode.getChildMeshes<Mesh>() : []
+      );
+      rayMeshes.forEach((mesh) => rayGlowLayer.addIncludedOnlyMesh(mesh));
+      // An empty include list would make every mesh glow
+      rayGlowLayer.isEnabled = getAppState().ui.rayGlow && rayMeshes.length > 0;
+
+      const meshIds = rayMeshes.map((mesh) => mesh.uniqueId).join(',');
+      if (meshIds !== renderRayMeshIds) {
+        renderRayMeshIds = meshIds;
+        refreshMirrorRenderLists();
+      }
+    };
+
+    // Editor view half-height when the room alone is shown, and the border kept around unfolded cells
+    const EDITOR_HALF_HEIGHT = 10;
+    const UNFOLDED_VIEW_MARGIN = 1;
+
+    let unfoldedRoom: LinesMesh | null = null;
+
+    // Tile the image cells of the selected (or first) object around the room
+    // and zoom the editor out to fit them, so straightened rays can be followed
+    const updateUnfoldedRoom = (visible: boolean): void => {
+      const { objects, selection } = getAppState();
+      const [firstObject] = objects.objects;
+      const imageObjectId = selection.selectedObjectId ?? firstObject?.id;
+      const imageManager = imageObjectId
+        ? objectReflectionManagers.get(imageObjectId)
+        : undefined;
+      const reflections =
+        visible && imageManager
+          ? getUnfoldedCellReflections(
+              room,
+              imageManager
+                .getPaths()
+                .filter((path) => imageManager.isPathVisible(path.id))
+            )
+          : [];
+
+      unfoldedRoom = createUnfoldedRoom(
+        room,
+        reflections,
+        editorConfig.scene,
+        unfoldedRoom
+      );
+      // Straightened rays stop where the drawn cells end
+      unfoldedCells = reflections;
+      updateObjectRayManagers((manager) =>
+        setRayUnfoldedCells(manager, reflections)
+      );
+      zoomOrthographicCamera(
+        editorCamera,
+        visible
+          ? Math.max(
+              EDITOR_HALF_HEIGHT,
+              getUnfoldedRoomExtent(room, reflections) + UNFOLDED_VIEW_MARGIN
+            )
+          : EDITOR_HALF_HEIGHT
+      );
+    };
+
+    // Effects drive each object's ray managers, which return a new value on every change
+    const rayEffectTarget: RayEffectTarget = {
+      updateObstacles: updateRayObstacles,
+      updateRays: (update) => {
+        const managers = objectRayManagers.get(update.objectId);
+        if (!managers) {
+          return;
+        }
+        objectRayManagers.set(update.objectId, {
+          editor: updateRays(
+            managers.editor,
+            update.position,
+            update.worldMatrix,
+            update.config
+          ),
+          render: updateRenderViewRays(managers.render, update),
+        });
+        refreshRenderViewRayMeshes();
+      },
+    };
+
+    // Scene operations the state effects call after each dispatched action
+    const effectContext: EffectContext = {
+      editorScene: editorConfig.scene,
+      renderScene: renderConfig.scene,
+      gizmoManager,
+      rayManager: rayEffectTarget,
+      applyHighlight,
+      removeHighlight,
+      getInitialConfig: () => initialState,
+      syncRenderCamera,
+      applyRoom: (nextRoom, isNewShape) => {
+        if (isNewShape) {
+          rebuildRoom(nextRoom);
+        } else {
+          applyRoomDefinition(nextRoom);
+        }
+      },
+      setPillarEnabled,
+      setImagePathsVisible: setImagePathMode,
+      setHandednessVisible: refreshHandednessLabels,
+      applyQuality: setQuality,
+      applyRenderMode: applyRenderStrategy,
+      updateReflections: () => {
+        updateMirrorPasses();
+        updateInstancePositions();
+        showInstances();
+      },
+      addObject: (object, transform) => {
+        placeObject(object, transform);
+        refreshMirrorRenderLists();
+      },
+      removeObject: (objectId) => {
+        removePlacedObject(objectId);
+        refreshMirrorRenderLists();
+      },
+      updateObjectColor: recolorObject,
+      updateUnfoldedRoom,
+    };
+    unbindFunctions.push(
+      store.subscribe((history, previousHistory) => {
+        applyStateEffects(
+          previousHistory.present,
+          history.present,
+          effectContext
+        );
+      })
+    );
+    // Every object emits rays from the start
+    createRayUpdateEffect(null, getAppState()).execute(effectContext);
+
+    // Scene document for the current state; unmoved objects are where their meshes are
+    const describeScene = (): SceneDocument =>
+      createSceneDocument(getAppState(), {
+        ...Object.fromEntries(
+          [...objectMeshes].map(([objectId, { editor }]) => [objectId, editor])
+        ),
+        [OBJECT_IDS.CAMERA_INDICATOR]: cameraIndicator.indicator,
+      });
+
     // Set up UI control bindings
+    // Controls only dispatch actions; syncControls shows the resulting state
     const setupUIBindings = (): void => {
       // Get UI elements
       const raysSlider = document.getElementById(
@@ -767,6 +1369,12 @@ const initialize = (): void => {
       const resetButton = document.getElementById(
         'resetButton'
       ) as HTMLButtonElement;
+      const undoButton = document.getElementById(
+        'undoButton'
+      ) as HTMLButtonElement | null;
+      const redoButton = document.getElementById(
+        'redoButton'
+      ) as HTMLButtonElement | null;
 
       if (!raysSlider || !fanRaysSlider || !bouncesSlider || !resetButton) {
         console.error('UI controls not found');
@@ -774,167 +1382,573 @@ const initialize = (): void => {
       }
 
       // Bind ray count slider
-      const unbindRays = bindSliderToState(raysSlider, (value) => {
-        uiState = updateRayCount(uiState, value);
-        if (raysValue) raysValue.textContent = value.toString();
+      unbindFunctions.push(
+        bindSliderToState(raysSlider, (count) => {
+          store.dispatch({ type: 'UPDATE_RAY_COUNT', payload: { count } });
+        })
+      );
 
-        // Update rays if sphere is selected
-        if (
-          rayManager &&
-          selectionState.selectedObjectId === 'colorSphere' &&
-          editorSphere
-        ) {
-          rayManager = updateRays(
-            rayManager,
-            editorSphere.position,
-            editorSphere.getWorldMatrix(),
-            { count: uiState.rayCount, fanRays: uiState.fanRays, maxBounces: uiState.maxBounces }
-          );
+      // Bind fan rays slider
+      unbindFunctions.push(
+        bindSliderToState(fanRaysSlider, (count) => {
+          store.dispatch({ type: 'UPDATE_FAN_RAYS', payload: { count } });
+        })
+      );
+
+      // Bind bounces slider
+      unbindFunctions.push(
+        bindSliderToState(bouncesSlider, (bounces) => {
+          store.dispatch({ type: 'UPDATE_MAX_BOUNCES', payload: { bounces } });
+        })
+      );
+
+      // Bind emission pattern dropdown
+      const emissionSelect = document.getElementById(
+        'emissionSelect'
+      ) as HTMLSelectElement | null;
+      if (emissionSelect) {
+        unbindFunctions.push(
+          bindDropdownToState(emissionSelect, (value) => {
+            store.dispatch({
+              type: 'UPDATE_EMISSION_PATTERN',
+              payload: { pattern: validateEmissionPattern(value) },
+            });
+          })
+        );
+      }
+
+      // Bind ray style dropdown and width slider
+      const rayStyleSelect = document.getElementById(
+        'rayStyleSelect'
+      ) as HTMLSelectElement | null;
+      if (rayStyleSelect) {
+        unbindFunctions.push(
+          bindDropdownToState(rayStyleSelect, (value) => {
+            store.dispatch({
+              type: 'UPDATE_RAY_STYLE',
+              payload: { style: validateRayStyle(value) },
+            });
+          })
+        );
+      }
+      const rayWidthSlider = document.getElementById(
+        'rayWidthSlider'
+      ) as HTMLInputElement | null;
+      const rayWidthValue = document.getElementById('rayWidthValue');
+      if (rayWidthSlider) {
+        unbindFunctions.push(
+          bindSliderToState(rayWidthSlider, (width) => {
+            store.dispatch({ type: 'UPDATE_RAY_WIDTH', payload: { width } });
+          })
+        );
+      }
+
+      // Bind the render view ray toggles
+      const renderViewRaysToggle = document.getElementById(
+        'renderViewRaysToggle'
+      ) as HTMLInputElement | null;
+      if (renderViewRaysToggle) {
+        unbindFunctions.push(
+          bindCheckboxToState(renderViewRaysToggle, (visible) => {
+            store.dispatch({
+              type: 'SET_RENDER_VIEW_RAYS_VISIBLE',
+              payload: { visible },
+            });
+          })
+        );
+      }
+      const rayGlowToggle = document.getElementById(
+        'rayGlowToggle'
+      ) as HTMLInputElement | null;
+      if (rayGlowToggle) {
+        unbindFunctions.push(
+          bindCheckboxToState(rayGlowToggle, (enabled) => {
+            store.dispatch({
+              type: 'SET_RAY_GLOW_ENABLED',
+              payload: { enabled },
+            });
+          })
+        );
+      }
+      const unfoldedRaysToggle = document.getElementById(
+        'unfoldedRaysToggle'
+      ) as HTMLInputElement | null;
+      if (unfoldedRaysToggle) {
+        unbindFunctions.push(
+          bindCheckboxToState(unfoldedRaysToggle, (visible) => {
+            store.dispatch({
+              type: 'SET_UNFOLDED_RAYS_VISIBLE',
+              payload: { visible },
+            });
+          })
+        );
+      }
+
+      // Bind editor mode dropdown
+      const editorModeSelect = document.getElementById(
+        'editorModeSelect'
+      ) as HTMLSelectElement | null;
+      if (editorModeSelect) {
+        unbindFunctions.push(
+          bindDropdownToState(editorModeSelect, (value) => {
+            store.dispatch({
+              type: 'UPDATE_EDITOR_MODE',
+              payload: { mode: validateEditorMode(value) },
+            });
+          })
+        );
+      }
+
+      // Bind quality dropdown
+      const qualitySelect = document.getElementById(
+        'qualitySelect'
+      ) as HTMLSelectElement | null;
+      if (qualitySelect) {
+        unbindFunctions.push(
+          bindDropdownToState(qualitySelect, (value) => {
+            store.dispatch({
+              type: 'UPDATE_QUALITY',
+              payload: { quality: validateQuality(value) },
+            });
+          })
+        );
+      }
+
+      // Bind render mode dropdown
+      const renderModeSelect = document.getElementById(
+        'renderModeSelect'
+      ) as HTMLSelectElement | null;
+      if (renderModeSelect) {
+        unbindFunctions.push(
+          bindDropdownToState(renderModeSelect, (value) => {
+            store.dispatch({
+              type: 'UPDATE_RENDER_MODE',
+              payload: { mode: validateRenderMode(value) },
+            });
+          })
+        );
+      }
+
+      // Bind per-wall mirror toggles, rebuilt for each room shape
+      const mirrorTogglesContainer = document.getElementById('mirrorToggles');
+      let mirrorToggles: HTMLInputElement[] = [];
+      let unbindMirrorToggles: Array<() => void> = [];
+      const buildMirrorToggles = (): void => {
+        unbindMirrorToggles.forEach((unbind) => unbind());
+        unbindMirrorToggles = [];
+        if (!mirrorTogglesContainer) {
+          return;
         }
-      });
-      unbindFunctions.push(unbindRays);
 
-      // Bind fan rays slider
-      const unbindFanRays = bindSliderToState(fanRaysSlider, (value) => {
-        uiState = updateFanRays(uiState, value);
-        if (fanRaysValue) fanRaysValue.textContent = value.toString();
+        mirrorToggles = renderMirrorToggles(
+          mirrorTogglesContainer,
+          getRoomSurfaces(room)
+        );
+        unbindMirrorToggles = mirrorToggles.map((toggle) =>
+          bindCheckboxToState(toggle, (isMirror) => {
+            store.dispatch({
+              type: 'SET_WALL_MIRROR',
+              payload: { wallId: toggle.dataset.mirrorWall, isMirror },
+            });
+          })
+        );
+      };
+      buildMirrorToggles();
+      unbindFunctions.push(() =>
+        unbindMirrorToggles.forEach((unbind) => unbind())
+      );
 
-        // Update rays if sphere is selected
-        if (
-          rayManager &&
-          selectionState.selectedObjectId === 'colorSphere' &&
-          editorSphere
-        ) {
-          rayManager = updateRays(
-            rayManager,
-            editorSphere.position,
-            editorSphere.getWorldMatrix(),
-            { count: uiState.rayCount, fanRays: uiState.fanRays, maxBounces: uiState.maxBounces }
-          );
+      // Bind pillar toggle
+      const pillarToggle = document.getElementById(
+        'pillarToggle'
+      ) as HTMLInputElement | null;
+      if (pillarToggle) {
+        unbindFunctions.push(
+          bindCheckboxToState(pillarToggle, (enabled) => {
+            store.dispatch({
+              type: 'SET_PILLAR_ENABLED',
+              payload: { enabled },
+            });
+          })
+        );
+      }
+
+      // Bind sight line mode toggle
+      const imagePathsToggle = document.getElementById(
+        'imagePathsToggle'
+      ) as HTMLInputElement | null;
+      if (imagePathsToggle) {
+        unbindFunctions.push(
+          bindCheckboxToState(imagePathsToggle, (visible) => {
+            store.dispatch({
+              type: 'SET_IMAGE_PATHS_VISIBLE',
+              payload: { visible },
+            });
+          })
+        );
+      }
+
+      // Bind handedness label toggle
+      const handednessToggle = document.getElementById(
+        'handednessToggle'
+      ) as HTMLInputElement | null;
+      if (handednessToggle) {
+        unbindFunctions.push(
+          bindCheckboxToState(handednessToggle, (visible) => {
+            store.dispatch({
+              type: 'SET_HANDEDNESS_VISIBLE',
+              payload: { visible },
+            });
+          })
+        );
+      }
+
+      // Bind room shape dropdown
+      const roomShapeSelect = document.getElementById(
+        'roomShapeSelect'
+      ) as HTMLSelectElement | null;
+      if (roomShapeSelect) {
+        unbindFunctions.push(
+          bindDropdownToState(roomShapeSelect, (presetId) => {
+            store.dispatch({
+              type: 'SELECT_ROOM_PRESET',
+              payload: { presetId },
+            });
+          })
+        );
+      }
+
+      // Bind object controls: add a shape, recolour or remove the selected object
+      const objectKindSelect = document.getElementById(
+        'objectKindSelect'
+      ) as HTMLSelectElement | null;
+      const addObjectButton = document.getElementById(
+        'addObjectButton'
+      ) as HTMLButtonElement | null;
+      const objectColorInput = document.getElementById(
+        'objectColorInput'
+      ) as HTMLInputElement | null;
+      const removeObjectButton = document.getElementById(
+        'removeObjectButton'
+      ) as HTMLButtonElement | null;
+
+      const handleAddObject = (): void => {
+        const kind = objectKindSelect?.value;
+        store.dispatch({
+          type: 'ADD_OBJECT',
+          payload: {
+            kind: isObjectKind(kind) ? kind : 'sphere',
+            position: findFreeObjectPosition(),
+          },
+        });
+      };
+      const handleRemoveObject = (): void => {
+        const object = selectSelectedSceneObject(getAppState());
+        if (object) {
+          store.dispatch({
+            type: 'REMOVE_OBJECT',
+            payload: { objectId: object.id },
+          });
         }
-      });
-      unbindFunctions.push(unbindFanRays);
+      };
+      const handleObjectColor = (): void => {
+        const object = selectSelectedSceneObject(getAppState());
+        if (object && objectColorInput) {
+          store.dispatch({
+            type: 'SET_OBJECT_COLOR',
+            payload: { objectId: object.id, color: objectColorInput.value },
+          });
+        }
+      };
 
-      // Bind bounces slider
-      const unbindBounces = bindSliderToState(bouncesSlider, (value) => {
-        uiState = updateMaxBounces(uiState, value);
-        if (bouncesValue) bouncesValue.textContent = value.toString();
+      addObjectButton?.addEventListener('click', handleAddObject);
+      removeObjectButton?.addEventListener('click', handleRemoveObject);
+      objectColorInput?.addEventListener('change', handleObjectColor);
+      unbindFunctions.push(
+        () => addObjectButton?.removeEventListener('click', handleAddObject),
+        () =>
+          removeObjectButton?.removeEventListener('click', handleRemoveObject),
+        () => objectColorInput?.removeEventListener('change', handleObjectColor)
+      );
 
-        // Update render pass manager
-        if (renderPassManager) {
-          renderPassManager.setBounceCount(value);
+      // Show the state in every control, whichever action changed it
+      const syncControls = (
+        state: AppState,
+        previousState?: AppState
+      ): void => {
+        const { ui, scene } = state;
+
+        raysSlider.value = ui.rayCount.toString();
+        if (raysValue) raysValue.textContent = ui.rayCount.toString();
+        fanRaysSlider.value = ui.fanRays.toString();
+        if (fanRaysValue) fanRaysValue.textContent = ui.fanRays.toString();
+        bouncesSlider.value = ui.maxBounces.toString();
+        if (bouncesValue) bouncesValue.textContent = ui.maxBounces.toString();
+        if (emissionSelect) emissionSelect.value = ui.emissionPattern;
+        if (rayStyleSelect) rayStyleSelect.value = ui.rayStyle;
+        if (editorModeSelect) editorModeSelect.value = ui.editorMode;
+        if (rayWidthSlider) {
+          rayWidthSlider.value = ui.rayWidth.toString();
+          // Width only matters for tubes
+          rayWidthSlider.disabled = ui.rayStyle !== 'tubes';
+        }
+        if (rayWidthValue) rayWidthValue.textContent = ui.rayWidth.toFixed(2);
+        if (renderViewRaysToggle) {
+          renderViewRaysToggle.checked = ui.showRenderViewRays;
+        }
+        // Glow and unfolding only apply to rays in the render view
+        if (rayGlowToggle) {
+          rayGlowToggle.checked = ui.rayGlow;
+          rayGlowToggle.disabled = !ui.showRenderViewRays;
+        }
+        if (unfoldedRaysToggle) {
+          unfoldedRaysToggle.checked = ui.showUnfoldedRays;
+          unfoldedRaysToggle.disabled = !ui.showRenderViewRays;
+        }
+        if (qualitySelect) qualitySelect.value = ui.quality;
+        if (renderModeSelect) renderModeSelect.value = ui.renderMode;
+        if (roomShapeSelect) roomShapeSelect.value = scene.roomPresetId;
+        if (pillarToggle) pillarToggle.checked = scene.isPillarEnabled;
+        if (imagePathsToggle) imagePathsToggle.checked = scene.showImagePaths;
+        if (handednessToggle) handednessToggle.checked = scene.showHandedness;
+
+        const selectedObject = selectSelectedSceneObject(state);
+        if (removeObjectButton) removeObjectButton.disabled = !selectedObject;
+        if (objectColorInput) {
+          objectColorInput.disabled = !selectedObject;
+          objectColorInput.value = selectedObject?.color ?? '#ffffff'; // White stands in for the gradient
         }
-        
-        // Update instance positions and visibility based on bounce count
-        updateInstancePositions();
-        showInstances();
 
-        // Update rays if cube is selected
+        // A new shape has different walls to toggle
         if (
-          rayManager &&
-          selectionState.selectedObjectId === 'colorSphere' &&
-          editorSphere
+          previousState &&
+          previousState.scene.roomPresetId !== scene.roomPresetId
         ) {
-          rayManager = updateRays(
-            rayManager,
-            editorSphere.position,
-            editorSphere.getWorldMatrix(),
-            { count: uiState.rayCount, fanRays: uiState.fanRays, maxBounces: uiState.maxBounces }
-          );
+          buildMirrorToggles();
         }
-      });
-      unbindFunctions.push(unbindBounces);
-
-
-      // Bind reset button
-      const handleReset = (): void => {
-        // Reset UI state
-        uiState = createInitialUIState();
-
-        // Reset render pass manager
-        renderPassManager.setBounceCount(uiState.maxBounces);
-
-        // Update UI controls
-        raysSlider.value = uiState.rayCount.toString();
-        if (raysValue) raysValue.textContent = uiState.rayCount.toString();
-        fanRaysSlider.value = uiState.fanRays.toString();
-        if (fanRaysValue) fanRaysValue.textContent = uiState.fanRays.toString();
-        bouncesSlider.value = uiState.maxBounces.toString();
-        if (bouncesValue)
-          bouncesValue.textContent = uiState.maxBounces.toString();
-
-        // Reset cube position and rotation using initial state
-        if (editorSphere && renderSphere) {
-          editorSphere.position.copyFrom(initialState.cube.position);
-          editorSphere.rotation.copyFrom(initialState.cube.rotation);
-          renderSphere.position.copyFrom(initialState.cube.position);
-          renderSphere.rotation.copyFrom(initialState.cube.rotation);
-
-          // Update transform state
-          transformState = updateObjectPosition(
-            transformState,
-            'colorSphere',
-            editorSphere.position
-          );
-          transformState = updateObjectRotation(
-            transformState,
-            'colorSphere',
-            editorSphere.rotation
+        mirrorToggles.forEach((toggle) => {
+          toggle.checked = scene.mirrorWalls.includes(
+            toggle.dataset.mirrorWall
           );
+        });
+      };
+      const syncHistory = (
+        history: HistoryState,
+        previousHistory?: HistoryState
+      ): void => {
+        if (history.present !== previousHistory?.present) {
+          syncControls(history.present, previousHistory?.present);
         }
+        if (undoButton) undoButton.disabled = !canUndo(history);
+        if (redoButton) redoButton.disabled = !canRedo(history);
+      };
+      syncHistory(store.getState());
+      unbindFunctions.push(store.subscribe(syncHistory));
 
-        // Reset camera indicator using initial state
-        if (cameraIndicator) {
-          cameraIndicator.indicator.position.copyFrom(
-            initialState.cameraIndicator.position
-          );
+      // Bind undo and redo to the toolbar and keyboard
+      const handleUndo = (): void => {
+        store.dispatch({ type: 'UNDO' });
+      };
+      const handleRedo = (): void => {
+        store.dispatch({ type: 'REDO' });
+      };
 
-          // Re-orient to look at cube
-          cameraIndicator.indicator.lookAt(initialState.cube.position);
+      undoButton?.addEventListener('click', handleUndo);
+      redoButton?.addEventListener('click', handleRedo);
+      unbindFunctions.push(
+        () => undoButton?.removeEventListener('click', handleUndo),
+        () => redoButton?.removeEventListener('click', handleRedo),
+        bindUndoRedoKeys(window, handleUndo, handleRedo)
+      );
 
-          // Apply any additional rotation from config
-          cameraIndicator.indicator.rotation.copyFrom(
-            initialState.cameraIndicator.rotation
-          );
+      // Bind reset button
+      const handleReset = (): void => {
+        store.dispatch({ type: 'RESET' });
+      };
 
-          // Update transform state
-          transformState = updateObjectPosition(
-            transformState,
-            'cameraIndicator',
-            cameraIndicator.indicator.position
-          );
-          transformState = updateObjectRotation(
-            transformState,
-            'cameraIndicator',
-            cameraIndicator.indicator.rotation
-          );
+      resetButton.addEventListener('click', handleReset);
+      unbindFunctions.push(() =>
+        resetButton.removeEventListener('click', handleReset)
+      );
 
-          // Sync render camera
-          syncRenderCamera();
+      // Bind scene saving and loading
+      const saveSceneButton = document.getElementById('saveSceneButton');
+      const loadSceneButton = document.getElementById('loadSceneButton');
+      const sceneFileInput = document.getElementById(
+        'sceneFileInput'
+      ) as HTMLInputElement | null;
+      const sceneFileStatus = document.getElementById('sceneFileStatus');
+      const appContainer =
+        document.querySelector<HTMLElement>('.app-container');
+
+      const showSceneFileStatus = (message: string, isError = false): void => {
+        if (sceneFileStatus) {
+          sceneFileStatus.textContent = message;
+          sceneFileStatus.classList.toggle('error', isError);
         }
+      };
 
-        // Clear selection
-        handleSelection(null);
+      const handleSaveScene = (): void => {
+        downloadTextFile('scene.json', serializeSceneDocument(describeScene()));
+        showSceneFileStatus('');
+      };
 
-        // Update rays if needed
-        if (rayManager && editorSphere) {
-          rayManager = hideRays(rayManager);
-        }
-        
-        // Update instances (keep them visible)
-        updateInstancePositions();
-        showInstances();
+      // Loading is one undoable edit; a bad file leaves the scene alone
+      const loadSceneFile = (file: File): void => {
+        readFileText(file)
+          .then((text) => {
+            const sceneDocument = parseSceneDocument(text);
+            store.dispatch({
+              type: 'LOAD_SCENE',
+              payload: { document: sceneDocument },
+            });
+            showSceneFileStatus(`Loaded ${file.name}`);
+          })
+          .catch((error: unknown) => {
+            showSceneFileStatus(
+              error instanceof Error
+                ? error.message
+                : 'Could not load the scene file',
+              true
+            );
+          });
+      };
 
+      const handleLoadScene = (): void => {
+        sceneFileInput?.click();
       };
 
-      resetButton.addEventListener('click', handleReset);
-      unbindFunctions.push(() =>
-        resetButton.removeEventListener('click', handleReset)
+      saveSceneButton?.addEventListener('click', handleSaveScene);
+      loadSceneButton?.addEventListener('click', handleLoadScene);
+      unbindFunctions.push(
+        () => saveSceneButton?.removeEventListener('click', handleSaveScene),
+        () => loadSceneButton?.removeEventListener('click', handleLoadScene)
       );
+      if (sceneFileInput) {
+        unbindFunctions.push(bindFileInput(sceneFileInput, loadSceneFile));
+      }
+      if (appContainer) {
+        unbindFunctions.push(bindFileDrop(appContainer, loadSceneFile));
+      }
     };
 
     setupUIBindings();
 
+    // Read the previous visit's scene before anything overwrites it
+    let savedSession: SavedSession | null = null;
+    try {
+      savedSession = readSavedSession(window.localStorage);
+    } catch (error) {
+      console.warn(
+        '⚠️ Discarding saved session:',
+        error instanceof Error ? error.message : error
+      );
+      clearSavedSession(window.localStorage);
+    }
+
+    // Open the scene a shared link describes; a broken link keeps the default scene
+    const loadSceneFromHash = (): void => {
+      if (!isSceneHash(window.location.hash)) {
+        return;
+      }
+      try {
+        const sceneDocument = decodeSceneHash(window.location.hash);
+        store.dispatch({
+          type: 'LOAD_SCENE',
+          payload: { document: sceneDocument },
+        });
+      } catch (error) {
+        console.warn(
+          '⚠️ Ignoring scene link:',
+          error instanceof Error ? error.message : error
+        );
+      }
+    };
+    loadSceneFromHash();
+    // Opening a link is where editing starts, not an edit to undo
+    store.dispatch({ type: 'CLEAR_HISTORY' });
+    window.addEventListener('hashchange', loadSceneFromHash);
+    unbindFunctions.push(() =>
+      window.removeEventListener('hashchange', loadSceneFromHash)
+    );
+
+    // Keep the address up to date so it can be shared at any time
+    let sceneHash = '';
+    const writeSceneHash = (state: HistoryState): void => {
+      // Wait for drags to finish rather than rewriting the address every frame
+      if (state.gestureStart !== null) {
+        return;
+      }
+      const nextHash = encodeSceneHash(describeScene());
+      if (nextHash !== sceneHash) {
+        sceneHash = nextHash;
+        window.history.replaceState(null, '', `#${nextHash}`);
+      }
+    };
+    unbindFunctions.push(store.subscribe(writeSceneHash));
+
+    // Offer the previous visit's scene unless a link opened a specific one
+    const sessionRestore = document.getElementById('sessionRestore');
+    const sessionRestoreLabel = document.getElementById('sessionRestoreLabel');
+    const restoreSessionButton = document.getElementById(
+      'restoreSessionButton'
+    );
+    const dismissSessionButton = document.getElementById(
+      'dismissSessionButton'
+    );
+    const hideSessionRestore = (): void => {
+      if (sessionRestore) sessionRestore.hidden = true;
+    };
+
+    if (savedSession && !isSceneHash(window.location.hash) && sessionRestore) {
+      const { savedAt, document: sessionDocument } = savedSession;
+      if (sessionRestoreLabel) {
+        sessionRestoreLabel.textContent = `Restore previous session from ${new Date(savedAt).toLocaleString()}?`;
+      }
+      sessionRestore.hidden = false;
+
+      const handleRestoreSession = (): void => {
+        store.dispatch({
+          type: 'LOAD_SCENE',
+          payload: { document: sessionDocument },
+        });
+        hideSessionRestore();
+      };
+      restoreSessionButton?.addEventListener('click', handleRestoreSession);
+      dismissSessionButton?.addEventListener('click', hideSessionRestore);
+      unbindFunctions.push(
+        () =>
+          restoreSessionButton?.removeEventListener(
+            'click',
+            handleRestoreSession
+          ),
+        () =>
+          dismissSessionButton?.removeEventListener('click', hideSessionRestore)
+      );
+    }
+
+    // Save the scene shortly after it changes; selecting things alone saves nothing,
+    // so the previous session stays on offer until the first real edit
+    let savedScene = serializeSceneDocument(describeScene());
+    const autosave = createDebounce(() => {
+      const sceneDocument = describeScene();
+      const serialized = serializeSceneDocument(sceneDocument);
+      if (serialized === savedScene) {
+        return;
+      }
+      savedScene = serialized;
+      writeSavedSession(window.localStorage, sceneDocument);
+      hideSessionRestore();
+    }, AUTOSAVE_DELAY_MS);
+    const flushAutosave = (): void => autosave.flush();
+
+    window.addEventListener('pagehide', flushAutosave);
+    unbindFunctions.push(
+      store.subscribe(() => autosave.schedule()),
+      () => window.removeEventListener('pagehide', flushAutosave),
+      () => autosave.cancel()
+    );
+
     // Set up render loops
     editorConfig.engine.runRenderLoop(() => {
       // Keep Y positions locked before each render
@@ -952,11 +1966,17 @@ const initialize = (): void => {
     renderConfig.engine.runRenderLoop(() => {
       // Only render if scene has active cameras
       if (renderConfig?.scene.activeCamera) {
-        // TEMPORARILY DISABLED: Execute multi-pass rendering for reflections
-        // renderPassManager.executeRenderPasses();
-        
+        // Adapt automatic quality to how long frames take
+        measureFrameTime(renderConfig.engine.getDeltaTime());
+
+        // Re-render mirror textures if anything moved since the last frame
+        renderPassManager?.executeRenderPasses();
+
         // Final render to screen
         renderConfig.scene.render();
+
+        // Labels follow the camera and images drawn this frame
+        refreshHandednessLabels();
       }
     });
 
@@ -980,6 +2000,24 @@ const initialize = (): void => {
       });
     }
 
+    // Compare ray renderers for the current ray settings
+    if (window.location.search.includes('rayBenchmark')) {
+      const { count, fanRays, maxBounces, pattern } =
+        selectRayConfiguration(getAppState());
+      console.table(
+        benchmarkRayRenderers({
+          origin: initialState.cube.position.clone(),
+          worldMatrix: Matrix.Identity(),
+          rayCount: count,
+          fanRays,
+          maxBounces,
+          pattern,
+          scene: editorConfig.scene,
+          room,
+        })
+      );
+    }
+
     // Log successful initialization
     console.log('Application initialized successfully');
     console.log('Cameras attached. Ready for rendering.');
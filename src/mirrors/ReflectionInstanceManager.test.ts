@@ -0,0 +1,433 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Matrix, Mesh, MeshBuilder, Vector3 } from 'babylonjs';
+import {
+  isMirroredImage,
+  mergeCoincidentPaths,
+  ReflectionInstanceManager,
+  ReflectionPath,
+} from './ReflectionInstanceManager';
+import { setupCanvasMock } from '../test-utils/mockCanvas';
+import { createEditorScene } from '../editor/createEditorScene';
+import {
+  createPolygonRoomDefinition,
+  createRoomDefinition,
+  setWallMirror,
+} from '../geometry/roomDefinition';
+
+describe('ReflectionInstanceManager', () => {
+  beforeEach(() => {
+    setupCanvasMock();
+  });
+
+  describe('generateReflectionPaths', () => {
+    it('should create one image per mirror for a single bounce', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: createRoomDefinition(),
+      });
+
+      const paths = manager.generateReflectionPaths(new Vector3(2, 5, 3), 1);
+
+      expect(paths.map((path) => path.id)).toEqual(['north', 'east', 'west']);
+      expect(paths[0].position.z).toBeCloseTo(17);
+      expect(paths[1].position.x).toBeCloseTo(18);
+      expect(paths[0].scaling.z).toBe(-1);
+
+      sceneConfig.dispose();
+    });
+
+    it('should chain reflections and skip immediate back-reflections', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: createRoomDefinition(),
+      });
+
+      const paths = manager.generateReflectionPaths(new Vector3(2, 5, 3), 2);
+      const eastWest = paths.find((path) => path.id === 'east_west');
+
+      // Six two-bounce sequences, two of which repeat another image
+      expect(paths).toHaveLength(3 + 4);
+      expect(paths.find((path) => path.id === 'east_east')).toBeUndefined();
+      // East image at x = 18, then reflected across x = -10
+      expect(eastWest?.position.x).toBeCloseTo(-38);
+      expect(eastWest?.scaling.x).toBe(1);
+
+      sceneConfig.dispose();
+    });
+
+    it('should reflect across angled mirrors', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const room = createPolygonRoomDefinition(
+        [new Vector3(0, 0, 0), new Vector3(6, 0, 0), new Vector3(0, 0, 6)],
+        { mirrorWalls: ['side2Wall'] }
+      );
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room,
+      });
+
+      const [path] = manager.generateReflectionPaths(new Vector3(1, 2, 1), 1);
+
+      // Mirror line x + z = 6 maps (1, 1) to (5, 5)
+      expect(path.position.x).toBeCloseTo(5);
+      expect(path.position.y).toBeCloseTo(2);
+      expect(path.position.z).toBeCloseTo(5);
+      expect(path.scaling.x * path.scaling.y * path.scaling.z).toBe(-1);
+
+      sceneConfig.dispose();
+    });
+
+    it('should follow mirror changes made with setRoom', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: createRoomDefinition(),
+      });
+
+      manager.setRoom(setWallMirror(createRoomDefinition(), 'east', false));
+      const paths = manager.generateReflectionPaths(Vector3.Zero(), 1);
+
+      expect(paths.map((path) => path.id)).toEqual(['north', 'west']);
+
+      sceneConfig.dispose();
+    });
+
+    it('should merge sequences that reach the same image', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: createRoomDefinition(),
+      });
+
+      const paths = manager.generateReflectionPaths(new Vector3(2, 5, 3), 2);
+      const northEast = paths.find((path) => path.id === 'north_east');
+
+      // Perpendicular mirrors commute: east_north is the same image
+      expect(paths.find((path) => path.id === 'east_north')).toBeUndefined();
+      expect(northEast?.sequences).toEqual([
+        ['north', 'east'],
+        ['east', 'north'],
+      ]);
+
+      sceneConfig.dispose();
+    });
+
+    it('should never place an image on the real object', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: createRoomDefinition(),
+      });
+
+      // north_east_north_east undoes itself in a rectangular room
+      const paths = manager.generateReflectionPaths(new Vector3(2, 5, 3), 4);
+
+      paths.forEach((path) => {
+        expect(
+          Vector3.Distance(path.position, new Vector3(2, 5, 3))
+        ).toBeGreaterThan(0.1);
+      });
+
+      sceneConfig.dispose();
+    });
+
+    it('should grow like a lattice rather than a tree', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: createRoomDefinition(),
+        maxImageDistance: Infinity,
+        maxImages: Infinity,
+      });
+
+      const paths = manager.generateReflectionPaths(new Vector3(2, 5, 3), 20);
+
+      // A tree of sequences would hold 3 * 2^19 paths
+      expect(paths.length).toBeLessThan(1000);
+      expect(Math.max(...paths.map((path) => path.bounceCount))).toBe(20);
+
+      sceneConfig.dispose();
+    });
+
+    it('should skip distant images and stop at the image cap', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const source = new Vector3(2, 5, 3);
+      const near = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: createRoomDefinition(),
+        maxImageDistance: 50,
+      });
+      const capped = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: createRoomDefinition(),
+        maxImages: 10,
+      });
+
+      near.generateReflectionPaths(source, 20).forEach((path) => {
+        expect(Vector3.Distance(path.position, source)).toBeLessThanOrEqual(50);
+      });
+      const cappedPaths = capped.generateReflectionPaths(source, 20);
+      expect(cappedPaths).toHaveLength(10);
+      // Fewest bounces come first
+      expect(cappedPaths.slice(0, 3).map((path) => path.bounceCount)).toEqual([
+        1, 1, 1,
+      ]);
+
+      sceneConfig.dispose();
+    });
+  });
+
+  describe('updateInstances', () => {
+    it('should draw each image as a thin instance', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const source = MeshBuilder.CreateBox('box', {}, sceneConfig.scene);
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: createRoomDefinition(),
+      });
+
+      manager.updateInstances(
+        source,
+        new Vector3(2, 5, 3),
+        new Vector3(0, Math.PI / 4, 0),
+        2
+      );
+      // One bounce flips handedness, so those images are drawn with flipped faces
+      const mirrored = sceneConfig.scene.getMeshByName(
+        'box_mirroredImages'
+      ) as Mesh;
+      const direct = sceneConfig.scene.getMeshByName('box_images') as Mesh;
+      const north = mirrored.thinInstanceGetWorldMatrices()[0];
+      const scaling = new Vector3();
+      const position = new Vector3();
+      north.decompose(scaling, undefined, position);
+
+      expect(mirrored.thinInstanceCount).toBe(3);
+      expect(direct.thinInstanceCount).toBe(4);
+      expect(position.z).toBeCloseTo(17);
+      expect(position.x).toBeCloseTo(2);
+      expect(Math.sign(scaling.x * scaling.y * scaling.z)).toBe(-1);
+      expect(mirrored.sideOrientation).not.toBe(direct.sideOrientation);
+
+      manager.dispose();
+      sceneConfig.dispose();
+    });
+
+    it('should leave images below the minimum bounce count out', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const source = MeshBuilder.CreateBox('box', {}, sceneConfig.scene);
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: createRoomDefinition(),
+      });
+
+      manager.setMinBounces(2);
+      manager.updateInstances(source, new Vector3(2, 5, 3), Vector3.Zero(), 2);
+
+      const direct = sceneConfig.scene.getMeshByName('box_images') as Mesh;
+      const mirrored = sceneConfig.scene.getMeshByName('box_mirroredImages');
+      expect(direct.thinInstanceCount).toBe(4);
+      expect(mirrored?.isEnabled()).toBe(false);
+
+      manager.dispose();
+      sceneConfig.dispose();
+    });
+
+    it('should only draw images up to the shown bounce count', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const source = MeshBuilder.CreateBox('box', {}, sceneConfig.scene);
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: createRoomDefinition(),
+      });
+
+      manager.updateInstances(source, new Vector3(2, 5, 3), Vector3.Zero(), 2);
+      manager.hideAll();
+      manager.showAll(1);
+
+      const direct = sceneConfig.scene.getMeshByName('box_images');
+      const mirrored = sceneConfig.scene.getMeshByName('box_mirroredImages');
+      expect(direct?.isEnabled()).toBe(false);
+      expect(mirrored?.isEnabled()).toBe(true);
+
+      manager.dispose();
+      expect(sceneConfig.scene.getMeshByName('box_images')).toBeNull();
+      expect(source.isDisposed()).toBe(false);
+      sceneConfig.dispose();
+    });
+
+    it('should remember the paths it placed', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const source = MeshBuilder.CreateBox('box', {}, sceneConfig.scene);
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: createRoomDefinition(),
+      });
+
+      expect(manager.getPaths()).toEqual([]);
+
+      manager.updateInstances(source, Vector3.Zero(), Vector3.Zero(), 1);
+
+      expect(manager.getPaths().map((path) => path.id)).toEqual([
+        'north',
+        'east',
+        'west',
+      ]);
+
+      manager.dispose();
+      sceneConfig.dispose();
+    });
+  });
+
+  describe('setViewpoint', () => {
+    const lShape = createPolygonRoomDefinition(
+      [
+        new Vector3(-10, 0, -10),
+        new Vector3(2, 0, -10),
+        new Vector3(2, 0, -2),
+        new Vector3(10, 0, -2),
+        new Vector3(10, 0, 10),
+        new Vector3(-10, 0, 10),
+      ],
+      { mirrorWalls: ['side4Wall', 'side5Wall'] }
+    );
+
+    it('should disable images the viewer has no light path to', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const source = MeshBuilder.CreateBox('box', {}, sceneConfig.scene);
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: lShape,
+      });
+
+      // Viewer tucked into the short arm cannot see the far east mirror
+      manager.setViewpoint(new Vector3(-5, 5, -8));
+      manager.updateInstances(
+        source,
+        new Vector3(-8, 5, -6),
+        Vector3.Zero(),
+        1
+      );
+
+      const mirrored = sceneConfig.scene.getMeshByName(
+        'box_mirroredImages'
+      ) as Mesh;
+
+      expect(manager.isPathVisible('side4')).toBe(false);
+      expect(manager.isPathVisible('side5')).toBe(true);
+      expect(mirrored.thinInstanceCount).toBe(1);
+      expect(manager.getPathForMesh(mirrored, 0)?.id).toBe('side5');
+
+      // Hidden images stay hidden when instances are shown again
+      manager.hideAll();
+      manager.showAll(1);
+      expect(mirrored.thinInstanceCount).toBe(1);
+
+      manager.dispose();
+      sceneConfig.dispose();
+    });
+
+    it('should show every image without a viewpoint', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const source = MeshBuilder.CreateBox('box', {}, sceneConfig.scene);
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: lShape,
+      });
+
+      manager.setViewpoint(new Vector3(-5, 5, -8));
+      manager.setViewpoint(null);
+      manager.updateInstances(
+        source,
+        new Vector3(-8, 5, -6),
+        Vector3.Zero(),
+        1
+      );
+
+      expect(manager.isPathVisible('side4')).toBe(true);
+      expect(manager.isPathVisible('unknown')).toBe(false);
+
+      manager.dispose();
+      sceneConfig.dispose();
+    });
+  });
+
+  describe('mergeCoincidentPaths', () => {
+    const createPath = (
+      id: string,
+      position: Vector3,
+      scaling: Vector3
+    ): ReflectionPath => ({
+      id,
+      bounceCount: 2,
+      walls: id.split('_'),
+      position,
+      scaling,
+      reflection: Matrix.Identity(),
+      sequences: [id.split('_')],
+    });
+
+    it('should keep one image per position and handedness', () => {
+      const merged = mergeCoincidentPaths([
+        createPath('a_b', new Vector3(1, 2, 3), new Vector3(1, -1, 1)),
+        createPath('c_d', new Vector3(1, 2, 3.0001), new Vector3(1, -1, 1)),
+      ]);
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].id).toBe('a_b');
+      expect(merged[0].sequences).toEqual([
+        ['a', 'b'],
+        ['c', 'd'],
+      ]);
+    });
+
+    it('should keep images that only share a position', () => {
+      const merged = mergeCoincidentPaths([
+        createPath('a_b', new Vector3(1, 2, 3), new Vector3(1, 1, 1)),
+        createPath('c_d', new Vector3(1, 2, 3), new Vector3(-1, 1, 1)),
+      ]);
+
+      expect(merged).toHaveLength(2);
+    });
+  });
+
+  describe('isMirroredImage', () => {
+    it('should flip handedness after an odd number of bounces', () => {
+      const manager = new ReflectionInstanceManager({
+        scene: createEditorScene(document.createElement('canvas')).scene,
+        room: createRoomDefinition(),
+      });
+
+      const paths = manager.generateReflectionPaths(new Vector3(1, 5, 2), 3);
+
+      expect(paths.length).toBeGreaterThan(0);
+      paths.forEach((path) => {
+        expect(isMirroredImage(path)).toBe(path.bounceCount % 2 === 1);
+      });
+    });
+  });
+
+  describe('getPathForMesh', () => {
+    it('should find the image a thin instance shows', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const source = MeshBuilder.CreateBox('box', {}, sceneConfig.scene);
+      const manager = new ReflectionInstanceManager({
+        scene: sceneConfig.scene,
+        room: createRoomDefinition(),
+      });
+
+      manager.updateInstances(source, new Vector3(2, 5, 3), Vector3.Zero(), 2);
+      const direct = sceneConfig.scene.getMeshByName('box_images');
+
+      expect(manager.getPathForMesh(direct, 0)?.id).toBe('north_east');
+      expect(manager.getPathForMesh(direct, 0)?.sequences).toHaveLength(2);
+      expect(manager.getPathForMesh(direct, 99)).toBeNull();
+      expect(manager.getPathForMesh(source, 0)).toBeNull();
+
+      manager.dispose();
+      sceneConfig.dispose();
+    });
+  });
+});
@@ -1,7 +1,23 @@
 // ABOUTME: Manages reflection instances for multi-bounce visualization
-// ABOUTME: Dynamically generates and updates instances based on bounce count
+// ABOUTME: Generates the lattice of virtual images and draws them as thin instances
 
-import { Scene, Mesh, Vector3, InstancedMesh, GlowLayer } from 'babylonjs';
+import {
+  Scene,
+  Mesh,
+  Vector3,
+  Matrix,
+  Quaternion,
+  GlowLayer,
+  AbstractMesh,
+} from 'babylonjs';
+import {
+  getMirrorWallDefinitions,
+  getWallReflectionMatrix,
+  RoomDefinition,
+  WallDefinition,
+} from '../geometry/roomDefinition';
+import { traceImagePath } from '../rays/traceImagePath';
+import { MAX_BOUNCES, ROOM_SIZE } from '../constants';
 
 /**
  * Represents a reflection path through multiple mirrors
@@ -12,163 +28,422 @@ export interface ReflectionPath {
   walls: string[]; // Sequence of walls hit (e.g., ['north', 'east'])
   position: Vector3;
   scaling: Vector3; // Tracks which axes are flipped
+  reflection: Matrix; // Combined reflection across every wall in the sequence
+  sequences: string[][]; // Every wall sequence that forms this image, its own first
 }
 
+/**
+ * Distance within which two images count as the same
+ */
+const COINCIDENT_TOLERANCE = 1e-3;
+
+/**
+ * Images further than this from the source are not generated (ten rooms away)
+ */
+const DEFAULT_MAX_IMAGE_DISTANCE = 10 * ROOM_SIZE;
+
+/**
+ * Most images generated, nearest bounce counts first
+ */
+const DEFAULT_MAX_IMAGES = 500;
+
+/**
+ * Most wall sequences remembered per image (for the tooltip and visibility checks)
+ */
+const MAX_SEQUENCES_PER_IMAGE = 8;
+
+/**
+ * Key identifying a reflection transform, equal for transforms within tolerance
+ */
+const getTransformKey = (reflection: Matrix): string =>
+  Array.from(reflection.m)
+    .map((value) => Math.round(value / COINCIDENT_TOLERANCE))
+    .join(',');
+
+/**
+ * Whether an image has the opposite handedness to its source (a left hand
+ * seen as a right hand), from the sign of its cumulative axis flips
+ *
+ * @param path - Reflection path of the image
+ * @returns True when an odd number of flips turned the image inside out
+ */
+export const isMirroredImage = (
+  path: Pick<ReflectionPath, 'scaling'>
+): boolean => path.scaling.x * path.scaling.y * path.scaling.z < 0;
+
+/**
+ * Merges paths whose images land in the same place with the same handedness
+ * (e.g., north_east and east_north in a rectangular room). The first path of
+ * each group is kept as the canonical image and collects every sequence.
+ *
+ * @param paths - Paths in generation order (fewest bounces first)
+ * @returns One path per distinct image
+ */
+export const mergeCoincidentPaths = (
+  paths: readonly ReflectionPath[]
+): ReflectionPath[] => {
+  const merged = new Map<string, ReflectionPath>();
+
+  for (const path of paths) {
+    const key = [
+      path.position.x,
+      path.position.y,
+      path.position.z,
+      path.scaling.x,
+      path.scaling.y,
+      path.scaling.z,
+    ]
+      .map((value) => Math.round(value / COINCIDENT_TOLERANCE))
+      .join(',');
+    const canonical = merged.get(key);
+
+    merged.set(
+      key,
+      canonical
+        ? {
+            ...canonical,
+            sequences: [...canonical.sequences, ...path.sequences],
+          }
+        : path
+    );
+  }
+
+  return [...merged.values()];
+};
+
 /**
  * Configuration for reflection instance manager
  */
 export interface ReflectionConfig {
   scene: Scene;
-  mirrorWalls: {
-    north: { position: number; normal: Vector3 };
-    east: { position: number; normal: Vector3 };
-    west: { position: number; normal: Vector3 };
-  };
-  glowLayer?: GlowLayer;
+  room: RoomDefinition; // Mirror walls are taken from the room definition
+  excludedWalls?: string[]; // Surfaces never reflected across (e.g., the mesh's own plane)
+  glowLayer?: GlowLayer; // Image meshes are added to it
+  maxImageDistance?: number; // Skip images further than this from the source
+  maxImages?: number; // Cap on the number of images generated
+}
+
+/**
+ * Thin instance matrices for one image mesh, with the path each instance shows
+ */
+interface ImageBatch {
+  mesh: Mesh;
+  paths: ReflectionPath[];
 }
 
 /**
  * Manages dynamic reflection instance generation
  */
 export class ReflectionInstanceManager {
-  private scene: Scene;
-  private mirrorWalls: ReflectionConfig['mirrorWalls'];
-  private instances: Map<string, InstancedMesh> = new Map();
-  private paths: Map<string, ReflectionPath> = new Map();
-  private glowLayer?: GlowLayer;
-  
+  private readonly scene: Scene;
+  private room: RoomDefinition;
+  private readonly excludedWalls: string[];
+  private readonly paths: Map<string, ReflectionPath> = new Map();
+  private readonly hiddenPaths: Set<string> = new Set();
+  private readonly glowLayer?: GlowLayer;
+  private readonly maxImageDistance: number;
+  private maxImages: number;
+  private viewpoint: Vector3 | null = null;
+  private minBounces = 1;
+  private sourceMesh: Mesh | null = null;
+  private sourceWorld: Matrix = Matrix.Identity();
+  // Images that keep handedness, and mirrored images drawn with flipped faces
+  private directImages: ImageBatch | null = null;
+  private mirroredImages: ImageBatch | null = null;
+
   constructor(config: ReflectionConfig) {
     this.scene = config.scene;
-    this.mirrorWalls = config.mirrorWalls;
+    this.room = config.room;
+    this.excludedWalls = config.excludedWalls ?? [];
     this.glowLayer = config.glowLayer;
+    this.maxImageDistance =
+      config.maxImageDistance ?? DEFAULT_MAX_IMAGE_DISTANCE;
+    this.maxImages = config.maxImages ?? DEFAULT_MAX_IMAGES;
   }
-  
+
+  /**
+   * Replace the room definition (e.g., after toggling a mirror)
+   * Call updateInstances afterwards to regenerate the images
+   */
+  public setRoom(room: RoomDefinition): void {
+    this.room = room;
+  }
+
+  /**
+   * Set the viewer position (e.g., the render camera) images are checked against
+   * Images with no light path to the viewer stay disabled; null shows every image
+   * Call updateInstances afterwards to recheck the images
+   */
+  public setViewpoint(viewpoint: Vector3 | null): void {
+    this.viewpoint = viewpoint ? viewpoint.clone() : null;
+  }
+
+  /**
+   * Change how many images are generated (e.g., for a lower quality setting)
+   * Call updateInstances afterwards to regenerate the images
+   */
+  public setMaxImages(maxImages: number): void {
+    this.maxImages = maxImages;
+  }
+
+  /**
+   * Leave images with fewer bounces to another renderer (e.g., mirror textures)
+   * Call showAll or updateInstances afterwards to redraw the images
+   */
+  public setMinBounces(minBounces: number): void {
+    this.minBounces = minBounces;
+  }
+
+  /**
+   * Whether the viewer can see an image, as of the last updateInstances call
+   */
+  public isPathVisible(pathId: string): boolean {
+    return this.paths.has(pathId) && !this.hiddenPaths.has(pathId);
+  }
+
+  /**
+   * Reflection path shown by a thin instance (e.g., one picked under the pointer)
+   *
+   * @param mesh - Picked mesh
+   * @param thinInstanceIndex - Picked thin instance index
+   * @returns The path, or null if the pick is not an image of this manager
+   */
+  public getPathForMesh(
+    mesh: AbstractMesh,
+    thinInstanceIndex: number
+  ): ReflectionPath | null {
+    const batch = [this.directImages, this.mirroredImages].find(
+      (candidate) => candidate?.mesh === mesh
+    );
+    return batch?.paths[thinInstanceIndex] ?? null;
+  }
+
+  /**
+   * Checks whether light from the source reaches the viewer along any of the
+   * image's wall sequences
+   * Unfolds each sequence against the mirrors' extents, treating the source as a point
+   */
+  private canViewerSee(path: ReflectionPath, sourcePosition: Vector3): boolean {
+    const viewpoint = this.viewpoint;
+    return (
+      viewpoint === null ||
+      path.sequences.some(
+        (walls) =>
+          traceImagePath(
+            viewpoint,
+            sourcePosition,
+            { id: path.id, walls },
+            this.room
+          ).isVisible
+      )
+    );
+  }
+
   /**
-   * Generate all possible reflection paths up to maxBounces
+   * Mirror surfaces this manager reflects across
    */
-  generateReflectionPaths(sourcePosition: Vector3, maxBounces: number): ReflectionPath[] {
+  private getMirrorWalls(): WallDefinition[] {
+    return getMirrorWallDefinitions(this.room).filter(
+      (wall) => !this.excludedWalls.includes(wall.id)
+    );
+  }
+
+  /**
+   * Generate the distinct virtual images up to maxBounces
+   * Each image is the room cell reflected by one element of the group the
+   * mirrors generate; the cells form a lattice that is explored breadth first,
+   * so every image is found with its fewest bounces and sequences reaching the
+   * same cell are merged instead of repeated. The real room (no reflection) is
+   * never an image. Images beyond maxImageDistance from the source are
+   * skipped, and generation stops at maxImages.
+   */
+  generateReflectionPaths(
+    sourcePosition: Vector3,
+    maxBounces: number
+  ): ReflectionPath[] {
+    const mirrors = this.getMirrorWalls();
+    const bounces = Math.min(maxBounces, MAX_BOUNCES);
     const paths: ReflectionPath[] = [];
-    
-    // Start with direct reflections (1 bounce)
-    if (maxBounces >= 1) {
-      paths.push(...this.generateSingleBounce(sourcePosition));
-    }
-    
-    // Generate higher bounces recursively
-    for (let bounce = 2; bounce <= maxBounces; bounce++) {
-      const previousPaths = paths.filter(p => p.bounceCount === bounce - 1);
-      
-      for (const prevPath of previousPaths) {
-        paths.push(...this.generateNextBounce(prevPath, sourcePosition));
+
+    // Cells already reached; null marks the real room and skipped far cells
+    const cells = new Map<string, ReflectionPath | null>([
+      [getTransformKey(Matrix.Identity()), null],
+    ]);
+    let frontier: Array<ReflectionPath | null> = [null];
+
+    for (let bounce = 1; bounce <= bounces; bounce++) {
+      const next: ReflectionPath[] = [];
+
+      for (const parent of frontier) {
+        for (const wall of mirrors) {
+          // Apply the previous reflections first, then this wall's
+          const wallReflection = getWallReflectionMatrix(wall);
+          const reflection = parent
+            ? parent.reflection.multiply(wallReflection)
+            : wallReflection;
+          const key = getTransformKey(reflection);
+          const sequences = parent
+            ? parent.sequences.map((sequence) => [...sequence, wall.id])
+            : [[wall.id]];
+
+          if (cells.has(key)) {
+            // Reached again with as many bounces: another way to form the image
+            const existing = cells.get(key);
+            if (existing && existing.bounceCount === bounce) {
+              existing.sequences = [...existing.sequences, ...sequences].slice(
+                0,
+                MAX_SEQUENCES_PER_IMAGE
+              );
+            }
+            continue;
+          }
+
+          const position = Vector3.TransformCoordinates(
+            sourcePosition,
+            reflection
+          );
+          if (
+            Vector3.Distance(position, sourcePosition) > this.maxImageDistance
+          ) {
+            cells.set(key, null);
+            continue;
+          }
+
+          const path: ReflectionPath = {
+            id: parent ? `${parent.id}_${wall.id}` : wall.id,
+            bounceCount: bounce,
+            walls: parent ? [...parent.walls, wall.id] : [wall.id],
+            position,
+            scaling: this.calculateCumulativeScaling(
+              parent ? parent.scaling : new Vector3(1, 1, 1),
+              wall
+            ),
+            reflection,
+            sequences: sequences.slice(0, MAX_SEQUENCES_PER_IMAGE),
+          };
+          cells.set(key, path);
+          paths.push(path);
+          next.push(path);
+
+          if (paths.length >= this.maxImages) {
+            return paths;
+          }
+        }
       }
+
+      frontier = next;
     }
-    
+
     return paths;
   }
-  
-  /**
-   * Generate single bounce reflections
-   */
-  private generateSingleBounce(sourcePosition: Vector3): ReflectionPath[] {
-    return [
-      {
-        id: 'north',
-        bounceCount: 1,
-        walls: ['north'],
-        position: this.reflectAcrossWall(sourcePosition, 'north'),
-        scaling: new Vector3(1, 1, -1) // Z-flip for north wall
-      },
-      {
-        id: 'east',
-        bounceCount: 1,
-        walls: ['east'],
-        position: this.reflectAcrossWall(sourcePosition, 'east'),
-        scaling: new Vector3(-1, 1, 1) // X-flip for east wall
-      },
-      {
-        id: 'west',
-        bounceCount: 1,
-        walls: ['west'],
-        position: this.reflectAcrossWall(sourcePosition, 'west'),
-        scaling: new Vector3(-1, 1, 1) // X-flip for west wall
-      }
-    ];
-  }
-  
+
   /**
-   * Generate next bounce from a previous path
+   * Calculate cumulative scaling after reflecting off a wall
+   * Flips the axis the wall normal points along most; for angled walls this
+   * still records one flip per bounce, so the sign product gives handedness
    */
-  private generateNextBounce(prevPath: ReflectionPath, sourcePosition: Vector3): ReflectionPath[] {
-    const paths: ReflectionPath[] = [];
-    const lastWall = prevPath.walls[prevPath.walls.length - 1];
-    
-    // Try reflecting off each wall (except the last one to avoid direct back-reflection)
-    const walls = ['north', 'east', 'west'].filter(w => w !== lastWall);
-    
-    for (const wall of walls) {
-      const newPath: ReflectionPath = {
-        id: `${prevPath.id}_${wall}`,
-        bounceCount: prevPath.bounceCount + 1,
-        walls: [...prevPath.walls, wall],
-        position: this.calculateMultiBouncePosition(sourcePosition, [...prevPath.walls, wall]),
-        scaling: this.calculateCumulativeScaling(prevPath.scaling, wall)
-      };
-      
-      paths.push(newPath);
+  private calculateCumulativeScaling(
+    currentScaling: Vector3,
+    wall: WallDefinition
+  ): Vector3 {
+    const x = Math.abs(wall.normal.x);
+    const y = Math.abs(wall.normal.y);
+    const z = Math.abs(wall.normal.z);
+
+    if (x >= y && x >= z) {
+      return new Vector3(-currentScaling.x, currentScaling.y, currentScaling.z);
     }
-    
-    return paths;
+    if (y >= z) {
+      return new Vector3(currentScaling.x, -currentScaling.y, currentScaling.z);
+    }
+    return new Vector3(currentScaling.x, currentScaling.y, -currentScaling.z);
   }
-  
+
   /**
-   * Reflect position across a single wall
+   * Creates a mesh that draws images of the source as thin instances
+   * The mesh itself sits at the origin; each instance matrix places one image
    */
-  private reflectAcrossWall(position: Vector3, wall: string): Vector3 {
-    switch (wall) {
-      case 'north':
-        return new Vector3(position.x, position.y, 20 - position.z);
-      case 'east':
-        return new Vector3(20 - position.x, position.y, position.z);
-      case 'west':
-        return new Vector3(-20 - position.x, position.y, position.z);
-      default:
-        return position.clone();
+  private createImageMesh(sourceMesh: Mesh, isMirrored: boolean): Mesh {
+    const mesh = sourceMesh.clone(
+      `${sourceMesh.name}_${isMirrored ? 'mirroredImages' : 'images'}`,
+      null,
+      true // Images of the mesh only, not of its children
+    );
+    mesh.position = Vector3.Zero();
+    mesh.rotation = Vector3.Zero();
+    mesh.rotationQuaternion = null;
+    mesh.scaling = new Vector3(1, 1, 1);
+    mesh.layerMask = sourceMesh.layerMask;
+    mesh.isPickable = true;
+    mesh.thinInstanceEnablePicking = true;
+
+    if (isMirrored) {
+      // A reflection turns faces inside out, so cull the other side
+      mesh.sideOrientation =
+        sourceMesh.sideOrientation === Mesh.BACKSIDE
+          ? Mesh.FRONTSIDE
+          : Mesh.BACKSIDE;
+    }
+
+    // Images glow like their source when a glow layer is given
+    if (this.glowLayer) {
+      this.glowLayer.addIncludedOnlyMesh(mesh);
     }
+
+    return mesh;
   }
-  
+
   /**
-   * Calculate position after multiple bounces
+   * Makes sure the image meshes belong to the given source mesh
    */
-  private calculateMultiBouncePosition(sourcePosition: Vector3, walls: string[]): Vector3 {
-    let position = sourcePosition.clone();
-    
-    // Apply each reflection in sequence
-    for (const wall of walls) {
-      position = this.reflectAcrossWall(position, wall);
+  private prepareImageMeshes(sourceMesh: Mesh): void {
+    if (this.sourceMesh === sourceMesh && this.directImages) {
+      return;
     }
-    
-    return position;
+
+    this.disposeImageMeshes();
+    this.sourceMesh = sourceMesh;
+    this.directImages = {
+      mesh: this.createImageMesh(sourceMesh, false),
+      paths: [],
+    };
+    this.mirroredImages = {
+      mesh: this.createImageMesh(sourceMesh, true),
+      paths: [],
+    };
   }
-  
+
   /**
-   * Calculate cumulative scaling after reflecting off a wall
+   * Writes the thin instances for the visible images up to a bounce count,
+   * starting at the minimum bounce count
    */
-  private calculateCumulativeScaling(currentScaling: Vector3, wall: string): Vector3 {
-    const scaling = currentScaling.clone();
-    
-    switch (wall) {
-      case 'north':
-        scaling.z *= -1; // Flip Z
-        break;
-      case 'east':
-      case 'west':
-        scaling.x *= -1; // Flip X
-        break;
+  private drawImages(maxBounces: number): void {
+    if (!this.directImages || !this.mirroredImages) {
+      return;
+    }
+
+    const shown = [...this.paths.values()].filter(
+      (path) =>
+        path.bounceCount >= this.minBounces &&
+        path.bounceCount <= maxBounces &&
+        !this.hiddenPaths.has(path.id)
+    );
+    this.directImages.paths = shown.filter((path) => !isMirroredImage(path));
+    this.mirroredImages.paths = shown.filter(isMirroredImage);
+
+    for (const batch of [this.directImages, this.mirroredImages]) {
+      const matrices = new Float32Array(16 * batch.paths.length);
+      batch.paths.forEach((path, index) => {
+        // Reflect the source transform; angled mirrors also turn the image
+        this.sourceWorld
+          .multiply(path.reflection)
+          .copyToArray(matrices, index * 16);
+      });
+      batch.mesh.thinInstanceSetBuffer('matrix', matrices, 16);
+      batch.mesh.setEnabled(batch.paths.length > 0);
     }
-    
-    return scaling;
   }
-  
+
   /**
    * Create or update instances for a mesh based on bounce count
    */
@@ -178,66 +453,71 @@ export class ReflectionInstanceManager {
     sourceRotation: Vector3,
     maxBounces: number
   ): void {
-    // Generate paths for current bounce count
-    const paths = this.generateReflectionPaths(sourcePosition, maxBounces);
-    
-    // Hide all existing instances
-    this.instances.forEach(instance => instance.setEnabled(false));
-    
-    // Create or update instances for each path
-    for (const path of paths) {
-      let instance = this.instances.get(path.id);
-      
-      // Create instance if it doesn't exist
-      if (!instance) {
-        instance = sourceMesh.createInstance(`${sourceMesh.name}_${path.id}`);
-        this.instances.set(path.id, instance);
-        
-        // Add instance to glow layer if available
-        if (this.glowLayer && sourceMesh.name === 'colorSphere') {
-          this.glowLayer.addIncludedOnlyMesh(instance);
-        }
-      }
-      
-      // Update instance properties
-      instance.position = path.position;
-      instance.rotation = sourceRotation.clone();
-      instance.scaling = path.scaling;
-      instance.setEnabled(true);
-    }
-    
+    this.prepareImageMeshes(sourceMesh);
+    this.sourceWorld = Matrix.Compose(
+      sourceMesh.scaling,
+      Quaternion.FromEulerVector(sourceRotation),
+      sourcePosition
+    );
+
+    // Generate paths for current bounce count, one per distinct image
+    const paths = mergeCoincidentPaths(
+      this.generateReflectionPaths(sourcePosition, maxBounces)
+    );
+
+    // Only draw images the viewer actually has a light path to
+    this.hiddenPaths.clear();
+    paths
+      .filter((path) => !this.canViewerSee(path, sourcePosition))
+      .forEach((path) => this.hiddenPaths.add(path.id));
+
     // Store paths for later reference
     this.paths.clear();
-    paths.forEach(path => this.paths.set(path.id, path));
+    paths.forEach((path) => this.paths.set(path.id, path));
+
+    this.drawImages(maxBounces);
   }
-  
+
+  /**
+   * Reflection paths from the last updateInstances call
+   */
+  public getPaths(): ReflectionPath[] {
+    return [...this.paths.values()];
+  }
+
   /**
    * Hide all instances (e.g., during drag)
    */
   public hideAll(): void {
-    this.instances.forEach(instance => instance.setEnabled(false));
+    this.directImages?.mesh.setEnabled(false);
+    this.mirroredImages?.mesh.setEnabled(false);
   }
-  
+
   /**
    * Show instances based on current bounce count
+   * Images the viewer cannot see stay hidden
    */
   public showAll(maxBounces: number): void {
-    this.instances.forEach((instance, id) => {
-      const path = this.paths.get(id);
-      if (path && path.bounceCount <= maxBounces) {
-        instance.setEnabled(true);
-      } else {
-        instance.setEnabled(false);
-      }
-    });
+    this.drawImages(maxBounces);
   }
-  
+
+  /**
+   * Dispose of the image meshes (the source mesh's material is shared and kept)
+   */
+  private disposeImageMeshes(): void {
+    this.directImages?.mesh.dispose(false, false);
+    this.mirroredImages?.mesh.dispose(false, false);
+    this.directImages = null;
+    this.mirroredImages = null;
+    this.sourceMesh = null;
+  }
+
   /**
    * Dispose of all instances
    */
   public dispose(): void {
-    this.instances.forEach(instance => instance.dispose());
-    this.instances.clear();
+    this.disposeImageMeshes();
     this.paths.clear();
+    this.hiddenPaths.clear();
   }
-}
\ No newline at end of file
+}
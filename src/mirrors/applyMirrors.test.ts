@@ -1,14 +1,20 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   applyMirrorToWall,
+  applyMirrorsToRoom,
   getMirrorWalls,
   createMirrorMaterial,
+  removeMirrors,
 } from './applyMirrors';
 import { StandardMaterial, MirrorTexture, Mesh, Scene } from 'babylonjs';
 import { setupCanvasMock } from '../test-utils/mockCanvas';
 import { createEditorScene } from '../editor/createEditorScene';
 import { createRoom } from '../geometry/createRoom';
 import type { MirrorConfig } from './createMirrorTexture';
+import {
+  createRoomDefinition,
+  setWallMirror,
+} from '../geometry/roomDefinition';
 
 describe('applyMirrors', () => {
   beforeEach(() => {
@@ -175,4 +181,48 @@ describe('applyMirrors', () => {
       sceneConfig.dispose();
     });
   });
+
+  describe('applyMirrorsToRoom', () => {
+    it('should apply a mirror to every mirror surface', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      const room = setWallMirror(createRoomDefinition(), 'floor', true);
+      createRoom(sceneConfig.scene, true, room);
+
+      const mirrors = applyMirrorsToRoom(sceneConfig.scene, room);
+
+      expect(mirrors.map((mirror) => mirror.wall.name)).toEqual([
+        'northWall',
+        'eastWall',
+        'westWall',
+        'floor',
+      ]);
+      mirrors.forEach((mirror) => {
+        expect(mirror.wall.material).toBe(mirror.material);
+      });
+
+      sceneConfig.dispose();
+    });
+  });
+
+  describe('removeMirrors', () => {
+    it('should restore the wall materials', () => {
+      const sceneConfig = createEditorScene(document.createElement('canvas'));
+      createRoom(sceneConfig.scene);
+      const northWall = sceneConfig.scene.getMeshByName('northWall') as Mesh;
+      const wallMaterial = northWall.material;
+
+      const mirrors = applyMirrorsToRoom(
+        sceneConfig.scene,
+        createRoomDefinition()
+      );
+      removeMirrors(mirrors);
+
+      expect(northWall.material).toBe(wallMaterial);
+      expect(mirrors[0].material.getScene().materials).not.toContain(
+        mirrors[0].material
+      );
+
+      sceneConfig.dispose();
+    });
+  });
 });
@@ -1,8 +1,20 @@
 // ABOUTME: Functions for applying mirror materials to walls
 // ABOUTME: Handles mirror texture creation and mesh assignment
 
-import { StandardMaterial, MirrorTexture, Mesh, Color3 } from 'babylonjs';
-import type { MirrorConfig } from './createMirrorTexture';
+import {
+  StandardMaterial,
+  MirrorTexture,
+  Mesh,
+  Color3,
+  Material,
+  Scene,
+} from 'babylonjs';
+import { createMirrorConfig, type MirrorConfig } from './createMirrorTexture';
+import {
+  createRoomDefinition,
+  getMirrorWallDefinitions,
+  RoomDefinition,
+} from '../geometry/roomDefinition';
 
 /**
  * Result of applying a mirror to a wall
@@ -10,16 +22,20 @@ import type { MirrorConfig } from './createMirrorTexture';
 export interface AppliedMirror {
   wall: Mesh;
   material: StandardMaterial;
+  previousMaterial: Material | null; // Restored when the mirror is removed
 }
 
 /**
  * Gets the list of walls that should have mirrors
- * Based on spec: north, east, and west walls only
+ * Defaults to the spec room: north, east, and west walls only
  *
- * @returns Array of wall names
+ * @param room - Room definition to read mirror flags from
+ * @returns Array of wall mesh names
  */
-export const getMirrorWalls = (): string[] => {
-  return ['northWall', 'eastWall', 'westWall'];
+export const getMirrorWalls = (
+  room: RoomDefinition = createRoomDefinition()
+): string[] => {
+  return getMirrorWallDefinitions(room).map((wall) => wall.meshName);
 };
 
 /**
@@ -54,13 +70,14 @@ export const createMirrorMaterial = (
     // Apply to material (like in working example)
     material.reflectionTexture = mirrorTexture;
     material.reflectionTexture.level = 1; // Full reflection
-    
+
     // Make reflections more vivid
     material.diffuseColor = new Color3(0, 0, 0); // No diffuse color for clear walls
     material.specularColor = new Color3(0, 0, 0); // No specular for clear walls
     material.emissiveColor = new Color3(0, 0, 0); // No emissive
     material.specularPower = 64; // Higher value = more focused reflections
     material.alpha = 0.01; // 99% transparent (1% opacity)
+    material.useReflectionOverAlpha = true; // Reflections stay opaque on the clear wall
   } catch (e) {
     // In test environment, WebGL context may not be available
     // Return material without mirror texture
@@ -82,6 +99,7 @@ export const applyMirrorToWall = (
   mirrorConfig: MirrorConfig
 ): AppliedMirror => {
   const material = createMirrorMaterial(mirrorConfig);
+  const previousMaterial = wall.material;
 
   // Apply material to wall
   wall.material = material;
@@ -100,5 +118,50 @@ export const applyMirrorToWall = (
   return {
     wall,
     material,
+    previousMaterial,
   };
 };
+
+/**
+ * Applies live mirror materials to every mirror surface of a room
+ *
+ * @param scene - Scene holding the room meshes
+ * @param room - Room definition with mirror flags and wall planes
+ * @param textureSize - Mirror texture resolution
+ * @returns Applied mirrors, one per mirror surface found in the scene
+ */
+export const applyMirrorsToRoom = (
+  scene: Scene,
+  room: RoomDefinition,
+  textureSize?: number
+): AppliedMirror[] =>
+  getMirrorWallDefinitions(room).flatMap((definition) => {
+    const wall = scene.getMeshByName(definition.meshName);
+    if (!(wall instanceof Mesh)) {
+      return [];
+    }
+
+    const mirrorConfig = createMirrorConfig(
+      definition.meshName,
+      definition.position,
+      definition.normal,
+      scene,
+      textureSize
+    );
+    return [applyMirrorToWall(wall, mirrorConfig)];
+  });
+
+/**
+ * Puts back the materials walls had before their mirrors were applied
+ * and disposes the mirror materials and textures
+ *
+ * @param mirrors - Mirrors returned by applyMirrorsToRoom or applyMirrorToWall
+ */
+export const removeMirrors = (mirrors: AppliedMirror[]): void => {
+  mirrors.forEach(({ wall, material, previousMaterial }) => {
+    if (!wall.isDisposed() && wall.material === material) {
+      wall.material = previousMaterial;
+    }
+    material.dispose(false, true);
+  });
+};
@@ -126,6 +126,23 @@ describe('createMirrorTexture', () => {
       sceneConfig.dispose();
     });
 
+    it('should accept a texture size for the quality setting', () => {
+      const canvas = document.createElement('canvas');
+      const sceneConfig = createEditorScene(canvas);
+
+      const config = createMirrorConfig(
+        'test_wall',
+        new Vector3(0, 0, 0),
+        new Vector3(1, 0, 0),
+        sceneConfig.scene,
+        256
+      );
+
+      expect(config.textureSize).toBe(256);
+
+      sceneConfig.dispose();
+    });
+
     it('should calculate reflection plane based on position and normal', () => {
       const canvas = document.createElement('canvas');
       const sceneConfig = createEditorScene(canvas);
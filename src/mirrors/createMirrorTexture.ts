@@ -36,19 +36,21 @@ export const calculateReflectionPlane = (
  * @param position - Wall position
  * @param normal - Wall normal vector
  * @param scene - Scene to create mirror in
+ * @param textureSize - Mirror texture resolution (default balances quality vs performance)
  * @returns Mirror configuration
  */
 export const createMirrorConfig = (
   wallName: string,
   position: Vector3,
   normal: Vector3,
-  scene: Scene
+  scene: Scene,
+  textureSize: number = 512
 ): MirrorConfig => {
   const reflectionPlane = calculateReflectionPlane(position, normal);
 
   return {
     name: `${wallName}_mirror`,
-    textureSize: 512, // Balance quality vs performance
+    textureSize,
     reflectionPlane,
     scene,
   };
@@ -0,0 +1,46 @@
+// ABOUTME: Tests for the ray renderer benchmark
+// ABOUTME: Verifies draw call counts and that benchmark meshes are cleaned up
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Matrix, Vector3 } from 'babylonjs';
+import { benchmarkRayRenderers } from './benchmarkRayRenderers';
+import { setupCanvasMock } from '../test-utils/mockCanvas';
+import { createEditorScene } from '../editor/createEditorScene';
+
+describe('benchmarkRayRenderers', () => {
+  beforeEach(() => {
+    setupCanvasMock();
+  });
+
+  it('should draw all rays in one call with the line system', () => {
+    const canvas = document.createElement('canvas');
+    const sceneConfig = createEditorScene(canvas);
+    const meshCount = sceneConfig.scene.meshes.length;
+
+    // Clock advancing 2ms per reading
+    let time = 0;
+    const results = benchmarkRayRenderers(
+      {
+        origin: new Vector3(0, 0, 0),
+        worldMatrix: Matrix.Identity(),
+        rayCount: 4,
+        fanRays: 3,
+        maxBounces: 2,
+        scene: sceneConfig.scene,
+      },
+      5,
+      () => (time += 2)
+    );
+
+    expect(results.map((result) => result.renderer)).toEqual([
+      'segments',
+      'lineSystem',
+    ]);
+    expect(results[0].drawCalls).toBeGreaterThan(12);
+    expect(results[1].drawCalls).toBe(1);
+    expect(results[1].rebuildMs).toBeCloseTo(2 / 5);
+    expect(sceneConfig.scene.meshes).toHaveLength(meshCount);
+
+    sceneConfig.dispose();
+  });
+});
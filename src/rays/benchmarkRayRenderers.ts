@@ -0,0 +1,121 @@
+// ABOUTME: Benchmark comparing one line mesh per ray segment with the single ray line system
+// ABOUTME: Reports draw calls and average rebuild time for the same ray configuration
+
+import {
+  MeshBuilder,
+  Scene,
+  LinesMesh,
+  TransformNode,
+  Vector3,
+} from 'babylonjs';
+import {
+  createAllRayMeshes,
+  traceAllRaySegments,
+  type RayVisualizationConfig,
+} from './createRayMeshes';
+
+/**
+ * Result for one ray renderer
+ */
+export interface RayRendererBenchmark {
+  readonly renderer: 'segments' | 'lineSystem';
+  readonly drawCalls: number; // Meshes drawn for the rays
+  readonly rebuildMs: number; // Average time to rebuild the rays after the source moves
+}
+
+/**
+ * Draws each segment as its own line mesh, the way rays were drawn before the line system:
+ * the previous meshes are disposed and every segment gets a new one on each rebuild
+ *
+ * @param config - Configuration for ray visualization
+ * @param previous - Segment meshes from the previous rebuild
+ * @returns Segment meshes
+ */
+const createSegmentMeshes = (
+  config: RayVisualizationConfig,
+  previous: readonly LinesMesh[]
+): LinesMesh[] => {
+  previous.forEach((mesh) => mesh.dispose());
+
+  return traceAllRaySegments(config).map((segment, index) => {
+    const mesh = MeshBuilder.CreateLines(
+      `benchmarkSegment${index}`,
+      {
+        points: [segment.startPoint, segment.endPoint],
+        useVertexAlpha: true,
+      },
+      config.scene
+    );
+    mesh.color = segment.color;
+    mesh.alpha = segment.alpha;
+    mesh.parent = config.parentNode;
+    return mesh;
+  });
+};
+
+/**
+ * Rebuilds the rays from a slightly moved origin on every iteration, as dragging does
+ *
+ * @param config - Configuration for ray visualization
+ * @param iterations - Number of rebuilds
+ * @param rebuild - Rebuilds the rays for a configuration
+ * @param now - Clock in milliseconds
+ * @returns Average milliseconds per rebuild
+ */
+const timeRebuilds = (
+  config: RayVisualizationConfig,
+  iterations: number,
+  rebuild: (config: RayVisualizationConfig) => void,
+  now: () => number
+): number => {
+  const start = now();
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const offset = 0.01 * (iteration + 1);
+    rebuild({
+      ...config,
+      origin: config.origin.add(new Vector3(offset, 0, offset)),
+    });
+  }
+  return (now() - start) / Math.max(1, iterations);
+};
+
+/**
+ * Compares the per-segment ray renderer with the line system renderer
+ * Each renderer draws into its own parent node, which is disposed afterwards
+ *
+ * @param config - Ray configuration to draw (without a parent node)
+ * @param iterations - Rebuilds to average over (default: 20)
+ * @param now - Clock in milliseconds (default: performance.now)
+ * @returns One result per renderer
+ */
+export const benchmarkRayRenderers = (
+  config: Omit<RayVisualizationConfig, 'parentNode'>,
+  iterations = 20,
+  now: () => number = () => performance.now()
+): RayRendererBenchmark[] => {
+  const run = (
+    renderer: RayRendererBenchmark['renderer'],
+    scene: Scene
+  ): RayRendererBenchmark => {
+    const parentNode = new TransformNode(`${renderer}Benchmark`, scene);
+    const benchmarkConfig = { ...config, parentNode };
+
+    let segmentMeshes: LinesMesh[] = [];
+    const rebuild = (rebuildConfig: RayVisualizationConfig): void => {
+      if (renderer === 'segments') {
+        segmentMeshes = createSegmentMeshes(rebuildConfig, segmentMeshes);
+      } else {
+        createAllRayMeshes(rebuildConfig);
+      }
+    };
+
+    rebuild(benchmarkConfig); // Meshes exist before timing, as they do while dragging
+    const rebuildMs = timeRebuilds(benchmarkConfig, iterations, rebuild, now);
+    const drawCalls = parentNode.getChildMeshes().length;
+    parentNode.dispose();
+
+    return { renderer, drawCalls, rebuildMs };
+  };
+
+  return [run('segments', config.scene), run('lineSystem', config.scene)];
+};
@@ -71,9 +71,151 @@ describe('calculateIntersection', () => {
     expect(result.normal?.y).toBe(0);
     expect(result.normal?.z).toBe(0);
   });
+
+  it('should miss walls beyond their end points', () => {
+    const origin = new Vector3(0, 0, 0);
+    const direction = new Vector3(1, 0, 1).normalize(); // Hits plane at z = 5, x = 5
+    const wall: WallPlane = {
+      position: new Vector3(0, 0, 5),
+      normal: new Vector3(0, 0, -1),
+      isMirror: true,
+      start: new Vector3(-2, 0, 5),
+      end: new Vector3(2, 0, 5),
+    };
+
+    const result = calculateIntersection(origin, direction, wall);
+
+    expect(result.hit).toBe(false);
+  });
+
+  it('should hit walls between and at their end points', () => {
+    const origin = new Vector3(0, 0, 0);
+    const wall: WallPlane = {
+      position: new Vector3(0, 0, 5),
+      normal: new Vector3(0, 0, -1),
+      isMirror: true,
+      start: new Vector3(-5, 0, 5),
+      end: new Vector3(5, 0, 5),
+    };
+
+    const centre = calculateIntersection(origin, new Vector3(0, 0, 1), wall);
+    const corner = calculateIntersection(
+      origin,
+      new Vector3(1, 0, 1).normalize(),
+      wall
+    );
+
+    expect(centre.hit).toBe(true);
+    expect(corner.hit).toBe(true);
+    expect(corner.point?.x).toBeCloseTo(5);
+  });
+
+  it('should report the id of the wall that was hit', () => {
+    const wall: WallPlane = {
+      id: 'north',
+      position: new Vector3(0, 0, 5),
+      normal: new Vector3(0, 0, -1),
+      isMirror: true,
+    };
+
+    const hit = calculateIntersection(
+      new Vector3(0, 1, 0),
+      new Vector3(0, 0, 1),
+      wall
+    );
+    const miss = calculateIntersection(
+      new Vector3(0, 1, 0),
+      new Vector3(0, 0, -1),
+      wall
+    );
+
+    expect(hit.wallId).toBe('north');
+    expect(miss.wallId).toBeNull();
+  });
+
+  it('should miss above and below a wall of limited height', () => {
+    const wall: WallPlane = {
+      position: new Vector3(0, 0, 5),
+      normal: new Vector3(0, 0, -1),
+      isMirror: true,
+      height: 4,
+    };
+    const direction = new Vector3(0, 0, 1);
+
+    expect(
+      calculateIntersection(new Vector3(0, 2, 0), direction, wall).hit
+    ).toBe(true);
+    expect(
+      calculateIntersection(new Vector3(0, 6, 0), direction, wall).hit
+    ).toBe(false);
+    expect(
+      calculateIntersection(new Vector3(0, -1, 0), direction, wall).hit
+    ).toBe(false);
+  });
+
+  it('should use width around the centre when end points are missing', () => {
+    const wall: WallPlane = {
+      position: new Vector3(0, 0, 5),
+      normal: new Vector3(0, 0, -1),
+      isMirror: true,
+      width: 4,
+    };
+    const direction = new Vector3(0, 0, 1);
+
+    expect(
+      calculateIntersection(new Vector3(1.5, 0, 0), direction, wall).hit
+    ).toBe(true);
+    expect(
+      calculateIntersection(new Vector3(3, 0, 0), direction, wall).hit
+    ).toBe(false);
+  });
+
+  it('should bound floors along X by width and Z by height', () => {
+    const floor: WallPlane = {
+      position: new Vector3(0, 0, 0),
+      normal: new Vector3(0, 1, 0),
+      isMirror: false,
+      width: 10,
+      height: 4,
+    };
+    const down = new Vector3(0, -1, 0);
+
+    expect(calculateIntersection(new Vector3(4, 5, 1), down, floor).hit).toBe(
+      true
+    );
+    expect(calculateIntersection(new Vector3(1, 5, 3), down, floor).hit).toBe(
+      false
+    );
+  });
 });
 
 describe('findNearestIntersection', () => {
+  it('should skip nearer walls whose extent the ray misses', () => {
+    const origin = new Vector3(0, 1, 0);
+    const direction = new Vector3(1, 0, 0);
+    const walls: WallPlane[] = [
+      {
+        id: 'far',
+        position: new Vector3(10, 0, 0),
+        normal: new Vector3(-1, 0, 0),
+        isMirror: true,
+      },
+      {
+        id: 'nearOffset',
+        position: new Vector3(5, 0, 6),
+        normal: new Vector3(-1, 0, 0),
+        isMirror: false,
+        start: new Vector3(5, 0, 4),
+        end: new Vector3(5, 0, 8),
+      },
+    ];
+
+    const result = findNearestIntersection(origin, direction, walls);
+
+    expect(result.wallId).toBe('far');
+    expect(result.distance).toBeCloseTo(10);
+  });
+
   it('should find the nearest wall intersection', () => {
     const origin = new Vector3(0, 0, 0);
     const direction = new Vector3(1, 0, 0); // Pointing +X
@@ -13,10 +13,85 @@ export interface IntersectionResult {
   point: Vector3 | null;
   normal: Vector3 | null;
   isMirror: boolean;
+  wallId: string | null; // Id of the wall that was hit, if it has one
+  obstacleId: string | null; // Id of the obstacle that was hit, if any
 }
 
+/**
+ * Tolerance for hits at a wall's edges so rays into corners still land
+ */
+const EXTENT_TOLERANCE = 1e-6;
+
+/**
+ * Result for a ray that hits nothing
+ *
+ * @returns Intersection result with no hit
+ */
+export const createMiss = (): IntersectionResult => ({
+  hit: false,
+  distance: Infinity,
+  point: null,
+  normal: null,
+  isMirror: false,
+  wallId: null,
+  obstacleId: null,
+});
+
+/**
+ * Checks whether a value lies in a range, allowing for rounding at the edges
+ */
+const isWithinRange = (value: number, min: number, max: number): boolean =>
+  value >= min - EXTENT_TOLERANCE && value <= max + EXTENT_TOLERANCE;
+
+/**
+ * Checks whether a point on a wall's plane lies within the wall's extents
+ * Floors and ceilings are bounded along X (width) and Z (height); vertical
+ * walls between their end points (or width) and upwards from their base
+ * Any extent that is not given leaves the plane unbounded in that direction
+ */
+const isWithinExtent = (point: Vector3, wallPlane: WallPlane): boolean => {
+  const offset = point.subtract(wallPlane.position);
+  const halfWidth = (wallPlane.width ?? Infinity) / 2;
+
+  if (Math.abs(wallPlane.normal.y) > 0.5) {
+    const halfDepth = (wallPlane.height ?? Infinity) / 2;
+    return (
+      isWithinRange(offset.x, -halfWidth, halfWidth) &&
+      isWithinRange(offset.z, -halfDepth, halfDepth)
+    );
+  }
+
+  if (
+    wallPlane.height !== undefined &&
+    !isWithinRange(offset.y, 0, wallPlane.height)
+  ) {
+    return false;
+  }
+
+  if (wallPlane.start && wallPlane.end) {
+    const along = wallPlane.end.subtract(wallPlane.start);
+    along.y = 0;
+    const fromStart = point.subtract(wallPlane.start);
+    fromStart.y = 0;
+    return isWithinRange(
+      Vector3.Dot(fromStart, along) / along.lengthSquared(),
+      0,
+      1
+    );
+  }
+
+  // Horizontal direction along the wall face
+  const along = new Vector3(-wallPlane.normal.z, 0, wallPlane.normal.x);
+  return isWithinRange(
+    Math.abs(Vector3.Dot(offset, along.normalize())),
+    0,
+    halfWidth
+  );
+};
+
 /**
  * Calculates the intersection of a ray with a wall plane
+ * Hits outside the wall's extents (end points, width, height) are misses
  *
  * @param origin - Ray origin point
  * @param direction - Ray direction (normalized)
@@ -40,24 +115,25 @@ export const calculateIntersection = (
 
   if (distance === null || distance < 0.001) {
     // No intersection or too close (avoid self-intersection)
-    return {
-      hit: false,
-      distance: Infinity,
-      point: null,
-      normal: null,
-      isMirror: false,
-    };
+    return createMiss();
   }
 
   // Calculate intersection point
   const point = ray.origin.add(ray.direction.scale(distance));
 
+  if (!isWithinExtent(point, wallPlane)) {
+    // Plane hit lies beyond the edge of the wall
+    return createMiss();
+  }
+
   return {
     hit: true,
     distance,
     point,
     normal: wallPlane.normal.clone(),
     isMirror: wallPlane.isMirror,
+    wallId: wallPlane.id ?? null,
+    obstacleId: null,
   };
 };
 
@@ -74,13 +150,7 @@ export const findNearestIntersection = (
   direction: Vector3,
   wallPlanes: WallPlane[]
 ): IntersectionResult => {
-  let nearest: IntersectionResult = {
-    hit: false,
-    distance: Infinity,
-    point: null,
-    normal: null,
-    isMirror: false,
-  };
+  let nearest: IntersectionResult = createMiss();
 
   for (const wallPlane of wallPlanes) {
     const result = calculateIntersection(origin, direction, wallPlane);
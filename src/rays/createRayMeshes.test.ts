@@ -1,70 +1,211 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { createRayMeshes, createAllRayMeshes } from './createRayMeshes';
+import {
+  createAllRayMeshes,
+  createRayLineSystem,
+  traceRaySegments,
+  unfoldRaySegments,
+  straightenRaySegments,
+  RAY_LINES_NAME,
+  type ColoredRaySegment,
+} from './createRayMeshes';
+import { RAY_TUBES_NAME } from './createRayTubes';
 import { Vector3, Color3, Matrix, TransformNode, MeshBuilder } from 'babylonjs';
 import { Ray } from './types';
 import { createWallPlanes } from './createWallPlanes';
+import {
+  createRoomDefinition,
+  getWallById,
+  getWallReflectionMatrix,
+  setWallMirror,
+} from '../geometry/roomDefinition';
+import { WALL_NAMES } from '../constants';
 import { setupCanvasMock } from '../test-utils/mockCanvas';
 import { createEditorScene } from '../editor/createEditorScene';
 
-describe('createRayMeshes', () => {
+describe('traceRaySegments', () => {
+  it('should colour every segment with the ray colour and fade them', () => {
+    const ray: Ray = {
+      origin: new Vector3(0, 0, 0),
+      direction: new Vector3(1, 0, 0), // Towards the east mirror
+      color: new Color3(1, 0, 0),
+    };
+
+    const segments = traceRaySegments(ray, createWallPlanes(), 3);
+
+    expect(segments.length).toBeGreaterThan(1);
+    expect(segments.every((segment) => segment.color.r === 1)).toBe(true);
+    expect(segments[0].alpha).toBe(1);
+    expect(segments[segments.length - 1].alpha).toBeLessThan(1);
+  });
+});
+
+describe('unfoldRaySegments', () => {
+  it('should copy every segment into each cell, dimmed', () => {
+    const segment: ColoredRaySegment = {
+      startPoint: new Vector3(1, 0, 2),
+      endPoint: new Vector3(3, 0, 2),
+      alpha: 1,
+      color: new Color3(0, 0, 1),
+    };
+
+    // Cell behind a mirror at x = 5
+    const reflection = Matrix.Scaling(-1, 1, 1).multiply(
+      Matrix.Translation(10, 0, 0)
+    );
+    const unfolded = unfoldRaySegments([segment], [reflection]);
+
+    expect(unfolded).toHaveLength(1);
+    expect(unfolded[0].startPoint.equalsWithEpsilon(new Vector3(9, 0, 2))).toBe(
+      true
+    );
+    expect(unfolded[0].endPoint.equalsWithEpsilon(new Vector3(7, 0, 2))).toBe(
+      true
+    );
+    expect(unfolded[0].alpha).toBeLessThan(1);
+    expect(unfoldRaySegments([segment], [])).toEqual([]);
+  });
+});
+
+describe('straightenRaySegments', () => {
+  // Room from x = -5 to 5 with mirrors east and west
+  const room = createRoomDefinition(10, [WALL_NAMES.EAST, WALL_NAMES.WEST]);
+  const eastCell = getWallReflectionMatrix(getWallById(room, 'east'));
+  const eastWestCell = getWallReflectionMatrix(
+    getWallById(room, 'west')
+  ).multiply(eastCell);
+  const color = new Color3(0, 1, 0);
+
+  const traceEastward = (traceRoom: typeof room): ColoredRaySegment[] =>
+    traceRaySegments(
+      {
+        origin: new Vector3(0, 1, 0),
+        direction: new Vector3(1, 0, 0),
+        color,
+      },
+      createWallPlanes(traceRoom),
+      2
+    );
+
+  it('should continue through every drawn cell the bounces lead into', () => {
+    const straight = straightenRaySegments(traceEastward(room), room, [
+      eastCell,
+      eastWestCell,
+    ]);
+
+    expect(straight?.startPoint.equalsWithEpsilon(new Vector3(0, 1, 0))).toBe(
+      true
+    );
+    // East to x = 5, back west to x = -5, east again to x = 5: 20 units unfolded
+    expect(straight?.endPoint.x).toBeCloseTo(25);
+    expect(straight?.endPoint.z).toBeCloseTo(0);
+    expect(straight?.color).toBe(color);
+    expect(straight?.alpha).toBeLessThan(1);
+  });
+
+  it('should stop at the edge of the drawn cells', () => {
+    const straight = straightenRaySegments(traceEastward(room), room, [
+      eastCell,
+    ]);
+
+    expect(straight?.endPoint.x).toBeCloseTo(15);
+  });
+
+  it('should stop at a floor mirror, whose cell is not drawn', () => {
+    const floorRoom = setWallMirror(room, 'floor', true);
+    const segments = traceRaySegments(
+      {
+        origin: new Vector3(0, 2, 0),
+        direction: new Vector3(1, -1, 0).normalize(),
+        color,
+      },
+      createWallPlanes(floorRoom),
+      2
+    );
+
+    const straight = straightenRaySegments(segments, floorRoom, [
+      eastCell,
+      eastWestCell,
+    ]);
+
+    expect(segments[0].wallId).toBe('floor');
+    expect(straight?.endPoint.x).toBeCloseTo(2);
+    expect(straight?.endPoint.y).toBeCloseTo(0, 1);
+  });
+
+  it('should skip rays without segments', () => {
+    expect(straightenRaySegments([], room, [])).toBeNull();
+  });
+});
+
+describe('createRayLineSystem', () => {
   beforeEach(() => {
     setupCanvasMock();
   });
 
-  it('should create meshes for ray segments', () => {
+  const createSegment = (x: number, alpha: number): ColoredRaySegment => ({
+    startPoint: new Vector3(x, 0, 0),
+    endPoint: new Vector3(x, 1, 0),
+    alpha,
+    color: new Color3(0, 1, 0),
+  });
+
+  it('should draw all segments with per-vertex colour and fade', () => {
     const canvas = document.createElement('canvas');
     const sceneConfig = createEditorScene(canvas);
 
-    const ray: Ray = {
-      origin: new Vector3(0, 0, 0),
-      direction: new Vector3(1, 0, 0),
-      color: new Color3(1, 0, 0),
-    };
-
-    const wallPlanes = createWallPlanes();
-    const meshes = createRayMeshes(ray, 0, wallPlanes, 2, sceneConfig.scene);
+    const lines = createRayLineSystem(
+      [createSegment(0, 1), createSegment(1, 0.5)],
+      sceneConfig.scene
+    );
 
-    expect(meshes.length).toBeGreaterThan(0);
-    expect(meshes[0].name).toBe('ray0_seg0');
+    expect(lines?.name).toBe(RAY_LINES_NAME);
+    expect(lines?.isPickable).toBe(false);
+    const colors = lines?.getVerticesData('color') ?? [];
+    // Second vertex of the second line: green at half alpha
+    expect(Array.from(colors.slice(12, 16))).toEqual([0, 1, 0, 0.5]);
 
     sceneConfig.dispose();
   });
 
-  it('should set mesh properties correctly', () => {
+  it('should update the line system in place while the segments fit', () => {
     const canvas = document.createElement('canvas');
     const sceneConfig = createEditorScene(canvas);
 
-    const ray: Ray = {
-      origin: new Vector3(0, 0, 0),
-      direction: new Vector3(0, 0, 1),
-      color: new Color3(0, 1, 0),
-    };
+    const first = createRayLineSystem(
+      [createSegment(0, 1), createSegment(1, 1), createSegment(2, 1)],
+      sceneConfig.scene
+    );
+    const second = createRayLineSystem(
+      [createSegment(5, 1)],
+      sceneConfig.scene,
+      first
+    );
 
-    const wallPlanes = createWallPlanes();
-    const meshes = createRayMeshes(ray, 1, wallPlanes, 1, sceneConfig.scene);
+    expect(second).toBe(first);
+    expect(second?.getVerticesData('position')?.[0]).toBe(5);
+    // Unused lines are hidden
+    expect(second?.getVerticesData('color')?.[11]).toBe(0);
 
-    expect(meshes[0].color.g).toBe(1); // Green color
-    expect(meshes[0].isPickable).toBe(false);
-    expect(meshes[0].alpha).toBeGreaterThan(0);
+    // Outgrowing the line system replaces it
+    const third = createRayLineSystem(
+      Array.from({ length: 10 }, (_, index) => createSegment(index, 1)),
+      sceneConfig.scene,
+      second
+    );
+    expect(third).not.toBe(second);
+    expect(second?.isDisposed()).toBe(true);
 
     sceneConfig.dispose();
   });
 
-  it('should create multiple segments for multiple bounces', () => {
+  it('should dispose the line system when there is nothing to draw', () => {
     const canvas = document.createElement('canvas');
     const sceneConfig = createEditorScene(canvas);
 
-    const ray: Ray = {
-      origin: new Vector3(0, 0, 0),
-      direction: new Vector3(1, 0, 1).normalize(), // Diagonal
-      color: new Color3(1, 0, 0),
-    };
-
-    const wallPlanes = createWallPlanes();
-    const meshes = createRayMeshes(ray, 0, wallPlanes, 3, sceneConfig.scene);
+    const lines = createRayLineSystem([createSegment(0, 1)], sceneConfig.scene);
 
-    // Should have multiple segments if ray bounces
-    expect(meshes.length).toBeGreaterThanOrEqual(1);
+    expect(createRayLineSystem([], sceneConfig.scene, lines)).toBeNull();
+    expect(lines?.isDisposed()).toBe(true);
 
     sceneConfig.dispose();
   });
@@ -130,6 +271,84 @@ describe('createAllRayMeshes', () => {
     sceneConfig.dispose();
   });
 
+  it('should draw every ray in one line system', () => {
+    const canvas = document.createElement('canvas');
+    const sceneConfig = createEditorScene(canvas);
+
+    const parentNode = new TransformNode('raysParent', sceneConfig.scene);
+    const config = {
+      origin: new Vector3(0, 0, 0),
+      worldMatrix: Matrix.Identity(),
+      rayCount: 4,
+      fanRays: 3,
+      maxBounces: 2,
+      scene: sceneConfig.scene,
+      parentNode,
+    };
+
+    createAllRayMeshes(config);
+
+    expect(parentNode.getChildren()).toHaveLength(1);
+    expect(parentNode.getChildren()[0].name).toBe(RAY_LINES_NAME);
+
+    sceneConfig.dispose();
+  });
+
+  it('should update the previous line system instead of recreating it', () => {
+    const canvas = document.createElement('canvas');
+    const sceneConfig = createEditorScene(canvas);
+
+    const parentNode = new TransformNode('raysParent', sceneConfig.scene);
+    const config = {
+      origin: new Vector3(0, 0, 0),
+      worldMatrix: Matrix.Identity(),
+      rayCount: 4,
+      fanRays: 1,
+      maxBounces: 2,
+      scene: sceneConfig.scene,
+      parentNode,
+    };
+
+    createAllRayMeshes(config);
+    const lines = sceneConfig.scene.getMeshByName(RAY_LINES_NAME);
+    const before = lines?.getVerticesData('position')?.slice();
+
+    createAllRayMeshes({ ...config, origin: new Vector3(2, 0, 1) });
+
+    expect(sceneConfig.scene.getMeshByName(RAY_LINES_NAME)).toBe(lines);
+    expect(lines?.isDisposed()).toBe(false);
+    expect(lines?.getVerticesData('position')).not.toEqual(before);
+
+    sceneConfig.dispose();
+  });
+
+  it('should swap the line system for tubes when the style changes', () => {
+    const canvas = document.createElement('canvas');
+    const sceneConfig = createEditorScene(canvas);
+
+    const parentNode = new TransformNode('raysParent', sceneConfig.scene);
+    const config = {
+      origin: new Vector3(0, 0, 0),
+      worldMatrix: Matrix.Identity(),
+      rayCount: 2,
+      fanRays: 1,
+      maxBounces: 2,
+      scene: sceneConfig.scene,
+      parentNode,
+    };
+
+    createAllRayMeshes(config);
+    const lines = parentNode.getChildren()[0];
+    createAllRayMeshes({ ...config, style: 'tubes', width: 0.2 });
+
+    expect(lines.isDisposed()).toBe(true);
+    expect(parentNode.getChildren().map((child) => child.name)).toEqual([
+      RAY_TUBES_NAME,
+    ]);
+
+    sceneConfig.dispose();
+  });
+
   it('should handle zero ray count', () => {
     const canvas = document.createElement('canvas');
     const sceneConfig = createEditorScene(canvas);
@@ -1,85 +1,218 @@
-// ABOUTME: Pure functions for creating line meshes from ray segments
-// ABOUTME: Generates visual representation of rays with proper colors and alpha
+// ABOUTME: Pure functions for drawing every ray segment in one line system
+// ABOUTME: Per-vertex colours carry each segment's fade; the line system is updated in place between traces
 
 import {
   Scene,
   MeshBuilder,
   Mesh,
+  LinesMesh,
   Color3,
+  Color4,
   TransformNode,
   Vector3,
   Matrix,
 } from 'babylonjs';
-import { Ray, RaySegment } from './types';
+import { EmissionPattern, Obstacle, Ray, RaySegment, RayStyle } from './types';
 import { createRaySegments } from './createRaySegments';
 import { generateRays } from './generateRays';
-import { traceRay } from './traceRay';
+import { traceRayPath } from './traceRay';
 import { createWallPlanes } from './createWallPlanes';
+import { createRayTubes, RAY_TUBES_NAME } from './createRayTubes';
+import {
+  createRoomDefinition,
+  getWallById,
+  getWallReflectionMatrix,
+  type RoomDefinition,
+} from '../geometry/roomDefinition';
 
 /**
- * Creates a line mesh for a single ray segment
- *
- * @param segment - Ray segment with start/end points and alpha
- * @param color - Color for the line
- * @param name - Unique name for the mesh
- * @param scene - Scene to add the mesh to
- * @returns Line mesh for the segment
- */
-const createSegmentMesh = (
-  segment: RaySegment,
-  color: Color3,
-  name: string,
-  scene: Scene
-): Mesh => {
-  const mesh = MeshBuilder.CreateLines(
-    name,
-    {
-      points: [segment.startPoint, segment.endPoint],
-      useVertexAlpha: true,
-    },
-    scene
-  );
+ * Ray segment with the colour of the ray it belongs to
+ */
+export interface ColoredRaySegment extends RaySegment {
+  color: Color3;
+  wallId?: string | null; // Wall hit at the segment's end; null for an object
+}
 
-  mesh.color = color;
-  mesh.alpha = segment.alpha;
-  mesh.isPickable = false; // Rays should not interfere with picking
+/**
+ * Name of the line system holding every ray segment
+ */
+export const RAY_LINES_NAME = 'rayLines';
 
-  return mesh;
-};
+/**
+ * Spare room in a new line system, so traces with a few more segments (e.g.,
+ * while dragging past an obstacle) still update it in place
+ */
+const LINE_CAPACITY_HEADROOM = 1.25;
 
 /**
- * Creates all visual meshes for a single ray
+ * Colour of the unused lines padding the line system
+ */
+const HIDDEN_LINE_COLOR = new Color4(0, 0, 0, 0);
+
+/**
+ * Fade of unfolded segments relative to the real ones, so the real rays stand out
+ */
+const UNFOLDED_ALPHA_SCALE = 0.6;
+
+/**
+ * Traces a ray and splits its path into fading segments
  *
- * @param ray - Ray with origin and direction
- * @param rayIndex - Index of this ray (for naming)
+ * @param ray - Ray with origin, direction and colour
  * @param wallPlanes - Wall planes for intersection
  * @param maxBounces - Maximum number of bounces
- * @param scene - Scene to add meshes to
- * @returns Array of line meshes for all segments
+ * @param obstacles - Objects that block or reflect the ray (default: none)
+ * @returns Segments in the ray's colour, fading along the path, with the wall each one ends on
  */
-export const createRayMeshes = (
+export const traceRaySegments = (
   ray: Ray,
-  rayIndex: number,
   wallPlanes: ReturnType<typeof createWallPlanes>,
   maxBounces: number,
-  scene: Scene
-): Mesh[] => {
-  // Trace the ray to get all points
-  const points = traceRay(ray, wallPlanes, maxBounces);
+  obstacles: Obstacle[] = []
+): ColoredRaySegment[] => {
+  const { points, wallIds } = traceRayPath(
+    ray,
+    wallPlanes,
+    maxBounces,
+    obstacles
+  );
+  return createRaySegments(points, ray.color).map((segment, index) => ({
+    ...segment,
+    color: ray.color,
+    wallId: wallIds[index],
+  }));
+};
 
-  // Create segments from points
-  const segments = createRaySegments(points, ray.color);
+/**
+ * Copies segments into virtual-image cells, so a ray's path through the mirrors
+ * shows as the straight line it looks like from inside the room
+ *
+ * @param segments - Segments in the real room
+ * @param reflections - Reflection of each cell, mapping the room onto the cell
+ * @returns Segments in every cell, cell by cell, dimmer than the real ones
+ */
+export const unfoldRaySegments = (
+  segments: readonly ColoredRaySegment[],
+  reflections: readonly Matrix[]
+): ColoredRaySegment[] =>
+  reflections.flatMap((reflection) =>
+    segments.map((segment) => ({
+      ...segment,
+      startPoint: Vector3.TransformCoordinates(segment.startPoint, reflection),
+      endPoint: Vector3.TransformCoordinates(segment.endPoint, reflection),
+      alpha: segment.alpha * UNFOLDED_ALPHA_SCALE,
+    }))
+  );
 
-  // Create mesh for each segment
-  const meshes: Mesh[] = [];
+/**
+ * Whether two cell reflections map the room onto the same cell
+ */
+const isSameCell = (a: Matrix, b: Matrix): boolean =>
+  a.m.every((value, index) => Math.abs(value - b.m[index]) < 1e-4);
 
-  segments.forEach((segment, segmentIndex) => {
-    const name = `ray${rayIndex}_seg${segmentIndex}`;
-    const mesh = createSegmentMesh(segment, ray.color, name, scene);
-    meshes.push(mesh);
-  });
+/**
+ * Unfolds a ray's bouncing path into one straight line: after each bounce the
+ * rest of the path is reflected across every wall hit so far, continuing it
+ * straight on into the mirrors' reflected copies of the room.
+ * The line stops where the path would enter a cell that is not drawn (e.g., one
+ * above the room after a floor bounce), or at a bounce off an object
+ *
+ * @param segments - Segments of one ray, in order
+ * @param room - Room the ray was traced in
+ * @param cells - Reflection of each drawn cell around the real room
+ * @returns Straight segment in the ray's colour, or null for a ray without segments
+ */
+export const straightenRaySegments = (
+  segments: readonly ColoredRaySegment[],
+  room: RoomDefinition,
+  cells: readonly Matrix[]
+): ColoredRaySegment | null => {
+  const [first, ...rest] = segments;
+  if (!first) {
+    return null;
+  }
+
+  let reflection = Matrix.Identity();
+  let endPoint = first.endPoint.clone();
+  let previous = first;
+  for (const segment of rest) {
+    const wall = previous.wallId ? getWallById(room, previous.wallId) : null;
+    if (!wall) {
+      break;
+    }
+    // The wall hit last is applied first, then the ones before it
+    reflection = getWallReflectionMatrix(wall).multiply(reflection);
+    if (!cells.some((cell) => isSameCell(cell, reflection))) {
+      break;
+    }
+    endPoint = Vector3.TransformCoordinates(segment.endPoint, reflection);
+    previous = segment;
+  }
 
-  return meshes;
+  return {
+    startPoint: first.startPoint.clone(),
+    endPoint,
+    alpha: first.alpha * UNFOLDED_ALPHA_SCALE,
+    color: first.color,
+  };
+};
+
+/**
+ * Creates a line system drawing the segments, or updates an existing one in place
+ * An existing line system is rebuilt only when the segments outgrow it; unused
+ * lines are collapsed and transparent
+ *
+ * @param segments - Segments to draw
+ * @param scene - Scene to add the line system to
+ * @param existing - Line system from the previous update (optional)
+ * @returns Line system, or null when there is nothing to draw
+ */
+export const createRayLineSystem = (
+  segments: readonly ColoredRaySegment[],
+  scene: Scene,
+  existing: LinesMesh | null = null
+): LinesMesh | null => {
+  if (segments.length === 0) {
+    existing?.dispose();
+    return null;
+  }
+
+  const existingCapacity = existing ? existing.getTotalVertices() / 2 : 0;
+  const instance = existingCapacity >= segments.length ? existing : null;
+  if (existing && !instance) {
+    existing.dispose();
+  }
+  const capacity = instance
+    ? existingCapacity
+    : Math.ceil(segments.length * LINE_CAPACITY_HEADROOM);
+
+  const lines: Vector3[][] = [];
+  const colors: Color4[][] = [];
+  for (let index = 0; index < capacity; index++) {
+    const segment = segments[index];
+    if (segment) {
+      const color = Color4.FromColor3(segment.color, segment.alpha);
+      lines.push([segment.startPoint, segment.endPoint]);
+      colors.push([color, color]);
+    } else {
+      lines.push([Vector3.Zero(), Vector3.Zero()]);
+      colors.push([HIDDEN_LINE_COLOR, HIDDEN_LINE_COLOR]);
+    }
+  }
+
+  const mesh = MeshBuilder.CreateLineSystem(
+    RAY_LINES_NAME,
+    {
+      lines,
+      colors,
+      useVertexAlpha: true,
+      updatable: true, // Updated in place while the source is dragged
+      instance: instance ?? undefined,
+    },
+    scene
+  );
+  mesh.isPickable = false; // Rays should not interfere with picking
+
+  return mesh;
 };
 
 /**
@@ -91,48 +224,161 @@ export interface RayVisualizationConfig {
   rayCount: number;
   fanRays: number;
   maxBounces: number;
+  pattern?: EmissionPattern; // Defaults to a horizontal ring
+  color?: Color3; // Colours every ray instead of the gradient
+  style?: RayStyle; // Defaults to thin lines
+  width?: number; // Tube diameter for the 'tubes' style (default: DEFAULT_RAY_WIDTH)
   scene: Scene;
   parentNode: TransformNode;
+  room?: RoomDefinition; // Defaults to the standard room
+  obstacles?: Obstacle[]; // Objects besides the source sphere that rays can hit
+  reflections?: Matrix[]; // Virtual-image cells to continue the rays into (default: none)
+  straightLines?: boolean; // Also draw each ray unfolded into one straight line (default: false)
+  unfoldedCells?: Matrix[]; // Cells drawn around the room that straightened rays may cross (default: none)
+  layerMask?: number; // Layer of the ray mesh (default: Babylon's, seen by every camera)
 }
 
 /**
- * Creates all ray visualization meshes
+ * Tube diameter when the configuration gives none
+ */
+export const DEFAULT_RAY_WIDTH = 0.08;
+
+/**
+ * Id reported when a ray is blocked by the sphere it was emitted from
+ */
+export const RAY_SOURCE_ID = 'raySource';
+
+/**
+ * Radius of the source sphere, matching generateRays' default
+ */
+const SOURCE_RADIUS = 1;
+
+/**
+ * Traces every ray the configuration emits, keeping each ray's segments together
+ *
+ * @param config - Configuration for ray visualization (the scene and parent node are not used)
+ * @returns Segments of each ray
+ */
+const traceAllRays = (
+  config: Omit<RayVisualizationConfig, 'scene' | 'parentNode'>
+): ColoredRaySegment[][] => {
+  const {
+    origin,
+    worldMatrix,
+    rayCount,
+    fanRays,
+    maxBounces,
+    pattern,
+    color,
+    room,
+    obstacles = [],
+  } = config;
+
+  // Generate rays with fan pattern
+  const rays = generateRays(
+    origin,
+    worldMatrix,
+    rayCount,
+    fanRays,
+    SOURCE_RADIUS,
+    { pattern }
+  ).map((ray) => (color ? { ...ray, color: color.clone() } : ray));
+
+  // Get wall, floor and ceiling planes from the room definition
+  const wallPlanes = createWallPlanes(room);
+
+  // Rays that bounce back into the source sphere stop there
+  const sourceObstacle: Obstacle = {
+    kind: 'sphere',
+    id: RAY_SOURCE_ID,
+    center: origin.clone(),
+    radius: SOURCE_RADIUS,
+    isMirror: false,
+  };
+  const allObstacles = [sourceObstacle, ...obstacles];
+
+  return rays.map((ray) =>
+    traceRaySegments(ray, wallPlanes, maxBounces, allObstacles)
+  );
+};
+
+/**
+ * Traces every ray the configuration emits
+ *
+ * @param config - Configuration for ray visualization (the scene and parent node are not used)
+ * @returns Segments of all rays, ray by ray
+ */
+export const traceAllRaySegments = (
+  config: Omit<RayVisualizationConfig, 'scene' | 'parentNode'>
+): ColoredRaySegment[] => traceAllRays(config).flat();
+
+/**
+ * Creates all ray visualization meshes: one line system or one tube mesh under the parent node
+ * Rays continued into image cells and straightened rays go into the same mesh.
+ * The mesh from the previous call is updated in place if the style is unchanged;
+ * other children are disposed
  *
  * @param config - Configuration for ray visualization
- * @returns Parent node containing all ray meshes
+ * @returns Parent node containing the ray mesh
  */
 export const createAllRayMeshes = (
   config: RayVisualizationConfig
 ): TransformNode => {
-  const { origin, worldMatrix, rayCount, fanRays, maxBounces, scene, parentNode } =
-    config;
+  const {
+    scene,
+    parentNode,
+    style = 'lines',
+    width = DEFAULT_RAY_WIDTH,
+    reflections = [],
+    room = createRoomDefinition(),
+    straightLines = false,
+    unfoldedCells = [],
+    layerMask,
+  } = config;
 
-  // Clear existing children
-  parentNode.getChildren().forEach((child) => {
-    child.dispose();
+  const children = parentNode.getChildren();
+  const existingLines =
+    style === 'lines'
+      ? (children.find(
+          (child): child is LinesMesh =>
+            child instanceof LinesMesh && child.name === RAY_LINES_NAME
+        ) ?? null)
+      : null;
+  const existingTubes =
+    style === 'tubes'
+      ? (children.find(
+          (child): child is Mesh =>
+            child instanceof Mesh && child.name === RAY_TUBES_NAME
+        ) ?? null)
+      : null;
+  children.forEach((child) => {
+    if (child !== existingLines && child !== existingTubes) {
+      child.dispose(false, true);
+    }
   });
 
-  // Generate rays with fan pattern
-  const rays = generateRays(origin, worldMatrix, rayCount, fanRays);
-
-  // Get wall planes
-  const wallPlanes = createWallPlanes();
-
-  // Create meshes for each ray
-  rays.forEach((ray, rayIndex) => {
-    const meshes = createRayMeshes(
-      ray,
-      rayIndex,
-      wallPlanes,
-      maxBounces,
-      scene
-    );
-
-    // Parent all meshes to the parent node
-    meshes.forEach((mesh) => {
-      mesh.parent = parentNode;
-    });
-  });
+  const rays = traceAllRays(config);
+  const traced = rays.flat();
+  const straightened = straightLines
+    ? rays
+        .map((segments) => straightenRaySegments(segments, room, unfoldedCells))
+        .filter((segment): segment is ColoredRaySegment => segment !== null)
+    : [];
+  const segments = [
+    ...traced,
+    ...unfoldRaySegments(traced, reflections),
+    ...straightened,
+  ];
+  const mesh =
+    style === 'tubes'
+      ? createRayTubes(segments, width, scene, existingTubes)
+      : createRayLineSystem(segments, scene, existingLines);
+  if (mesh) {
+    mesh.parent = parentNode;
+    if (layerMask !== undefined) {
+      mesh.layerMask = layerMask;
+    }
+  }
 
   return parentNode;
 };
@@ -0,0 +1,96 @@
+// ABOUTME: Tests for drawing rays as tubes with arrowheads
+// ABOUTME: Verifies tube placement, arrowhead tips, vertex colours and mesh reuse
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Color3, Vector3 } from 'babylonjs';
+import { createRayTubes, RAY_TUBES_NAME } from './createRayTubes';
+import type { ColoredRaySegment } from './createRayMeshes';
+import { setupCanvasMock } from '../test-utils/mockCanvas';
+import { createEditorScene } from '../editor/createEditorScene';
+
+const createSegment = (
+  start: Vector3,
+  end: Vector3,
+  alpha = 1
+): ColoredRaySegment => ({
+  startPoint: start,
+  endPoint: end,
+  alpha,
+  color: new Color3(1, 0, 0),
+});
+
+describe('createRayTubes', () => {
+  beforeEach(() => {
+    setupCanvasMock();
+  });
+
+  it('should end each segment in an arrowhead tip', () => {
+    const canvas = document.createElement('canvas');
+    const sceneConfig = createEditorScene(canvas);
+
+    const tubes = createRayTubes(
+      [createSegment(new Vector3(0, 0, 0), new Vector3(5, 0, 0), 0.5)],
+      0.1,
+      sceneConfig.scene
+    );
+
+    expect(tubes?.name).toBe(RAY_TUBES_NAME);
+    expect(tubes?.isPickable).toBe(false);
+    const bounds = tubes?.getBoundingInfo().boundingBox;
+    expect(bounds?.minimumWorld.x).toBeCloseTo(0);
+    expect(bounds?.maximumWorld.x).toBeCloseTo(5);
+    // Arrowhead is wider than the tube
+    expect(bounds?.maximumWorld.y).toBeCloseTo(0.15);
+
+    const colors = tubes?.getVerticesData('color') ?? [];
+    expect(Array.from(colors.slice(0, 4))).toEqual([1, 0, 0, 0.5]);
+
+    sceneConfig.dispose();
+  });
+
+  it('should rebuild the previous mesh for new segments', () => {
+    const canvas = document.createElement('canvas');
+    const sceneConfig = createEditorScene(canvas);
+
+    const first = createRayTubes(
+      [createSegment(new Vector3(0, 0, 0), new Vector3(0, 0, 5))],
+      0.1,
+      sceneConfig.scene
+    );
+    const second = createRayTubes(
+      [
+        createSegment(new Vector3(0, 0, 0), new Vector3(0, 0, 5)),
+        createSegment(new Vector3(0, 0, 5), new Vector3(3, 0, 0)),
+      ],
+      0.1,
+      sceneConfig.scene,
+      first
+    );
+
+    expect(second).toBe(first);
+    expect(second?.getTotalVertices()).toBeGreaterThan(0);
+    second?.refreshBoundingInfo();
+    expect(second?.getBoundingInfo().boundingBox.maximumWorld.x).toBeCloseTo(
+      3,
+      1
+    );
+
+    sceneConfig.dispose();
+  });
+
+  it('should dispose the mesh when there is nothing to draw', () => {
+    const canvas = document.createElement('canvas');
+    const sceneConfig = createEditorScene(canvas);
+
+    const tubes = createRayTubes(
+      [createSegment(new Vector3(0, 0, 0), new Vector3(1, 0, 0))],
+      0.1,
+      sceneConfig.scene
+    );
+
+    expect(createRayTubes([], 0.1, sceneConfig.scene, tubes)).toBeNull();
+    expect(tubes?.isDisposed()).toBe(true);
+
+    sceneConfig.dispose();
+  });
+});
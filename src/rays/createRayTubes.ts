@@ -0,0 +1,151 @@
+// ABOUTME: Pure functions for drawing ray segments as tubes with arrowheads
+// ABOUTME: Every tube and arrowhead goes into one mesh whose vertex colours carry each segment's fade
+
+import {
+  Scene,
+  Mesh,
+  Matrix,
+  Quaternion,
+  StandardMaterial,
+  Color3,
+  Vector3,
+  VertexData,
+  CreateCylinderVertexData,
+} from 'babylonjs';
+import type { ColoredRaySegment } from './createRayMeshes';
+
+/**
+ * Name of the mesh holding every ray tube
+ */
+export const RAY_TUBES_NAME = 'rayTubes';
+
+/**
+ * Arrowhead size relative to the tube width
+ */
+const ARROW_LENGTH_SCALE = 4;
+const ARROW_WIDTH_SCALE = 3;
+
+/**
+ * Sides of each tube and arrowhead; rays are thin, so a few sides look round
+ */
+const TUBE_TESSELLATION = 8;
+
+/**
+ * Creates a cylinder or cone along the segment from start to end in the segment's colour
+ *
+ * @param start - Start of the shape's axis
+ * @param end - End of the shape's axis
+ * @param diameterStart - Diameter at the start
+ * @param diameterEnd - Diameter at the end (0 for a point)
+ * @param segment - Segment giving the colour and fade
+ * @returns Vertex data in world space
+ */
+const createAxisShape = (
+  start: Vector3,
+  end: Vector3,
+  diameterStart: number,
+  diameterEnd: number,
+  segment: ColoredRaySegment
+): VertexData => {
+  const axis = end.subtract(start);
+  const length = axis.length();
+
+  // Cylinders are built along +Y, centred on the origin
+  const vertexData = CreateCylinderVertexData({
+    height: length,
+    diameterBottom: diameterStart,
+    diameterTop: diameterEnd,
+    tessellation: TUBE_TESSELLATION,
+  });
+  const rotation = Quaternion.Identity();
+  Quaternion.FromUnitVectorsToRef(
+    Vector3.Up(),
+    axis.scale(1 / length),
+    rotation
+  );
+  vertexData.transform(
+    Matrix.Compose(Vector3.One(), rotation, Vector3.Center(start, end))
+  );
+
+  const vertexCount = (vertexData.positions?.length ?? 0) / 3;
+  const { r, g, b } = segment.color;
+  vertexData.colors = Array.from({ length: vertexCount }, () => [
+    r,
+    g,
+    b,
+    segment.alpha,
+  ]).flat();
+
+  return vertexData;
+};
+
+/**
+ * Creates the tube and arrowhead for one segment
+ * The arrowhead's tip sits on the segment's end, so each bounce and the ray's end show its direction
+ *
+ * @param segment - Segment to draw
+ * @param width - Tube diameter
+ * @returns Tube and arrowhead vertex data, or none for a zero-length segment
+ */
+const createSegmentTube = (
+  segment: ColoredRaySegment,
+  width: number
+): VertexData[] => {
+  const { startPoint, endPoint } = segment;
+  const length = Vector3.Distance(startPoint, endPoint);
+  if (length < 1e-6) {
+    return [];
+  }
+
+  // Short segments get a shorter arrowhead so it fits
+  const arrowLength = Math.min(width * ARROW_LENGTH_SCALE, length / 2);
+  const arrowBase = Vector3.Lerp(endPoint, startPoint, arrowLength / length);
+
+  return [
+    createAxisShape(startPoint, arrowBase, width, width, segment),
+    createAxisShape(arrowBase, endPoint, width * ARROW_WIDTH_SCALE, 0, segment),
+  ];
+};
+
+/**
+ * Creates a mesh drawing the segments as tubes with arrowheads, or rebuilds an existing one
+ *
+ * @param segments - Segments to draw
+ * @param width - Tube diameter in world units
+ * @param scene - Scene to add the mesh to
+ * @param existing - Tube mesh from the previous update (optional)
+ * @returns Tube mesh, or null when there is nothing to draw
+ */
+export const createRayTubes = (
+  segments: readonly ColoredRaySegment[],
+  width: number,
+  scene: Scene,
+  existing: Mesh | null = null
+): Mesh | null => {
+  const shapes = segments.flatMap((segment) =>
+    createSegmentTube(segment, width)
+  );
+  if (shapes.length === 0) {
+    existing?.dispose(false, true);
+    return null;
+  }
+
+  const [first, ...rest] = shapes;
+  const vertexData = first.merge(rest, true);
+
+  const mesh = existing ?? new Mesh(RAY_TUBES_NAME, scene);
+  vertexData.applyToMesh(mesh, true); // Rebuilt while the source is dragged
+
+  if (!existing) {
+    // Vertex colours only, so tubes look like the lines whatever the lighting
+    const material = new StandardMaterial(`${RAY_TUBES_NAME}Material`, scene);
+    material.diffuseColor = Color3.White();
+    material.specularColor = Color3.Black();
+    material.disableLighting = true;
+    mesh.material = material;
+    mesh.hasVertexAlpha = true;
+    mesh.isPickable = false; // Rays should not interfere with picking
+  }
+
+  return mesh;
+};
@@ -1,11 +1,23 @@
 import { describe, it, expect } from 'vitest';
 import { createWallPlanes } from './createWallPlanes';
-import { ROOM_HALF } from '../constants';
+import { ROOM_HALF, ROOM_SIZE, WALL_NAMES } from '../constants';
+import { createRoomDefinition } from '../geometry/roomDefinition';
+import { getRoomPreset } from '../geometry/roomPresets';
 
 describe('createWallPlanes', () => {
-  it('should create four wall planes', () => {
+  it('should create four wall planes plus floor and ceiling', () => {
     const planes = createWallPlanes();
-    expect(planes).toHaveLength(4);
+    expect(planes).toHaveLength(6);
+    expect(planes[4].id).toBe('floor');
+    expect(planes[5].id).toBe('ceiling');
+  });
+
+  it('should face the floor up and the ceiling down', () => {
+    const planes = createWallPlanes();
+
+    expect(planes[4].normal.y).toBe(1);
+    expect(planes[5].normal.y).toBe(-1);
+    expect(planes[5].position.y).toBe(ROOM_SIZE);
   });
 
   it('should position walls at room boundaries', () => {
@@ -63,4 +75,46 @@ describe('createWallPlanes', () => {
     expect(planes1[0]).not.toBe(planes2[0]);
     expect(planes1[0].position).not.toBe(planes2[0].position);
   });
+
+  it('should take walls and mirror flags from the room definition', () => {
+    const room = createRoomDefinition(10, [WALL_NAMES.SOUTH]);
+    const planes = createWallPlanes(room);
+
+    expect(planes[0].position.z).toBe(5);
+    expect(planes.map((plane) => plane.isMirror)).toEqual([
+      false,
+      true,
+      false,
+      false,
+      false,
+      false,
+    ]);
+  });
+
+  it('should carry wall end points for finite walls', () => {
+    const planes = createWallPlanes(getRoomPreset('hexagon').create());
+    const sides = planes.slice(0, 6);
+
+    expect(planes).toHaveLength(8);
+    sides.forEach((plane) => {
+      expect(plane.start).toBeDefined();
+      expect(plane.end).toBeDefined();
+      expect(plane.isMirror).toBe(true);
+    });
+  });
+
+  it('should carry wall ids and extents', () => {
+    const planes = createWallPlanes();
+
+    expect(planes.map((plane) => plane.id)).toEqual([
+      'north',
+      'south',
+      'east',
+      'west',
+      'floor',
+      'ceiling',
+    ]);
+    expect(planes[0].width).toBe(ROOM_SIZE);
+    expect(planes[0].height).toBe(ROOM_SIZE);
+  });
 });
@@ -1,41 +1,31 @@
 // ABOUTME: Pure functions for creating wall plane definitions
 // ABOUTME: Generates plane data for ray-wall intersection calculations
 
-import { Vector3 } from 'babylonjs';
 import { WallPlane } from './types';
-import { ROOM_HALF } from '../constants';
+import {
+  createRoomDefinition,
+  getRoomSurfaces,
+  RoomDefinition,
+} from '../geometry/roomDefinition';
 
 /**
- * Creates wall planes for the room
- * North and East walls are mirrors
+ * Creates wall planes for the room from its definition
+ * Walls come first, then the floor and ceiling so 3D rays stay inside
  *
- * @returns Array of wall planes with position, normal, and mirror flag
+ * @param room - Room definition (default: standard room with north, east and west mirrors)
+ * @returns Array of wall planes with id, position, normal, mirror flag and extents
  */
-export const createWallPlanes = (): WallPlane[] => {
-  return [
-    // North wall (+Z) - Mirror
-    {
-      position: new Vector3(0, 0, ROOM_HALF),
-      normal: new Vector3(0, 0, -1),
-      isMirror: true,
-    },
-    // South wall (-Z) - Not mirror
-    {
-      position: new Vector3(0, 0, -ROOM_HALF),
-      normal: new Vector3(0, 0, 1),
-      isMirror: false,
-    },
-    // East wall (+X) - Mirror
-    {
-      position: new Vector3(ROOM_HALF, 0, 0),
-      normal: new Vector3(-1, 0, 0),
-      isMirror: true,
-    },
-    // West wall (-X) - Mirror
-    {
-      position: new Vector3(-ROOM_HALF, 0, 0),
-      normal: new Vector3(1, 0, 0),
-      isMirror: true,
-    },
-  ];
+export const createWallPlanes = (
+  room: RoomDefinition = createRoomDefinition()
+): WallPlane[] => {
+  return getRoomSurfaces(room).map((wall) => ({
+    id: wall.id,
+    position: wall.position.clone(),
+    normal: wall.normal.clone(),
+    isMirror: wall.isMirror,
+    start: wall.start?.clone(),
+    end: wall.end?.clone(),
+    width: wall.width,
+    height: wall.height,
+  }));
 };
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generateRays } from './generateRays';
+import { generateRays, generateFibonacciDirections } from './generateRays';
 import { Vector3, Matrix } from 'babylonjs';
 import { FACE_COLORS } from './types';
 
@@ -119,4 +119,89 @@ describe('generateRays', () => {
     rays[0].direction.x = 100;
     expect(rays[1].direction.x).not.toBe(100);
   });
+
+  describe('emission patterns', () => {
+    it('should spread sphere rays over every direction', () => {
+      const rays = generateRays(Vector3.Zero(), Matrix.Identity(), 8, 6, 1, {
+        pattern: 'sphere',
+      });
+
+      expect(rays).toHaveLength(48);
+      expect(rays.some((ray) => ray.direction.y > 0.9)).toBe(true);
+      expect(rays.some((ray) => ray.direction.y < -0.9)).toBe(true);
+    });
+
+    it('should start sphere rays on the sphere surface', () => {
+      const origin = new Vector3(1, 5, 2);
+      const rays = generateRays(origin, Matrix.Identity(), 4, 2, 1, {
+        pattern: 'sphere',
+      });
+
+      rays.forEach((ray) => {
+        expect(Vector3.Distance(ray.origin, origin)).toBeCloseTo(1.01);
+      });
+    });
+
+    it('should keep cone rays within the cone around the facing direction', () => {
+      const coneAngle = Math.PI / 8;
+      const rays = generateRays(Vector3.Zero(), Matrix.Identity(), 4, 4, 1, {
+        pattern: 'cone',
+        coneAngle,
+      });
+
+      expect(rays).toHaveLength(16);
+      rays.forEach((ray) => {
+        const angle = Math.acos(
+          Vector3.Dot(ray.direction, new Vector3(0, 0, 1))
+        );
+        expect(angle).toBeLessThanOrEqual(coneAngle + 1e-6);
+      });
+    });
+
+    it('should aim cones with the sphere rotation', () => {
+      const rays = generateRays(
+        Vector3.Zero(),
+        Matrix.RotationY(Math.PI / 2),
+        1,
+        1,
+        1,
+        { pattern: 'cone', coneAngle: 0.01 }
+      );
+
+      expect(rays[0].direction.x).toBeCloseTo(1, 1);
+    });
+
+    it('should fan vertically for the vertical fan pattern', () => {
+      const rays = generateRays(Vector3.Zero(), Matrix.Identity(), 1, 3, 1, {
+        pattern: 'verticalFan',
+      });
+
+      expect(rays).toHaveLength(3);
+      const heights = rays.map((ray) => ray.direction.y).sort((a, b) => a - b);
+      expect(heights[0]).toBeCloseTo(-Math.SQRT1_2);
+      expect(heights[1]).toBeCloseTo(0);
+      expect(heights[2]).toBeCloseTo(Math.SQRT1_2);
+      rays.forEach((ray) => expect(ray.direction.z).toBeCloseTo(0));
+    });
+  });
+
+  describe('generateFibonacciDirections', () => {
+    it('should return unit directions', () => {
+      const directions = generateFibonacciDirections(20);
+
+      expect(directions).toHaveLength(20);
+      directions.forEach((direction) => {
+        expect(direction.length()).toBeCloseTo(1);
+      });
+    });
+
+    it('should balance the directions over the sphere', () => {
+      const sum = generateFibonacciDirections(200).reduce(
+        (total, direction) => total.add(direction),
+        Vector3.Zero()
+      );
+
+      expect(sum.length() / 200).toBeLessThan(0.05);
+    });
+  });
 });
@@ -1,8 +1,22 @@
 // ABOUTME: Pure functions for generating rays from a cube position
-// ABOUTME: Creates rays in circular pattern with colors based on exit face
+// ABOUTME: Creates rays in ring, fan, sphere or cone patterns with gradient colors
 
-import { Vector3, Color3, Matrix } from 'babylonjs';
-import { Ray, FACE_COLORS } from './types';
+import { Vector3, Color3, Matrix, Quaternion } from 'babylonjs';
+import { Ray, FACE_COLORS, EmissionPattern } from './types';
+
+/**
+ * Options for 3D emission patterns
+ */
+export interface EmissionOptions {
+  pattern?: EmissionPattern; // Defaults to 'ring'
+  coneAxis?: Vector3; // Cone centre line in the sphere's local space (default: +Z)
+  coneAngle?: number; // Half-angle of the cone in radians (default: 30 degrees)
+}
+
+/**
+ * Angle between successive points of a Fibonacci spiral
+ */
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
 
 /**
  * Gets color for a ray based on its index
@@ -61,12 +75,14 @@ const transformToWorldDirection = (
  * @param primaryDir - The primary ray direction
  * @param fanCount - Number of fan rays to generate
  * @param fanAngle - Total angle of the fan in radians (default: 90 degrees)
+ * @param rotationAxis - Axis the fan turns around (default: Y for a horizontal fan)
  * @returns Array of fan ray directions
  */
 const generateFanDirections = (
   primaryDir: Vector3,
   fanCount: number,
-  fanAngle: number = Math.PI / 2
+  fanAngle: number = Math.PI / 2,
+  rotationAxis: Vector3 = Vector3.Up()
 ): Vector3[] => {
   if (fanCount === 1) {
     return [primaryDir];
@@ -74,10 +90,6 @@ const generateFanDirections = (
 
   const directions: Vector3[] = [];
   
-  // Calculate the rotation axis (perpendicular to primary direction in XZ plane)
-  // Since rays are in XZ plane (Y=0), we rotate around Y axis
-  const rotationAxis = Vector3.Up();
-  
   // Calculate angle between each fan ray
   const angleStep = fanAngle / (fanCount - 1);
   const startAngle = -fanAngle / 2;
@@ -96,6 +108,69 @@ const generateFanDirections = (
   return directions;
 };
 
+/**
+ * Generates evenly spread unit directions on a spherical cap around +Y
+ * Uses a Fibonacci spiral; a cap angle of π covers the whole sphere
+ *
+ * @param count - Number of directions
+ * @param capAngle - Angle from +Y to the edge of the cap (default: π)
+ * @returns Array of unit directions
+ */
+export const generateFibonacciDirections = (
+  count: number,
+  capAngle: number = Math.PI
+): Vector3[] => {
+  const minY = Math.cos(capAngle);
+
+  return Array.from({ length: count }, (_, index) => {
+    // Heights evenly spaced between the pole and the cap edge
+    const y = 1 - ((index + 0.5) / count) * (1 - minY);
+    const ringRadius = Math.sqrt(Math.max(0, 1 - y * y));
+    const angle = index * GOLDEN_ANGLE;
+    return new Vector3(
+      Math.cos(angle) * ringRadius,
+      y,
+      Math.sin(angle) * ringRadius
+    );
+  });
+};
+
+/**
+ * Generates rays spread over the sphere or a cone instead of a ring
+ * One ray per slot of the ray count times fan count, so sliders still apply
+ */
+const generateSpreadRays = (
+  origin: Vector3,
+  worldMatrix: Matrix,
+  total: number,
+  sphereRadius: number,
+  options: EmissionOptions
+): Ray[] => {
+  const isCone = options.pattern === 'cone';
+  const capAngle = isCone ? (options.coneAngle ?? Math.PI / 6) : Math.PI;
+
+  // Turn the +Y cap so it is centred on the cone axis
+  const axis = (options.coneAxis ?? new Vector3(0, 0, 1)).normalizeToNew();
+  const toAxis = new Quaternion();
+  Quaternion.FromUnitVectorsToRef(Vector3.Up(), axis, toAxis);
+
+  return generateFibonacciDirections(total, capAngle).map(
+    (direction, index) => {
+      const localDir = isCone
+        ? direction.applyRotationQuaternion(toAxis)
+        : direction;
+      const worldDir = transformToWorldDirection(localDir, worldMatrix);
+      const surfacePoint = origin.add(worldDir.scale(sphereRadius));
+
+      return {
+        origin: surfacePoint.add(worldDir.scale(0.01)),
+        direction: worldDir,
+        color: getRayGradientColor(index, total),
+      };
+    }
+  );
+};
+
 /**
  * Generates rays emanating from a position with given rotation
  *
@@ -104,6 +179,7 @@ const generateFanDirections = (
  * @param count - Number of ray origins to generate (0-8)
  * @param fanRays - Number of fan rays per origin (1-6)
  * @param sphereRadius - Radius of the sphere (default: 1 for diameter 2)
+ * @param options - Emission pattern and cone settings (default: horizontal ring)
  * @returns Array of rays with origin, direction, and color
  */
 export const generateRays = (
@@ -111,11 +187,23 @@ export const generateRays = (
   worldMatrix: Matrix,
   count: number,
   fanRays: number = 1,
-  sphereRadius: number = 1
+  sphereRadius: number = 1,
+  options: EmissionOptions = {}
 ): Ray[] => {
   // Clamp count to valid range
   const rayCount = Math.max(0, Math.min(8, count));
   const fanCount = Math.max(1, Math.min(6, fanRays));
+  const pattern = options.pattern ?? 'ring';
+
+  if (pattern === 'sphere' || pattern === 'cone') {
+    return generateSpreadRays(
+      origin,
+      worldMatrix,
+      rayCount * fanCount,
+      sphereRadius,
+      options
+    );
+  }
 
   const rays: Ray[] = [];
 
@@ -137,7 +225,17 @@ export const generateRays = (
     const rayOrigin = surfacePoint.add(worldDir.scale(0.01));
 
     // Generate fan rays around this primary direction
-    const fanDirections = generateFanDirections(worldDir, fanCount);
+    // Vertical fans turn around the horizontal axis across the ray
+    const fanAxis =
+      pattern === 'verticalFan'
+        ? Vector3.Cross(worldDir, Vector3.Up()).normalize()
+        : Vector3.Up();
+    const fanDirections = generateFanDirections(
+      worldDir,
+      fanCount,
+      Math.PI / 2,
+      fanAxis
+    );
     
     // Add all fan rays with the same surface origin and color
     for (const fanDir of fanDirections) {
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  createImagePathManager,
+  showImagePaths,
+  hideImagePaths,
+  updateImagePaths,
+  setImagePathObstacles,
+  disposeImagePathManager,
+} from './imagePathManager';
+import { Vector3 } from 'babylonjs';
+import { setupCanvasMock } from '../test-utils/mockCanvas';
+import { createEditorScene } from '../editor/createEditorScene';
+
+describe('imagePathManager', () => {
+  beforeEach(() => {
+    setupCanvasMock();
+  });
+
+  const reflections = [
+    { id: 'north', walls: ['north'] },
+    { id: 'north_east', walls: ['north', 'east'] },
+  ];
+
+  it('should start hidden with no paths', () => {
+    const sceneConfig = createEditorScene(document.createElement('canvas'));
+
+    const manager = createImagePathManager(sceneConfig.scene);
+
+    expect(manager.parentNode.name).toBe('imagePathsParent');
+    expect(manager.parentNode.isEnabled()).toBe(false);
+    expect(manager.paths).toEqual([]);
+
+    sceneConfig.dispose();
+  });
+
+  it('should toggle visibility', () => {
+    const sceneConfig = createEditorScene(document.createElement('canvas'));
+
+    let manager = showImagePaths(createImagePathManager(sceneConfig.scene));
+    expect(manager.isVisible).toBe(true);
+    expect(manager.parentNode.isEnabled()).toBe(true);
+
+    manager = hideImagePaths(manager);
+    expect(manager.isVisible).toBe(false);
+    expect(manager.parentNode.isEnabled()).toBe(false);
+
+    sceneConfig.dispose();
+  });
+
+  it('should draw one line per traced image', () => {
+    const sceneConfig = createEditorScene(document.createElement('canvas'));
+
+    const manager = updateImagePaths(
+      createImagePathManager(sceneConfig.scene),
+      new Vector3(5, 5, -5),
+      new Vector3(0, 5, 0),
+      reflections
+    );
+
+    expect(manager.paths.map((path) => path.isVisible)).toEqual([true, true]);
+    expect(
+      manager.parentNode.getChildMeshes().map((mesh) => mesh.name)
+    ).toEqual(['imagePath_north', 'imagePath_north_east']);
+
+    sceneConfig.dispose();
+  });
+
+  it('should mark hidden images and replace old meshes on update', () => {
+    const sceneConfig = createEditorScene(document.createElement('canvas'));
+    const wall = {
+      kind: 'box' as const,
+      id: 'screen',
+      center: new Vector3(5, 4, 5),
+      size: new Vector3(10, 8, 0.5),
+      isMirror: false,
+    };
+
+    let manager = createImagePathManager(sceneConfig.scene);
+    manager = updateImagePaths(
+      manager,
+      new Vector3(5, 5, -5),
+      new Vector3(0, 5, 0),
+      reflections
+    );
+    manager = updateImagePaths(
+      setImagePathObstacles(manager, [wall]),
+      new Vector3(5, 5, -5),
+      new Vector3(0, 5, 0),
+      reflections
+    );
+
+    expect(manager.paths.map((path) => path.isVisible)).toEqual([false, false]);
+    expect(
+      manager.parentNode.getChildMeshes().map((mesh) => mesh.name)
+    ).toContain('imagePath_north_miss');
+    expect(manager.parentNode.getChildMeshes()).toHaveLength(4);
+
+    sceneConfig.dispose();
+  });
+
+  it('should dispose its meshes', () => {
+    const sceneConfig = createEditorScene(document.createElement('canvas'));
+
+    const manager = updateImagePaths(
+      createImagePathManager(sceneConfig.scene),
+      new Vector3(5, 5, -5),
+      new Vector3(0, 5, 0),
+      reflections
+    );
+    disposeImagePathManager(manager);
+
+    expect(sceneConfig.scene.getMeshByName('imagePath_north')).toBeNull();
+
+    sceneConfig.dispose();
+  });
+});
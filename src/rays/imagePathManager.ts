@@ -0,0 +1,222 @@
+// ABOUTME: Manager for drawing the light paths from the camera to each virtual image
+// ABOUTME: Shows which images the camera can see and the bounces that carry each one
+
+import {
+  Scene,
+  TransformNode,
+  Vector3,
+  MeshBuilder,
+  Color3,
+  StandardMaterial,
+} from 'babylonjs';
+import { ImagePath, Obstacle } from './types';
+import { ImageReflection, traceImagePaths } from './traceImagePath';
+import {
+  createRoomDefinition,
+  RoomDefinition,
+} from '../geometry/roomDefinition';
+
+/**
+ * Image path manager state
+ */
+export interface ImagePathManager {
+  parentNode: TransformNode;
+  scene: Scene;
+  isVisible: boolean;
+  room: RoomDefinition;
+  obstacles: Obstacle[]; // Objects that can block the light
+  paths: ImagePath[]; // Most recently traced paths
+}
+
+/**
+ * Colour of paths the camera can see along
+ */
+const VISIBLE_PATH_COLOR = new Color3(1, 0.84, 0);
+
+/**
+ * Colour of paths that miss a mirror or are blocked
+ */
+const HIDDEN_PATH_COLOR = new Color3(1, 0.2, 0.2);
+
+/**
+ * Transparency of hidden paths so visible ones stand out
+ */
+const HIDDEN_PATH_ALPHA = 0.35;
+
+/**
+ * Creates the line and marker meshes for one image path
+ *
+ * @param path - Traced image path
+ * @param scene - Scene to add the meshes to
+ * @param parentNode - Node the meshes are grouped under
+ */
+const createImagePathMeshes = (
+  path: ImagePath,
+  scene: Scene,
+  parentNode: TransformNode
+): void => {
+  if (path.points.length < 2) {
+    return;
+  }
+
+  const line = MeshBuilder.CreateLines(
+    `imagePath_${path.pathId}`,
+    { points: path.points },
+    scene
+  );
+  line.color = path.isVisible ? VISIBLE_PATH_COLOR : HIDDEN_PATH_COLOR;
+  line.alpha = path.isVisible ? 1 : HIDDEN_PATH_ALPHA;
+  line.isPickable = false;
+  line.parent = parentNode;
+
+  if (!path.isVisible) {
+    // Mark where the light would have had to bounce (or what got in its way)
+    const marker = MeshBuilder.CreateSphere(
+      `imagePath_${path.pathId}_miss`,
+      { diameter: 0.4 },
+      scene
+    );
+    const material = new StandardMaterial(
+      `imagePath_${path.pathId}_missMaterial`,
+      scene
+    );
+    material.emissiveColor = HIDDEN_PATH_COLOR;
+    material.disableLighting = true;
+    marker.material = material;
+    marker.position = path.points[path.points.length - 1].clone();
+    marker.isPickable = false;
+    marker.parent = parentNode;
+  }
+};
+
+/**
+ * Creates a new image path manager
+ *
+ * @param scene - Scene to draw the paths in
+ * @param room - Room definition the mirrors belong to
+ * @param obstacles - Objects that can block the light (default: none)
+ * @returns Image path manager instance
+ */
+export const createImagePathManager = (
+  scene: Scene,
+  room: RoomDefinition = createRoomDefinition(),
+  obstacles: Obstacle[] = []
+): ImagePathManager => {
+  const parentNode = new TransformNode('imagePathsParent', scene);
+  parentNode.setEnabled(false); // Start hidden
+
+  return {
+    parentNode,
+    scene,
+    isVisible: false,
+    room,
+    obstacles,
+    paths: [],
+  };
+};
+
+/**
+ * Shows the image paths
+ *
+ * @param manager - Image path manager instance
+ * @returns Updated manager
+ */
+export const showImagePaths = (manager: ImagePathManager): ImagePathManager => {
+  manager.parentNode.setEnabled(true);
+  return {
+    ...manager,
+    isVisible: true,
+  };
+};
+
+/**
+ * Hides the image paths
+ *
+ * @param manager - Image path manager instance
+ * @returns Updated manager
+ */
+export const hideImagePaths = (manager: ImagePathManager): ImagePathManager => {
+  manager.parentNode.setEnabled(false);
+  return {
+    ...manager,
+    isVisible: false,
+  };
+};
+
+/**
+ * Retraces and redraws the paths from the viewer to each virtual image
+ *
+ * @param manager - Image path manager instance
+ * @param viewpoint - Viewer position (e.g., the camera indicator)
+ * @param source - Position of the real object
+ * @param reflections - Virtual images to trace (e.g., ReflectionInstanceManager paths)
+ * @returns Updated manager holding the traced paths
+ */
+export const updateImagePaths = (
+  manager: ImagePathManager,
+  viewpoint: Vector3,
+  source: Vector3,
+  reflections: readonly ImageReflection[]
+): ImagePathManager => {
+  // Clear existing children, including marker materials
+  manager.parentNode.getChildren().forEach((child) => {
+    child.dispose(false, true);
+  });
+
+  const paths = traceImagePaths(
+    viewpoint,
+    source,
+    reflections,
+    manager.room,
+    manager.obstacles
+  );
+  paths.forEach((path) =>
+    createImagePathMeshes(path, manager.scene, manager.parentNode)
+  );
+
+  return {
+    ...manager,
+    paths,
+  };
+};
+
+/**
+ * Replaces the room the mirrors belong to
+ * Call updateImagePaths afterwards to retrace with the new walls
+ *
+ * @param manager - Image path manager instance
+ * @param room - New room definition
+ * @returns Updated manager
+ */
+export const setImagePathRoom = (
+  manager: ImagePathManager,
+  room: RoomDefinition
+): ImagePathManager => ({
+  ...manager,
+  room,
+});
+
+/**
+ * Replaces the objects that can block the light
+ * Call updateImagePaths afterwards to retrace around the new obstacles
+ *
+ * @param manager - Image path manager instance
+ * @param obstacles - New obstacles
+ * @returns Updated manager
+ */
+export const setImagePathObstacles = (
+  manager: ImagePathManager,
+  obstacles: Obstacle[]
+): ImagePathManager => ({
+  ...manager,
+  obstacles,
+});
+
+/**
+ * Disposes of all image path resources
+ *
+ * @param manager - Image path manager instance
+ */
+export const disposeImagePathManager = (manager: ImagePathManager): void => {
+  manager.parentNode.dispose(false, true); // Dispose node and all children
+};
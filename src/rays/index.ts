@@ -5,7 +5,12 @@ export * from './types';
 export * from './generateRays';
 export * from './createWallPlanes';
 export * from './calculateIntersection';
+export * from './intersectObstacles';
 export * from './traceRay';
+export * from './traceImagePath';
 export * from './createRaySegments';
 export * from './createRayMeshes';
+export * from './createRayTubes';
+export * from './benchmarkRayRenderers';
 export * from './rayManager';
+export * from './imagePathManager';
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'babylonjs';
+import {
+  intersectSphere,
+  intersectBox,
+  findNearestObstacleIntersection,
+} from './intersectObstacles';
+import { BoxObstacle, SphereObstacle } from './types';
+
+describe('intersectObstacles', () => {
+  const sphere: SphereObstacle = {
+    kind: 'sphere',
+    id: 'ball',
+    center: new Vector3(0, 0, 5),
+    radius: 1,
+    isMirror: false,
+  };
+
+  const box: BoxObstacle = {
+    kind: 'box',
+    id: 'crate',
+    center: new Vector3(5, 0, 0),
+    size: new Vector3(2, 2, 2),
+    isMirror: true,
+  };
+
+  describe('intersectSphere', () => {
+    it('should hit the near side of the sphere', () => {
+      const result = intersectSphere(
+        Vector3.Zero(),
+        new Vector3(0, 0, 1),
+        sphere
+      );
+
+      expect(result.hit).toBe(true);
+      expect(result.distance).toBeCloseTo(4);
+      expect(result.normal?.z).toBeCloseTo(-1);
+      expect(result.obstacleId).toBe('ball');
+      expect(result.wallId).toBeNull();
+    });
+
+    it('should miss when the ray passes beside the sphere', () => {
+      const result = intersectSphere(
+        new Vector3(2, 0, 0),
+        new Vector3(0, 0, 1),
+        sphere
+      );
+
+      expect(result.hit).toBe(false);
+    });
+
+    it('should ignore the sphere a ray starts inside', () => {
+      const result = intersectSphere(
+        new Vector3(0, 0, 5),
+        new Vector3(0, 0, 1),
+        sphere
+      );
+
+      expect(result.hit).toBe(false);
+    });
+
+    it('should ignore spheres behind the ray', () => {
+      const result = intersectSphere(
+        Vector3.Zero(),
+        new Vector3(0, 0, -1),
+        sphere
+      );
+
+      expect(result.hit).toBe(false);
+    });
+  });
+
+  describe('intersectBox', () => {
+    it('should hit the facing side of the box', () => {
+      const result = intersectBox(Vector3.Zero(), new Vector3(1, 0, 0), box);
+
+      expect(result.hit).toBe(true);
+      expect(result.distance).toBeCloseTo(4);
+      expect(result.normal?.x).toBeCloseTo(-1);
+      expect(result.isMirror).toBe(true);
+    });
+
+    it('should respect rotation around the Y axis', () => {
+      const turned: BoxObstacle = { ...box, rotationY: Math.PI / 4 };
+      const result = intersectBox(Vector3.Zero(), new Vector3(1, 0, 0), turned);
+
+      // Corner of a 2x2 box turned 45 degrees points at the ray
+      expect(result.distance).toBeCloseTo(5 - Math.SQRT2);
+      expect(Math.abs(result.normal?.x ?? 0)).toBeCloseTo(Math.SQRT1_2);
+    });
+
+    it('should miss boxes above the ray', () => {
+      const raised: BoxObstacle = { ...box, center: new Vector3(5, 3, 0) };
+
+      expect(
+        intersectBox(Vector3.Zero(), new Vector3(1, 0, 0), raised).hit
+      ).toBe(false);
+    });
+
+    it('should ignore the box a ray starts inside', () => {
+      expect(
+        intersectBox(new Vector3(5, 0, 0), new Vector3(1, 0, 0), box).hit
+      ).toBe(false);
+    });
+  });
+
+  describe('findNearestObstacleIntersection', () => {
+    it('should return the closest obstacle hit', () => {
+      const farSphere: SphereObstacle = {
+        ...sphere,
+        id: 'far',
+        center: new Vector3(9, 0, 0),
+      };
+
+      const result = findNearestObstacleIntersection(
+        Vector3.Zero(),
+        new Vector3(1, 0, 0),
+        [farSphere, box]
+      );
+
+      expect(result.obstacleId).toBe('crate');
+    });
+
+    it('should report a miss without obstacles', () => {
+      const result = findNearestObstacleIntersection(
+        Vector3.Zero(),
+        new Vector3(1, 0, 0),
+        []
+      );
+
+      expect(result.hit).toBe(false);
+      expect(result.distance).toBe(Infinity);
+    });
+  });
+});
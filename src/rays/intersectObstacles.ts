@@ -0,0 +1,175 @@
+// ABOUTME: Pure functions for intersecting rays with solid objects in the room
+// ABOUTME: Handles spheres and boxes so rays can be blocked or reflected by objects
+
+import { Vector3, Matrix } from 'babylonjs';
+import { BoxObstacle, Obstacle, SphereObstacle } from './types';
+import { createMiss, IntersectionResult } from './calculateIntersection';
+
+/**
+ * Minimum hit distance, matching wall intersections (avoids self-intersection)
+ */
+const MIN_HIT_DISTANCE = 0.001;
+
+/**
+ * Builds a hit result for an obstacle
+ */
+const createObstacleHit = (
+  origin: Vector3,
+  direction: Vector3,
+  distance: number,
+  normal: Vector3,
+  obstacle: Obstacle
+): IntersectionResult => ({
+  hit: true,
+  distance,
+  point: origin.add(direction.scale(distance)),
+  normal,
+  isMirror: obstacle.isMirror,
+  wallId: null,
+  obstacleId: obstacle.id,
+});
+
+/**
+ * Calculates where a ray enters a sphere
+ * Rays starting inside the sphere never hit it, so a ray leaving its
+ * source sphere is not blocked by it
+ *
+ * @param origin - Ray origin point
+ * @param direction - Ray direction (normalized)
+ * @param sphere - Sphere to test against
+ * @returns Intersection result with hit info
+ */
+export const intersectSphere = (
+  origin: Vector3,
+  direction: Vector3,
+  sphere: SphereObstacle
+): IntersectionResult => {
+  const offset = origin.subtract(sphere.center);
+  const b = Vector3.Dot(offset, direction);
+  const c = offset.lengthSquared() - sphere.radius * sphere.radius;
+  const discriminant = b * b - c;
+
+  if (c <= 0 || discriminant < 0) {
+    // Starts inside the sphere or passes it by
+    return createMiss();
+  }
+
+  const distance = -b - Math.sqrt(discriminant);
+
+  if (distance < MIN_HIT_DISTANCE) {
+    // Sphere is behind the ray
+    return createMiss();
+  }
+
+  const point = origin.add(direction.scale(distance));
+  const normal = point.subtract(sphere.center).normalize();
+
+  return createObstacleHit(origin, direction, distance, normal, sphere);
+};
+
+/**
+ * Calculates where a ray enters a box using the slab method
+ * Rays starting inside the box never hit it
+ *
+ * @param origin - Ray origin point
+ * @param direction - Ray direction (normalized)
+ * @param box - Box to test against
+ * @returns Intersection result with hit info
+ */
+export const intersectBox = (
+  origin: Vector3,
+  direction: Vector3,
+  box: BoxObstacle
+): IntersectionResult => {
+  // Work in the box's local frame so its faces are axis aligned
+  const toLocal = Matrix.RotationY(-(box.rotationY ?? 0));
+  const localOrigin = Vector3.TransformNormal(
+    origin.subtract(box.center),
+    toLocal
+  );
+  const localDirection = Vector3.TransformNormal(direction, toLocal);
+  const half = box.size.scale(0.5);
+
+  const axes = ['x', 'y', 'z'] as const;
+  const isInside = axes.every(
+    (axis) => Math.abs(localOrigin[axis]) <= half[axis]
+  );
+  if (isInside) {
+    return createMiss();
+  }
+
+  let entry = -Infinity;
+  let exit = Infinity;
+  let entryAxis: (typeof axes)[number] = 'x';
+
+  for (const axis of axes) {
+    const o = localOrigin[axis];
+    const d = localDirection[axis];
+
+    if (Math.abs(d) < 1e-9) {
+      // Parallel to this pair of faces: must already be between them
+      if (Math.abs(o) > half[axis]) {
+        return createMiss();
+      }
+      continue;
+    }
+
+    const near = Math.min((-half[axis] - o) / d, (half[axis] - o) / d);
+    const far = Math.max((-half[axis] - o) / d, (half[axis] - o) / d);
+
+    if (near > entry) {
+      entry = near;
+      entryAxis = axis;
+    }
+    exit = Math.min(exit, far);
+  }
+
+  if (exit < entry || entry < MIN_HIT_DISTANCE) {
+    return createMiss();
+  }
+
+  // Face normal points back against the ray along the entry axis
+  const localNormal = Vector3.Zero();
+  localNormal[entryAxis] = -Math.sign(localDirection[entryAxis]);
+  const normal = Vector3.TransformNormal(
+    localNormal,
+    Matrix.RotationY(box.rotationY ?? 0)
+  );
+
+  return createObstacleHit(origin, direction, entry, normal, box);
+};
+
+/**
+ * Calculates the intersection of a ray with any obstacle
+ *
+ * @param origin - Ray origin point
+ * @param direction - Ray direction (normalized)
+ * @param obstacle - Sphere or box to test against
+ * @returns Intersection result with hit info
+ */
+export const intersectObstacle = (
+  origin: Vector3,
+  direction: Vector3,
+  obstacle: Obstacle
+): IntersectionResult =>
+  obstacle.kind === 'sphere'
+    ? intersectSphere(origin, direction, obstacle)
+    : intersectBox(origin, direction, obstacle);
+
+/**
+ * Finds the nearest obstacle intersection from a set of obstacles
+ *
+ * @param origin - Ray origin point
+ * @param direction - Ray direction (normalized)
+ * @param obstacles - Obstacles to test
+ * @returns Nearest intersection result
+ */
+export const findNearestObstacleIntersection = (
+  origin: Vector3,
+  direction: Vector3,
+  obstacles: Obstacle[]
+): IntersectionResult =>
+  obstacles.reduce((nearest, obstacle) => {
+    const result = intersectObstacle(origin, direction, obstacle);
+    return result.hit && result.distance < nearest.distance ? result : nearest;
+  }, createMiss());
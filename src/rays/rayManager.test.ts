@@ -4,8 +4,11 @@ import {
   showRays,
   hideRays,
   updateRays,
+  setRayReflections,
+  setRayUnfoldedCells,
   disposeRayManager,
 } from './rayManager';
+import { RENDER_LAYER } from '../constants/layerMasks';
 import { Vector3, Matrix } from 'babylonjs';
 import { setupCanvasMock } from '../test-utils/mockCanvas';
 import { createEditorScene } from '../editor/createEditorScene';
@@ -124,6 +127,52 @@ describe('rayManager', () => {
     });
   });
 
+  describe('setRayReflections', () => {
+    it('should draw rays on the manager layer and into the image cells', () => {
+      const canvas = document.createElement('canvas');
+      const sceneConfig = createEditorScene(canvas);
+
+      let manager = createRayManager(
+        sceneConfig.scene,
+        undefined,
+        [],
+        RENDER_LAYER
+      );
+      const config = { count: 2, fanRays: 1, maxBounces: 1 };
+
+      manager = updateRays(manager, Vector3.Zero(), Matrix.Identity(), config);
+      const [lines] = manager.parentNode.getChildMeshes();
+      const realVertices = lines.getTotalVertices();
+
+      manager = setRayReflections(manager, [Matrix.Scaling(-1, 1, 1)]);
+      manager = updateRays(manager, Vector3.Zero(), Matrix.Identity(), config);
+      const [unfolded] = manager.parentNode.getChildMeshes();
+
+      expect(unfolded.layerMask).toBe(RENDER_LAYER);
+      expect(unfolded.getTotalVertices()).toBeGreaterThanOrEqual(
+        realVertices * 2
+      );
+
+      sceneConfig.dispose();
+    });
+  });
+
+  describe('setRayUnfoldedCells', () => {
+    it('should keep the drawn cells for straightened rays', () => {
+      const canvas = document.createElement('canvas');
+      const sceneConfig = createEditorScene(canvas);
+
+      const manager = createRayManager(sceneConfig.scene);
+      const cells = [Matrix.Scaling(-1, 1, 1)];
+      const updated = setRayUnfoldedCells(manager, cells);
+
+      expect(manager.unfoldedCells).toEqual([]);
+      expect(updated.unfoldedCells).toBe(cells);
+
+      sceneConfig.dispose();
+    });
+  });
+
   describe('disposeRayManager', () => {
     it('should dispose parent node and children', () => {
       const canvas = document.createElement('canvas');
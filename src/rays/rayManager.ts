@@ -3,7 +3,11 @@
 
 import { Scene, TransformNode, Vector3, Matrix } from 'babylonjs';
 import { createAllRayMeshes, RayVisualizationConfig } from './createRayMeshes';
-import { RayConfig } from './types';
+import { Obstacle, RayConfig } from './types';
+import {
+  createRoomDefinition,
+  RoomDefinition,
+} from '../geometry/roomDefinition';
 
 /**
  * Ray manager state
@@ -13,15 +17,28 @@ export interface RayManager {
   scene: Scene;
   isVisible: boolean;
   currentConfig: RayConfig | null;
+  room: RoomDefinition;
+  obstacles: Obstacle[]; // Objects besides the source sphere that rays can hit
+  reflections: Matrix[]; // Virtual-image cells the rays continue into
+  unfoldedCells: Matrix[]; // Cells drawn around the room that straightened rays may cross
+  layerMask?: number; // Layer of the ray meshes (default: Babylon's)
 }
 
 /**
  * Creates a new ray manager
  *
  * @param scene - Scene to manage rays in
+ * @param room - Room definition rays bounce around in
+ * @param obstacles - Objects in the room that rays can hit (default: none)
+ * @param layerMask - Layer of the ray meshes, e.g. RENDER_LAYER (default: Babylon's)
  * @returns Ray manager instance
  */
-export const createRayManager = (scene: Scene): RayManager => {
+export const createRayManager = (
+  scene: Scene,
+  room: RoomDefinition = createRoomDefinition(),
+  obstacles: Obstacle[] = [],
+  layerMask?: number
+): RayManager => {
   const parentNode = new TransformNode('raysParent', scene);
   parentNode.setEnabled(false); // Start hidden
 
@@ -30,6 +47,11 @@ export const createRayManager = (scene: Scene): RayManager => {
     scene,
     isVisible: false,
     currentConfig: null,
+    room,
+    obstacles,
+    reflections: [],
+    unfoldedCells: [],
+    layerMask,
   };
 };
 
@@ -82,8 +104,18 @@ export const updateRays = (
     rayCount: config.count,
     fanRays: config.fanRays,
     maxBounces: config.maxBounces,
+    pattern: config.pattern,
+    color: config.color,
+    style: config.style,
+    width: config.width,
+    straightLines: config.straightLines,
+    unfoldedCells: manager.unfoldedCells,
     scene: manager.scene,
     parentNode: manager.parentNode,
+    room: manager.room,
+    obstacles: manager.obstacles,
+    reflections: manager.reflections,
+    layerMask: manager.layerMask,
   };
 
   createAllRayMeshes(vizConfig);
@@ -94,6 +126,70 @@ export const updateRays = (
   };
 };
 
+/**
+ * Replaces the room rays bounce around in
+ * Call updateRays afterwards to retrace with the new walls
+ *
+ * @param manager - Ray manager instance
+ * @param room - New room definition
+ * @returns Updated manager
+ */
+export const setRayRoom = (
+  manager: RayManager,
+  room: RoomDefinition
+): RayManager => ({
+  ...manager,
+  room,
+});
+
+/**
+ * Replaces the objects rays can hit
+ * Call updateRays afterwards to retrace around the new obstacles
+ *
+ * @param manager - Ray manager instance
+ * @param obstacles - New obstacles
+ * @returns Updated manager
+ */
+export const setRayObstacles = (
+  manager: RayManager,
+  obstacles: Obstacle[]
+): RayManager => ({
+  ...manager,
+  obstacles,
+});
+
+/**
+ * Replaces the virtual-image cells the rays continue into
+ * Call updateRays afterwards to redraw the unfolded rays
+ *
+ * @param manager - Ray manager instance
+ * @param reflections - Reflection of each cell (none to draw only the real rays)
+ * @returns Updated manager
+ */
+export const setRayReflections = (
+  manager: RayManager,
+  reflections: Matrix[]
+): RayManager => ({
+  ...manager,
+  reflections,
+});
+
+/**
+ * Replaces the cells drawn around the room that straightened rays may cross
+ * Call updateRays afterwards to redraw the straightened rays
+ *
+ * @param manager - Ray manager instance
+ * @param unfoldedCells - Reflection of each drawn cell
+ * @returns Updated manager
+ */
+export const setRayUnfoldedCells = (
+  manager: RayManager,
+  unfoldedCells: Matrix[]
+): RayManager => ({
+  ...manager,
+  unfoldedCells,
+});
+
 /**
  * Disposes of all ray resources
  *
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'babylonjs';
+import { traceImagePath, traceImagePaths } from './traceImagePath';
+import { Obstacle } from './types';
+import {
+  createPolygonRoomDefinition,
+  createRoomDefinition,
+} from '../geometry/roomDefinition';
+
+describe('traceImagePath', () => {
+  const room = createRoomDefinition(); // North, east and west mirrors
+
+  it('should bounce off the mirror on the way to a single image', () => {
+    const path = traceImagePath(
+      new Vector3(-3, 5, 0),
+      new Vector3(3, 5, 0),
+      { id: 'north', walls: ['north'] },
+      room
+    );
+
+    expect(path.isVisible).toBe(true);
+    expect(path.pathId).toBe('north');
+    expect(path.points).toHaveLength(3);
+    expect(path.points[1].x).toBeCloseTo(0);
+    expect(path.points[1].z).toBeCloseTo(10);
+    expect(path.points[2].x).toBeCloseTo(3);
+  });
+
+  it('should visit the mirrors in reverse order from the viewer', () => {
+    const path = traceImagePath(
+      new Vector3(5, 5, -5),
+      new Vector3(0, 5, 0),
+      { id: 'north_east', walls: ['north', 'east'] },
+      room
+    );
+
+    expect(path.isVisible).toBe(true);
+    expect(path.points).toHaveLength(4);
+    // Viewer sees the east mirror first, which shows the north mirror
+    expect(path.points[1].x).toBeCloseTo(10);
+    expect(path.points[1].z).toBeCloseTo(10 / 3);
+    expect(path.points[2].x).toBeCloseTo(6);
+    expect(path.points[2].z).toBeCloseTo(10);
+  });
+
+  it('should hide images whose mirror is behind another wall', () => {
+    const lShape = createPolygonRoomDefinition(
+      [
+        new Vector3(-10, 0, -10),
+        new Vector3(2, 0, -10),
+        new Vector3(2, 0, -2),
+        new Vector3(10, 0, -2),
+        new Vector3(10, 0, 10),
+        new Vector3(-10, 0, 10),
+      ],
+      { mirrorWalls: ['side4Wall'] }
+    );
+
+    const path = traceImagePath(
+      new Vector3(-5, 5, -8),
+      new Vector3(-8, 5, -6),
+      { id: 'side4', walls: ['side4'] },
+      lShape
+    );
+
+    expect(path.isVisible).toBe(false);
+    // Stops on the inner corner wall at x = 2
+    expect(path.points).toHaveLength(2);
+    expect(path.points[1].x).toBeCloseTo(2);
+  });
+
+  it('should hide images blocked by an obstacle', () => {
+    const pillar: Obstacle = {
+      kind: 'box',
+      id: 'pillar',
+      center: new Vector3(-1.5, 4, 5),
+      size: new Vector3(2, 8, 2),
+      isMirror: false,
+    };
+
+    const path = traceImagePath(
+      new Vector3(-3, 5, 0),
+      new Vector3(3, 5, 0),
+      { id: 'north', walls: ['north'] },
+      room,
+      [pillar]
+    );
+
+    expect(path.isVisible).toBe(false);
+    expect(path.points).toHaveLength(2);
+  });
+
+  it('should hide images of walls that are no longer mirrors', () => {
+    const path = traceImagePath(
+      new Vector3(0, 5, 0),
+      new Vector3(3, 5, 0),
+      { id: 'south', walls: ['south'] },
+      room
+    );
+
+    expect(path.isVisible).toBe(false);
+    expect(path.points).toHaveLength(1);
+  });
+});
+
+describe('traceImagePaths', () => {
+  it('should trace every image in order', () => {
+    const paths = traceImagePaths(
+      new Vector3(-3, 5, 0),
+      new Vector3(3, 5, 0),
+      [
+        { id: 'north', walls: ['north'] },
+        { id: 'east', walls: ['east'] },
+      ],
+      createRoomDefinition()
+    );
+
+    expect(paths.map((path) => path.pathId)).toEqual(['north', 'east']);
+    expect(paths.every((path) => path.isVisible)).toBe(true);
+  });
+});
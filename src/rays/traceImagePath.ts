@@ -0,0 +1,183 @@
+// ABOUTME: Pure functions for tracing the light path from a viewer to a virtual image
+// ABOUTME: Unfolds each image's mirror sequence to find where the light really bounces
+
+import { Vector3 } from 'babylonjs';
+import { ImagePath, Obstacle, WallPlane } from './types';
+import {
+  findNearestIntersection,
+  IntersectionResult,
+} from './calculateIntersection';
+import { findNearestObstacleIntersection } from './intersectObstacles';
+import { createWallPlanes } from './createWallPlanes';
+import {
+  getWallById,
+  reflectPointAcrossWall,
+  RoomDefinition,
+  WallDefinition,
+} from '../geometry/roomDefinition';
+
+/**
+ * A virtual image to trace, identified by the mirrors that form it
+ * ReflectionPath from ReflectionInstanceManager fits this shape
+ */
+export interface ImageReflection {
+  id: string;
+  walls: readonly string[]; // Mirrors in the order the light hits them
+}
+
+/**
+ * Slack when comparing hit distances, so a hit on the target itself is not a blocker
+ */
+const DISTANCE_TOLERANCE = 1e-4;
+
+/**
+ * Finds where a ray crosses a wall's infinite plane
+ *
+ * @returns Crossing point, or null if the ray runs parallel or away from the plane
+ */
+const crossWallPlane = (
+  origin: Vector3,
+  direction: Vector3,
+  wall: WallDefinition
+): { point: Vector3; distance: number } | null => {
+  const denominator = Vector3.Dot(direction, wall.normal);
+  if (Math.abs(denominator) < 1e-9) {
+    return null;
+  }
+
+  const distance =
+    Vector3.Dot(wall.position.subtract(origin), wall.normal) / denominator;
+  return distance > 0
+    ? { point: origin.add(direction.scale(distance)), distance }
+    : null;
+};
+
+/**
+ * Finds the nearest wall or obstacle a ray hits
+ */
+const findNearestHit = (
+  origin: Vector3,
+  direction: Vector3,
+  wallPlanes: WallPlane[],
+  obstacles: Obstacle[]
+): IntersectionResult => {
+  const wallHit = findNearestIntersection(origin, direction, wallPlanes);
+  const obstacleHit = findNearestObstacleIntersection(
+    origin,
+    direction,
+    obstacles
+  );
+  return obstacleHit.distance < wallHit.distance ? obstacleHit : wallHit;
+};
+
+/**
+ * Traces the light path a viewer sees a virtual image along
+ * Works backwards from the viewer: aims at the image, bounces off the last
+ * mirror, aims at the image one reflection earlier, and so on to the source.
+ * The image is visible only if every aim actually lands on its mirror (within
+ * the mirror's extent) and nothing blocks any leg of the path.
+ *
+ * @param viewpoint - Viewer position (e.g., the camera indicator)
+ * @param source - Position of the real object
+ * @param reflection - Image id and mirror sequence
+ * @param room - Room the mirrors belong to
+ * @param obstacles - Objects that can block the light (default: none)
+ * @returns Path points and whether the image can be seen
+ */
+export const traceImagePath = (
+  viewpoint: Vector3,
+  source: Vector3,
+  reflection: ImageReflection,
+  room: RoomDefinition,
+  obstacles: Obstacle[] = []
+): ImagePath => {
+  const points: Vector3[] = [viewpoint.clone()];
+  const result = (isVisible: boolean): ImagePath => ({
+    pathId: reflection.id,
+    walls: [...reflection.walls],
+    points,
+    isVisible,
+  });
+
+  const walls = reflection.walls.map((wallId) => getWallById(room, wallId));
+  if (walls.some((wall) => !wall || !wall.isMirror)) {
+    return result(false);
+  }
+
+  // images[k] is the source reflected across the first k mirrors
+  const images = walls.reduce(
+    (chain, wall) => [
+      ...chain,
+      reflectPointAcrossWall(chain[chain.length - 1], wall),
+    ],
+    [source.clone()]
+  );
+  const wallPlanes = createWallPlanes(room);
+
+  let current = viewpoint.clone();
+  for (let index = walls.length - 1; index >= 0; index--) {
+    const wall = walls[index];
+    const direction = images[index + 1].subtract(current).normalize();
+    const hit = findNearestHit(current, direction, wallPlanes, obstacles);
+
+    if (!hit.hit || !hit.point || hit.wallId !== wall.id) {
+      // Record where the light would have needed to bounce, or what got in the way
+      const crossing = crossWallPlane(current, direction, wall);
+      const blocked =
+        hit.hit &&
+        hit.point !== null &&
+        (!crossing || hit.distance < crossing.distance - DISTANCE_TOLERANCE);
+      if (blocked) {
+        points.push(hit.point);
+      } else if (crossing) {
+        points.push(crossing.point);
+      }
+      return result(false);
+    }
+
+    points.push(hit.point);
+    current = hit.point;
+  }
+
+  // Last leg runs from the first mirror (or the viewer) to the source itself
+  const toSource = source.subtract(current);
+  const sourceDistance = toSource.length();
+  const hit = findNearestHit(
+    current,
+    toSource.normalize(),
+    wallPlanes,
+    obstacles
+  );
+  if (
+    hit.hit &&
+    hit.point &&
+    hit.distance < sourceDistance - DISTANCE_TOLERANCE
+  ) {
+    points.push(hit.point);
+    return result(false);
+  }
+
+  points.push(source.clone());
+  return result(true);
+};
+
+/**
+ * Traces the light paths for a set of virtual images
+ *
+ * @param viewpoint - Viewer position
+ * @param source - Position of the real object
+ * @param reflections - Images to trace
+ * @param room - Room the mirrors belong to
+ * @param obstacles - Objects that can block the light (default: none)
+ * @returns One image path per reflection, in the same order
+ */
+export const traceImagePaths = (
+  viewpoint: Vector3,
+  source: Vector3,
+  reflections: readonly ImageReflection[],
+  room: RoomDefinition,
+  obstacles: Obstacle[] = []
+): ImagePath[] =>
+  reflections.map((reflection) =>
+    traceImagePath(viewpoint, source, reflection, room, obstacles)
+  );
@@ -1,7 +1,13 @@
 import { describe, it, expect } from 'vitest';
-import { traceRay } from './traceRay';
+import { traceRay, traceRayPath } from './traceRay';
+import { createWallPlanes } from './createWallPlanes';
 import { Vector3, Color3 } from 'babylonjs';
-import { Ray, WallPlane } from './types';
+import { Obstacle, Ray, WallPlane } from './types';
+import {
+  createRoomDefinition,
+  setWallMirror,
+} from '../geometry/roomDefinition';
+import { ROOM_SIZE, WALL_NAMES } from '../constants';
 
 describe('traceRay', () => {
   const createTestWalls = (): WallPlane[] => [
@@ -101,8 +107,8 @@ describe('traceRay', () => {
     const pointsNegative = traceRay(ray, createTestWalls(), -5);
     expect(pointsNegative.length).toBeGreaterThanOrEqual(2); // At least 1 bounce
 
-    const pointsTooMany = traceRay(ray, createTestWalls(), 10);
-    expect(pointsTooMany.length).toBeLessThanOrEqual(7); // Max 5 bounces + origin + final hit = 7 points
+    const pointsTooMany = traceRay(ray, createTestWalls(), 30);
+    expect(pointsTooMany.length).toBeLessThanOrEqual(22); // Max 20 bounces + origin + final hit = 22 points
   });
 
   it('should offset points slightly above ground', () => {
@@ -134,4 +140,140 @@ describe('traceRay', () => {
       expect(points[2].x).toBeLessThan(0);
     }
   });
+
+  describe('traceRayPath', () => {
+    it('should label each hit with the wall id', () => {
+      const ray: Ray = {
+        origin: new Vector3(0, 5, 0),
+        direction: new Vector3(1, 0, 0), // Straight at east wall
+        color: new Color3(1, 0, 0),
+      };
+
+      const path = traceRayPath(ray, createWallPlanes(), 2);
+
+      expect(path.points).toHaveLength(4);
+      expect(path.wallIds).toEqual(['east', 'west', 'east']);
+    });
+
+    it('should leave the room through a gap between finite walls', () => {
+      const ray: Ray = {
+        origin: new Vector3(0, 5, 0),
+        direction: new Vector3(0, 0, 1),
+        color: new Color3(1, 0, 0),
+      };
+      // A short mirror off to the side of the ray's path
+      const walls: WallPlane[] = [
+        {
+          id: 'short',
+          position: new Vector3(5, 0, 10),
+          normal: new Vector3(0, 0, -1),
+          isMirror: true,
+          width: 4,
+          height: 10,
+        },
+      ];
+
+      const path = traceRayPath(ray, walls, 2);
+
+      expect(path.points).toHaveLength(1);
+      expect(path.wallIds).toEqual([]);
+    });
+
+    it('should send a ray back the way it came from a corner cube', () => {
+      const room = setWallMirror(
+        createRoomDefinition(ROOM_SIZE, [WALL_NAMES.NORTH, WALL_NAMES.EAST]),
+        'floor',
+        true
+      );
+      const direction = new Vector3(1, -1, 1.5).normalize();
+      const ray: Ray = {
+        origin: new Vector3(0, 5, 0),
+        direction,
+        color: new Color3(1, 0, 0),
+      };
+
+      const path = traceRayPath(ray, createWallPlanes(room), 3);
+      // Last segment runs from the third bounce to the next wall
+      const finalDirection = path.points[4]
+        .subtract(path.points[3])
+        .normalize();
+
+      expect(path.wallIds.slice(0, 3).sort()).toEqual([
+        'east',
+        'floor',
+        'north',
+      ]);
+      expect(finalDirection.x).toBeCloseTo(-direction.x);
+      expect(finalDirection.y).toBeCloseTo(-direction.y, 2);
+      expect(finalDirection.z).toBeCloseTo(-direction.z);
+    });
+  });
+
+  describe('obstacles', () => {
+    it('should stop at a solid obstacle in the way', () => {
+      const ray: Ray = {
+        origin: new Vector3(0, 5, 0),
+        direction: new Vector3(1, 0, 0),
+        color: new Color3(1, 0, 0),
+      };
+      const obstacles: Obstacle[] = [
+        {
+          kind: 'box',
+          id: 'pillar',
+          center: new Vector3(5, 4, 0),
+          size: new Vector3(2, 8, 2),
+          isMirror: false,
+        },
+      ];
+
+      const path = traceRayPath(ray, createWallPlanes(), 3, obstacles);
+
+      expect(path.points).toHaveLength(2);
+      expect(path.points[1].x).toBeCloseTo(4);
+      expect(path.blockedBy).toBe('pillar');
+      expect(path.wallIds).toEqual([null]);
+    });
+
+    it('should be blocked by its own source after bouncing back', () => {
+      const ray: Ray = {
+        origin: new Vector3(1.01, 5, 0),
+        direction: new Vector3(1, 0, 0),
+        color: new Color3(1, 0, 0),
+      };
+      const source: Obstacle = {
+        kind: 'sphere',
+        id: 'source',
+        center: new Vector3(0, 5, 0),
+        radius: 1,
+        isMirror: false,
+      };
+
+      const path = traceRayPath(ray, createWallPlanes(), 3, [source]);
+
+      // Out to the east mirror and straight back into the sphere
+      expect(path.wallIds).toEqual(['east', null]);
+      expect(path.points[2].x).toBeCloseTo(1);
+      expect(path.blockedBy).toBe('source');
+    });
+
+    it('should reflect off mirror obstacles', () => {
+      const ray: Ray = {
+        origin: new Vector3(0, 5, 0),
+        direction: new Vector3(1, 0, 0),
+        color: new Color3(1, 0, 0),
+      };
+      const mirrorBall: Obstacle = {
+        kind: 'sphere',
+        id: 'mirrorBall',
+        center: new Vector3(5, 5, 0),
+        radius: 1,
+        isMirror: true,
+      };
+
+      const path = traceRayPath(ray, createWallPlanes(), 1, [mirrorBall]);
+
+      expect(path.blockedBy).toBeNull();
+      expect(path.wallIds).toEqual([null, 'west']);
+    });
+  });
 });
@@ -2,43 +2,57 @@
 // ABOUTME: Generates array of points showing ray path with bounces
 
 import { Vector3 } from 'babylonjs';
-import { Ray, WallPlane } from './types';
+import { Obstacle, Ray, TracedRayPath, WallPlane } from './types';
 import {
   findNearestIntersection,
   calculateReflection,
 } from './calculateIntersection';
+import { findNearestObstacleIntersection } from './intersectObstacles';
+import { MAX_BOUNCES } from '../constants';
 
 /**
- * Traces a ray through the room, handling reflections
+ * Traces a ray through the room, recording which wall each bounce hit
+ * Obstacles block the ray unless they are mirrors, which reflect it
  *
  * @param ray - Initial ray with origin and direction
  * @param wallPlanes - Array of wall planes to intersect
- * @param maxBounces - Maximum number of reflections (1-5)
- * @returns Array of points along the ray path
+ * @param maxBounces - Maximum number of reflections (1-20)
+ * @param obstacles - Objects in the room the ray can hit (default: none)
+ * @returns Points along the ray path, the wall id hit at each point and any blocking obstacle
  */
-export const traceRay = (
+export const traceRayPath = (
   ray: Ray,
   wallPlanes: WallPlane[],
-  maxBounces: number
-): Vector3[] => {
+  maxBounces: number,
+  obstacles: Obstacle[] = []
+): TracedRayPath => {
   const points: Vector3[] = [ray.origin.clone()];
+  const wallIds: Array<string | null> = [];
+  let blockedBy: string | null = null;
 
   let currentOrigin = ray.origin.clone();
   let currentDirection = ray.direction.clone();
 
   // Clamp bounces to valid range
-  const bounces = Math.max(1, Math.min(5, maxBounces));
+  const bounces = Math.max(1, Math.min(MAX_BOUNCES, maxBounces));
 
   let bounceCount = 0;
 
   // Continue tracing until we hit a non-mirror wall or reach max bounces
   while (bounceCount <= bounces) {
-    // Find nearest wall intersection
-    const intersection = findNearestIntersection(
+    // Find nearest wall or obstacle intersection
+    const wallHit = findNearestIntersection(
       currentOrigin,
       currentDirection,
       wallPlanes
     );
+    const obstacleHit = findNearestObstacleIntersection(
+      currentOrigin,
+      currentDirection,
+      obstacles
+    );
+    const intersection =
+      obstacleHit.distance < wallHit.distance ? obstacleHit : wallHit;
 
     if (!intersection.hit || !intersection.point || !intersection.normal) {
       // No intersection found (shouldn't happen in closed room)
@@ -48,6 +62,13 @@ export const traceRay = (
     // Add intersection point (slightly offset to avoid z-fighting)
     const offsetPoint = intersection.point.add(new Vector3(0, 0.01, 0));
     points.push(offsetPoint);
+    wallIds.push(intersection.wallId);
+
+    if (intersection.obstacleId && !intersection.isMirror) {
+      // Solid object in the way
+      blockedBy = intersection.obstacleId;
+      break;
+    }
 
     // Stop if we hit a non-mirror wall or reached max bounces
     if (!intersection.isMirror || bounceCount >= bounces) {
@@ -66,5 +87,21 @@ export const traceRay = (
     bounceCount++;
   }
 
-  return points;
+  return { points, wallIds, blockedBy };
 };
+
+/**
+ * Traces a ray through the room, handling reflections
+ *
+ * @param ray - Initial ray with origin and direction
+ * @param wallPlanes - Array of wall planes to intersect
+ * @param maxBounces - Maximum number of reflections (1-20)
+ * @param obstacles - Objects in the room the ray can hit (default: none)
+ * @returns Array of points along the ray path
+ */
+export const traceRay = (
+  ray: Ray,
+  wallPlanes: WallPlane[],
+  maxBounces: number,
+  obstacles: Obstacle[] = []
+): Vector3[] => traceRayPath(ray, wallPlanes, maxBounces, obstacles).points;
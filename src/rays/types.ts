@@ -25,18 +25,91 @@ export interface RaySegment {
  * Represents a wall plane in the room
  */
 export interface WallPlane {
-  position: Vector3;
+  id?: string; // Wall identifier reported with hits (e.g., 'north')
+  position: Vector3; // Centre of the wall's base
   normal: Vector3;
   isMirror: boolean;
+  start?: Vector3; // Floor-level end points of a vertical wall
+  end?: Vector3;
+  width?: number; // Horizontal extent; omit extents for an unbounded plane
+  height?: number; // Vertical extent above position (Z extent for floors)
 }
 
+/**
+ * A solid sphere that rays can hit (e.g., the source sphere itself)
+ */
+export interface SphereObstacle {
+  kind: 'sphere';
+  id: string;
+  center: Vector3;
+  radius: number;
+  isMirror: boolean; // Mirror obstacles reflect rays, others block them
+}
+
+/**
+ * A solid box that rays can hit, optionally turned around the Y axis
+ */
+export interface BoxObstacle {
+  kind: 'box';
+  id: string;
+  center: Vector3;
+  size: Vector3; // Full extents along the box's local axes
+  rotationY?: number;
+  isMirror: boolean;
+}
+
+/**
+ * Any object in the room that rays can hit
+ */
+export type Obstacle = SphereObstacle | BoxObstacle;
+
+/**
+ * A traced ray path with the wall hit at each point after the origin
+ */
+export interface TracedRayPath {
+  points: Vector3[];
+  wallIds: Array<string | null>; // wallIds[i] was hit at points[i + 1]; null for obstacles
+  blockedBy: string | null; // Id of the obstacle that stopped the ray, if any
+}
+
+/**
+ * The light path between a virtual image's source and a viewer, traced back from the viewer
+ */
+export interface ImagePath {
+  pathId: string; // Reflection path id (e.g., 'north_east')
+  walls: string[]; // Mirrors the light bounces off, in the order it hits them
+  points: Vector3[]; // Viewer, each bounce (last mirror first), then the source if reached
+  isVisible: boolean; // False if the path misses a mirror or something blocks it
+}
+
+/**
+ * How rays leave the source sphere
+ * - ring: horizontal circle, each ray fanned horizontally (default)
+ * - sphere: evenly spread over the whole sphere
+ * - cone: evenly spread within a cone around the sphere's facing direction
+ * - verticalFan: horizontal circle, each ray fanned up and down
+ */
+export type EmissionPattern = 'ring' | 'sphere' | 'cone' | 'verticalFan';
+
+/**
+ * How rays are drawn
+ * - lines: thin lines (default)
+ * - tubes: tubes of a set width with arrowheads at each bounce and at the end
+ */
+export type RayStyle = 'lines' | 'tubes';
+
 /**
  * Configuration for ray generation
  */
 export interface RayConfig {
   count: number; // Number of rays (0-8)
   fanRays: number; // Number of fan rays per origin (1-6)
-  maxBounces: number; // Maximum reflections (1-5)
+  maxBounces: number; // Maximum reflections (1-20)
+  pattern?: EmissionPattern; // Defaults to 'ring'
+  color?: Color3; // One colour for every ray instead of the gradient
+  style?: RayStyle; // Defaults to 'lines'
+  width?: number; // Tube diameter in world units, for the 'tubes' style
+  straightLines?: boolean; // Also draw each ray unfolded into one straight line
 }
 
 /**
@@ -1,26 +1,46 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
+import type { Scene } from 'babylonjs';
 import { RenderPassManager } from './RenderPassManager';
 
+// The parts of meshes, mirror textures and the scene the manager reads
+interface MockMesh {
+  name: string;
+  material?: { reflectionTexture: MockMirrorTexture };
+  isVisible: boolean;
+  isEnabled: () => boolean;
+  hasThinInstances?: boolean;
+}
+
+interface MockMirrorTexture {
+  renderList: MockMesh[];
+  render: Mock<() => void>;
+  refreshRate?: number;
+}
+
+interface MockScene {
+  getMeshByName: Mock<(name: string) => MockMesh | null>;
+  meshes: MockMesh[];
+}
+
 describe('RenderPassManager', () => {
-  let mockScene: any;
-  let mockMirrorTexture1: any;
-  let mockMirrorTexture2: any;
-  let mockWall1: any;
-  let mockWall2: any;
-  let mockCube: any;
+  let mockScene: MockScene;
+  let scene: Scene;
+  let mockMirrorTexture1: MockMirrorTexture;
+  let mockMirrorTexture2: MockMirrorTexture;
+  let mockWall1: MockMesh;
+  let mockWall2: MockMesh;
+  let mockCube: MockMesh;
 
   beforeEach(() => {
     // Create mock mirror textures
     mockMirrorTexture1 = {
       renderList: [],
       render: vi.fn(),
-      constructor: { name: 'MirrorTexture' },
     };
-    
+
     mockMirrorTexture2 = {
       renderList: [],
       render: vi.fn(),
-      constructor: { name: 'MirrorTexture' },
     };
 
     // Create mock materials
@@ -28,7 +48,7 @@ describe('RenderPassManager', () => {
       reflectionTexture: mockMirrorTexture1,
       constructor: { name: 'StandardMaterial' },
     };
-    
+
     const mockMaterial2 = {
       reflectionTexture: mockMirrorTexture2,
       constructor: { name: 'StandardMaterial' },
@@ -39,37 +59,38 @@ describe('RenderPassManager', () => {
       name: 'northWall',
       material: mockMaterial1,
       isVisible: true,
-      isEnabled: () => true,
+      isEnabled: (): boolean => true,
     };
-    
+
     mockWall2 = {
       name: 'eastWall',
       material: mockMaterial2,
       isVisible: true,
-      isEnabled: () => true,
+      isEnabled: (): boolean => true,
     };
-    
+
     mockCube = {
       name: 'colorCube',
       isVisible: true,
-      isEnabled: () => true,
+      isEnabled: (): boolean => true,
     };
 
     // Create mock scene
     mockScene = {
-      getMeshByName: vi.fn((name: string) => {
+      getMeshByName: vi.fn((name: string): MockMesh | null => {
         if (name === 'northWall') return mockWall1;
         if (name === 'eastWall') return mockWall2;
         return null;
       }),
       meshes: [mockWall1, mockWall2, mockCube],
     };
+    scene = mockScene as unknown as Scene;
   });
 
   describe('constructor', () => {
     it('should initialize with config', () => {
       const config = {
-        scene: mockScene,
+        scene,
         maxBounces: 2,
         mirrorWalls: ['northWall', 'eastWall'],
       };
@@ -81,7 +102,7 @@ describe('RenderPassManager', () => {
 
     it('should collect mirror textures from scene', () => {
       const config = {
-        scene: mockScene,
+        scene,
         maxBounces: 2,
         mirrorWalls: ['northWall', 'eastWall'],
       };
@@ -96,7 +117,7 @@ describe('RenderPassManager', () => {
   describe('executeRenderPasses', () => {
     it('should execute passes based on bounce count', () => {
       const config = {
-        scene: mockScene,
+        scene,
         maxBounces: 2,
         mirrorWalls: ['northWall', 'eastWall'],
       };
@@ -111,7 +132,7 @@ describe('RenderPassManager', () => {
 
     it('should not execute if maxBounces is 0', () => {
       const config = {
-        scene: mockScene,
+        scene,
         maxBounces: 0,
         mirrorWalls: ['northWall', 'eastWall'],
       };
@@ -125,7 +146,7 @@ describe('RenderPassManager', () => {
 
     it('should exclude mirror from its own render list in first pass', () => {
       const config = {
-        scene: mockScene,
+        scene,
         maxBounces: 1,
         mirrorWalls: ['northWall', 'eastWall'],
       };
@@ -141,7 +162,7 @@ describe('RenderPassManager', () => {
 
     it('should include other mirrors in subsequent passes', () => {
       const config = {
-        scene: mockScene,
+        scene,
         maxBounces: 2,
         mirrorWalls: ['northWall', 'eastWall'],
       };
@@ -155,16 +176,38 @@ describe('RenderPassManager', () => {
     });
   });
 
+  describe('virtual images', () => {
+    it('should keep thin instance images out of the mirrors', () => {
+      const images = {
+        name: 'colorSphere_images',
+        isVisible: true,
+        isEnabled: (): boolean => true,
+        hasThinInstances: true,
+      };
+      mockScene.meshes.push(images);
+
+      const manager = new RenderPassManager({
+        scene,
+        maxBounces: 1,
+        mirrorWalls: ['northWall'],
+      });
+      manager.executeRenderPasses();
+
+      expect(mockMirrorTexture1.renderList).toContain(mockCube);
+      expect(mockMirrorTexture1.renderList).not.toContain(images);
+    });
+  });
+
   describe('setBounceCount', () => {
     it('should update bounce count and re-execute passes', () => {
       const config = {
-        scene: mockScene,
+        scene,
         maxBounces: 1,
         mirrorWalls: ['northWall', 'eastWall'],
       };
 
       const manager = new RenderPassManager(config);
-      
+
       // Clear previous calls
       mockMirrorTexture1.render.mockClear();
       mockMirrorTexture2.render.mockClear();
@@ -176,9 +219,9 @@ describe('RenderPassManager', () => {
       expect(mockMirrorTexture1.render).toHaveBeenCalledTimes(3);
     });
 
-    it('should clamp bounce count between 1 and 5', () => {
+    it('should clamp bounce count to the mirror chain limit', () => {
       const config = {
-        scene: mockScene,
+        scene,
         maxBounces: 2,
         mirrorWalls: ['northWall'],
       };
@@ -189,7 +232,36 @@ describe('RenderPassManager', () => {
       expect(manager.getBounceCount()).toBe(1);
 
       manager.setBounceCount(10);
-      expect(manager.getBounceCount()).toBe(5);
+      expect(manager.getBounceCount()).toBe(4);
+    });
+  });
+
+  describe('requestUpdate', () => {
+    it('should only re-render mirrors after an update is requested', () => {
+      const config = {
+        scene,
+        maxBounces: 2,
+        mirrorWalls: ['northWall', 'eastWall'],
+      };
+
+      const manager = new RenderPassManager(config);
+      manager.executeRenderPasses();
+      manager.executeRenderPasses();
+      expect(mockMirrorTexture1.render).toHaveBeenCalledTimes(2);
+
+      manager.requestUpdate();
+      manager.executeRenderPasses();
+      expect(mockMirrorTexture1.render).toHaveBeenCalledTimes(4);
+    });
+
+    it('should stop the scene re-rendering mirrors every frame', () => {
+      new RenderPassManager({
+        scene,
+        maxBounces: 2,
+        mirrorWalls: ['northWall'],
+      });
+
+      expect(mockMirrorTexture1.refreshRate).toBe(0);
     });
   });
 
@@ -199,16 +271,16 @@ describe('RenderPassManager', () => {
       mockMirrorTexture1.renderList = [...originalList];
 
       const config = {
-        scene: mockScene,
+        scene,
         maxBounces: 2,
         mirrorWalls: ['northWall'],
       };
 
       const manager = new RenderPassManager(config);
-      
+
       // Execute passes (which modifies render lists)
       manager.executeRenderPasses();
-      
+
       // Reset
       manager.reset();
 
@@ -219,16 +291,16 @@ describe('RenderPassManager', () => {
   describe('refreshMirrorTextures', () => {
     it('should re-collect mirror textures from scene', () => {
       const config = {
-        scene: mockScene,
+        scene,
         maxBounces: 2,
         mirrorWalls: ['northWall', 'eastWall'],
       };
 
       const manager = new RenderPassManager(config);
-      
+
       // Clear mock to track new calls
       mockScene.getMeshByName.mockClear();
-      
+
       manager.refreshMirrorTextures();
 
       // Should re-collect textures
@@ -240,7 +312,7 @@ describe('RenderPassManager', () => {
   describe('dispose', () => {
     it('should clear internal maps', () => {
       const config = {
-        scene: mockScene,
+        scene,
         maxBounces: 2,
         mirrorWalls: ['northWall', 'eastWall'],
       };
@@ -252,4 +324,4 @@ describe('RenderPassManager', () => {
       expect(() => manager.reset()).not.toThrow();
     });
   });
-});
\ No newline at end of file
+});
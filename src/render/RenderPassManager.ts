@@ -1,7 +1,14 @@
 // ABOUTME: Manages multi-pass rendering for nested reflections
 // ABOUTME: Executes multiple render passes to achieve multi-bounce reflections
 
-import { Scene, MirrorTexture, StandardMaterial, Mesh } from 'babylonjs';
+import {
+  Scene,
+  MirrorTexture,
+  Mesh,
+  RenderTargetTexture,
+  type BaseTexture,
+} from 'babylonjs';
+import { createMirrorChain } from '../mirrors/chainMirrors';
 
 /**
  * Configuration for render pass manager
@@ -20,6 +27,18 @@ export interface RenderPass {
   mirrorTextures: MirrorTexture[];
 }
 
+/**
+ * Checks whether a reflection texture is a mirror the passes can render
+ * In tests, we can't use instanceof, so check for the render list and render method
+ */
+const isMirrorTexture = (
+  texture: BaseTexture | null | undefined
+): texture is MirrorTexture =>
+  texture instanceof MirrorTexture ||
+  (!!texture &&
+    'renderList' in texture &&
+    typeof (texture as MirrorTexture).render === 'function');
+
 /**
  * Manager for multi-pass rendering system
  */
@@ -47,18 +66,17 @@ export class RenderPassManager {
   private collectMirrorTextures(): void {
     this.mirrorWalls.forEach(wallName => {
       const wall = this.scene.getMeshByName(wallName);
-      
-      if (wall && wall.material instanceof StandardMaterial) {
-        const material = wall.material as StandardMaterial;
-        
-        if (material.reflectionTexture instanceof MirrorTexture) {
-          this.mirrorTextures.set(wallName, material.reflectionTexture);
-          // Store original render list
-          this.originalRenderLists.set(
-            material.reflectionTexture,
-            [...material.reflectionTexture.renderList || []]
-          );
-        }
+      const texture = (
+        wall?.material as { reflectionTexture?: BaseTexture } | null
+      )?.reflectionTexture;
+
+      if (isMirrorTexture(texture)) {
+        this.mirrorTextures.set(wallName, texture);
+        // Store original render list
+        this.originalRenderLists.set(texture, [...(texture.renderList || [])]);
+        // Passes render the texture; stop the scene re-rendering it every
+        // frame, which would recurse without the bounce limit
+        texture.refreshRate = RenderTargetTexture.REFRESHRATE_RENDER_ONCE;
       }
     });
   }
@@ -126,6 +144,9 @@ export class RenderPassManager {
     return this.scene.meshes.filter(mesh => {
       // Exclude specified walls
       if (excludeWalls.includes(mesh.name)) return false;
+
+      // Virtual images already sit behind the mirrors; reflecting them doubles them
+      if (mesh.hasThinInstances) return false;
       
       // Include only visible and enabled meshes
       return mesh.isVisible && mesh.isEnabled();
@@ -134,12 +155,30 @@ export class RenderPassManager {
 
   /**
    * Update bounce count and re-execute passes
+   * Mirror-in-mirror recursion stops at the mirror chain's level limit
    */
   public setBounceCount(bounces: number): void {
-    this.maxBounces = Math.max(1, Math.min(bounces, 5)); // Clamp between 1-5
+    this.maxBounces = Math.max(1, createMirrorChain(bounces).level);
+    this.needsUpdate = true;
+    this.executeRenderPasses();
+  }
+
+  /**
+   * Re-render the mirrors on the next executeRenderPasses call,
+   * e.g. after an object or the camera moved
+   */
+  public requestUpdate(): void {
     this.needsUpdate = true;
   }
 
+  /**
+   * Replace the set of mirror walls (e.g., after toggling a mirror)
+   */
+  public setMirrorWalls(mirrorWalls: string[]): void {
+    this.mirrorWalls = mirrorWalls;
+    this.refreshMirrorTextures();
+  }
+
   /**
    * Get current bounce count
    */
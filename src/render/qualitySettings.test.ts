@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AUTO_START_LEVEL,
+  createAutoQualityState,
+  getQualityPreset,
+  QUALITY_LEVELS,
+  QUALITY_PRESETS,
+  updateAutoQuality,
+  type AutoQualityState,
+} from './qualitySettings';
+
+/**
+ * Feeds the same frame time until automatic quality makes a decision
+ */
+const measureFrames = (
+  state: AutoQualityState,
+  frameTime: number
+): AutoQualityState =>
+  Array.from({ length: 60 }).reduce<AutoQualityState>(
+    (current) => updateAutoQuality(current, frameTime),
+    state
+  );
+
+describe('qualitySettings', () => {
+  describe('QUALITY_PRESETS', () => {
+    it('should get cheaper at lower levels', () => {
+      const [low, medium, high] = QUALITY_LEVELS.map(
+        (level) => QUALITY_PRESETS[level]
+      );
+
+      expect(low.mirrorTextureSize).toBe(256);
+      expect(medium.mirrorTextureSize).toBe(512);
+      expect(high.mirrorTextureSize).toBe(1024);
+      expect(low.hardwareScalingLevel).toBeGreaterThan(
+        high.hardwareScalingLevel
+      );
+      expect(low.sphereSegments).toBeLessThan(medium.sphereSegments);
+      expect(low.maxImages).toBeLessThan(high.maxImages);
+      expect(low.glowIntensity).toBe(0);
+    });
+  });
+
+  describe('getQualityPreset', () => {
+    it('should use the start level for automatic quality', () => {
+      expect(getQualityPreset('auto')).toBe(QUALITY_PRESETS[AUTO_START_LEVEL]);
+      expect(getQualityPreset('low')).toBe(QUALITY_PRESETS.low);
+    });
+  });
+
+  describe('updateAutoQuality', () => {
+    it('should wait for enough frames before deciding', () => {
+      const state = updateAutoQuality(createAutoQualityState(), 100);
+
+      expect(state.level).toBe(AUTO_START_LEVEL);
+      expect(state.frameTimes).toEqual([100]);
+    });
+
+    it('should step down when frames are slow', () => {
+      const state = measureFrames(createAutoQualityState('medium'), 50);
+
+      expect(state.level).toBe('low');
+      expect(state.frameTimes).toEqual([]);
+      expect(measureFrames(state, 50).level).toBe('low');
+    });
+
+    it('should step up when frames are fast', () => {
+      const state = measureFrames(createAutoQualityState('low'), 10);
+
+      expect(state.level).toBe('medium');
+      expect(measureFrames(state, 10).level).toBe('high');
+    });
+
+    it('should not return to a level that was too slow', () => {
+      const slow = measureFrames(createAutoQualityState('high'), 50);
+      const fast = measureFrames(slow, 10);
+
+      expect(slow.level).toBe('medium');
+      expect(fast.level).toBe('medium');
+    });
+
+    it('should keep the level at steady frame rates', () => {
+      const state = measureFrames(createAutoQualityState('medium'), 25);
+
+      expect(state.level).toBe('medium');
+    });
+  });
+});
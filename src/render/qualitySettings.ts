@@ -0,0 +1,141 @@
+// ABOUTME: Quality presets for rendering and automatic quality from measured frame times
+// ABOUTME: Pure functions; main applies the chosen preset to engines, meshes and mirrors
+
+import type { QualityLevel, QualitySetting } from '../state/uiState';
+
+/**
+ * Render settings for one quality level
+ */
+export interface QualityPreset {
+  readonly mirrorTextureSize: number;
+  readonly hardwareScalingLevel: number; // Pixels per rendered pixel (2 = half resolution)
+  readonly sphereSegments: number;
+  readonly maxImages: number; // Virtual images drawn per object
+  readonly glowIntensity: number; // 0 turns the glow off
+}
+
+/**
+ * Quality levels from cheapest to best looking
+ */
+export const QUALITY_LEVELS: readonly QualityLevel[] = Object.freeze([
+  'low',
+  'medium',
+  'high',
+]);
+
+/**
+ * Render settings for each quality level
+ */
+export const QUALITY_PRESETS: Readonly<Record<QualityLevel, QualityPreset>> =
+  Object.freeze({
+    low: Object.freeze({
+      mirrorTextureSize: 256,
+      hardwareScalingLevel: 2,
+      sphereSegments: 12,
+      maxImages: 100,
+      glowIntensity: 0,
+    }),
+    medium: Object.freeze({
+      mirrorTextureSize: 512,
+      hardwareScalingLevel: 1.5,
+      sphereSegments: 20,
+      maxImages: 250,
+      glowIntensity: 0.5,
+    }),
+    high: Object.freeze({
+      mirrorTextureSize: 1024,
+      hardwareScalingLevel: 1,
+      sphereSegments: 32,
+      maxImages: 500,
+      glowIntensity: 1,
+    }),
+  });
+
+/**
+ * Level automatic quality starts from before any frames are measured
+ */
+export const AUTO_START_LEVEL: QualityLevel = 'medium';
+
+/**
+ * Frames averaged before automatic quality changes level
+ */
+const AUTO_SAMPLE_FRAMES = 60;
+
+/**
+ * Average frame times that make automatic quality step down (below 30 fps)
+ * or up (close to 60 fps)
+ */
+const SLOW_FRAME_MS = 1000 / 30;
+const FAST_FRAME_MS = 1000 / 58;
+
+/**
+ * Gets the render settings for a quality setting
+ *
+ * @param quality - Quality level, or 'auto' for the automatic start level
+ * @returns Render settings
+ */
+export const getQualityPreset = (quality: QualitySetting): QualityPreset =>
+  QUALITY_PRESETS[quality === 'auto' ? AUTO_START_LEVEL : quality];
+
+/**
+ * Automatic quality state: the current level, the best level frames were
+ * fast enough at, and frame times measured at the current level
+ */
+export interface AutoQualityState {
+  readonly level: QualityLevel;
+  readonly maxLevel: QualityLevel;
+  readonly frameTimes: readonly number[];
+}
+
+/**
+ * Creates automatic quality state with no measured frames
+ *
+ * @param level - Level to start from
+ * @param maxLevel - Best level automatic quality may step up to
+ * @returns Initial automatic quality state
+ */
+export const createAutoQualityState = (
+  level: QualityLevel = AUTO_START_LEVEL,
+  maxLevel: QualityLevel = 'high'
+): AutoQualityState =>
+  Object.freeze({
+    level,
+    maxLevel,
+    frameTimes: Object.freeze([]),
+  });
+
+/**
+ * Records a frame time and steps the level down when frames are slow or up
+ * when they are fast, once enough frames have been measured
+ * A level that was too slow is not tried again, so the level cannot flip back and forth
+ *
+ * @param state - Current automatic quality state
+ * @param frameTime - Duration of the last frame in milliseconds
+ * @returns Updated state (measurements restart after each decision)
+ */
+export const updateAutoQuality = (
+  state: AutoQualityState,
+  frameTime: number
+): AutoQualityState => {
+  const frameTimes = [...state.frameTimes, frameTime];
+
+  if (frameTimes.length < AUTO_SAMPLE_FRAMES) {
+    return Object.freeze({ ...state, frameTimes: Object.freeze(frameTimes) });
+  }
+
+  const average =
+    frameTimes.reduce((total, time) => total + time, 0) / frameTimes.length;
+  const index = QUALITY_LEVELS.indexOf(state.level);
+
+  if (average > SLOW_FRAME_MS && index > 0) {
+    const lower = QUALITY_LEVELS[index - 1];
+    return createAutoQualityState(lower, lower);
+  }
+
+  const maxIndex = QUALITY_LEVELS.indexOf(state.maxLevel);
+  if (average < FAST_FRAME_MS && index < maxIndex) {
+    return createAutoQualityState(QUALITY_LEVELS[index + 1], state.maxLevel);
+  }
+
+  return createAutoQualityState(state.level, state.maxLevel);
+};
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getFirstInstancedBounce,
+  getMirrorTextureBounces,
+  getRenderStrategy,
+  RENDER_STRATEGIES,
+} from './renderStrategies';
+
+describe('renderStrategies', () => {
+  describe('RENDER_STRATEGIES', () => {
+    it('should offer every strategy in dropdown order', () => {
+      expect(RENDER_STRATEGIES.map((strategy) => strategy.id)).toEqual([
+        'instanced',
+        'mirrorTexture',
+        'hybrid',
+      ]);
+    });
+  });
+
+  describe('getRenderStrategy', () => {
+    it('should find strategies by id', () => {
+      expect(getRenderStrategy('hybrid')?.label).toBe('Hybrid');
+      expect(getRenderStrategy('raytraced')).toBeNull();
+    });
+  });
+
+  describe('getMirrorTextureBounces', () => {
+    it('should split the bounces between textures and instances', () => {
+      const [instanced, mirrorTexture, hybrid] = RENDER_STRATEGIES;
+
+      expect(getMirrorTextureBounces(instanced, 3)).toBe(0);
+      expect(getMirrorTextureBounces(mirrorTexture, 3)).toBe(3);
+      expect(getMirrorTextureBounces(hybrid, 3)).toBe(1);
+
+      expect(getFirstInstancedBounce(instanced)).toBe(1);
+      expect(getFirstInstancedBounce(mirrorTexture)).toBe(Infinity);
+      expect(getFirstInstancedBounce(hybrid)).toBe(2);
+    });
+  });
+});
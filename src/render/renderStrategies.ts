@@ -0,0 +1,65 @@
+// ABOUTME: Strategies for drawing reflections in the render view
+// ABOUTME: Splits the bounces between live mirror textures and virtual image instances
+
+import type { RenderMode } from '../state/uiState';
+
+/**
+ * A way of drawing reflections the user can pick
+ */
+export interface RenderStrategy {
+  readonly id: RenderMode;
+  readonly label: string;
+  readonly textureBounces: number; // Bounces drawn by mirror textures; instances draw the rest
+}
+
+/**
+ * Built-in render strategies, in the order shown in the reflections dropdown
+ */
+export const RENDER_STRATEGIES: readonly RenderStrategy[] = Object.freeze([
+  Object.freeze({
+    id: 'instanced' as const,
+    label: 'Virtual images',
+    textureBounces: 0,
+  }),
+  Object.freeze({
+    id: 'mirrorTexture' as const,
+    label: 'Mirror textures',
+    textureBounces: Infinity,
+  }),
+  Object.freeze({
+    id: 'hybrid' as const,
+    label: 'Hybrid',
+    // One texture pass is cheap; deeper images would need a pass per bounce
+    textureBounces: 1,
+  }),
+]);
+
+/**
+ * Finds a render strategy by id
+ *
+ * @param id - Strategy identifier
+ * @returns Render strategy or null if not found
+ */
+export const getRenderStrategy = (id: string): RenderStrategy | null =>
+  RENDER_STRATEGIES.find((strategy) => strategy.id === id) ?? null;
+
+/**
+ * Number of bounces mirror textures should render
+ *
+ * @param strategy - Chosen render strategy
+ * @param maxBounces - Bounce count chosen in the control panel
+ * @returns Mirror texture passes, or 0 if the strategy uses no mirror textures
+ */
+export const getMirrorTextureBounces = (
+  strategy: RenderStrategy,
+  maxBounces: number
+): number => Math.min(strategy.textureBounces, maxBounces);
+
+/**
+ * Fewest bounces an image needs to be drawn as an instance
+ *
+ * @param strategy - Chosen render strategy
+ * @returns Lowest instanced bounce count (Infinity draws no instances)
+ */
+export const getFirstInstancedBounce = (strategy: RenderStrategy): number =>
+  strategy.textureBounces + 1;
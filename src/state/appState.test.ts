@@ -7,6 +7,8 @@ import {
   selectUIState,
   selectSelectedObjectTransform,
   selectRayConfiguration,
+  selectSelectedSceneObject,
+  isSelectableObject,
   type AppState,
   type AppStateAction,
 } from './appState';
@@ -27,22 +29,28 @@ describe('appState', () => {
       const state = createInitialAppState();
 
       expect(state.selection.selectedObjectId).toBeNull();
-      expect(state.selection.previousObjectId).toBeNull();
       expect(state.selection.selectionTime).toBe(0);
     });
 
     it('should have empty transform state initially', () => {
       const state = createInitialAppState();
 
-      expect(state.transform.objects).toEqual({});
+      expect(state.transform.transforms).toEqual({});
     });
 
     it('should have default UI state', () => {
       const state = createInitialAppState();
 
-      expect(state.ui.rayCount).toBe(4);
+      expect(state.ui.rayCount).toBe(1);
       expect(state.ui.maxBounces).toBe(2);
-      expect(state.ui.quality).toBe('medium');
+      expect(state.ui.quality).toBe('high');
+    });
+
+    it('should start in the square room without pillar', () => {
+      const state = createInitialAppState();
+
+      expect(state.scene.roomPresetId).toBe('square');
+      expect(state.scene.isPillarEnabled).toBe(false);
     });
   });
 
@@ -51,13 +59,12 @@ describe('appState', () => {
       const initial = createInitialAppState();
       const action: AppStateAction = {
         type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
+        payload: { objectId: 'colorSphere' },
       };
 
       const updated = updateAppState(initial, action);
 
-      expect(updated.selection.selectedObjectId).toBe('colorCube');
-      expect(updated.selection.previousObjectId).toBeNull();
+      expect(updated.selection.selectedObjectId).toBe('colorSphere');
       expect(updated).not.toBe(initial); // Immutability
     });
 
@@ -65,15 +72,16 @@ describe('appState', () => {
       const initial = createInitialAppState();
       const selected = updateAppState(initial, {
         type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
+        payload: { objectId: 'colorSphere' },
       });
 
       const cleared = updateAppState(selected, {
         type: 'CLEAR_SELECTION',
       });
 
-      expect(cleared.selection.selectedObjectId).toBeNull();
-      expect(cleared.selection.previousObjectId).toBe('colorCube');
+      expect(selected.selection.selectionTime).toBeGreaterThan(0);
+      expect(cleared.selection).toEqual(initial.selection);
+      expect(cleared.transform).toBe(selected.transform); // Objects stay put
     });
 
     it('should update object position', () => {
@@ -81,13 +89,15 @@ describe('appState', () => {
       const position = new Vector3(1, 2, 3);
       const action: AppStateAction = {
         type: 'UPDATE_POSITION',
-        payload: { objectId: 'colorCube', position },
+        payload: { objectId: 'colorSphere', position },
       };
 
       const updated = updateAppState(initial, action);
 
-      expect(updated.transform.objects.colorCube).toBeDefined();
-      expect(updated.transform.objects.colorCube.position).toEqual(position);
+      expect(updated.transform.transforms.colorSphere).toBeDefined();
+      expect(updated.transform.transforms.colorSphere.position).toEqual(
+        position
+      );
     });
 
     it('should update object rotation', () => {
@@ -95,13 +105,15 @@ describe('appState', () => {
       const rotation = new Vector3(0, Math.PI / 4, 0);
       const action: AppStateAction = {
         type: 'UPDATE_ROTATION',
-        payload: { objectId: 'colorCube', rotation },
+        payload: { objectId: 'colorSphere', rotation },
       };
 
       const updated = updateAppState(initial, action);
 
-      expect(updated.transform.objects.colorCube).toBeDefined();
-      expect(updated.transform.objects.colorCube.rotation).toEqual(rotation);
+      expect(updated.transform.transforms.colorSphere).toBeDefined();
+      expect(updated.transform.transforms.colorSphere.rotation).toEqual(
+        rotation
+      );
     });
 
     it('should update ray count', () => {
@@ -140,11 +152,184 @@ describe('appState', () => {
       expect(updated.ui.quality).toBe('high');
     });
 
+    it('should update position and rotation together', () => {
+      const position = new Vector3(1, 5, 2);
+      const rotation = new Vector3(0, Math.PI, 0);
+
+      const updated = updateAppState(createInitialAppState(), {
+        type: 'UPDATE_TRANSFORM',
+        payload: { objectId: 'cameraIndicator', position, rotation },
+      });
+
+      expect(updated.transform.transforms.cameraIndicator).toEqual({
+        position,
+        rotation,
+      });
+    });
+
+    it('should update ray and render settings', () => {
+      const actions: AppStateAction[] = [
+        { type: 'UPDATE_FAN_RAYS', payload: { count: 5 } },
+        { type: 'UPDATE_EMISSION_PATTERN', payload: { pattern: 'cone' } },
+        { type: 'UPDATE_RENDER_MODE', payload: { mode: 'hybrid' } },
+        { type: 'UPDATE_RAY_STYLE', payload: { style: 'tubes' } },
+        { type: 'UPDATE_RAY_WIDTH', payload: { width: 0.2 } },
+        { type: 'SET_RENDER_VIEW_RAYS_VISIBLE', payload: { visible: true } },
+        { type: 'SET_RAY_GLOW_ENABLED', payload: { enabled: true } },
+        { type: 'SET_UNFOLDED_RAYS_VISIBLE', payload: { visible: true } },
+        { type: 'UPDATE_EDITOR_MODE', payload: { mode: 'unfolded' } },
+      ];
+
+      const updated = actions.reduce(updateAppState, createInitialAppState());
+
+      expect(updated.ui.fanRays).toBe(5);
+      expect(updated.ui.emissionPattern).toBe('cone');
+      expect(updated.ui.renderMode).toBe('hybrid');
+      expect(updated.ui.rayStyle).toBe('tubes');
+      expect(updated.ui.rayWidth).toBe(0.2);
+      expect(updated.ui.showRenderViewRays).toBe(true);
+      expect(updated.ui.rayGlow).toBe(true);
+      expect(updated.ui.showUnfoldedRays).toBe(true);
+      expect(updated.ui.editorMode).toBe('unfolded');
+    });
+
+    it('should update the room shape, mirrors, pillar and sight lines', () => {
+      const actions: AppStateAction[] = [
+        { type: 'SELECT_ROOM_PRESET', payload: { presetId: 'cornerCube' } },
+        {
+          type: 'SET_WALL_MIRROR',
+          payload: { wallId: 'floor', isMirror: false },
+        },
+        { type: 'SET_PILLAR_ENABLED', payload: { enabled: true } },
+        { type: 'SET_IMAGE_PATHS_VISIBLE', payload: { visible: true } },
+        { type: 'SET_HANDEDNESS_VISIBLE', payload: { visible: true } },
+      ];
+
+      const updated = actions.reduce(updateAppState, createInitialAppState());
+
+      expect(updated.scene).toEqual({
+        roomPresetId: 'cornerCube',
+        mirrorWalls: ['north', 'east'],
+        isPillarEnabled: true,
+        showImagePaths: true,
+        showHandedness: true,
+      });
+    });
+
+    it('should return same state when a setting is unchanged', () => {
+      const initial = createInitialAppState();
+
+      expect(
+        updateAppState(initial, {
+          type: 'UPDATE_MAX_BOUNCES',
+          payload: { bounces: initial.ui.maxBounces },
+        })
+      ).toBe(initial);
+      expect(
+        updateAppState(initial, {
+          type: 'SET_PILLAR_ENABLED',
+          payload: { enabled: false },
+        })
+      ).toBe(initial);
+    });
+
+    it('should add a placed and selected object', () => {
+      const position = new Vector3(3, 5, 0);
+
+      const updated = updateAppState(createInitialAppState(), {
+        type: 'ADD_OBJECT',
+        payload: { kind: 'cube', position },
+      });
+
+      expect(updated.objects.objects.map((object) => object.id)).toEqual([
+        'colorSphere',
+        'cube-1',
+      ]);
+      expect(updated.transform.transforms['cube-1'].position).toEqual(position);
+      expect(selectSelectedSceneObject(updated)?.kind).toBe('cube');
+    });
+
+    it('should remove an object with its transform and selection', () => {
+      const actions: AppStateAction[] = [
+        {
+          type: 'ADD_OBJECT',
+          payload: { kind: 'arrow', position: new Vector3(3, 5, 0) },
+        },
+        {
+          type: 'SET_OBJECT_COLOR',
+          payload: { objectId: 'arrow-1', color: '#123456' },
+        },
+      ];
+      const added = actions.reduce(updateAppState, createInitialAppState());
+
+      expect(added.objects.objects[1].color).toBe('#123456');
+
+      const removed = updateAppState(added, {
+        type: 'REMOVE_OBJECT',
+        payload: { objectId: 'arrow-1' },
+      });
+
+      expect(removed.objects).toEqual(createInitialAppState().objects);
+      expect(removed.transform.transforms['arrow-1']).toBeUndefined();
+      expect(removed.selection.selectedObjectId).toBeNull();
+      expect(
+        updateAppState(removed, {
+          type: 'REMOVE_OBJECT',
+          payload: { objectId: 'arrow-1' },
+        })
+      ).toBe(removed);
+    });
+
+    it('should send objects a new room shape excludes back to their start', () => {
+      const moved = [
+        {
+          type: 'UPDATE_POSITION' as const,
+          payload: { objectId: 'colorSphere', position: new Vector3(6, 5, -6) },
+        },
+        {
+          type: 'UPDATE_POSITION' as const,
+          payload: {
+            objectId: 'cameraIndicator',
+            position: new Vector3(-5, 5, 5),
+          },
+        },
+      ].reduce(updateAppState, createInitialAppState());
+
+      // The L-shaped room cuts out the south-east corner
+      const updated = updateAppState(moved, {
+        type: 'SELECT_ROOM_PRESET',
+        payload: { presetId: 'lShape' },
+      });
+
+      expect(updated.transform.transforms.colorSphere).toBeUndefined();
+      expect(updated.transform.transforms.cameraIndicator).toBe(
+        moved.transform.transforms.cameraIndicator
+      );
+    });
+
+    it('should keep the room shape on reset', () => {
+      const actions: AppStateAction[] = [
+        { type: 'SELECT_ROOM_PRESET', payload: { presetId: 'hexagon' } },
+        {
+          type: 'SET_WALL_MIRROR',
+          payload: { wallId: 'side1', isMirror: false },
+        },
+        { type: 'SET_PILLAR_ENABLED', payload: { enabled: true } },
+      ];
+      const modified = actions.reduce(updateAppState, createInitialAppState());
+
+      const reset = updateAppState(modified, { type: 'RESET' });
+
+      expect(reset.scene.roomPresetId).toBe('hexagon');
+      expect(reset.scene.mirrorWalls).toHaveLength(6);
+      expect(reset.scene.isPillarEnabled).toBe(false);
+    });
+
     it('should reset state to initial', () => {
       const initial = createInitialAppState();
       const modified = updateAppState(initial, {
         type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
+        payload: { objectId: 'colorSphere' },
       });
 
       const reset = updateAppState(modified, { type: 'RESET' });
@@ -193,15 +378,15 @@ describe('appState', () => {
       // Update state with object transform
       const withTransform = updateAppState(state, {
         type: 'UPDATE_POSITION',
-        payload: { objectId: 'colorCube', position },
+        payload: { objectId: 'colorSphere', position },
       });
       const withRotation = updateAppState(withTransform, {
         type: 'UPDATE_ROTATION',
-        payload: { objectId: 'colorCube', rotation },
+        payload: { objectId: 'colorSphere', rotation },
       });
       const selected = updateAppState(withRotation, {
         type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
+        payload: { objectId: 'colorSphere' },
       });
 
       const transform = selectSelectedObjectTransform(selected);
@@ -209,6 +394,15 @@ describe('appState', () => {
       expect(transform).toEqual({ position, rotation });
     });
 
+    it('should only treat placed objects and the camera as selectable', () => {
+      const state = createInitialAppState();
+
+      expect(isSelectableObject(state, 'colorSphere')).toBe(true);
+      expect(isSelectableObject(state, 'cameraIndicator')).toBe(true);
+      expect(isSelectableObject(state, 'cube-1')).toBe(false);
+      expect(selectSelectedSceneObject(state)).toBeNull();
+    });
+
     it('should return null transform when no object selected', () => {
       const state = createInitialAppState();
       const transform = selectSelectedObjectTransform(state);
@@ -221,8 +415,13 @@ describe('appState', () => {
       const rayConfig = selectRayConfiguration(state);
 
       expect(rayConfig).toEqual({
-        count: 4,
+        count: 1,
+        fanRays: 3,
         maxBounces: 2,
+        pattern: 'ring',
+        style: 'lines',
+        width: 0.08,
+        straightLines: false,
       });
     });
   });
@@ -236,7 +435,7 @@ describe('appState', () => {
 
       updateAppState(initial, {
         type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
+        payload: { objectId: 'colorSphere' },
       });
 
       expect(initial.selection).toBe(originalSelection);
@@ -248,7 +447,7 @@ describe('appState', () => {
       const initial = createInitialAppState();
       const updated = updateAppState(initial, {
         type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
+        payload: { objectId: 'colorSphere' },
       });
 
       // Only selection should be new, others should be same reference
@@ -257,4 +456,4 @@ describe('appState', () => {
       expect(updated.ui).toBe(initial.ui);
     });
   });
-});
\ No newline at end of file
+});
@@ -1,5 +1,5 @@
 // ABOUTME: Unified application state management with Redux-like patterns
-// ABOUTME: Combines selection, transform, and UI states with pure reducer functions
+// ABOUTME: Combines selection, transform, objects, UI and scene states with pure reducer functions
 
 import { Vector3 } from 'babylonjs';
 import {
@@ -13,15 +13,54 @@ import {
   createInitialTransformState,
   updateObjectPosition,
   updateObjectRotation,
+  removeObjectTransform,
+  keepTransformsWhere,
 } from './transformState';
+import {
+  ObjectsState,
+  ObjectKind,
+  SceneObject,
+  createInitialObjectsState,
+  createObjectId,
+  getNextObjectColor,
+  getSceneObject,
+  addObject,
+  removeObject,
+  updateObjectColor,
+} from './objectsState';
 import {
   UIState,
   createInitialUIState,
   updateRayCount,
+  updateFanRays,
   updateMaxBounces,
+  updateEmissionPattern,
+  updateRayStyle,
+  updateRayWidth,
+  updateShowRenderViewRays,
+  updateRayGlow,
+  updateShowUnfoldedRays,
+  updateRenderMode,
+  updateEditorMode,
   updateQuality,
-  QualityLevel,
+  QualitySetting,
+  RenderMode,
+  EditorMode,
 } from './uiState';
+import {
+  SceneState,
+  createInitialSceneState,
+  updateRoomPreset,
+  updateWallMirror,
+  updatePillarEnabled,
+  updateShowImagePaths,
+  updateShowHandedness,
+  createSceneRoom,
+} from './sceneState';
+import { isPointInsideRoom } from '../geometry/roomDefinition';
+import { applySceneDocument, type SceneDocument } from './sceneDocument';
+import type { EmissionPattern, RayConfig, RayStyle } from '../rays/types';
+import { OBJECT_IDS, WALL_CLEARANCE } from '../constants';
 
 /**
  * Unified application state
@@ -29,7 +68,9 @@ import {
 export interface AppState {
   readonly selection: SelectionState;
   readonly transform: TransformState;
+  readonly objects: ObjectsState;
   readonly ui: UIState;
+  readonly scene: SceneState;
 }
 
 /**
@@ -38,11 +79,42 @@ export interface AppState {
 export type AppStateAction =
   | { type: 'SELECT_OBJECT'; payload: { objectId: string } }
   | { type: 'CLEAR_SELECTION' }
-  | { type: 'UPDATE_POSITION'; payload: { objectId: string; position: Vector3 } }
-  | { type: 'UPDATE_ROTATION'; payload: { objectId: string; rotation: Vector3 } }
+  | {
+      type: 'UPDATE_POSITION';
+      payload: { objectId: string; position: Vector3 };
+    }
+  | {
+      type: 'UPDATE_ROTATION';
+      payload: { objectId: string; rotation: Vector3 };
+    }
+  | {
+      type: 'UPDATE_TRANSFORM';
+      payload: { objectId: string; position: Vector3; rotation: Vector3 };
+    }
+  | { type: 'ADD_OBJECT'; payload: { kind: ObjectKind; position: Vector3 } }
+  | { type: 'REMOVE_OBJECT'; payload: { objectId: string } }
+  | {
+      type: 'SET_OBJECT_COLOR';
+      payload: { objectId: string; color: string | null };
+    }
   | { type: 'UPDATE_RAY_COUNT'; payload: { count: number } }
+  | { type: 'UPDATE_FAN_RAYS'; payload: { count: number } }
   | { type: 'UPDATE_MAX_BOUNCES'; payload: { bounces: number } }
-  | { type: 'UPDATE_QUALITY'; payload: { quality: QualityLevel } }
+  | { type: 'UPDATE_EMISSION_PATTERN'; payload: { pattern: EmissionPattern } }
+  | { type: 'UPDATE_RAY_STYLE'; payload: { style: RayStyle } }
+  | { type: 'UPDATE_RAY_WIDTH'; payload: { width: number } }
+  | { type: 'SET_RENDER_VIEW_RAYS_VISIBLE'; payload: { visible: boolean } }
+  | { type: 'SET_RAY_GLOW_ENABLED'; payload: { enabled: boolean } }
+  | { type: 'SET_UNFOLDED_RAYS_VISIBLE'; payload: { visible: boolean } }
+  | { type: 'UPDATE_RENDER_MODE'; payload: { mode: RenderMode } }
+  | { type: 'UPDATE_EDITOR_MODE'; payload: { mode: EditorMode } }
+  | { type: 'UPDATE_QUALITY'; payload: { quality: QualitySetting } }
+  | { type: 'SELECT_ROOM_PRESET'; payload: { presetId: string } }
+  | { type: 'SET_WALL_MIRROR'; payload: { wallId: string; isMirror: boolean } }
+  | { type: 'SET_PILLAR_ENABLED'; payload: { enabled: boolean } }
+  | { type: 'SET_IMAGE_PATHS_VISIBLE'; payload: { visible: boolean } }
+  | { type: 'SET_HANDEDNESS_VISIBLE'; payload: { visible: boolean } }
+  | { type: 'LOAD_SCENE'; payload: { document: SceneDocument } }
   | { type: 'RESET' };
 
 /**
@@ -52,10 +124,21 @@ export const createInitialAppState = (): AppState => {
   return {
     selection: createInitialSelectionState(),
     transform: createInitialTransformState(),
+    objects: createInitialObjectsState(),
     ui: createInitialUIState(),
+    scene: createInitialSceneState(),
   };
 };
 
+/**
+ * Replace one part of the state, keeping the same state if that part is unchanged
+ */
+const withPart = <K extends keyof AppState>(
+  state: AppState,
+  key: K,
+  part: AppState[K]
+): AppState => (part === state[key] ? state : { ...state, [key]: part });
+
 /**
  * Update application state based on action
  * Pure reducer function that returns new state
@@ -97,26 +180,207 @@ export const updateAppState = (
         ),
       };
 
-    case 'UPDATE_RAY_COUNT':
+    case 'UPDATE_TRANSFORM':
       return {
         ...state,
-        ui: updateRayCount(state.ui, action.payload.count),
+        transform: updateObjectRotation(
+          updateObjectPosition(
+            state.transform,
+            action.payload.objectId,
+            action.payload.position
+          ),
+          action.payload.objectId,
+          action.payload.rotation
+        ),
       };
 
-    case 'UPDATE_MAX_BOUNCES':
+    case 'ADD_OBJECT': {
+      // The new object is placed where asked and selected, ready to be dragged
+      const object: SceneObject = {
+        id: createObjectId(state.objects, action.payload.kind),
+        kind: action.payload.kind,
+        color: getNextObjectColor(state.objects),
+      };
+      return {
+        ...state,
+        objects: addObject(state.objects, object),
+        transform: updateObjectPosition(
+          state.transform,
+          object.id,
+          action.payload.position
+        ),
+        selection: selectObject(state.selection, object.id),
+      };
+    }
+
+    case 'REMOVE_OBJECT': {
+      const { objectId } = action.payload;
+      if (!getSceneObject(state.objects, objectId)) {
+        return state;
+      }
       return {
         ...state,
-        ui: updateMaxBounces(state.ui, action.payload.bounces),
+        objects: removeObject(state.objects, objectId),
+        transform: removeObjectTransform(state.transform, objectId),
+        selection:
+          state.selection.selectedObjectId === objectId
+            ? clearSelection(state.selection)
+            : state.selection,
       };
+    }
+
+    case 'SET_OBJECT_COLOR':
+      return withPart(
+        state,
+        'objects',
+        updateObjectColor(
+          state.objects,
+          action.payload.objectId,
+          action.payload.color
+        )
+      );
+
+    case 'UPDATE_RAY_COUNT':
+      return withPart(
+        state,
+        'ui',
+        updateRayCount(state.ui, action.payload.count)
+      );
+
+    case 'UPDATE_FAN_RAYS':
+      return withPart(
+        state,
+        'ui',
+        updateFanRays(state.ui, action.payload.count)
+      );
+
+    case 'UPDATE_MAX_BOUNCES':
+      return withPart(
+        state,
+        'ui',
+        updateMaxBounces(state.ui, action.payload.bounces)
+      );
+
+    case 'UPDATE_EMISSION_PATTERN':
+      return withPart(
+        state,
+        'ui',
+        updateEmissionPattern(state.ui, action.payload.pattern)
+      );
+
+    case 'UPDATE_RAY_STYLE':
+      return withPart(
+        state,
+        'ui',
+        updateRayStyle(state.ui, action.payload.style)
+      );
+
+    case 'UPDATE_RAY_WIDTH':
+      return withPart(
+        state,
+        'ui',
+        updateRayWidth(state.ui, action.payload.width)
+      );
+
+    case 'SET_RENDER_VIEW_RAYS_VISIBLE':
+      return withPart(
+        state,
+        'ui',
+        updateShowRenderViewRays(state.ui, action.payload.visible)
+      );
+
+    case 'SET_RAY_GLOW_ENABLED':
+      return withPart(
+        state,
+        'ui',
+        updateRayGlow(state.ui, action.payload.enabled)
+      );
+
+    case 'SET_UNFOLDED_RAYS_VISIBLE':
+      return withPart(
+        state,
+        'ui',
+        updateShowUnfoldedRays(state.ui, action.payload.visible)
+      );
+
+    case 'UPDATE_RENDER_MODE':
+      return withPart(
+        state,
+        'ui',
+        updateRenderMode(state.ui, action.payload.mode)
+      );
+
+    case 'UPDATE_EDITOR_MODE':
+      return withPart(
+        state,
+        'ui',
+        updateEditorMode(state.ui, action.payload.mode)
+      );
 
     case 'UPDATE_QUALITY':
+      return withPart(
+        state,
+        'ui',
+        updateQuality(state.ui, action.payload.quality)
+      );
+
+    case 'SELECT_ROOM_PRESET': {
+      const scene = updateRoomPreset(state.scene, action.payload.presetId);
+      if (scene === state.scene) {
+        return state;
+      }
+      // Objects and the camera the new shape excludes go back to their initial placement
+      const room = createSceneRoom(scene);
       return {
         ...state,
-        ui: updateQuality(state.ui, action.payload.quality),
+        scene,
+        transform: keepTransformsWhere(state.transform, (position) =>
+          isPointInsideRoom(room, position, WALL_CLEARANCE)
+        ),
       };
+    }
+
+    case 'SET_WALL_MIRROR':
+      return withPart(
+        state,
+        'scene',
+        updateWallMirror(
+          state.scene,
+          action.payload.wallId,
+          action.payload.isMirror
+        )
+      );
+
+    case 'SET_PILLAR_ENABLED':
+      return withPart(
+        state,
+        'scene',
+        updatePillarEnabled(state.scene, action.payload.enabled)
+      );
+
+    case 'SET_IMAGE_PATHS_VISIBLE':
+      return withPart(
+        state,
+        'scene',
+        updateShowImagePaths(state.scene, action.payload.visible)
+      );
+
+    case 'SET_HANDEDNESS_VISIBLE':
+      return withPart(
+        state,
+        'scene',
+        updateShowHandedness(state.scene, action.payload.visible)
+      );
+
+    case 'LOAD_SCENE':
+      return applySceneDocument(state, action.payload.document);
 
     case 'RESET':
-      return createInitialAppState();
+      // The room keeps its shape but gets its default mirrors back
+      return {
+        ...createInitialAppState(),
+        scene: createInitialSceneState(state.scene.roomPresetId),
+      };
 
     default:
       return state;
@@ -137,11 +401,42 @@ export const selectSelectionState = (state: AppState): SelectionState =>
 export const selectTransformState = (state: AppState): TransformState =>
   state.transform;
 
+/**
+ * Select objects state
+ */
+export const selectObjectsState = (state: AppState): ObjectsState =>
+  state.objects;
+
+/**
+ * Select the placed object that is selected (not the camera)
+ */
+export const selectSelectedSceneObject = (
+  state: AppState
+): SceneObject | null => {
+  const selectedId = state.selection.selectedObjectId;
+  return selectedId ? getSceneObject(state.objects, selectedId) : null;
+};
+
+/**
+ * Whether an id names something in the scene that can be selected
+ */
+export const isSelectableObject = (
+  state: AppState,
+  objectId: string
+): boolean =>
+  objectId === OBJECT_IDS.CAMERA_INDICATOR ||
+  getSceneObject(state.objects, objectId) !== null;
+
 /**
  * Select UI state
  */
 export const selectUIState = (state: AppState): UIState => state.ui;
 
+/**
+ * Select scene state
+ */
+export const selectSceneState = (state: AppState): SceneState => state.scene;
+
 /**
  * Select transform for currently selected object
  */
@@ -151,7 +446,7 @@ export const selectSelectedObjectTransform = (
   const selectedId = state.selection.selectedObjectId;
   if (!selectedId) return null;
 
-  const transform = state.transform.objects[selectedId];
+  const transform = state.transform.transforms[selectedId];
   if (!transform) return null;
 
   return {
@@ -163,11 +458,14 @@ export const selectSelectedObjectTransform = (
 /**
  * Select ray configuration from UI state
  */
-export const selectRayConfiguration = (
-  state: AppState
-): { count: number; maxBounces: number } => {
+export const selectRayConfiguration = (state: AppState): RayConfig => {
   return {
     count: state.ui.rayCount,
+    fanRays: state.ui.fanRays,
     maxBounces: state.ui.maxBounces,
+    pattern: state.ui.emissionPattern,
+    style: state.ui.rayStyle,
+    width: state.ui.rayWidth,
+    straightLines: state.ui.editorMode === 'unfolded',
   };
-};
\ No newline at end of file
+};
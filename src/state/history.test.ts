@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'babylonjs';
+import {
+  createHistoryState,
+  updateHistory,
+  canUndo,
+  canRedo,
+  MAX_HISTORY,
+  type HistoryAction,
+  type HistoryState,
+} from './history';
+
+const moveSphere = (x: number): HistoryAction => ({
+  type: 'UPDATE_TRANSFORM',
+  payload: {
+    objectId: 'colorSphere',
+    position: new Vector3(x, 5, 0),
+    rotation: Vector3.Zero(),
+  },
+});
+
+const applyAll = (
+  history: HistoryState,
+  actions: readonly HistoryAction[]
+): HistoryState => actions.reduce(updateHistory, history);
+
+describe('history', () => {
+  it('should start with nothing to undo or redo', () => {
+    const history = createHistoryState();
+
+    expect(canUndo(history)).toBe(false);
+    expect(canRedo(history)).toBe(false);
+    expect(history.present.ui.rayCount).toBe(1);
+  });
+
+  it('should undo and redo slider values', () => {
+    const edited = updateHistory(createHistoryState(), {
+      type: 'UPDATE_RAY_COUNT',
+      payload: { count: 6 },
+    });
+
+    const undone = updateHistory(edited, { type: 'UNDO' });
+    expect(undone.present.ui.rayCount).toBe(1);
+    expect(canRedo(undone)).toBe(true);
+
+    const redone = updateHistory(undone, { type: 'REDO' });
+    expect(redone.present.ui.rayCount).toBe(6);
+    expect(canRedo(redone)).toBe(false);
+  });
+
+  it('should ignore undo and redo with nothing recorded', () => {
+    const history = createHistoryState();
+
+    expect(updateHistory(history, { type: 'UNDO' })).toBe(history);
+    expect(updateHistory(history, { type: 'REDO' })).toBe(history);
+  });
+
+  it('should clear redo entries after a new edit', () => {
+    const history = applyAll(createHistoryState(), [
+      { type: 'UPDATE_MAX_BOUNCES', payload: { bounces: 4 } },
+      { type: 'UNDO' },
+      { type: 'UPDATE_MAX_BOUNCES', payload: { bounces: 3 } },
+    ]);
+
+    expect(canRedo(history)).toBe(false);
+    expect(history.past).toHaveLength(1);
+  });
+
+  it('should not record selection or quality changes', () => {
+    const history = applyAll(createHistoryState(), [
+      { type: 'SELECT_OBJECT', payload: { objectId: 'colorSphere' } },
+      { type: 'UPDATE_QUALITY', payload: { quality: 'low' } },
+    ]);
+
+    expect(canUndo(history)).toBe(false);
+  });
+
+  it('should keep the current selection and quality when undoing', () => {
+    const history = applyAll(createHistoryState(), [
+      { type: 'SET_PILLAR_ENABLED', payload: { enabled: true } },
+      { type: 'SELECT_OBJECT', payload: { objectId: 'colorSphere' } },
+      { type: 'UPDATE_QUALITY', payload: { quality: 'low' } },
+      { type: 'UNDO' },
+    ]);
+
+    expect(history.present.scene.isPillarEnabled).toBe(false);
+    expect(history.present.selection.selectedObjectId).toBe('colorSphere');
+    expect(history.present.ui.quality).toBe('low');
+  });
+
+  it('should clear the selection when undoing the object it names', () => {
+    const added = updateHistory(createHistoryState(), {
+      type: 'ADD_OBJECT',
+      payload: { kind: 'cube', position: new Vector3(3, 5, 0) },
+    });
+    expect(added.present.selection.selectedObjectId).toBe('cube-1');
+
+    const undone = updateHistory(added, { type: 'UNDO' });
+
+    expect(undone.present.objects.objects).toHaveLength(1);
+    expect(undone.present.selection.selectedObjectId).toBeNull();
+  });
+
+  it('should undo a room shape change and the objects it moved in one step', () => {
+    const changed = applyAll(createHistoryState(), [
+      moveSphere(6),
+      { type: 'SELECT_ROOM_PRESET', payload: { presetId: 'triangle' } },
+    ]);
+    expect(changed.present.transform.transforms.colorSphere).toBeUndefined();
+
+    const undone = updateHistory(changed, { type: 'UNDO' });
+
+    expect(undone.present.scene.roomPresetId).toBe('square');
+    expect(undone.present.transform.transforms.colorSphere.position.x).toBe(6);
+    expect(undone.past).toHaveLength(1);
+  });
+
+  it('should coalesce a gesture into one entry', () => {
+    const dragged = applyAll(createHistoryState(), [
+      { type: 'BEGIN_GESTURE' },
+      moveSphere(1),
+      moveSphere(2),
+      moveSphere(3),
+      { type: 'END_GESTURE' },
+    ]);
+
+    expect(dragged.past).toHaveLength(1);
+    expect(dragged.present.transform.transforms.colorSphere.position.x).toBe(3);
+
+    const undone = updateHistory(dragged, { type: 'UNDO' });
+    expect(undone.present.transform.transforms.colorSphere).toBeUndefined();
+  });
+
+  it('should not undo in the middle of a gesture', () => {
+    const dragging = applyAll(createHistoryState(), [
+      { type: 'SET_PILLAR_ENABLED', payload: { enabled: true } },
+      { type: 'BEGIN_GESTURE' },
+      moveSphere(1),
+    ]);
+
+    expect(canUndo(dragging)).toBe(false);
+    expect(updateHistory(dragging, { type: 'UNDO' })).toBe(dragging);
+  });
+
+  it('should not record a gesture that ends where it began', () => {
+    const history = applyAll(createHistoryState(), [
+      moveSphere(2),
+      { type: 'BEGIN_GESTURE' },
+      moveSphere(4),
+      moveSphere(2),
+      { type: 'END_GESTURE' },
+    ]);
+
+    expect(history.past).toHaveLength(1);
+    expect(history.gestureStart).toBeNull();
+  });
+
+  it('should forget recorded edits but keep the scene', () => {
+    const history = applyAll(createHistoryState(), [
+      moveSphere(2),
+      { type: 'CLEAR_HISTORY' },
+    ]);
+
+    expect(canUndo(history)).toBe(false);
+    expect(history.present.transform.transforms.colorSphere.position.x).toBe(2);
+  });
+
+  it('should drop the oldest entries past the limit', () => {
+    const actions = Array.from({ length: MAX_HISTORY + 5 }, (_, index) =>
+      moveSphere(index)
+    );
+
+    const history = applyAll(createHistoryState(), actions);
+
+    expect(history.past).toHaveLength(MAX_HISTORY);
+  });
+});
@@ -0,0 +1,219 @@
+// ABOUTME: Undo/redo history wrapped around the application state reducer
+// ABOUTME: Records scene edits as snapshots and coalesces gizmo drags into single entries
+
+import {
+  AppState,
+  AppStateAction,
+  createInitialAppState,
+  isSelectableObject,
+  updateAppState,
+} from './appState';
+import { clearSelection } from './selectionState';
+import type { TransformState } from './transformState';
+
+/**
+ * Most undo entries kept; older ones are dropped
+ */
+export const MAX_HISTORY = 100;
+
+/**
+ * Application state with the snapshots around it
+ */
+export interface HistoryState {
+  readonly past: readonly AppState[];
+  readonly present: AppState;
+  readonly future: readonly AppState[];
+  /** State when the current gesture began, or null outside a gesture */
+  readonly gestureStart: AppState | null;
+}
+
+/**
+ * Actions for the history reducer: any app action plus undo, redo, gesture bounds
+ * and forgetting everything recorded so far
+ */
+export type HistoryAction =
+  | AppStateAction
+  | { type: 'UNDO' }
+  | { type: 'REDO' }
+  | { type: 'BEGIN_GESTURE' }
+  | { type: 'END_GESTURE' }
+  | { type: 'CLEAR_HISTORY' };
+
+/**
+ * Actions that change what is looked at or how it is drawn, not the scene itself
+ */
+const NON_UNDOABLE_ACTIONS: ReadonlySet<AppStateAction['type']> = new Set([
+  'SELECT_OBJECT',
+  'CLEAR_SELECTION',
+  'UPDATE_QUALITY',
+]);
+
+/**
+ * Create history with nothing to undo or redo
+ *
+ * @param present - Starting application state
+ * @returns Empty history around the state
+ */
+export const createHistoryState = (
+  present: AppState = createInitialAppState()
+): HistoryState =>
+  Object.freeze({ past: [], present, future: [], gestureStart: null });
+
+/**
+ * Whether there is an edit to undo
+ */
+export const canUndo = (history: HistoryState): boolean =>
+  history.gestureStart === null && history.past.length > 0;
+
+/**
+ * Whether there is an undone edit to redo
+ */
+export const canRedo = (history: HistoryState): boolean =>
+  history.gestureStart === null && history.future.length > 0;
+
+/**
+ * Whether two transform states place every object the same way
+ */
+const haveSameTransforms = (a: TransformState, b: TransformState): boolean => {
+  const ids = Object.keys(a.transforms);
+  return (
+    ids.length === Object.keys(b.transforms).length &&
+    ids.every((id) => {
+      const other = b.transforms[id];
+      return (
+        other !== undefined &&
+        a.transforms[id].position.equals(other.position) &&
+        a.transforms[id].rotation.equals(other.rotation)
+      );
+    })
+  );
+};
+
+/**
+ * Whether two states hold the same scene edits
+ */
+const haveSameEdits = (a: AppState, b: AppState): boolean =>
+  a.scene === b.scene &&
+  a.objects === b.objects &&
+  a.ui === b.ui &&
+  haveSameTransforms(a.transform, b.transform);
+
+/**
+ * Bring back a snapshot's edits, keeping the current selection and quality
+ * The selection is cleared if the snapshot doesn't have the selected object
+ *
+ * @param snapshot - State recorded in the history
+ * @param current - State being replaced
+ * @returns State to show
+ */
+const restoreEdits = (snapshot: AppState, current: AppState): AppState => {
+  const selectedId = current.selection.selectedObjectId;
+  return {
+    ...snapshot,
+    selection:
+      selectedId === null || isSelectableObject(snapshot, selectedId)
+        ? current.selection
+        : clearSelection(current.selection),
+    ui:
+      snapshot.ui.quality === current.ui.quality
+        ? snapshot.ui
+        : { ...snapshot.ui, quality: current.ui.quality },
+  };
+};
+
+/**
+ * Record a finished edit, dropping the oldest entry past the limit
+ */
+const pushPast = (
+  past: readonly AppState[],
+  state: AppState
+): readonly AppState[] => [...past, state].slice(-MAX_HISTORY);
+
+/**
+ * Update history based on action
+ * Edits outside a gesture become one undo entry each; a gesture becomes one entry when it ends
+ *
+ * @param history - Current history
+ * @param action - Action to apply
+ * @returns New history, or the same history if nothing changed
+ */
+export const updateHistory = (
+  history: HistoryState,
+  action: HistoryAction
+): HistoryState => {
+  switch (action.type) {
+    case 'UNDO': {
+      if (!canUndo(history)) {
+        return history;
+      }
+      const previous = history.past[history.past.length - 1];
+      return Object.freeze({
+        past: history.past.slice(0, -1),
+        present: restoreEdits(previous, history.present),
+        future: [history.present, ...history.future],
+        gestureStart: null,
+      });
+    }
+
+    case 'REDO': {
+      if (!canRedo(history)) {
+        return history;
+      }
+      const [next, ...future] = history.future;
+      return Object.freeze({
+        past: pushPast(history.past, history.present),
+        present: restoreEdits(next, history.present),
+        future,
+        gestureStart: null,
+      });
+    }
+
+    case 'BEGIN_GESTURE':
+      if (history.gestureStart !== null) {
+        return history;
+      }
+      return Object.freeze({ ...history, gestureStart: history.present });
+
+    case 'END_GESTURE': {
+      const { gestureStart } = history;
+      if (gestureStart === null) {
+        return history;
+      }
+      if (haveSameEdits(gestureStart, history.present)) {
+        return Object.freeze({ ...history, gestureStart: null });
+      }
+      return Object.freeze({
+        past: pushPast(history.past, gestureStart),
+        present: history.present,
+        future: [],
+        gestureStart: null,
+      });
+    }
+
+    case 'CLEAR_HISTORY':
+      if (history.past.length === 0 && history.future.length === 0) {
+        return history;
+      }
+      return createHistoryState(history.present);
+
+    default: {
+      const present = updateAppState(history.present, action);
+      if (present === history.present) {
+        return history;
+      }
+      // Gestures record their start and finish only
+      if (
+        NON_UNDOABLE_ACTIONS.has(action.type) ||
+        history.gestureStart !== null
+      ) {
+        return Object.freeze({ ...history, present });
+      }
+      return Object.freeze({
+        past: pushPast(history.past, history.present),
+        present,
+        future: [],
+        gestureStart: null,
+      });
+    }
+  }
+};
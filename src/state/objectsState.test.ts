@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createInitialObjectsState,
+  createObjectId,
+  getNextObjectColor,
+  getSceneObject,
+  addObject,
+  removeObject,
+  updateObjectColor,
+  OBJECT_COLORS,
+} from './objectsState';
+
+describe('objectsState', () => {
+  it('should start with the gradient sphere', () => {
+    const state = createInitialObjectsState();
+
+    expect(state.objects).toEqual([
+      { id: 'colorSphere', kind: 'sphere', color: null },
+    ]);
+    expect(Object.isFrozen(state.objects)).toBe(true);
+  });
+
+  it('should number new objects of each shape', () => {
+    const state = addObject(createInitialObjectsState(), {
+      id: 'cube-1',
+      kind: 'cube',
+      color: '#ff6b35',
+    });
+
+    expect(createObjectId(state, 'cube')).toBe('cube-2');
+    expect(createObjectId(state, 'arrow')).toBe('arrow-1');
+    expect(getNextObjectColor(state)).toBe(OBJECT_COLORS[2]);
+  });
+
+  it('should add and remove objects', () => {
+    const cube = { id: 'cube-1', kind: 'cube' as const, color: '#ff6b35' };
+    const added = addObject(createInitialObjectsState(), cube);
+
+    expect(getSceneObject(added, 'cube-1')).toEqual(cube);
+    expect(addObject(added, cube)).toBe(added);
+    expect(addObject(added, { ...cube, id: 'not an id' })).toBe(added);
+
+    const removed = removeObject(added, 'colorSphere');
+    expect(removed.objects.map((object) => object.id)).toEqual(['cube-1']);
+    expect(removeObject(removed, 'colorSphere')).toBe(removed);
+  });
+
+  it('should recolour an object and ignore invalid colours', () => {
+    const state = createInitialObjectsState();
+
+    const recoloured = updateObjectColor(state, 'colorSphere', '#00AAFF');
+
+    expect(getSceneObject(recoloured, 'colorSphere')?.color).toBe('#00aaff');
+    expect(updateObjectColor(recoloured, 'colorSphere', '#00aaff')).toBe(
+      recoloured
+    );
+    expect(updateObjectColor(state, 'colorSphere', 'blue')).toBe(state);
+    expect(updateObjectColor(state, 'missing', '#00aaff')).toBe(state);
+  });
+});
@@ -0,0 +1,206 @@
+// ABOUTME: Pure functions for the collection of placeable objects that emit rays
+// ABOUTME: Each object has an id (also its mesh name), a shape and a colour; transforms live in transform state
+
+import { OBJECT_IDS } from '../constants';
+
+/**
+ * Shapes that differ from their mirror image, so images show which ones are flipped
+ */
+export const CHIRAL_OBJECT_KINDS = [
+  'letterF',
+  'hand',
+  'stripedArrow',
+  'label',
+] as const;
+
+/**
+ * Shapes an object can have
+ */
+export const OBJECT_KINDS = [
+  'sphere',
+  'cube',
+  'arrow',
+  'letter',
+  ...CHIRAL_OBJECT_KINDS,
+] as const;
+
+/**
+ * Shape of a placeable object
+ */
+export type ObjectKind = (typeof OBJECT_KINDS)[number];
+
+/**
+ * Object placed in the room
+ */
+export interface SceneObject {
+  readonly id: string;
+  readonly kind: ObjectKind;
+  readonly color: string | null; // '#rrggbb', or null for the cyan-magenta-yellow gradient
+}
+
+/**
+ * Objects in the room, in the order they were added
+ */
+export interface ObjectsState {
+  readonly objects: readonly SceneObject[];
+}
+
+/**
+ * Colours handed to new objects in turn
+ */
+export const OBJECT_COLORS = [
+  '#ff6b35',
+  '#4ecdc4',
+  '#ffd166',
+  '#9b5de5',
+  '#06d6a0',
+  '#ef476f',
+] as const;
+
+/**
+ * Whether a value names an object shape
+ */
+export const isObjectKind = (value: unknown): value is ObjectKind =>
+  OBJECT_KINDS.some((kind) => kind === value);
+
+/**
+ * Whether a value is a '#rrggbb' colour
+ */
+export const isObjectColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+/**
+ * Whether a value can be an object id (letters, digits and dashes, so it fits in links)
+ */
+export const isObjectId = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Za-z][A-Za-z0-9-]*$/.test(value);
+
+/**
+ * Create initial objects state: the gradient sphere
+ */
+export const createInitialObjectsState = (): ObjectsState =>
+  Object.freeze({
+    objects: Object.freeze([
+      Object.freeze({
+        id: OBJECT_IDS.SPHERE,
+        kind: 'sphere' as const,
+        color: null,
+      }),
+    ]),
+  });
+
+/**
+ * Find an object by id
+ *
+ * @param state - Current objects state
+ * @param objectId - Object id
+ * @returns The object, or null if there is none with that id
+ */
+export const getSceneObject = (
+  state: ObjectsState,
+  objectId: string
+): SceneObject | null =>
+  state.objects.find((object) => object.id === objectId) ?? null;
+
+/**
+ * Pick an unused id for a new object, numbering objects of each shape
+ *
+ * @param state - Current objects state
+ * @param kind - Shape of the new object
+ * @returns Id such as "cube-2"
+ */
+export const createObjectId = (
+  state: ObjectsState,
+  kind: ObjectKind
+): string => {
+  let number = 1;
+  while (getSceneObject(state, `${kind}-${number}`)) {
+    number += 1;
+  }
+  return `${kind}-${number}`;
+};
+
+/**
+ * Pick the colour for the next object, cycling through the palette
+ *
+ * @param state - Current objects state
+ * @returns '#rrggbb' colour
+ */
+export const getNextObjectColor = (state: ObjectsState): string =>
+  OBJECT_COLORS[state.objects.length % OBJECT_COLORS.length];
+
+/**
+ * Add an object
+ *
+ * @param state - Current objects state
+ * @param object - Object to add
+ * @returns New state, or the same state if the id is taken or invalid
+ */
+export const addObject = (
+  state: ObjectsState,
+  object: SceneObject
+): ObjectsState => {
+  if (!isObjectId(object.id) || getSceneObject(state, object.id)) {
+    return state;
+  }
+
+  return Object.freeze({
+    objects: Object.freeze([...state.objects, Object.freeze({ ...object })]),
+  });
+};
+
+/**
+ * Remove an object
+ *
+ * @param state - Current objects state
+ * @param objectId - Object id
+ * @returns New state, or the same state if there is no such object
+ */
+export const removeObject = (
+  state: ObjectsState,
+  objectId: string
+): ObjectsState => {
+  if (!getSceneObject(state, objectId)) {
+    return state;
+  }
+
+  return Object.freeze({
+    objects: Object.freeze(
+      state.objects.filter((object) => object.id !== objectId)
+    ),
+  });
+};
+
+/**
+ * Change an object's colour
+ *
+ * @param state - Current objects state
+ * @param objectId - Object id
+ * @param color - '#rrggbb' colour, or null for the gradient
+ * @returns New state, or the same state if nothing changed or the colour is invalid
+ */
+export const updateObjectColor = (
+  state: ObjectsState,
+  objectId: string,
+  color: string | null
+): ObjectsState => {
+  const object = getSceneObject(state, objectId);
+  if (!object || (color !== null && !isObjectColor(color))) {
+    return state;
+  }
+  // Colour pickers report lowercase, typed colours may not
+  const nextColor = color?.toLowerCase() ?? null;
+  if (object.color === nextColor) {
+    return state;
+  }
+
+  return Object.freeze({
+    objects: Object.freeze(
+      state.objects.map((candidate) =>
+        candidate === object
+          ? Object.freeze({ ...candidate, color: nextColor })
+          : candidate
+      )
+    ),
+  });
+};
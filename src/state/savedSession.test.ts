@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Vector3 } from 'babylonjs';
+import {
+  SAVED_SESSION_KEY,
+  writeSavedSession,
+  readSavedSession,
+  clearSavedSession,
+} from './savedSession';
+import { createSceneDocument, SCENE_DOCUMENT_FORMAT } from './sceneDocument';
+import { createInitialAppState, updateAppState } from './appState';
+
+const createDocument = (): ReturnType<typeof createSceneDocument> =>
+  createSceneDocument(
+    updateAppState(createInitialAppState(), {
+      type: 'UPDATE_RAY_COUNT',
+      payload: { count: 5 },
+    }),
+    {
+      colorSphere: { position: new Vector3(0, 5, 5), rotation: Vector3.Zero() },
+      cameraIndicator: {
+        position: new Vector3(0, 5, -5),
+        rotation: Vector3.Zero(),
+      },
+    }
+  );
+
+describe('savedSession', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should have nothing to restore on a first visit', () => {
+    expect(readSavedSession(localStorage)).toBeNull();
+  });
+
+  it('should read back a saved session', () => {
+    const document = createDocument();
+
+    expect(writeSavedSession(localStorage, document, 1234)).toBe(true);
+    const session = readSavedSession(localStorage);
+
+    expect(session?.savedAt).toBe(1234);
+    expect(session?.document).toEqual(document);
+  });
+
+  it('should forget a cleared session', () => {
+    writeSavedSession(localStorage, createDocument());
+
+    clearSavedSession(localStorage);
+
+    expect(readSavedSession(localStorage)).toBeNull();
+  });
+
+  it('should describe unusable saved data', () => {
+    localStorage.setItem(SAVED_SESSION_KEY, '{ broken');
+    expect(() => readSavedSession(localStorage)).toThrow('not valid JSON');
+
+    localStorage.setItem(
+      SAVED_SESSION_KEY,
+      JSON.stringify({
+        savedAt: 1,
+        document: { format: SCENE_DOCUMENT_FORMAT, version: 99 },
+      })
+    );
+    expect(() => readSavedSession(localStorage)).toThrow(
+      'Invalid saved session: version 99 is newer'
+    );
+  });
+
+  it('should report when storage refuses the session', () => {
+    const fullStorage = {
+      setItem: () => {
+        throw new Error('QuotaExceededError');
+      },
+    } as unknown as Storage;
+
+    expect(writeSavedSession(fullStorage, createDocument())).toBe(false);
+  });
+});
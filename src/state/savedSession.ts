@@ -0,0 +1,92 @@
+// ABOUTME: Keeps the last scene in localStorage so a reload can pick up where the user left off
+// ABOUTME: Sessions hold a versioned scene document, migrated on read like files and links
+
+import { validateSceneDocument, type SceneDocument } from './sceneDocument';
+
+/**
+ * localStorage key for the saved session
+ */
+export const SAVED_SESSION_KEY = 'brilliant-reflections:session';
+
+/**
+ * Quiet time after the last change before the session is written
+ */
+export const AUTOSAVE_DELAY_MS = 500;
+
+/**
+ * Scene saved from an earlier visit
+ */
+export interface SavedSession {
+  readonly savedAt: number; // Milliseconds since the epoch
+  readonly document: SceneDocument;
+}
+
+/**
+ * Write the scene to storage
+ * Storage can be full or disabled (private browsing); the scene then just isn't saved
+ *
+ * @param storage - Storage to write to
+ * @param document - Scene to save
+ * @param savedAt - Save time
+ * @returns Whether the scene was saved
+ */
+export const writeSavedSession = (
+  storage: Storage,
+  document: SceneDocument,
+  savedAt: number = Date.now()
+): boolean => {
+  const session: SavedSession = { savedAt, document };
+  try {
+    storage.setItem(SAVED_SESSION_KEY, JSON.stringify(session));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Read the session saved by an earlier visit
+ * Throws a descriptive error if the saved data can't be used
+ *
+ * @param storage - Storage to read from
+ * @returns Saved session, or null if there is none
+ */
+export const readSavedSession = (storage: Storage): SavedSession | null => {
+  let text: string | null;
+  try {
+    text = storage.getItem(SAVED_SESSION_KEY);
+  } catch {
+    return null;
+  }
+  if (text === null) {
+    return null;
+  }
+
+  let session: Partial<Record<keyof SavedSession, unknown>> | null;
+  try {
+    session = JSON.parse(text) as typeof session;
+  } catch {
+    throw new Error('Invalid saved session: not valid JSON');
+  }
+  if (typeof session?.savedAt !== 'number') {
+    throw new Error('Invalid saved session: save time is missing');
+  }
+
+  return {
+    savedAt: session.savedAt,
+    document: validateSceneDocument(session.document, 'saved session'),
+  };
+};
+
+/**
+ * Forget the saved session
+ *
+ * @param storage - Storage holding the session
+ */
+export const clearSavedSession = (storage: Storage): void => {
+  try {
+    storage.removeItem(SAVED_SESSION_KEY);
+  } catch {
+    // Nothing to clear when storage is disabled
+  }
+};
@@ -0,0 +1,359 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'babylonjs';
+import {
+  createSceneDocument,
+  serializeSceneDocument,
+  parseSceneDocument,
+  applySceneDocument,
+  migrateSceneDocument,
+  SCENE_DOCUMENT_FORMAT,
+  SCENE_DOCUMENT_VERSION,
+  type SceneDocumentMigration,
+} from './sceneDocument';
+import {
+  createInitialAppState,
+  updateAppState,
+  type AppState,
+} from './appState';
+
+const placements = {
+  colorSphere: { position: new Vector3(0, 5, 5), rotation: Vector3.Zero() },
+  cameraIndicator: {
+    position: new Vector3(0, 5, -5),
+    rotation: new Vector3(0, 0.5, 0),
+  },
+};
+
+const createEditedState = (): AppState =>
+  [
+    {
+      type: 'UPDATE_TRANSFORM' as const,
+      payload: {
+        objectId: 'colorSphere',
+        position: new Vector3(2, 5, 1),
+        rotation: new Vector3(0, 1, 0),
+      },
+    },
+    { type: 'UPDATE_RAY_COUNT' as const, payload: { count: 4 } },
+    { type: 'SELECT_ROOM_PRESET' as const, payload: { presetId: 'hexagon' } },
+    { type: 'SET_PILLAR_ENABLED' as const, payload: { enabled: true } },
+  ].reduce(updateAppState, createInitialAppState());
+
+describe('sceneDocument', () => {
+  it('should describe the scene with placements for unmoved objects', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+
+    expect(document.format).toBe(SCENE_DOCUMENT_FORMAT);
+    expect(document.version).toBe(SCENE_DOCUMENT_VERSION);
+    expect(document.objects.colorSphere.position).toEqual([2, 5, 1]);
+    expect(document.camera.rotation).toEqual([0, 0.5, 0]);
+    expect(document.rays.rayCount).toBe(4);
+    expect(document.room.presetId).toBe('hexagon');
+    expect(document.room.isPillarEnabled).toBe(true);
+  });
+
+  it('should read back what it writes', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+
+    const parsed = parseSceneDocument(serializeSceneDocument(document));
+
+    expect(parsed).toEqual(document);
+  });
+
+  it('should restore the scene from a document', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+    const current = updateAppState(createInitialAppState(), {
+      type: 'SELECT_OBJECT',
+      payload: { objectId: 'colorSphere' },
+    });
+
+    const restored = applySceneDocument(current, document);
+
+    expect(restored.selection.selectedObjectId).toBeNull();
+    expect(restored.transform.transforms.colorSphere.position.x).toBe(2);
+    expect(restored.transform.transforms.cameraIndicator.rotation.y).toBe(0.5);
+    expect(restored.ui.rayCount).toBe(4);
+    expect(restored.ui.quality).toBe(current.ui.quality);
+    expect(restored.scene).toEqual(createEditedState().scene);
+  });
+
+  it('should load scenes through the app state reducer', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+
+    const loaded = updateAppState(createInitialAppState(), {
+      type: 'LOAD_SCENE',
+      payload: { document },
+    });
+
+    expect(loaded.scene.roomPresetId).toBe('hexagon');
+  });
+
+  it('should reject text that is not JSON', () => {
+    expect(() => parseSceneDocument('{ nope')).toThrow('not valid JSON');
+  });
+
+  it('should reject JSON that is not a scene', () => {
+    expect(() => parseSceneDocument('{"hello": 1}')).toThrow(
+      'not a Brilliant Reflections scene'
+    );
+  });
+
+  it('should reject documents from a newer version', () => {
+    const text = JSON.stringify({
+      format: SCENE_DOCUMENT_FORMAT,
+      version: SCENE_DOCUMENT_VERSION + 1,
+    });
+
+    expect(() => parseSceneDocument(text)).toThrow('newer than this app');
+  });
+
+  it('should list every problem in a malformed document', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+    const text = JSON.stringify({
+      ...document,
+      objects: { colorSphere: { position: [1, 2], rotation: [0, 0, 0] } },
+      rays: { ...document.rays, emissionPattern: 'spiral' },
+      room: { ...document.room, mirrorWalls: ['north', 'moon'] },
+    });
+
+    let message = '';
+    try {
+      parseSceneDocument(text);
+    } catch (error) {
+      message = (error as Error).message;
+    }
+
+    expect(message).toContain(
+      'objects.colorSphere.position must be a list of three numbers'
+    );
+    expect(message).toContain('rays.emissionPattern "spiral"');
+    expect(message).toContain('room.mirrorWalls has "moon"');
+  });
+
+  it('should upgrade older documents one version at a time', () => {
+    const addFlag: SceneDocumentMigration = (data) => ({
+      ...data,
+      upgraded: true,
+    });
+    const migrations = { [SCENE_DOCUMENT_VERSION - 1]: addFlag };
+
+    const migrated = migrateSceneDocument(
+      { format: SCENE_DOCUMENT_FORMAT, version: SCENE_DOCUMENT_VERSION - 1 },
+      'saved session',
+      migrations
+    );
+
+    expect(migrated.version).toBe(SCENE_DOCUMENT_VERSION);
+    expect(migrated.upgraded).toBe(true);
+  });
+
+  it('should describe added objects with their shape and colour', () => {
+    const state = updateAppState(createEditedState(), {
+      type: 'ADD_OBJECT',
+      payload: { kind: 'cube', position: new Vector3(-2, 5, 3) },
+    });
+
+    const document = createSceneDocument(state, placements);
+    const restored = applySceneDocument(
+      createInitialAppState(),
+      parseSceneDocument(serializeSceneDocument(document))
+    );
+
+    expect(document.objects['cube-1']).toEqual({
+      kind: 'cube',
+      color: state.objects.objects[1].color,
+      position: [-2, 5, 3],
+      rotation: [0, 0, 0],
+    });
+    expect(restored.objects).toEqual(state.objects);
+  });
+
+  it('should give version 1 documents their sphere as an object', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+    const text = JSON.stringify({
+      ...document,
+      version: 1,
+      objects: {},
+    });
+
+    const parsed = parseSceneDocument(text);
+
+    expect(parsed.version).toBe(SCENE_DOCUMENT_VERSION);
+    expect(parsed.objects.colorSphere).toEqual({
+      kind: 'sphere',
+      color: null,
+      position: [0, 5, 5],
+      rotation: [0, 0, 0],
+    });
+  });
+
+  it('should start version 2 documents without handedness labels', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+    const { showHandedness, ...room } = document.room;
+    const text = JSON.stringify({ ...document, version: 2, room });
+
+    const parsed = parseSceneDocument(text);
+
+    expect(showHandedness).toBe(false);
+    expect(parsed.room.showHandedness).toBe(false);
+  });
+
+  it('should keep the ray style and width through save and load', () => {
+    const state = [
+      {
+        type: 'UPDATE_RAY_STYLE' as const,
+        payload: { style: 'tubes' as const },
+      },
+      { type: 'UPDATE_RAY_WIDTH' as const, payload: { width: 0.2 } },
+    ].reduce(updateAppState, createEditedState());
+
+    const restored = applySceneDocument(
+      createInitialAppState(),
+      parseSceneDocument(
+        serializeSceneDocument(createSceneDocument(state, placements))
+      )
+    );
+
+    expect(restored.ui).toEqual(state.ui);
+  });
+
+  it('should start version 3 documents with thin line rays', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+    const { rayStyle, rayWidth, ...rays } = document.rays;
+    const text = JSON.stringify({ ...document, version: 3, rays });
+
+    const parsed = parseSceneDocument(text);
+
+    expect(parsed.rays).toEqual(document.rays);
+    expect(parsed.rays.rayStyle).toBe(rayStyle);
+    expect(parsed.rays.rayWidth).toBe(rayWidth);
+  });
+
+  it('should reject unknown ray styles', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+    const text = JSON.stringify({
+      ...document,
+      rays: { ...document.rays, rayStyle: 'ribbons' },
+    });
+
+    expect(() => parseSceneDocument(text)).toThrow(
+      'rays.rayStyle "ribbons" is not a known style'
+    );
+  });
+
+  it('should keep the render view ray options through save and load', () => {
+    const state = [
+      {
+        type: 'SET_RENDER_VIEW_RAYS_VISIBLE' as const,
+        payload: { visible: true },
+      },
+      { type: 'SET_RAY_GLOW_ENABLED' as const, payload: { enabled: true } },
+      {
+        type: 'SET_UNFOLDED_RAYS_VISIBLE' as const,
+        payload: { visible: true },
+      },
+    ].reduce(updateAppState, createEditedState());
+
+    const restored = applySceneDocument(
+      createInitialAppState(),
+      parseSceneDocument(
+        serializeSceneDocument(createSceneDocument(state, placements))
+      )
+    );
+
+    expect(restored.ui).toEqual(state.ui);
+  });
+
+  it('should start version 4 documents with rays in the editor only', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+    const { showRenderViewRays, rayGlow, showUnfoldedRays, ...rays } =
+      document.rays;
+    const text = JSON.stringify({ ...document, version: 4, rays });
+
+    const parsed = parseSceneDocument(text);
+
+    expect([showRenderViewRays, rayGlow, showUnfoldedRays]).toEqual([
+      false,
+      false,
+      false,
+    ]);
+    expect(parsed.rays).toEqual(document.rays);
+  });
+
+  it('should reject render view ray options that are not true or false', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+    const text = JSON.stringify({
+      ...document,
+      rays: { ...document.rays, rayGlow: 'yes' },
+    });
+
+    expect(() => parseSceneDocument(text)).toThrow(
+      'rays.rayGlow must be true or false'
+    );
+  });
+
+  it('should keep the editor view through save and load', () => {
+    const state = updateAppState(createEditedState(), {
+      type: 'UPDATE_EDITOR_MODE',
+      payload: { mode: 'unfolded' },
+    });
+
+    const restored = applySceneDocument(
+      createInitialAppState(),
+      parseSceneDocument(
+        serializeSceneDocument(createSceneDocument(state, placements))
+      )
+    );
+
+    expect(restored.ui.editorMode).toBe('unfolded');
+  });
+
+  it('should start version 5 documents with the room alone in the editor', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+    const { editorMode, ...rays } = document.rays;
+    const text = JSON.stringify({ ...document, version: 5, rays });
+
+    const parsed = parseSceneDocument(text);
+
+    expect(editorMode).toBe('room');
+    expect(parsed.rays).toEqual(document.rays);
+  });
+
+  it('should reject unknown editor views', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+    const text = JSON.stringify({
+      ...document,
+      rays: { ...document.rays, editorMode: 'folded' },
+    });
+
+    expect(() => parseSceneDocument(text)).toThrow(
+      'rays.editorMode "folded" is not a known mode'
+    );
+  });
+
+  it('should reject unknown object shapes and colours', () => {
+    const document = createSceneDocument(createEditedState(), placements);
+    const text = JSON.stringify({
+      ...document,
+      objects: {
+        'blob-1': { ...document.objects.colorSphere, kind: 'blob' },
+        'cube-1': { ...document.objects.colorSphere, color: 'red' },
+      },
+    });
+
+    expect(() => parseSceneDocument(text)).toThrow(
+      'objects.blob-1.kind "blob" is not one of'
+    );
+    expect(() => parseSceneDocument(text)).toThrow(
+      'objects.cube-1.color must be a #rrggbb colour'
+    );
+  });
+
+  it('should reject versions that cannot be upgraded', () => {
+    const text = JSON.stringify({ format: SCENE_DOCUMENT_FORMAT, version: 0 });
+
+    expect(() => parseSceneDocument(text)).toThrow(
+      'version 0 is not supported'
+    );
+  });
+});
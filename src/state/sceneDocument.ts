@@ -0,0 +1,560 @@
+// ABOUTME: Versioned JSON scene document for saving and loading a whole scene
+// ABOUTME: Converts app state to and from the document and validates files read from disk
+
+import { Vector3 } from 'babylonjs';
+import type { AppState } from './appState';
+import { createInitialSelectionState } from './selectionState';
+import type { ObjectTransform, TransformState } from './transformState';
+import {
+  createInitialUIState,
+  validateRayCount,
+  validateFanRays,
+  validateMaxBounces,
+  validateEmissionPattern,
+  validateRayStyle,
+  validateRayWidth,
+  validateEditorMode,
+  type EditorMode,
+} from './uiState';
+import type { SceneState } from './sceneState';
+import {
+  isObjectColor,
+  isObjectId,
+  isObjectKind,
+  OBJECT_KINDS,
+  type ObjectKind,
+  type ObjectsState,
+} from './objectsState';
+import { createInitialStateConfig } from '../config/initialState';
+import { getRoomPreset, ROOM_PRESETS } from '../geometry/roomPresets';
+import { getRoomSurfaces } from '../geometry/roomDefinition';
+import { OBJECT_IDS } from '../constants';
+import type { EmissionPattern, RayStyle } from '../rays/types';
+
+/**
+ * Marks a JSON file as a scene document
+ */
+export const SCENE_DOCUMENT_FORMAT = 'brilliant-reflections-scene';
+
+/**
+ * Version written by this build; bump it when the document layout changes
+ */
+export const SCENE_DOCUMENT_VERSION = 6;
+
+/**
+ * Vector stored as [x, y, z]
+ */
+export type Vector3Tuple = readonly [number, number, number];
+
+/**
+ * Position and rotation of one object in a document
+ */
+export interface DocumentTransform {
+  readonly position: Vector3Tuple;
+  readonly rotation: Vector3Tuple;
+}
+
+/**
+ * Shape, colour and placement of one placeable object in a document
+ */
+export interface DocumentObject extends DocumentTransform {
+  readonly kind: ObjectKind;
+  readonly color: string | null;
+}
+
+/**
+ * Saved scene: objects, ray settings, room and mirrors, and the camera
+ * Objects are keyed by id, in the order they were added
+ */
+export interface SceneDocument {
+  readonly format: typeof SCENE_DOCUMENT_FORMAT;
+  readonly version: number;
+  readonly objects: Readonly<Record<string, DocumentObject>>;
+  readonly camera: DocumentTransform;
+  readonly rays: {
+    readonly rayCount: number;
+    readonly fanRays: number;
+    readonly maxBounces: number;
+    readonly emissionPattern: EmissionPattern;
+    readonly rayStyle: RayStyle;
+    readonly rayWidth: number;
+    readonly showRenderViewRays: boolean;
+    readonly rayGlow: boolean;
+    readonly showUnfoldedRays: boolean;
+    readonly editorMode: EditorMode;
+  };
+  readonly room: {
+    readonly presetId: string;
+    readonly mirrorWalls: readonly string[];
+    readonly isPillarEnabled: boolean;
+    readonly showImagePaths: boolean;
+    readonly showHandedness: boolean;
+  };
+}
+
+/**
+ * Upgrade from an older document layout to the next version
+ */
+export type SceneDocumentMigration = (
+  data: Readonly<Record<string, unknown>>
+) => Record<string, unknown>;
+
+/**
+ * Version 1 only had the gradient sphere, stored as a bare transform and left out when unmoved
+ */
+const migrateFromVersion1: SceneDocumentMigration = (data) => {
+  const objects = isRecord(data.objects) ? data.objects : {};
+  const { position, rotation } = createInitialStateConfig().cube;
+  const sphere = objects[OBJECT_IDS.SPHERE] ?? {
+    position: toTuple(position),
+    rotation: toTuple(rotation),
+  };
+
+  return {
+    ...data,
+    objects: {
+      [OBJECT_IDS.SPHERE]: isRecord(sphere)
+        ? { ...sphere, kind: 'sphere', color: null }
+        : sphere,
+    },
+  };
+};
+
+/**
+ * Version 2 had no handedness labels
+ */
+const migrateFromVersion2: SceneDocumentMigration = (data) => ({
+  ...data,
+  room: isRecord(data.room)
+    ? { ...data.room, showHandedness: false }
+    : data.room,
+});
+
+/**
+ * Version 3 only had thin line rays
+ */
+const migrateFromVersion3: SceneDocumentMigration = (data) => {
+  const { rayStyle, rayWidth } = createInitialUIState();
+  return {
+    ...data,
+    rays: isRecord(data.rays)
+      ? { rayStyle, rayWidth, ...data.rays }
+      : data.rays,
+  };
+};
+
+/**
+ * Version 4 only drew rays in the editor
+ */
+const migrateFromVersion4: SceneDocumentMigration = (data) => {
+  const { showRenderViewRays, rayGlow, showUnfoldedRays } =
+    createInitialUIState();
+  return {
+    ...data,
+    rays: isRecord(data.rays)
+      ? { showRenderViewRays, rayGlow, showUnfoldedRays, ...data.rays }
+      : data.rays,
+  };
+};
+
+/**
+ * Version 5 showed the room alone in the editor
+ */
+const migrateFromVersion5: SceneDocumentMigration = (data) => {
+  const { editorMode } = createInitialUIState();
+  return {
+    ...data,
+    rays: isRecord(data.rays) ? { editorMode, ...data.rays } : data.rays,
+  };
+};
+
+/**
+ * Upgrades keyed by the version they start from
+ * Add one here when bumping SCENE_DOCUMENT_VERSION, so old files, links and sessions still load
+ */
+const SCENE_DOCUMENT_MIGRATIONS: Readonly<
+  Record<number, SceneDocumentMigration>
+> = {
+  1: migrateFromVersion1,
+  2: migrateFromVersion2,
+  3: migrateFromVersion3,
+  4: migrateFromVersion4,
+  5: migrateFromVersion5,
+};
+
+/**
+ * Store a vector as [x, y, z]
+ */
+const toTuple = (vector: Vector3): Vector3Tuple => [
+  vector.x,
+  vector.y,
+  vector.z,
+];
+
+/**
+ * Store an object transform as plain numbers
+ */
+const toDocumentTransform = (
+  transform: ObjectTransform
+): DocumentTransform => ({
+  position: toTuple(transform.position),
+  rotation: toTuple(transform.rotation),
+});
+
+/**
+ * Turn a stored transform back into vectors
+ */
+const toObjectTransform = (transform: DocumentTransform): ObjectTransform => ({
+  position: Vector3.FromArray(transform.position),
+  rotation: Vector3.FromArray(transform.rotation),
+});
+
+/**
+ * Describe the scene held in the app state
+ *
+ * @param state - Current application state
+ * @param placements - Where each object currently is, used for objects the state has no transform for
+ * @returns Scene document
+ */
+export const createSceneDocument = (
+  state: AppState,
+  placements: Readonly<Record<string, ObjectTransform>>
+): SceneDocument => {
+  const transformOf = (objectId: string): DocumentTransform =>
+    toDocumentTransform(
+      state.transform.transforms[objectId] ?? placements[objectId]
+    );
+
+  return {
+    format: SCENE_DOCUMENT_FORMAT,
+    version: SCENE_DOCUMENT_VERSION,
+    objects: Object.fromEntries(
+      state.objects.objects
+        .filter(({ id }) => state.transform.transforms[id] ?? placements[id])
+        .map(({ id, kind, color }) => [id, { kind, color, ...transformOf(id) }])
+    ),
+    camera: transformOf(OBJECT_IDS.CAMERA_INDICATOR),
+    rays: {
+      rayCount: state.ui.rayCount,
+      fanRays: state.ui.fanRays,
+      maxBounces: state.ui.maxBounces,
+      emissionPattern: state.ui.emissionPattern,
+      rayStyle: state.ui.rayStyle,
+      rayWidth: state.ui.rayWidth,
+      showRenderViewRays: state.ui.showRenderViewRays,
+      rayGlow: state.ui.rayGlow,
+      showUnfoldedRays: state.ui.showUnfoldedRays,
+      editorMode: state.ui.editorMode,
+    },
+    room: {
+      presetId: state.scene.roomPresetId,
+      mirrorWalls: [...state.scene.mirrorWalls],
+      isPillarEnabled: state.scene.isPillarEnabled,
+      showImagePaths: state.scene.showImagePaths,
+      showHandedness: state.scene.showHandedness,
+    },
+  };
+};
+
+/**
+ * Write a scene document as indented JSON
+ */
+export const serializeSceneDocument = (document: SceneDocument): string =>
+  JSON.stringify(document, null, 2);
+
+/**
+ * Whether a parsed JSON value is a plain object
+ */
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Whether a parsed JSON value is a list of three finite numbers
+ */
+const isVector3Tuple = (value: unknown): value is Vector3Tuple =>
+  Array.isArray(value) &&
+  value.length === 3 &&
+  value.every((item) => typeof item === 'number' && Number.isFinite(item));
+
+/**
+ * Collect problems with a transform entry
+ */
+const checkTransform = (
+  value: unknown,
+  path: string,
+  issues: string[]
+): void => {
+  if (!isRecord(value)) {
+    issues.push(`${path} must be an object with position and rotation`);
+    return;
+  }
+  ['position', 'rotation'].forEach((key) => {
+    if (!isVector3Tuple(value[key])) {
+      issues.push(`${path}.${key} must be a list of three numbers`);
+    }
+  });
+};
+
+/**
+ * Collect problems with an object entry: its id, shape, colour and transform
+ */
+const checkObject = (
+  objectId: string,
+  value: unknown,
+  issues: string[]
+): void => {
+  const path = `objects.${objectId}`;
+  if (!isObjectId(objectId) || objectId === OBJECT_IDS.CAMERA_INDICATOR) {
+    issues.push(`${path} is not a valid object id`);
+  }
+  checkTransform(value, path, issues);
+  if (!isRecord(value)) {
+    return;
+  }
+  if (!isObjectKind(value.kind)) {
+    issues.push(
+      `${path}.kind ${JSON.stringify(value.kind)} is not one of ${OBJECT_KINDS.join(', ')}`
+    );
+  }
+  if (value.color !== null && !isObjectColor(value.color)) {
+    issues.push(`${path}.color must be a #rrggbb colour or null`);
+  }
+};
+
+/**
+ * Collect problems with the ray settings
+ */
+const checkRays = (value: unknown, issues: string[]): void => {
+  if (!isRecord(value)) {
+    issues.push('rays must be an object');
+    return;
+  }
+  ['rayCount', 'fanRays', 'maxBounces', 'rayWidth'].forEach((key) => {
+    if (typeof value[key] !== 'number' || !Number.isFinite(value[key])) {
+      issues.push(`rays.${key} must be a number`);
+    }
+  });
+  const pattern = value.emissionPattern;
+  if (
+    typeof pattern !== 'string' ||
+    validateEmissionPattern(pattern) !== pattern
+  ) {
+    issues.push(
+      `rays.emissionPattern ${JSON.stringify(pattern)} is not a known pattern`
+    );
+  }
+  const style = value.rayStyle;
+  if (typeof style !== 'string' || validateRayStyle(style) !== style) {
+    issues.push(`rays.rayStyle ${JSON.stringify(style)} is not a known style`);
+  }
+  const mode = value.editorMode;
+  if (typeof mode !== 'string' || validateEditorMode(mode) !== mode) {
+    issues.push(`rays.editorMode ${JSON.stringify(mode)} is not a known mode`);
+  }
+  ['showRenderViewRays', 'rayGlow', 'showUnfoldedRays'].forEach((key) => {
+    if (typeof value[key] !== 'boolean') {
+      issues.push(`rays.${key} must be true or false`);
+    }
+  });
+};
+
+/**
+ * Collect problems with the room, including mirrors the room shape doesn't have
+ */
+const checkRoom = (value: unknown, issues: string[]): void => {
+  if (!isRecord(value)) {
+    issues.push('room must be an object');
+    return;
+  }
+
+  const preset =
+    typeof value.presetId === 'string' ? getRoomPreset(value.presetId) : null;
+  if (!preset) {
+    const known = ROOM_PRESETS.map((candidate) => candidate.id).join(', ');
+    issues.push(
+      `room.presetId ${JSON.stringify(value.presetId)} is not one of ${known}`
+    );
+  }
+
+  const mirrorWalls = value.mirrorWalls;
+  if (
+    !Array.isArray(mirrorWalls) ||
+    !mirrorWalls.every((wallId) => typeof wallId === 'string')
+  ) {
+    issues.push('room.mirrorWalls must be a list of surface ids');
+  } else if (preset) {
+    const surfaceIds = getRoomSurfaces(preset.create()).map((wall) => wall.id);
+    mirrorWalls
+      .filter((wallId) => !surfaceIds.includes(wallId))
+      .forEach((wallId) =>
+        issues.push(
+          `room.mirrorWalls has "${wallId}", which the ${preset.id} room doesn't have`
+        )
+      );
+  }
+
+  ['isPillarEnabled', 'showImagePaths', 'showHandedness'].forEach((key) => {
+    if (typeof value[key] !== 'boolean') {
+      issues.push(`room.${key} must be true or false`);
+    }
+  });
+};
+
+/**
+ * Collect problems with every part of current-version document data
+ * Throws an error listing them all
+ */
+const checkSceneDocument = (
+  data: Readonly<Record<string, unknown>>,
+  source: string
+): SceneDocument => {
+  const issues: string[] = [];
+  if (!isRecord(data.objects)) {
+    issues.push('objects must be an object keyed by object id');
+  } else {
+    Object.entries(data.objects).forEach(([objectId, object]) =>
+      checkObject(objectId, object, issues)
+    );
+  }
+  checkTransform(data.camera, 'camera', issues);
+  checkRays(data.rays, issues);
+  checkRoom(data.room, issues);
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid ${source}:\n- ${issues.join('\n- ')}`);
+  }
+
+  return data as unknown as SceneDocument;
+};
+
+/**
+ * Bring document data of an older version up to the current version
+ *
+ * @param data - Parsed document data
+ * @param source - What the data came from, for error messages
+ * @param migrations - Upgrades keyed by the version they start from
+ * @returns Data at the current version
+ */
+export const migrateSceneDocument = (
+  data: Readonly<Record<string, unknown>>,
+  source = 'scene file',
+  migrations: Readonly<
+    Record<number, SceneDocumentMigration>
+  > = SCENE_DOCUMENT_MIGRATIONS
+): Readonly<Record<string, unknown>> => {
+  let migrated = data;
+  while (
+    typeof migrated.version === 'number' &&
+    migrated.version < SCENE_DOCUMENT_VERSION
+  ) {
+    const version = migrated.version;
+    const migration = migrations[version];
+    if (!migration) {
+      throw new Error(`Invalid ${source}: version ${version} is not supported`);
+    }
+    migrated = { ...migration(migrated), version: version + 1 };
+  }
+  return migrated;
+};
+
+/**
+ * Check that parsed data is a scene document this app can load
+ * Older versions are migrated first
+ * Throws an error listing every problem found, so a broken scene can be fixed by hand
+ *
+ * @param data - Parsed JSON value
+ * @param source - What the data came from, for error messages
+ * @returns Validated scene document
+ */
+export const validateSceneDocument = (
+  data: unknown,
+  source = 'scene file'
+): SceneDocument => {
+  if (!isRecord(data) || data.format !== SCENE_DOCUMENT_FORMAT) {
+    throw new Error(`Invalid ${source}: not a Brilliant Reflections scene`);
+  }
+  if (typeof data.version !== 'number') {
+    throw new Error(`Invalid ${source}: version is missing`);
+  }
+  if (data.version > SCENE_DOCUMENT_VERSION) {
+    throw new Error(
+      `Invalid ${source}: version ${data.version} is newer than this app supports (${SCENE_DOCUMENT_VERSION})`
+    );
+  }
+  return checkSceneDocument(migrateSceneDocument(data, source), source);
+};
+
+/**
+ * Read a scene document from JSON text
+ *
+ * @param text - File contents
+ * @returns Validated scene document
+ */
+export const parseSceneDocument = (text: string): SceneDocument => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Invalid scene file: not valid JSON');
+  }
+
+  return validateSceneDocument(data);
+};
+
+/**
+ * Replace the scene in the app state with a document's scene, objects included
+ * Selection is cleared; quality and render mode stay as they are
+ *
+ * @param state - Current application state
+ * @param document - Validated scene document
+ * @returns New application state
+ */
+export const applySceneDocument = (
+  state: AppState,
+  document: SceneDocument
+): AppState => {
+  const objects: ObjectsState = Object.freeze({
+    objects: Object.freeze(
+      Object.entries(document.objects).map(([id, { kind, color }]) =>
+        Object.freeze({ id, kind, color })
+      )
+    ),
+  });
+  const transform: TransformState = {
+    transforms: Object.fromEntries([
+      ...Object.entries(document.objects).map(
+        ([objectId, transform]) =>
+          [objectId, toObjectTransform(transform)] as const
+      ),
+      [OBJECT_IDS.CAMERA_INDICATOR, toObjectTransform(document.camera)],
+    ]),
+  };
+  const scene: SceneState = Object.freeze({
+    roomPresetId:
+      getRoomPreset(document.room.presetId)?.id ?? ROOM_PRESETS[0].id,
+    mirrorWalls: Object.freeze([...document.room.mirrorWalls]),
+    isPillarEnabled: document.room.isPillarEnabled,
+    showImagePaths: document.room.showImagePaths,
+    showHandedness: document.room.showHandedness,
+  });
+
+  return {
+    selection: createInitialSelectionState(),
+    transform,
+    objects,
+    ui: Object.freeze({
+      ...state.ui,
+      rayCount: validateRayCount(document.rays.rayCount),
+      fanRays: validateFanRays(document.rays.fanRays),
+      maxBounces: validateMaxBounces(document.rays.maxBounces),
+      emissionPattern: document.rays.emissionPattern,
+      rayStyle: document.rays.rayStyle,
+      rayWidth: validateRayWidth(document.rays.rayWidth),
+      showRenderViewRays: document.rays.showRenderViewRays,
+      rayGlow: document.rays.rayGlow,
+      showUnfoldedRays: document.rays.showUnfoldedRays,
+      editorMode: document.rays.editorMode,
+    }),
+    scene,
+  };
+};
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { Vector3 } from 'babylonjs';
+import { encodeSceneHash, decodeSceneHash, isSceneHash } from './sceneHash';
+import { createSceneDocument } from './sceneDocument';
+import { createInitialAppState, updateAppState } from './appState';
+
+const placements = {
+  colorSphere: { position: new Vector3(0, 5, 5), rotation: Vector3.Zero() },
+  cameraIndicator: {
+    position: new Vector3(0, 5, -5),
+    rotation: new Vector3(0.12345, Math.PI / 4, 0),
+  },
+};
+
+describe('sceneHash', () => {
+  it('should encode the scene compactly', () => {
+    const document = createSceneDocument(createInitialAppState(), placements);
+
+    const hash = encodeSceneHash(document);
+
+    expect(hash).toContain('room=square');
+    expect(hash).toContain('objects=sphere:colorSphere:-:0,5,5,0,0,0');
+    expect(hash).toContain('camera=0,5,-5,0.123,0.785,0');
+    expect(hash).toContain('rays=1,3,2');
+    expect(hash).not.toContain('pillar');
+    expect(hash).not.toContain('%');
+  });
+
+  it('should decode what it encodes', () => {
+    const state = [
+      { type: 'UPDATE_MAX_BOUNCES' as const, payload: { bounces: 5 } },
+      { type: 'SELECT_ROOM_PRESET' as const, payload: { presetId: 'lShape' } },
+      { type: 'SET_PILLAR_ENABLED' as const, payload: { enabled: true } },
+      { type: 'SET_HANDEDNESS_VISIBLE' as const, payload: { visible: true } },
+    ].reduce(updateAppState, createInitialAppState());
+    const document = createSceneDocument(state, placements);
+
+    const decoded = decodeSceneHash(`#${encodeSceneHash(document)}`);
+
+    expect(decoded.rays).toEqual(document.rays);
+    expect(decoded.room).toEqual(document.room);
+    expect(decoded.objects.colorSphere).toEqual(document.objects.colorSphere);
+    expect(decoded.camera.rotation[1]).toBeCloseTo(Math.PI / 4, 3);
+  });
+
+  it('should decode every object with its shape and colour', () => {
+    const state = updateAppState(createInitialAppState(), {
+      type: 'ADD_OBJECT',
+      payload: { kind: 'letter', position: new Vector3(-3, 5, 2) },
+    });
+    const document = createSceneDocument(state, placements);
+
+    const decoded = decodeSceneHash(encodeSceneHash(document));
+
+    expect(decoded.objects).toEqual(document.objects);
+    expect(Object.keys(decoded.objects)).toEqual(['colorSphere', 'letter-1']);
+  });
+
+  it('should open links from before objects could be added', () => {
+    const decoded = decodeSceneHash(
+      '#v=1&room=square&mirrors=north&sphere=2,5,1,0,0,0&camera=0,5,-5,0,0,0&rays=1,3,2&pattern=ring'
+    );
+
+    expect(decoded.objects.colorSphere).toEqual({
+      kind: 'sphere',
+      color: null,
+      position: [2, 5, 1],
+      rotation: [0, 0, 0],
+    });
+  });
+
+  it('should decode the ray style and width', () => {
+    const state = [
+      {
+        type: 'UPDATE_RAY_STYLE' as const,
+        payload: { style: 'tubes' as const },
+      },
+      { type: 'UPDATE_RAY_WIDTH' as const, payload: { width: 0.2 } },
+    ].reduce(updateAppState, createInitialAppState());
+    const document = createSceneDocument(state, placements);
+
+    const hash = encodeSceneHash(document);
+    const decoded = decodeSceneHash(hash);
+
+    expect(hash).toContain('style=tubes,0.2');
+    expect(decoded.rays).toEqual(document.rays);
+  });
+
+  it('should give version 3 links thin line rays', () => {
+    const decoded = decodeSceneHash(
+      '#v=3&room=square&mirrors=north&objects=sphere:colorSphere:-:2,5,1,0,0,0&camera=0,5,-5,0,0,0&rays=1,3,2&pattern=ring'
+    );
+
+    expect(decoded.rays).toMatchObject({ rayStyle: 'lines', rayWidth: 0.08 });
+  });
+
+  it('should decode the render view ray options', () => {
+    const state = [
+      {
+        type: 'SET_RENDER_VIEW_RAYS_VISIBLE' as const,
+        payload: { visible: true },
+      },
+      { type: 'SET_RAY_GLOW_ENABLED' as const, payload: { enabled: true } },
+      {
+        type: 'SET_UNFOLDED_RAYS_VISIBLE' as const,
+        payload: { visible: true },
+      },
+    ].reduce(updateAppState, createInitialAppState());
+    const document = createSceneDocument(state, placements);
+
+    const hash = encodeSceneHash(document);
+    const decoded = decodeSceneHash(hash);
+
+    expect(hash).toContain('rays3d=1&glow=1&unfold=1');
+    expect(decoded.rays).toEqual(document.rays);
+  });
+
+  it('should decode the editor view', () => {
+    const state = updateAppState(createInitialAppState(), {
+      type: 'UPDATE_EDITOR_MODE',
+      payload: { mode: 'unfolded' },
+    });
+    const document = createSceneDocument(state, placements);
+
+    const hash = encodeSceneHash(document);
+    const decoded = decodeSceneHash(hash);
+
+    expect(hash).toContain('view=unfolded');
+    expect(decoded.rays).toEqual(document.rays);
+  });
+
+  it('should show version 5 links with the room alone in the editor', () => {
+    const decoded = decodeSceneHash(
+      '#v=5&room=square&mirrors=north&objects=sphere:colorSphere:-:2,5,1,0,0,0&camera=0,5,-5,0,0,0&rays=1,3,2&pattern=ring&style=tubes,0.2'
+    );
+
+    expect(decoded.rays.editorMode).toBe('room');
+  });
+
+  it('should keep an empty mirror set', () => {
+    const state = ['north', 'south', 'east', 'west'].reduce(
+      (current, wallId) =>
+        updateAppState(current, {
+          type: 'SET_WALL_MIRROR',
+          payload: { wallId, isMirror: false },
+        }),
+      createInitialAppState()
+    );
+    const document = createSceneDocument(state, placements);
+
+    const decoded = decodeSceneHash(encodeSceneHash(document));
+
+    expect(decoded.room.mirrorWalls).toEqual([]);
+  });
+
+  it('should only treat hashes with a version as scenes', () => {
+    expect(isSceneHash('#v=1&room=square')).toBe(true);
+    expect(isSceneHash('')).toBe(false);
+    expect(isSceneHash('#section-2')).toBe(false);
+  });
+
+  it('should reject broken links with a description', () => {
+    expect(() => decodeSceneHash('#v=1&room=moon&camera=1,2')).toThrow(
+      'Invalid scene link'
+    );
+    expect(() => decodeSceneHash('#v=1&room=%E0%A4%A')).toThrow('garbled');
+  });
+});
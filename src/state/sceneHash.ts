@@ -0,0 +1,200 @@
+// ABOUTME: Compact URL hash encoding of a scene document for shareable links
+// ABOUTME: Short key=value pairs that decode back through scene document validation (and migration)
+
+import {
+  SCENE_DOCUMENT_FORMAT,
+  validateSceneDocument,
+  type DocumentObject,
+  type DocumentTransform,
+  type SceneDocument,
+} from './sceneDocument';
+import { OBJECT_IDS } from '../constants';
+
+/**
+ * Decimal places kept in links; rotations need more to stay on their snap angles
+ */
+const POSITION_DECIMALS = 2;
+const ROTATION_DECIMALS = 3;
+
+/**
+ * Whether a hash is meant to hold a scene, so an empty or unrelated hash is left alone
+ *
+ * @param hash - Hash text, with or without the leading #
+ * @returns True if the hash has a scene version
+ */
+export const isSceneHash = (hash: string): boolean => /^#?(.*&)?v=/.test(hash);
+
+/**
+ * Round a number for a link, dropping trailing zeros
+ */
+const roundTo = (value: number, decimals: number): number =>
+  Number(value.toFixed(decimals));
+
+/**
+ * Write a transform as "x,y,z,rx,ry,rz"
+ */
+const encodeTransform = (transform: DocumentTransform): string =>
+  [
+    ...transform.position.map((value) => roundTo(value, POSITION_DECIMALS)),
+    ...transform.rotation.map((value) => roundTo(value, ROTATION_DECIMALS)),
+  ].join(',');
+
+/**
+ * Read "x,y,z,rx,ry,rz" back into a transform (validation rejects bad numbers)
+ */
+const decodeTransform = (
+  value: string | undefined
+): { position: number[]; rotation: number[] } | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const numbers = value.split(',').map(Number);
+  return { position: numbers.slice(0, 3), rotation: numbers.slice(3) };
+};
+
+/**
+ * Write an object as "kind:id:colour:x,y,z,rx,ry,rz", with "-" for the gradient colour
+ */
+const encodeObject = (id: string, object: DocumentObject): string =>
+  [
+    object.kind,
+    id,
+    object.color?.replace(/^#/, '') ?? '-',
+    encodeTransform(object),
+  ].join(':');
+
+/**
+ * Read objects written by encodeObject back into document entries
+ */
+const decodeObjects = (value: string): Record<string, unknown> =>
+  Object.fromEntries(
+    value
+      .split(';')
+      .filter((entry) => entry !== '')
+      .map((entry) => {
+        const [kind, id, color, transform] = entry.split(':');
+        return [
+          id,
+          {
+            kind,
+            color: color === '-' ? null : `#${color}`,
+            ...decodeTransform(transform),
+          },
+        ];
+      })
+  );
+
+/**
+ * Encode a scene document as a URL hash (without the leading #)
+ * Pillar, sight lines and the render view ray options are only written when turned on
+ *
+ * @param document - Scene document
+ * @returns Hash text
+ */
+export const encodeSceneHash = (document: SceneDocument): string => {
+  const { rays, room } = document;
+
+  const pairs: Array<[string, string | null]> = [
+    ['v', String(document.version)],
+    ['room', room.presetId],
+    ['mirrors', room.mirrorWalls.join(',')],
+    [
+      'objects',
+      Object.entries(document.objects)
+        .map(([id, object]) => encodeObject(id, object))
+        .join(';'),
+    ],
+    ['camera', encodeTransform(document.camera)],
+    ['rays', [rays.rayCount, rays.fanRays, rays.maxBounces].join(',')],
+    ['pattern', rays.emissionPattern],
+    ['style', `${rays.rayStyle},${rays.rayWidth}`],
+    ['view', rays.editorMode],
+    ['rays3d', rays.showRenderViewRays ? '1' : null],
+    ['glow', rays.rayGlow ? '1' : null],
+    ['unfold', rays.showUnfoldedRays ? '1' : null],
+    ['pillar', room.isPillarEnabled ? '1' : null],
+    ['paths', room.showImagePaths ? '1' : null],
+    ['hand', room.showHandedness ? '1' : null],
+  ];
+
+  return pairs
+    .filter((pair): pair is [string, string] => pair[1] !== null)
+    .map(([key, value]) => `${key}=${encodeURIComponent(value)}`)
+    .join('&')
+    .replace(/%2C/g, ',')
+    .replace(/%3A/g, ':')
+    .replace(/%3B/g, ';');
+};
+
+/**
+ * Decode a URL hash written by encodeSceneHash
+ * Throws the same descriptive errors as loading a scene file
+ *
+ * @param hash - Hash text, with or without the leading #
+ * @returns Validated scene document
+ */
+export const decodeSceneHash = (hash: string): SceneDocument => {
+  if (!isSceneHash(hash)) {
+    throw new Error('Invalid scene link: not a Brilliant Reflections scene');
+  }
+
+  let values: Map<string, string>;
+  try {
+    values = new Map(
+      hash
+        .replace(/^#/, '')
+        .split('&')
+        .map((pair) => {
+          const [key, value = ''] = pair.split('=');
+          return [key, decodeURIComponent(value)] as const;
+        })
+    );
+  } catch {
+    throw new Error('Invalid scene link: the link text is garbled');
+  }
+
+  const [rayCount, fanRays, maxBounces] = (values.get('rays') ?? '')
+    .split(',')
+    .map(Number);
+  // Version 3 links have no ray style; migration fills it in
+  const [rayStyle, rayWidth] = values.get('style')?.split(',') ?? [];
+  const version = Number(values.get('v'));
+  const mirrors = values.get('mirrors');
+  // Version 1 links only had the sphere, which migration turns into an object
+  const sphere = decodeTransform(values.get('sphere'));
+  const objects =
+    version === 1
+      ? sphere
+        ? { [OBJECT_IDS.SPHERE]: sphere }
+        : {}
+      : decodeObjects(values.get('objects') ?? '');
+
+  return validateSceneDocument(
+    {
+      format: SCENE_DOCUMENT_FORMAT,
+      version,
+      objects,
+      camera: decodeTransform(values.get('camera')),
+      rays: {
+        rayCount,
+        fanRays,
+        maxBounces,
+        emissionPattern: values.get('pattern') ?? 'ring',
+        ...(version > 3 && { rayStyle, rayWidth: Number(rayWidth) }),
+        showRenderViewRays: values.get('rays3d') === '1',
+        rayGlow: values.get('glow') === '1',
+        showUnfoldedRays: values.get('unfold') === '1',
+        // Version 5 links have no editor view; migration fills it in
+        ...(version > 5 && { editorMode: values.get('view') }),
+      },
+      room: {
+        presetId: values.get('room'),
+        mirrorWalls: mirrors ? mirrors.split(',') : [],
+        isPillarEnabled: values.get('pillar') === '1',
+        showImagePaths: values.get('paths') === '1',
+        showHandedness: values.get('hand') === '1',
+      },
+    },
+    'scene link'
+  );
+};
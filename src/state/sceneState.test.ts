@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createInitialSceneState,
+  createSceneRoom,
+  updatePillarEnabled,
+  updateRoomPreset,
+  updateShowImagePaths,
+  updateShowHandedness,
+  updateWallMirror,
+} from './sceneState';
+import { getMirrorWallDefinitions } from '../geometry/roomDefinition';
+
+describe('sceneState', () => {
+  describe('createInitialSceneState', () => {
+    it('should start with the square room and its default mirrors', () => {
+      const state = createInitialSceneState();
+
+      expect(state.roomPresetId).toBe('square');
+      expect(state.mirrorWalls).toEqual(['north', 'east', 'west']);
+      expect(state.isPillarEnabled).toBe(false);
+      expect(state.showImagePaths).toBe(false);
+      expect(Object.isFrozen(state)).toBe(true);
+    });
+  });
+
+  describe('updateRoomPreset', () => {
+    it('should switch shape and restore its default mirrors', () => {
+      const state = updateRoomPreset(
+        updateWallMirror(createInitialSceneState(), 'south', true),
+        'cornerCube'
+      );
+
+      expect(state.roomPresetId).toBe('cornerCube');
+      expect(state.mirrorWalls).toEqual(['north', 'east', 'floor']);
+    });
+
+    it('should return same state for unknown or unchanged shapes', () => {
+      const state = createInitialSceneState();
+
+      expect(updateRoomPreset(state, 'circle')).toBe(state);
+      expect(updateRoomPreset(state, 'square')).toBe(state);
+    });
+  });
+
+  describe('updateWallMirror', () => {
+    it('should add and remove mirror surfaces', () => {
+      const initial = createInitialSceneState();
+      const withFloor = updateWallMirror(initial, 'floor', true);
+      const withoutNorth = updateWallMirror(withFloor, 'north', false);
+
+      expect(withFloor.mirrorWalls).toEqual(['north', 'east', 'west', 'floor']);
+      expect(withoutNorth.mirrorWalls).toEqual(['east', 'west', 'floor']);
+      expect(updateWallMirror(initial, 'north', true)).toBe(initial);
+    });
+  });
+
+  describe('pillar, sight lines and handedness labels', () => {
+    it('should update flags and keep state when unchanged', () => {
+      const initial = createInitialSceneState();
+
+      expect(updatePillarEnabled(initial, true).isPillarEnabled).toBe(true);
+      expect(updatePillarEnabled(initial, false)).toBe(initial);
+      expect(updateShowImagePaths(initial, true).showImagePaths).toBe(true);
+      expect(updateShowImagePaths(initial, false)).toBe(initial);
+      expect(updateShowHandedness(initial, true).showHandedness).toBe(true);
+      expect(updateShowHandedness(initial, false)).toBe(initial);
+    });
+  });
+
+  describe('createSceneRoom', () => {
+    it('should build the chosen shape with the chosen mirrors', () => {
+      const state = updateWallMirror(
+        updateRoomPreset(createInitialSceneState(), 'hexagon'),
+        'side2',
+        false
+      );
+
+      const room = createSceneRoom(state);
+
+      expect(room.walls).toHaveLength(6);
+      expect(getMirrorWallDefinitions(room).map((wall) => wall.id)).toEqual(
+        state.mirrorWalls
+      );
+    });
+  });
+});
@@ -0,0 +1,169 @@
+// ABOUTME: Pure functions for the room shape, mirror walls, pillar, sight line and handedness settings
+// ABOUTME: Keeps preset and wall ids only, so the room definition is rebuilt from them
+
+import {
+  getMirrorWallDefinitions,
+  getRoomSurfaces,
+  setWallMirror,
+  type RoomDefinition,
+} from '../geometry/roomDefinition';
+import {
+  getRoomPreset,
+  ROOM_PRESETS,
+  type RoomPresetId,
+} from '../geometry/roomPresets';
+
+/**
+ * Scene settings chosen in the control panel
+ */
+export interface SceneState {
+  readonly roomPresetId: RoomPresetId;
+  readonly mirrorWalls: readonly string[]; // Ids of the surfaces that are mirrors
+  readonly isPillarEnabled: boolean;
+  readonly showImagePaths: boolean;
+  readonly showHandedness: boolean; // Label each image as flipped or not
+}
+
+/**
+ * Ids of the surfaces a room shape starts with as mirrors
+ */
+const getDefaultMirrorWalls = (presetId: RoomPresetId): readonly string[] =>
+  Object.freeze(
+    getMirrorWallDefinitions(getRoomPreset(presetId).create()).map(
+      (wall) => wall.id
+    )
+  );
+
+/**
+ * Create initial scene state with a room shape and its default mirrors
+ *
+ * @param presetId - Room shape to start with (default: first preset)
+ * @returns Scene state without pillar, sight lines or handedness labels
+ */
+export const createInitialSceneState = (
+  presetId: RoomPresetId = ROOM_PRESETS[0].id
+): SceneState => {
+  return Object.freeze({
+    roomPresetId: presetId,
+    mirrorWalls: getDefaultMirrorWalls(presetId),
+    isPillarEnabled: false,
+    showImagePaths: false,
+    showHandedness: false,
+  });
+};
+
+/**
+ * Switch to another room shape, restoring that shape's default mirrors
+ *
+ * @param state - Current scene state
+ * @param presetId - Room preset id
+ * @returns New state, or the same state if the id is unknown or unchanged
+ */
+export const updateRoomPreset = (
+  state: SceneState,
+  presetId: string
+): SceneState => {
+  const preset = getRoomPreset(presetId);
+  if (!preset || preset.id === state.roomPresetId) {
+    return state;
+  }
+
+  return Object.freeze({
+    ...state,
+    roomPresetId: preset.id,
+    mirrorWalls: getDefaultMirrorWalls(preset.id),
+  });
+};
+
+/**
+ * Turn a surface of the room into a mirror or back into a plain surface
+ *
+ * @param state - Current scene state
+ * @param wallId - Surface id
+ * @param isMirror - New mirror flag
+ * @returns New state, or the same state if the flag is unchanged
+ */
+export const updateWallMirror = (
+  state: SceneState,
+  wallId: string,
+  isMirror: boolean
+): SceneState => {
+  if (state.mirrorWalls.includes(wallId) === isMirror) {
+    return state;
+  }
+
+  return Object.freeze({
+    ...state,
+    mirrorWalls: Object.freeze(
+      isMirror
+        ? [...state.mirrorWalls, wallId]
+        : state.mirrorWalls.filter((id) => id !== wallId)
+    ),
+  });
+};
+
+/**
+ * Show or hide the pillar
+ */
+export const updatePillarEnabled = (
+  state: SceneState,
+  isPillarEnabled: boolean
+): SceneState => {
+  if (isPillarEnabled === state.isPillarEnabled) {
+    return state;
+  }
+
+  return Object.freeze({
+    ...state,
+    isPillarEnabled,
+  });
+};
+
+/**
+ * Show or hide the sight lines from the camera to each image
+ */
+export const updateShowImagePaths = (
+  state: SceneState,
+  showImagePaths: boolean
+): SceneState => {
+  if (showImagePaths === state.showImagePaths) {
+    return state;
+  }
+
+  return Object.freeze({
+    ...state,
+    showImagePaths,
+  });
+};
+
+/**
+ * Show or hide the handedness labels on the images
+ */
+export const updateShowHandedness = (
+  state: SceneState,
+  showHandedness: boolean
+): SceneState => {
+  if (showHandedness === state.showHandedness) {
+    return state;
+  }
+
+  return Object.freeze({
+    ...state,
+    showHandedness,
+  });
+};
+
+/**
+ * Build the room definition described by the scene state
+ *
+ * @param state - Scene state
+ * @returns Room of the chosen shape with the chosen mirror surfaces
+ */
+export const createSceneRoom = (state: SceneState): RoomDefinition => {
+  const room = getRoomPreset(state.roomPresetId).create();
+  return getRoomSurfaces(room).reduce(
+    (current, wall) =>
+      setWallMirror(current, wall.id, state.mirrorWalls.includes(wall.id)),
+    room
+  );
+};
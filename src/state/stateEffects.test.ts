@@ -1,45 +1,90 @@
-import { describe, it, expect, vi } from 'vitest';
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  type Mock,
+} from 'vitest';
 import {
   createSelectionEffect,
   createTransformEffect,
   createRayUpdateEffect,
   createQualityEffect,
   createResetEffect,
+  createSceneEffect,
+  createReflectionEffect,
+  createObjectsEffect,
   applyStateEffects,
-  type StateEffect,
   type EffectContext,
 } from './stateEffects';
-import { createInitialAppState, updateAppState, type AppState } from './appState';
-import { Vector3, Scene, Mesh } from 'babylonjs';
+import {
+  createInitialAppState,
+  updateAppState,
+  type AppStateAction,
+} from './appState';
+import { Vector3, Mesh, Color3, type Scene } from 'babylonjs';
+import { setupCanvasMock } from '../test-utils/mockCanvas';
+import { createEditorScene } from '../editor/createEditorScene';
+import type { SceneConfig } from '../types';
 
 describe('stateEffects', () => {
+  let sceneConfig: SceneConfig;
+  // Mesh lookups of the mock scenes, kept apart so tests can set what they find
+  let getEditorMesh: Mock<Scene['getMeshByName']>;
+  let getRenderMesh: Mock<Scene['getMeshByName']>;
+
+  beforeEach(() => {
+    setupCanvasMock();
+    sceneConfig = createEditorScene(document.createElement('canvas'));
+    getEditorMesh = vi.fn();
+    getRenderMesh = vi.fn();
+  });
+
+  afterEach(() => {
+    sceneConfig.dispose();
+  });
+
+  const createMesh = (name: string): Mesh => new Mesh(name, sceneConfig.scene);
+
   const createMockContext = (): EffectContext => ({
     editorScene: {
-      getMeshByName: vi.fn(),
+      getMeshByName: getEditorMesh,
     } as any,
     renderScene: {
-      getMeshByName: vi.fn(),
+      getMeshByName: getRenderMesh,
       materials: [],
     } as any,
     gizmoManager: {
       attachToMesh: vi.fn(),
-    } as any,
+    },
     rayManager: {
+      updateObstacles: vi.fn(),
       updateRays: vi.fn(),
-      showRays: vi.fn(),
-      hideRays: vi.fn(),
-    } as any,
+    },
     applyHighlight: vi.fn(),
     removeHighlight: vi.fn(),
+    syncRenderCamera: vi.fn(),
+    applyRoom: vi.fn(),
+    setPillarEnabled: vi.fn(),
+    setImagePathsVisible: vi.fn(),
+    setHandednessVisible: vi.fn(),
+    applyQuality: vi.fn(),
+    applyRenderMode: vi.fn(),
+    updateReflections: vi.fn(),
+    updateUnfoldedRoom: vi.fn(),
   });
 
+  const selectSphere: AppStateAction = {
+    type: 'SELECT_OBJECT',
+    payload: { objectId: 'colorSphere' },
+  };
+
   describe('createSelectionEffect', () => {
     it('should create effect for object selection', () => {
       const oldState = createInitialAppState();
-      const newState = updateAppState(oldState, {
-        type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
-      });
+      const newState = updateAppState(oldState, selectSphere);
 
       const effect = createSelectionEffect(oldState, newState);
 
@@ -50,32 +95,39 @@ describe('stateEffects', () => {
 
     it('should execute selection effect', () => {
       const context = createMockContext();
-      const mockMesh = new Mesh('colorCube', null);
-      context.editorScene.getMeshByName.mockReturnValue(mockMesh);
+      const mockMesh = createMesh('colorSphere');
+      getEditorMesh.mockReturnValue(mockMesh);
 
       const oldState = createInitialAppState();
-      const newState = updateAppState(oldState, {
-        type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
-      });
+      const newState = updateAppState(oldState, selectSphere);
 
       const effect = createSelectionEffect(oldState, newState);
       effect.execute(context);
 
       expect(context.applyHighlight).toHaveBeenCalledWith(
         context.editorScene,
-        'colorCube'
+        'colorSphere'
       );
       expect(context.gizmoManager.attachToMesh).toHaveBeenCalledWith(mockMesh);
     });
 
-    it('should handle deselection', () => {
+    it('should leave the rays alone when the selection changes', () => {
       const context = createMockContext();
-      const initial = createInitialAppState();
-      const selected = updateAppState(initial, {
+      const oldState = updateAppState(createInitialAppState(), selectSphere);
+      const newState = updateAppState(oldState, {
         type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
+        payload: { objectId: 'cameraIndicator' },
       });
+
+      createSelectionEffect(oldState, newState).execute(context);
+
+      expect(context.rayManager.updateRays).not.toHaveBeenCalled();
+    });
+
+    it('should handle deselection', () => {
+      const context = createMockContext();
+      const initial = createInitialAppState();
+      const selected = updateAppState(initial, selectSphere);
       const deselected = updateAppState(selected, {
         type: 'CLEAR_SELECTION',
       });
@@ -85,7 +137,7 @@ describe('stateEffects', () => {
 
       expect(context.removeHighlight).toHaveBeenCalledWith(
         context.editorScene,
-        'colorCube'
+        'colorSphere'
       );
       expect(context.gizmoManager.attachToMesh).toHaveBeenCalledWith(null);
     });
@@ -96,7 +148,7 @@ describe('stateEffects', () => {
       const oldState = createInitialAppState();
       const newState = updateAppState(oldState, {
         type: 'UPDATE_POSITION',
-        payload: { objectId: 'colorCube', position: new Vector3(1, 2, 3) },
+        payload: { objectId: 'colorSphere', position: new Vector3(1, 2, 3) },
       });
 
       const effect = createTransformEffect(oldState, newState);
@@ -107,17 +159,17 @@ describe('stateEffects', () => {
 
     it('should execute transform effect', () => {
       const context = createMockContext();
-      const editorMesh = new Mesh('colorCube', null);
-      const renderMesh = new Mesh('colorCube', null);
-      
-      context.editorScene.getMeshByName.mockReturnValue(editorMesh);
-      context.renderScene.getMeshByName.mockReturnValue(renderMesh);
+      const editorMesh = createMesh('colorSphere');
+      const renderMesh = createMesh('colorSphere');
+
+      getEditorMesh.mockReturnValue(editorMesh);
+      getRenderMesh.mockReturnValue(renderMesh);
 
       const oldState = createInitialAppState();
       const position = new Vector3(1, 2, 3);
       const newState = updateAppState(oldState, {
         type: 'UPDATE_POSITION',
-        payload: { objectId: 'colorCube', position },
+        payload: { objectId: 'colorSphere', position },
       });
 
       const effect = createTransformEffect(oldState, newState);
@@ -125,21 +177,22 @@ describe('stateEffects', () => {
 
       expect(editorMesh.position).toEqual(position);
       expect(renderMesh.position).toEqual(position);
+      expect(context.syncRenderCamera).not.toHaveBeenCalled();
     });
 
     it('should handle rotation updates', () => {
       const context = createMockContext();
-      const editorMesh = new Mesh('colorCube', null);
-      const renderMesh = new Mesh('colorCube', null);
-      
-      context.editorScene.getMeshByName.mockReturnValue(editorMesh);
-      context.renderScene.getMeshByName.mockReturnValue(renderMesh);
+      const editorMesh = createMesh('colorSphere');
+      const renderMesh = createMesh('colorSphere');
+
+      getEditorMesh.mockReturnValue(editorMesh);
+      getRenderMesh.mockReturnValue(renderMesh);
 
       const oldState = createInitialAppState();
       const rotation = new Vector3(0, Math.PI / 4, 0);
       const newState = updateAppState(oldState, {
         type: 'UPDATE_ROTATION',
-        payload: { objectId: 'colorCube', rotation },
+        payload: { objectId: 'colorSphere', rotation },
       });
 
       const effect = createTransformEffect(oldState, newState);
@@ -148,6 +201,61 @@ describe('stateEffects', () => {
       expect(editorMesh.rotation).toEqual(rotation);
       expect(renderMesh.rotation).toEqual(rotation);
     });
+
+    it('should move the render camera with the camera indicator', () => {
+      const context = createMockContext();
+      const indicator = createMesh('cameraIndicator');
+      getEditorMesh.mockReturnValue(indicator);
+
+      const oldState = createInitialAppState();
+      const newState = updateAppState(oldState, {
+        type: 'UPDATE_TRANSFORM',
+        payload: {
+          objectId: 'cameraIndicator',
+          position: new Vector3(2, 5, -4),
+          rotation: new Vector3(0, 1, 0),
+        },
+      });
+
+      createTransformEffect(oldState, newState).execute(context);
+
+      expect(indicator.position).toEqual(new Vector3(2, 5, -4));
+      expect(indicator.rotation).toEqual(new Vector3(0, 1, 0));
+      expect(context.syncRenderCamera).toHaveBeenCalled();
+    });
+
+    it('should return dropped transforms to the initial placement', () => {
+      const context = createMockContext();
+      context.getInitialConfig = vi.fn().mockReturnValue({
+        cube: {
+          position: new Vector3(0, 5, 5),
+          rotation: new Vector3(0, 0, 0),
+        },
+        cameraIndicator: {
+          position: new Vector3(0, 5, -5),
+          rotation: new Vector3(0, 0, 0),
+        },
+      });
+      const indicator = createMesh('cameraIndicator');
+      getEditorMesh.mockReturnValue(indicator);
+
+      const movedState = updateAppState(createInitialAppState(), {
+        type: 'UPDATE_TRANSFORM',
+        payload: {
+          objectId: 'cameraIndicator',
+          position: new Vector3(2, 5, -4),
+          rotation: new Vector3(0, 1, 0),
+        },
+      });
+
+      // Undo takes the state back to before the move
+      createTransformEffect(movedState, createInitialAppState()).execute(
+        context
+      );
+
+      expect(indicator.position.asArray()).toEqual([0, 5, -5]);
+      expect(context.syncRenderCamera).toHaveBeenCalled();
+    });
   });
 
   describe('createRayUpdateEffect', () => {
@@ -166,14 +274,11 @@ describe('stateEffects', () => {
 
     it('should execute ray update effect', () => {
       const context = createMockContext();
-      const mockMesh = new Mesh('colorCube', null);
-      context.editorScene.getMeshByName.mockReturnValue(mockMesh);
+      const mockMesh = createMesh('colorSphere');
+      getEditorMesh.mockReturnValue(mockMesh);
 
       const initial = createInitialAppState();
-      const selected = updateAppState(initial, {
-        type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
-      });
+      const selected = updateAppState(initial, selectSphere);
       const updated = updateAppState(selected, {
         type: 'UPDATE_RAY_COUNT',
         payload: { count: 6 },
@@ -186,23 +291,92 @@ describe('stateEffects', () => {
         expect.objectContaining({
           position: mockMesh.position,
           worldMatrix: expect.anything(),
-          config: { count: 6, maxBounces: 2 },
+          config: {
+            count: 6,
+            fanRays: 3,
+            maxBounces: 2,
+            pattern: 'ring',
+            style: 'lines',
+            width: 0.08,
+            straightLines: false,
+          },
         })
       );
     });
 
-    it('should not update rays when no object selected', () => {
+    it('should retrace rays when the room changes', () => {
       const context = createMockContext();
-      const oldState = createInitialAppState();
+      getEditorMesh.mockReturnValue(createMesh('colorSphere'));
+
+      const selected = updateAppState(createInitialAppState(), selectSphere);
+      const withPillar = updateAppState(selected, {
+        type: 'SET_PILLAR_ENABLED',
+        payload: { enabled: true },
+      });
+
+      createRayUpdateEffect(selected, withPillar).execute(context);
+
+      expect(context.rayManager.updateRays).toHaveBeenCalled();
+    });
+
+    it('should update the rays of every object with nothing selected', () => {
+      const context = createMockContext();
+      getEditorMesh.mockImplementation((name: string) => createMesh(name));
+      const oldState = [
+        {
+          type: 'ADD_OBJECT' as const,
+          payload: { kind: 'cube' as const, position: new Vector3(3, 5, 0) },
+        },
+        { type: 'CLEAR_SELECTION' as const },
+      ].reduce(updateAppState, createInitialAppState());
       const newState = updateAppState(oldState, {
         type: 'UPDATE_RAY_COUNT',
         payload: { count: 6 },
       });
 
-      const effect = createRayUpdateEffect(oldState, newState);
-      effect.execute(context);
+      createRayUpdateEffect(oldState, newState).execute(context);
 
-      expect(context.rayManager.updateRays).not.toHaveBeenCalled();
+      expect(newState.selection.selectedObjectId).toBeNull();
+      expect(
+        vi
+          .mocked(context.rayManager.updateRays)
+          .mock.calls.map(([update]) => update.objectId)
+      ).toEqual(['colorSphere', 'cube-1']);
+    });
+
+    it('should trace every object on startup', () => {
+      const context = createMockContext();
+      getEditorMesh.mockImplementation((name: string) => createMesh(name));
+
+      createRayUpdateEffect(null, createInitialAppState()).execute(context);
+
+      expect(context.rayManager.updateRays).toHaveBeenCalledWith(
+        expect.objectContaining({ objectId: 'colorSphere' })
+      );
+    });
+
+    it('should retrace every object and its obstacles when one moves', () => {
+      const context = createMockContext();
+      getEditorMesh.mockImplementation((name: string) => createMesh(name));
+      const oldState = updateAppState(createInitialAppState(), {
+        type: 'ADD_OBJECT',
+        payload: { kind: 'cube', position: new Vector3(3, 5, 0) },
+      });
+      const newState = updateAppState(oldState, {
+        type: 'UPDATE_POSITION',
+        payload: { objectId: 'cube-1', position: new Vector3(-3, 5, 0) },
+      });
+
+      createRayUpdateEffect(oldState, newState).execute(context);
+
+      // The cube blocks the sphere's rays, so both are retraced
+      expect(context.rayManager.updateObstacles).toHaveBeenCalled();
+      expect(context.rayManager.updateRays).toHaveBeenCalledWith(
+        expect.objectContaining({ objectId: 'colorSphere' })
+      );
+      expect(context.rayManager.updateRays).toHaveBeenCalledWith(
+        expect.objectContaining({ objectId: 'cube-1' })
+      );
     });
   });
 
@@ -211,7 +385,7 @@ describe('stateEffects', () => {
       const oldState = createInitialAppState();
       const newState = updateAppState(oldState, {
         type: 'UPDATE_QUALITY',
-        payload: { quality: 'high' },
+        payload: { quality: 'low' },
       });
 
       const effect = createQualityEffect(oldState, newState);
@@ -222,36 +396,149 @@ describe('stateEffects', () => {
 
     it('should execute quality effect', () => {
       const context = createMockContext();
-      const mockMaterial = {
-        reflectionTexture: {
-          name: 'mirrorTexture',
-          mirrorPlane: new Vector3(0, 0, 1),
-          renderList: [],
-          dispose: vi.fn(),
-        },
-      };
-      
-      context.renderScene.materials = [mockMaterial as any];
 
       const oldState = createInitialAppState();
       const newState = updateAppState(oldState, {
         type: 'UPDATE_QUALITY',
-        payload: { quality: 'high' },
+        payload: { quality: 'auto' },
       });
 
       const effect = createQualityEffect(oldState, newState);
       effect.execute(context);
 
-      expect(mockMaterial.reflectionTexture.dispose).toHaveBeenCalled();
+      expect(context.applyQuality).toHaveBeenCalledWith('auto');
+    });
+  });
+
+  describe('createSceneEffect', () => {
+    it('should rebuild the room for a new shape', () => {
+      const context = createMockContext();
+      const oldState = createInitialAppState();
+      const newState = updateAppState(oldState, {
+        type: 'SELECT_ROOM_PRESET',
+        payload: { presetId: 'hexagon' },
+      });
+
+      createSceneEffect(oldState, newState).execute(context);
+
+      expect(context.applyRoom).toHaveBeenCalledWith(
+        expect.objectContaining({ walls: expect.any(Array) }),
+        true
+      );
+      expect(vi.mocked(context.applyRoom).mock.calls[0][0].walls).toHaveLength(
+        6
+      );
+    });
+
+    it('should update mirrors without rebuilding the room', () => {
+      const context = createMockContext();
+      const oldState = createInitialAppState();
+      const newState = updateAppState(oldState, {
+        type: 'SET_WALL_MIRROR',
+        payload: { wallId: 'floor', isMirror: true },
+      });
+
+      createSceneEffect(oldState, newState).execute(context);
+
+      const [room, isNewShape] = vi.mocked(context.applyRoom).mock.calls[0];
+      expect(isNewShape).toBe(false);
+      expect(room.floor.isMirror).toBe(true);
+      expect(context.setPillarEnabled).not.toHaveBeenCalled();
+    });
+
+    it('should toggle the pillar, sight lines and handedness labels', () => {
+      const context = createMockContext();
+      const oldState = createInitialAppState();
+      const newState = [
+        {
+          type: 'SET_PILLAR_ENABLED' as const,
+          payload: { enabled: true },
+        },
+        {
+          type: 'SET_IMAGE_PATHS_VISIBLE' as const,
+          payload: { visible: true },
+        },
+        {
+          type: 'SET_HANDEDNESS_VISIBLE' as const,
+          payload: { visible: true },
+        },
+      ].reduce(updateAppState, oldState);
+
+      createSceneEffect(oldState, newState).execute(context);
+
+      expect(context.applyRoom).not.toHaveBeenCalled();
+      expect(context.setPillarEnabled).toHaveBeenCalledWith(true);
+      expect(context.setImagePathsVisible).toHaveBeenCalledWith(true);
+      expect(context.setHandednessVisible).toHaveBeenCalledWith(true);
+    });
+  });
+
+  describe('createReflectionEffect', () => {
+    it('should switch render strategy and update images', () => {
+      const context = createMockContext();
+      const oldState = createInitialAppState();
+      const newState = updateAppState(oldState, {
+        type: 'UPDATE_RENDER_MODE',
+        payload: { mode: 'hybrid' },
+      });
+
+      createReflectionEffect(oldState, newState).execute(context);
+
+      expect(context.applyRenderMode).toHaveBeenCalledWith('hybrid');
+      expect(context.updateReflections).toHaveBeenCalled();
+    });
+
+    it('should only update images when the bounce count changes', () => {
+      const context = createMockContext();
+      const oldState = createInitialAppState();
+      const newState = updateAppState(oldState, {
+        type: 'UPDATE_MAX_BOUNCES',
+        payload: { bounces: 5 },
+      });
+
+      createReflectionEffect(oldState, newState).execute(context);
+
+      expect(context.applyRenderMode).not.toHaveBeenCalled();
+      expect(context.updateReflections).toHaveBeenCalled();
+    });
+
+    it('should show the unfolded room without updating images', () => {
+      const context = createMockContext();
+      const oldState = createInitialAppState();
+      const newState = updateAppState(oldState, {
+        type: 'UPDATE_EDITOR_MODE',
+        payload: { mode: 'unfolded' },
+      });
+
+      const effects = applyStateEffects(oldState, newState, context);
+
+      expect(effects.map((effect) => effect.type)).toEqual([
+        'reflections',
+        'rayUpdate',
+      ]);
+      expect(context.updateReflections).not.toHaveBeenCalled();
+      expect(context.updateUnfoldedRoom).toHaveBeenCalledWith(true);
+    });
+
+    it('should redraw the unfolded room for a newly selected object', () => {
+      const context = createMockContext();
+      const unfolded = updateAppState(createInitialAppState(), {
+        type: 'UPDATE_EDITOR_MODE',
+        payload: { mode: 'unfolded' },
+      });
+
+      createReflectionEffect(
+        unfolded,
+        updateAppState(unfolded, selectSphere)
+      ).execute(context);
+
+      expect(context.updateUnfoldedRoom).toHaveBeenCalledWith(true);
     });
   });
 
   describe('createResetEffect', () => {
     it('should create effect for reset action', () => {
-      const oldState = updateAppState(createInitialAppState(), {
-        type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
-      });
+      const oldState = updateAppState(createInitialAppState(), selectSphere);
       const newState = updateAppState(oldState, { type: 'RESET' });
 
       const effect = createResetEffect(oldState, newState);
@@ -273,71 +560,201 @@ describe('stateEffects', () => {
         },
       });
 
-      const editorCube = new Mesh('colorCube', null);
-      const renderCube = new Mesh('colorCube', null);
-      const cameraIndicator = new Mesh('cameraIndicator', null);
+      const editorSphere = createMesh('colorSphere');
+      const renderSphere = createMesh('colorSphere');
+      const cameraIndicator = createMesh('cameraIndicator');
 
-      context.editorScene.getMeshByName
-        .mockReturnValueOnce(editorCube)
+      getEditorMesh
+        .mockReturnValueOnce(editorSphere)
         .mockReturnValueOnce(cameraIndicator);
-      context.renderScene.getMeshByName.mockReturnValue(renderCube);
+      getRenderMesh.mockReturnValue(renderSphere);
 
       const oldState = updateAppState(createInitialAppState(), {
-        type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
+        type: 'UPDATE_POSITION',
+        payload: { objectId: 'colorSphere', position: new Vector3(3, 5, 3) },
       });
       const newState = updateAppState(oldState, { type: 'RESET' });
 
       const effect = createResetEffect(oldState, newState);
       effect.execute(context);
 
-      expect(editorCube.position).toEqual(new Vector3(0, 5, 5));
-      expect(renderCube.position).toEqual(new Vector3(0, 5, 5));
+      expect(editorSphere.position).toEqual(new Vector3(0, 5, 5));
+      expect(renderSphere.position).toEqual(new Vector3(0, 5, 5));
       expect(cameraIndicator.position).toEqual(new Vector3(0, 5, -5));
-      expect(context.rayManager.hideRays).toHaveBeenCalled();
+      expect(context.syncRenderCamera).toHaveBeenCalled();
+    });
+
+    it('should remove added objects and put the sphere back', () => {
+      const context = createMockContext();
+      const removeObject = vi.fn();
+      context.removeObject = removeObject;
+      context.getInitialConfig = vi.fn().mockReturnValue({
+        cube: {
+          position: new Vector3(0, 5, 5),
+          rotation: new Vector3(0, 0, 0),
+        },
+        cameraIndicator: {
+          position: new Vector3(0, 5, -5),
+          rotation: new Vector3(0, 0, 0),
+        },
+      });
+      const editorSphere = createMesh('colorSphere');
+      getEditorMesh.mockImplementation((name: string) =>
+        name === 'colorSphere' ? editorSphere : null
+      );
+
+      const oldState = [
+        {
+          type: 'ADD_OBJECT' as const,
+          payload: { kind: 'cube' as const, position: new Vector3(3, 5, 0) },
+        },
+        {
+          type: 'UPDATE_POSITION' as const,
+          payload: { objectId: 'colorSphere', position: new Vector3(3, 5, 3) },
+        },
+      ].reduce(updateAppState, createInitialAppState());
+      const newState = updateAppState(oldState, { type: 'RESET' });
+
+      applyStateEffects(oldState, newState, context);
+
+      expect(removeObject).toHaveBeenCalledWith('cube-1');
+      expect(editorSphere.position.asArray()).toEqual([0, 5, 5]);
+    });
+  });
+
+  describe('createObjectsEffect', () => {
+    const addCube: AppStateAction = {
+      type: 'ADD_OBJECT',
+      payload: { kind: 'cube', position: new Vector3(3, 5, 0) },
+    };
+
+    it('should remove and recolour objects', () => {
+      const context = createMockContext();
+      context.removeObject = vi.fn();
+      context.updateObjectColor = vi.fn();
+      const oldState = updateAppState(createInitialAppState(), addCube);
+      const newState = [
+        {
+          type: 'REMOVE_OBJECT' as const,
+          payload: { objectId: 'cube-1' },
+        },
+        {
+          type: 'SET_OBJECT_COLOR' as const,
+          payload: { objectId: 'colorSphere', color: '#00ff00' },
+        },
+      ].reduce(updateAppState, oldState);
+
+      createObjectsEffect(oldState, newState).execute(context);
+
+      expect(context.removeObject).toHaveBeenCalledWith('cube-1');
+      expect(context.updateObjectColor).toHaveBeenCalledWith(
+        newState.objects.objects[0]
+      );
+    });
+
+    it('should add objects before selecting them', () => {
+      const context = createMockContext();
+      context.addObject = vi.fn();
+      const cube = createMesh('cube-1');
+      getEditorMesh.mockReturnValue(cube);
+      const oldState = createInitialAppState();
+      const newState = updateAppState(oldState, addCube);
+
+      const effects = applyStateEffects(oldState, newState, context);
+
+      expect(effects.map((effect) => effect.type)).toEqual([
+        'objects',
+        'selection',
+        'transform',
+        'reflections',
+        'rayUpdate',
+      ]);
+      expect(context.addObject).toHaveBeenCalledWith(
+        newState.objects.objects[1],
+        newState.transform.transforms['cube-1']
+      );
+      expect(context.gizmoManager.attachToMesh).toHaveBeenCalledWith(cube);
+      expect(context.rayManager.updateRays).toHaveBeenCalledWith(
+        expect.objectContaining({
+          objectId: 'cube-1',
+          config: expect.objectContaining({
+            color: Color3.FromHexString(
+              newState.objects.objects[1].color ?? ''
+            ),
+          }),
+        })
+      );
     });
   });
 
   describe('applyStateEffects', () => {
     it('should generate and execute all relevant effects', () => {
       const context = createMockContext();
-      const mockMesh = new Mesh('colorCube', null);
-      context.editorScene.getMeshByName.mockReturnValue(mockMesh);
-      context.renderScene.getMeshByName.mockReturnValue(mockMesh);
+      const mockMesh = createMesh('colorSphere');
+      getEditorMesh.mockReturnValue(mockMesh);
+      getRenderMesh.mockReturnValue(mockMesh);
 
       const oldState = createInitialAppState();
-      const newState = updateAppState(oldState, {
-        type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
-      });
+      const newState = updateAppState(oldState, selectSphere);
 
       const effects = applyStateEffects(oldState, newState, context);
 
-      expect(effects.length).toBeGreaterThan(0);
+      expect(effects.map((effect) => effect.type)).toEqual(['selection']);
       expect(context.applyHighlight).toHaveBeenCalled();
       expect(context.gizmoManager.attachToMesh).toHaveBeenCalled();
+      expect(context.rayManager.updateRays).not.toHaveBeenCalled();
     });
 
     it('should handle multiple state changes', () => {
       const context = createMockContext();
-      const mockMesh = new Mesh('colorCube', null);
-      context.editorScene.getMeshByName.mockReturnValue(mockMesh);
-      context.renderScene.getMeshByName.mockReturnValue(mockMesh);
+      const mockMesh = createMesh('colorSphere');
+      getEditorMesh.mockReturnValue(mockMesh);
+      getRenderMesh.mockReturnValue(mockMesh);
 
       const state1 = createInitialAppState();
-      const state2 = updateAppState(state1, {
-        type: 'SELECT_OBJECT',
-        payload: { objectId: 'colorCube' },
-      });
+      const state2 = updateAppState(state1, selectSphere);
       const state3 = updateAppState(state2, {
         type: 'UPDATE_POSITION',
-        payload: { objectId: 'colorCube', position: new Vector3(1, 2, 3) },
+        payload: { objectId: 'colorSphere', position: new Vector3(1, 2, 3) },
       });
 
       const effects = applyStateEffects(state2, state3, context);
 
-      expect(effects.some(e => e.type === 'transform')).toBe(true);
-      expect(mockMesh.position).toEqual(new Vector3(1, 2, 3));
+      expect(effects.map((effect) => effect.type)).toEqual([
+        'transform',
+        'reflections',
+        'rayUpdate',
+      ]);
+      expect(mockMesh.position.asArray()).toEqual([1, 2, 3]);
+    });
+
+    it('should apply the room before retracing reflections and rays', () => {
+      const context = createMockContext();
+      const oldState = createInitialAppState();
+      const newState = updateAppState(oldState, {
+        type: 'SELECT_ROOM_PRESET',
+        payload: { presetId: 'triangle' },
+      });
+
+      const effects = applyStateEffects(oldState, newState, context);
+
+      expect(effects.map((effect) => effect.type)).toEqual([
+        'scene',
+        'reflections',
+        'rayUpdate',
+      ]);
+      expect(
+        vi.mocked(context.applyRoom).mock.invocationCallOrder[0]
+      ).toBeLessThan(
+        vi.mocked(context.updateReflections).mock.invocationCallOrder[0]
+      );
+    });
+
+    it('should run nothing for unchanged state', () => {
+      const context = createMockContext();
+      const state = createInitialAppState();
+
+      expect(applyStateEffects(state, state, context)).toEqual([]);
     });
   });
-});
\ No newline at end of file
+});
@@ -1,27 +1,81 @@
 // ABOUTME: Pure effect descriptions for state changes following functional patterns
 // ABOUTME: Effects are data structures that describe side effects without executing them
 
-import { Vector3, Scene, Mesh, StandardMaterial, MirrorTexture } from 'babylonjs';
+import { Vector3, Matrix, Scene, Mesh, AbstractMesh, Color3 } from 'babylonjs';
 import type { AppState } from './appState';
+import { selectRayConfiguration } from './appState';
+import { createSceneRoom } from './sceneState';
+import { getSceneObject, type SceneObject } from './objectsState';
+import type { ObjectTransform } from './transformState';
+import type { QualitySetting, RenderMode } from './uiState';
 import type { InitialStateConfig } from '../config/initialState';
+import type { RoomDefinition } from '../geometry/roomDefinition';
+import type { RayConfig } from '../rays/types';
+import { OBJECT_IDS } from '../constants';
+
+/**
+ * Emitting object, ray origin and settings for redrawing one object's rays
+ */
+export interface RayUpdate {
+  objectId: string;
+  position: Vector3;
+  worldMatrix: Matrix;
+  config: RayConfig;
+}
+
+/**
+ * Ray display driven by effects (main adapts its functional ray managers, one per object)
+ */
+export interface RayEffectTarget {
+  updateObstacles: () => void;
+  updateRays: (update: RayUpdate) => void;
+}
+
+/**
+ * Gizmo operations used by effects
+ */
+export interface GizmoEffectTarget {
+  attachToMesh: (mesh: AbstractMesh | null) => void;
+}
 
 /**
  * Effect context containing scene objects and functions
+ * The optional operations belong to main, which owns the room, mirrors and managers
  */
 export interface EffectContext {
   editorScene: Scene;
   renderScene: Scene;
-  gizmoManager: any; // Avoiding circular dependency
-  rayManager: any; // Avoiding circular dependency
+  gizmoManager: GizmoEffectTarget | null;
+  rayManager: RayEffectTarget | null;
   applyHighlight: (scene: Scene, objectId: string) => void;
   removeHighlight: (scene: Scene, objectId: string) => void;
   getInitialConfig?: () => InitialStateConfig;
+  syncRenderCamera?: () => void;
+  applyRoom?: (room: RoomDefinition, isNewShape: boolean) => void;
+  setPillarEnabled?: (enabled: boolean) => void;
+  setImagePathsVisible?: (visible: boolean) => void;
+  setHandednessVisible?: (visible: boolean) => void;
+  applyQuality?: (quality: QualitySetting) => void;
+  applyRenderMode?: (mode: RenderMode) => void;
+  updateReflections?: () => void;
+  updateUnfoldedRoom?: (visible: boolean) => void;
+  addObject?: (object: SceneObject, transform: ObjectTransform | null) => void;
+  removeObject?: (objectId: string) => void;
+  updateObjectColor?: (object: SceneObject) => void;
 }
 
 /**
  * Effect types
  */
-export type EffectType = 'selection' | 'transform' | 'rayUpdate' | 'quality' | 'reset';
+export type EffectType =
+  | 'objects'
+  | 'selection'
+  | 'transform'
+  | 'reset'
+  | 'scene'
+  | 'quality'
+  | 'reflections'
+  | 'rayUpdate';
 
 /**
  * Effect description - pure data structure
@@ -31,6 +85,154 @@ export interface StateEffect {
   execute: (context: EffectContext) => void;
 }
 
+/**
+ * Whether any ray setting differs between two states
+ */
+const hasRayConfigChanged = (oldState: AppState, newState: AppState): boolean =>
+  oldState.ui.rayCount !== newState.ui.rayCount ||
+  oldState.ui.fanRays !== newState.ui.fanRays ||
+  oldState.ui.maxBounces !== newState.ui.maxBounces ||
+  oldState.ui.emissionPattern !== newState.ui.emissionPattern ||
+  oldState.ui.rayStyle !== newState.ui.rayStyle ||
+  oldState.ui.rayWidth !== newState.ui.rayWidth ||
+  oldState.ui.showRenderViewRays !== newState.ui.showRenderViewRays ||
+  oldState.ui.rayGlow !== newState.ui.rayGlow ||
+  oldState.ui.showUnfoldedRays !== newState.ui.showUnfoldedRays ||
+  oldState.ui.editorMode !== newState.ui.editorMode;
+
+/**
+ * Whether anything the virtual images depend on differs between two states:
+ * the objects, the room, the bounce count or the render strategy
+ */
+const haveReflectionsChanged = (
+  oldState: AppState,
+  newState: AppState
+): boolean =>
+  oldState.ui.renderMode !== newState.ui.renderMode ||
+  oldState.ui.maxBounces !== newState.ui.maxBounces ||
+  oldState.transform !== newState.transform ||
+  oldState.objects !== newState.objects ||
+  oldState.scene !== newState.scene;
+
+/**
+ * Whether the unfolded room needs redrawing beyond image changes:
+ * the editor mode, or the selected object whose cells it tiles while shown
+ */
+const hasUnfoldedRoomChanged = (
+  oldState: AppState,
+  newState: AppState
+): boolean =>
+  oldState.ui.editorMode !== newState.ui.editorMode ||
+  (newState.ui.editorMode === 'unfolded' &&
+    oldState.selection.selectedObjectId !==
+      newState.selection.selectedObjectId);
+
+/**
+ * Whether a placed object was added, removed or moved
+ * Each object blocks the others' rays, so any of these retraces them all
+ */
+const haveRayObstaclesChanged = (
+  oldState: AppState,
+  newState: AppState
+): boolean =>
+  oldState.objects !== newState.objects ||
+  newState.objects.objects.some(
+    ({ id }) =>
+      oldState.transform.transforms[id] !== newState.transform.transforms[id]
+  );
+
+/**
+ * Whether anything the objects' rays depend on differs between two states:
+ * their settings, the objects and where they stand, the room, the render mode
+ * (which decides the image cells unfolded rays continue into) or the unfolded
+ * room's cells
+ */
+const haveRaysChanged = (oldState: AppState, newState: AppState): boolean =>
+  hasRayConfigChanged(oldState, newState) ||
+  oldState.ui.renderMode !== newState.ui.renderMode ||
+  haveRayObstaclesChanged(oldState, newState) ||
+  oldState.scene !== newState.scene ||
+  hasUnfoldedRoomChanged(oldState, newState);
+
+/**
+ * Whether the state moved back to its initial object placement with nothing selected
+ */
+const isResetTransition = (oldState: AppState, newState: AppState): boolean =>
+  oldState.transform !== newState.transform &&
+  Object.keys(newState.transform.transforms).length === 0 &&
+  newState.selection.selectedObjectId === null;
+
+/**
+ * Puts an object's meshes back where the initial configuration places them
+ * Placed objects without a transform stand where the sphere starts
+ */
+const placeAtInitialTransform = (
+  context: EffectContext,
+  config: InitialStateConfig,
+  objectId: string
+): void => {
+  if (objectId === OBJECT_IDS.CAMERA_INDICATOR) {
+    // Only the editor shows the indicator; it looks at the sphere
+    const indicator = context.editorScene.getMeshByName(objectId);
+    if (indicator && indicator instanceof Mesh) {
+      indicator.position.copyFrom(config.cameraIndicator.position);
+      indicator.rotation.copyFrom(config.cameraIndicator.rotation);
+      indicator.lookAt(config.cube.position);
+    }
+  } else {
+    [context.editorScene, context.renderScene].forEach((scene) => {
+      const mesh = scene.getMeshByName(objectId);
+      if (mesh && mesh instanceof Mesh) {
+        mesh.position.copyFrom(config.cube.position);
+        mesh.rotation.copyFrom(config.cube.rotation);
+      }
+    });
+  }
+};
+
+/**
+ * Create objects effect for objects added, removed or recoloured
+ * An object whose shape changed under the same id (e.g., on load) is replaced
+ */
+export const createObjectsEffect = (
+  oldState: AppState,
+  newState: AppState
+): StateEffect => {
+  const isReplaced = (
+    object: SceneObject,
+    other: SceneObject | null
+  ): boolean => other === null || other.kind !== object.kind;
+
+  const removedObjects = oldState.objects.objects.filter((object) =>
+    isReplaced(object, getSceneObject(newState.objects, object.id))
+  );
+  const addedObjects = newState.objects.objects.filter((object) =>
+    isReplaced(object, getSceneObject(oldState.objects, object.id))
+  );
+  const recoloredObjects = newState.objects.objects.filter((object) => {
+    const oldObject = getSceneObject(oldState.objects, object.id);
+    return (
+      oldObject !== null &&
+      !isReplaced(object, oldObject) &&
+      oldObject.color !== object.color
+    );
+  });
+
+  return {
+    type: 'objects',
+    execute: (context: EffectContext): void => {
+      removedObjects.forEach((object) => context.removeObject?.(object.id));
+      addedObjects.forEach((object) =>
+        context.addObject?.(
+          object,
+          newState.transform.transforms[object.id] ?? null
+        )
+      );
+      recoloredObjects.forEach((object) => context.updateObjectColor?.(object));
+    },
+  };
+};
+
 /**
  * Create selection effect
  */
@@ -43,7 +245,7 @@ export const createSelectionEffect = (
 
   return {
     type: 'selection',
-    execute: (context: EffectContext) => {
+    execute: (context: EffectContext): void => {
       // Remove highlight from previous selection
       if (oldSelection) {
         context.removeHighlight(context.editorScene, oldSelection);
@@ -60,21 +262,9 @@ export const createSelectionEffect = (
         if (mesh && context.gizmoManager) {
           context.gizmoManager.attachToMesh(mesh);
         }
-
-        // Show rays if cube selected
-        if (newSelection === 'colorCube' && context.rayManager) {
-          context.rayManager.showRays();
-        }
-      } else {
+      } else if (context.gizmoManager) {
         // Clear gizmo
-        if (context.gizmoManager) {
-          context.gizmoManager.attachToMesh(null);
-        }
-
-        // Hide rays
-        if (context.rayManager) {
-          context.rayManager.hideRays();
-        }
+        context.gizmoManager.attachToMesh(null);
       }
     },
   };
@@ -82,29 +272,42 @@ export const createSelectionEffect = (
 
 /**
  * Create transform effect
+ * Objects whose transform was dropped (e.g., by undo) go back to their initial placement
  */
 export const createTransformEffect = (
   oldState: AppState,
   newState: AppState
 ): StateEffect => {
-  const changedObjects = Object.keys(newState.transform.objects).filter(
+  const changedObjects = Object.keys(newState.transform.transforms).filter(
     (objectId) => {
-      const oldTransform = oldState.transform.objects[objectId];
-      const newTransform = newState.transform.objects[objectId];
-      
+      const oldTransform = oldState.transform.transforms[objectId];
+      const newTransform = newState.transform.transforms[objectId];
+
       if (!oldTransform) return true;
-      
-      return !oldTransform.position.equals(newTransform.position) ||
-             !oldTransform.rotation.equals(newTransform.rotation);
+
+      return (
+        !oldTransform.position.equals(newTransform.position) ||
+        !oldTransform.rotation.equals(newTransform.rotation)
+      );
     }
   );
+  const droppedObjects = Object.keys(oldState.transform.transforms).filter(
+    (objectId) => !newState.transform.transforms[objectId]
+  );
 
   return {
     type: 'transform',
-    execute: (context: EffectContext) => {
+    execute: (context: EffectContext): void => {
+      if (context.getInitialConfig) {
+        const config = context.getInitialConfig();
+        droppedObjects.forEach((objectId) =>
+          placeAtInitialTransform(context, config, objectId)
+        );
+      }
+
       changedObjects.forEach((objectId) => {
-        const transform = newState.transform.objects[objectId];
-        
+        const transform = newState.transform.transforms[objectId];
+
         // Update editor scene
         const editorMesh = context.editorScene.getMeshByName(objectId);
         if (editorMesh && editorMesh instanceof Mesh) {
@@ -119,43 +322,87 @@ export const createTransformEffect = (
           renderMesh.rotation.copyFrom(transform.rotation);
         }
       });
+
+      // The render camera looks from the camera indicator
+      if (
+        [...changedObjects, ...droppedObjects].includes(
+          OBJECT_IDS.CAMERA_INDICATOR
+        )
+      ) {
+        context.syncRenderCamera?.();
+      }
     },
   };
 };
 
 /**
- * Create ray update effect
+ * Create reset effect
  */
-export const createRayUpdateEffect = (
+export const createResetEffect = (
   oldState: AppState,
   newState: AppState
 ): StateEffect => {
-  const rayConfigChanged =
-    oldState.ui.rayCount !== newState.ui.rayCount ||
-    oldState.ui.maxBounces !== newState.ui.maxBounces;
-
-  const selectedObject = newState.selection.selectedObjectId;
+  const isReset = isResetTransition(oldState, newState);
 
   return {
-    type: 'rayUpdate',
-    execute: (context: EffectContext) => {
-      if (rayConfigChanged && selectedObject === 'colorCube' && context.rayManager) {
-        const mesh = context.editorScene.getMeshByName(selectedObject);
-        if (mesh && mesh instanceof Mesh) {
-          context.rayManager.updateRays({
-            position: mesh.position,
-            worldMatrix: mesh.getWorldMatrix(),
-            config: {
-              count: newState.ui.rayCount,
-              maxBounces: newState.ui.maxBounces,
-            },
-          });
+    type: 'reset',
+    execute: (context: EffectContext): void => {
+      if (isReset && context.getInitialConfig) {
+        const config = context.getInitialConfig();
+
+        // Reset every object and the camera indicator
+        newState.objects.objects.forEach(({ id }) =>
+          placeAtInitialTransform(context, config, id)
+        );
+        placeAtInitialTransform(context, config, OBJECT_IDS.CAMERA_INDICATOR);
+        context.syncRenderCamera?.();
+
+        // Clear gizmo
+        if (context.gizmoManager) {
+          context.gizmoManager.attachToMesh(null);
         }
       }
     },
   };
 };
 
+/**
+ * Create scene effect for the room shape, mirrors, pillar, sight lines and handedness labels
+ */
+export const createSceneEffect = (
+  oldState: AppState,
+  newState: AppState
+): StateEffect => {
+  const isNewShape =
+    oldState.scene.roomPresetId !== newState.scene.roomPresetId;
+  const roomChanged =
+    isNewShape || oldState.scene.mirrorWalls !== newState.scene.mirrorWalls;
+  const pillarChanged =
+    oldState.scene.isPillarEnabled !== newState.scene.isPillarEnabled;
+  const imagePathsChanged =
+    oldState.scene.showImagePaths !== newState.scene.showImagePaths;
+  const handednessChanged =
+    oldState.scene.showHandedness !== newState.scene.showHandedness;
+
+  return {
+    type: 'scene',
+    execute: (context: EffectContext): void => {
+      if (roomChanged) {
+        context.applyRoom?.(createSceneRoom(newState.scene), isNewShape);
+      }
+      if (pillarChanged) {
+        context.setPillarEnabled?.(newState.scene.isPillarEnabled);
+      }
+      if (imagePathsChanged) {
+        context.setImagePathsVisible?.(newState.scene.showImagePaths);
+      }
+      if (handednessChanged) {
+        context.setHandednessVisible?.(newState.scene.showHandedness);
+      }
+    },
+  };
+};
+
 /**
  * Create quality effect
  */
@@ -167,95 +414,89 @@ export const createQualityEffect = (
 
   return {
     type: 'quality',
-    execute: (context: EffectContext) => {
+    execute: (context: EffectContext): void => {
       if (qualityChanged) {
-        const mirrorSize =
-          newState.ui.quality === 'low' ? 256 :
-          newState.ui.quality === 'medium' ? 512 : 1024;
-
-        // Update all mirror textures
-        context.renderScene.materials.forEach((material) => {
-          if (
-            material instanceof StandardMaterial &&
-            material.reflectionTexture instanceof MirrorTexture
-          ) {
-            const oldTexture = material.reflectionTexture;
-            const newTexture = new MirrorTexture(
-              oldTexture.name,
-              mirrorSize,
-              context.renderScene,
-              true
-            );
-            newTexture.mirrorPlane = oldTexture.mirrorPlane;
-            newTexture.renderList = oldTexture.renderList;
-            material.reflectionTexture = newTexture;
-            oldTexture.dispose();
-          }
-        });
+        context.applyQuality?.(newState.ui.quality);
       }
     },
   };
 };
 
 /**
- * Create reset effect
+ * Create reflections effect for the render strategy and the virtual images
  */
-export const createResetEffect = (
+export const createReflectionEffect = (
   oldState: AppState,
   newState: AppState
 ): StateEffect => {
-  // Check if this is a reset by comparing to initial state
-  const isReset = 
-    newState.selection.selectedObjectId === null &&
-    Object.keys(newState.transform.objects).length === 0 &&
-    newState.ui.rayCount === 4 &&
-    newState.ui.maxBounces === 2 &&
-    newState.ui.quality === 'medium';
+  const renderModeChanged = oldState.ui.renderMode !== newState.ui.renderMode;
+  const imagesChanged = haveReflectionsChanged(oldState, newState);
+  const unfoldedRoomChanged = hasUnfoldedRoomChanged(oldState, newState);
 
   return {
-    type: 'reset',
-    execute: (context: EffectContext) => {
-      if (isReset && context.getInitialConfig) {
-        const config = context.getInitialConfig();
-
-        // Reset cube position and rotation
-        const editorCube = context.editorScene.getMeshByName('colorCube');
-        const renderCube = context.renderScene.getMeshByName('colorCube');
-        if (editorCube && editorCube instanceof Mesh) {
-          editorCube.position.copyFrom(config.cube.position);
-          editorCube.rotation.copyFrom(config.cube.rotation);
-        }
-        if (renderCube && renderCube instanceof Mesh) {
-          renderCube.position.copyFrom(config.cube.position);
-          renderCube.rotation.copyFrom(config.cube.rotation);
-        }
-
-        // Reset camera indicator
-        const cameraIndicator = context.editorScene.getMeshByName('cameraIndicator');
-        if (cameraIndicator && cameraIndicator instanceof Mesh) {
-          cameraIndicator.position.copyFrom(config.cameraIndicator.position);
-          cameraIndicator.rotation.copyFrom(config.cameraIndicator.rotation);
-          
-          // Look at cube
-          cameraIndicator.lookAt(config.cube.position);
-        }
+    type: 'reflections',
+    execute: (context: EffectContext): void => {
+      if (renderModeChanged) {
+        context.applyRenderMode?.(newState.ui.renderMode);
+      }
+      if (imagesChanged) {
+        context.updateReflections?.();
+      }
+      // The unfolded room tiles the same reflected cells as the images
+      if (imagesChanged || unfoldedRoomChanged) {
+        context.updateUnfoldedRoom?.(newState.ui.editorMode === 'unfolded');
+      }
+    },
+  };
+};
 
-        // Clear gizmo
-        if (context.gizmoManager) {
-          context.gizmoManager.attachToMesh(null);
-        }
+/**
+ * Create ray update effect
+ * Every object emits its own rays from where its editor mesh is
+ *
+ * @param oldState - Previous state, or null to trace every object (e.g., on startup)
+ * @param newState - Current state
+ */
+export const createRayUpdateEffect = (
+  oldState: AppState | null,
+  newState: AppState
+): StateEffect => {
+  const raysChanged = !oldState || haveRaysChanged(oldState, newState);
+  const obstaclesChanged =
+    !oldState || haveRayObstaclesChanged(oldState, newState);
+  const config = selectRayConfiguration(newState);
 
-        // Hide rays
-        if (context.rayManager) {
-          context.rayManager.hideRays();
-        }
+  return {
+    type: 'rayUpdate',
+    execute: (context: EffectContext): void => {
+      if (!raysChanged) return;
+      if (obstaclesChanged) {
+        context.rayManager?.updateObstacles();
       }
+      newState.objects.objects.forEach((object) => {
+        const mesh = context.editorScene.getMeshByName(object.id);
+        if (mesh && mesh instanceof Mesh && context.rayManager) {
+          // Rays take the object's colour; the gradient sphere keeps gradient rays
+          context.rayManager.updateRays({
+            objectId: object.id,
+            position: mesh.position,
+            worldMatrix: mesh.computeWorldMatrix(true),
+            config: {
+              ...config,
+              color: object.color
+                ? Color3.FromHexString(object.color)
+                : undefined,
+            },
+          });
+        }
+      });
     },
   };
 };
 
 /**
  * Apply state effects based on state changes
+ * Room and object changes run before the reflections and rays that depend on them
  * Returns array of effects that were executed
  */
 export const applyStateEffects = (
@@ -264,44 +505,53 @@ export const applyStateEffects = (
   context: EffectContext
 ): StateEffect[] => {
   const effects: StateEffect[] = [];
+  const run = (effect: StateEffect): void => {
+    effect.execute(context);
+    effects.push(effect);
+  };
+
+  // Objects come and go first, so selection and transforms find their meshes
+  if (oldState.objects !== newState.objects) {
+    run(createObjectsEffect(oldState, newState));
+  }
 
   // Check for selection changes
   if (oldState.selection !== newState.selection) {
-    const effect = createSelectionEffect(oldState, newState);
-    effect.execute(context);
-    effects.push(effect);
+    run(createSelectionEffect(oldState, newState));
   }
 
   // Check for transform changes
   if (oldState.transform !== newState.transform) {
-    const effect = createTransformEffect(oldState, newState);
-    effect.execute(context);
-    effects.push(effect);
+    run(createTransformEffect(oldState, newState));
   }
 
-  // Check for ray config changes
-  if (
-    oldState.ui.rayCount !== newState.ui.rayCount ||
-    oldState.ui.maxBounces !== newState.ui.maxBounces
-  ) {
-    const effect = createRayUpdateEffect(oldState, newState);
-    effect.execute(context);
-    effects.push(effect);
+  // Check for reset
+  if (isResetTransition(oldState, newState)) {
+    run(createResetEffect(oldState, newState));
+  }
+
+  // Check for room, pillar and sight line changes
+  if (oldState.scene !== newState.scene) {
+    run(createSceneEffect(oldState, newState));
   }
 
   // Check for quality changes
   if (oldState.ui.quality !== newState.ui.quality) {
-    const effect = createQualityEffect(oldState, newState);
-    effect.execute(context);
-    effects.push(effect);
+    run(createQualityEffect(oldState, newState));
   }
 
-  // Check for reset
-  const resetEffect = createResetEffect(oldState, newState);
-  if (resetEffect.type === 'reset') {
-    resetEffect.execute(context);
-    effects.push(resetEffect);
+  // Check for changes the virtual images or the unfolded room depend on
+  if (
+    haveReflectionsChanged(oldState, newState) ||
+    hasUnfoldedRoomChanged(oldState, newState)
+  ) {
+    run(createReflectionEffect(oldState, newState));
+  }
+
+  // Check for changes the rays depend on
+  if (haveRaysChanged(oldState, newState)) {
+    run(createRayUpdateEffect(oldState, newState));
   }
 
   return effects;
-};
\ No newline at end of file
+};
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createStore } from './store';
+
+type CounterAction = { type: 'add'; amount: number } | { type: 'noop' };
+
+const counter = (state: number, action: CounterAction): number =>
+  action.type === 'add' ? state + action.amount : state;
+
+describe('store', () => {
+  it('should hold the initial state', () => {
+    const store = createStore(counter, 5);
+
+    expect(store.getState()).toBe(5);
+  });
+
+  it('should reduce dispatched actions and notify listeners', () => {
+    const store = createStore(counter, 0);
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    const action: CounterAction = { type: 'add', amount: 2 };
+    store.dispatch(action);
+
+    expect(store.getState()).toBe(2);
+    expect(listener).toHaveBeenCalledWith(2, 0, action);
+  });
+
+  it('should not notify when the state is unchanged', () => {
+    const store = createStore(counter, 0);
+    const listener = vi.fn();
+    store.subscribe(listener);
+
+    store.dispatch({ type: 'noop' });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should stop notifying after unsubscribing', () => {
+    const store = createStore(counter, 0);
+    const listener = vi.fn();
+    const unsubscribe = store.subscribe(listener);
+
+    unsubscribe();
+    store.dispatch({ type: 'add', amount: 1 });
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should let listeners dispatch follow-up actions', () => {
+    const store = createStore(counter, 0);
+    const seen: Array<[number, number]> = [];
+    store.subscribe((state, previousState) => {
+      seen.push([previousState, state]);
+      if (state === 1) {
+        store.dispatch({ type: 'add', amount: 10 });
+      }
+    });
+
+    store.dispatch({ type: 'add', amount: 1 });
+
+    expect(store.getState()).toBe(11);
+    expect(seen).toEqual([
+      [0, 1],
+      [1, 11],
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+// ABOUTME: Minimal store holding one immutable state value updated by a reducer
+// ABOUTME: Listeners hear about every change with the previous state and the action
+
+/**
+ * Called after an action changed the state
+ */
+export type StoreListener<S, A> = (
+  state: S,
+  previousState: S,
+  action: A
+) => void;
+
+/**
+ * Store with Redux-like dispatch and subscribe
+ */
+export interface Store<S, A> {
+  readonly getState: () => S;
+  readonly dispatch: (action: A) => void;
+  readonly subscribe: (listener: StoreListener<S, A>) => () => void;
+}
+
+/**
+ * Create a store around a pure reducer
+ * Actions the reducer ignores (returning the same state) notify nobody
+ *
+ * @param reducer - Pure function computing the next state
+ * @param initialState - State before any action
+ * @returns Store
+ */
+export const createStore = <S, A>(
+  reducer: (state: S, action: A) => S,
+  initialState: S
+): Store<S, A> => {
+  let state = initialState;
+  let listeners: ReadonlyArray<StoreListener<S, A>> = [];
+
+  const getState = (): S => state;
+
+  const dispatch = (action: A): void => {
+    const previousState = state;
+    const nextState = reducer(previousState, action);
+    if (nextState === previousState) {
+      return;
+    }
+
+    state = nextState;
+    // Listeners may dispatch again; each hears the change it caused in order
+    listeners.forEach((listener) => listener(nextState, previousState, action));
+  };
+
+  const subscribe = (listener: StoreListener<S, A>): (() => void) => {
+    listeners = [...listeners, listener];
+    return () => {
+      listeners = listeners.filter((current) => current !== listener);
+    };
+  };
+
+  return Object.freeze({ getState, dispatch, subscribe });
+};
@@ -5,6 +5,8 @@ import {
   updateObjectRotation,
   getObjectTransform,
   clearTransforms,
+  removeObjectTransform,
+  keepTransformsWhere,
   type TransformState,
 } from './transformState';
 import { Vector3 } from 'babylonjs';
@@ -171,6 +173,44 @@ describe('transformState', () => {
     });
   });
 
+  describe('removeObjectTransform', () => {
+    it('should remove only that object', () => {
+      let state = createInitialTransformState();
+      state = updateObjectPosition(state, 'cube1', new Vector3(1, 0, 1));
+      state = updateObjectPosition(state, 'cube2', new Vector3(2, 0, 2));
+
+      const removedState = removeObjectTransform(state, 'cube1');
+
+      expect(Object.keys(removedState.transforms)).toEqual(['cube2']);
+      expect(Object.keys(state.transforms)).toEqual(['cube1', 'cube2']);
+    });
+
+    it('should return same state for objects without a transform', () => {
+      const state = createInitialTransformState();
+
+      expect(removeObjectTransform(state, 'cube1')).toBe(state);
+    });
+  });
+
+  describe('keepTransformsWhere', () => {
+    it('should remove transforms whose position fails the test', () => {
+      let state = createInitialTransformState();
+      state = updateObjectPosition(state, 'cube1', new Vector3(1, 0, 1));
+      state = updateObjectPosition(state, 'cube2', new Vector3(8, 0, 8));
+
+      const kept = keepTransformsWhere(state, ({ x }) => x < 5);
+
+      expect(Object.keys(kept.transforms)).toEqual(['cube1']);
+    });
+
+    it('should return same state when every position passes', () => {
+      let state = createInitialTransformState();
+      state = updateObjectPosition(state, 'cube1', new Vector3(1, 0, 1));
+
+      expect(keepTransformsWhere(state, () => true)).toBe(state);
+    });
+  });
+
   describe('clearTransforms', () => {
     it('should remove all transforms', () => {
       let state = createInitialTransformState();
@@ -101,6 +101,52 @@ export const updateObjectRotation = (
   return newState;
 };
 
+/**
+ * Removes an object's transform from state
+ *
+ * @param state - Current transform state
+ * @param objectId - ID of object to remove
+ * @returns New state without the object, or the same state if it had no transform
+ */
+export const removeObjectTransform = (
+  state: TransformState,
+  objectId: string
+): TransformState => {
+  if (!state.transforms[objectId]) {
+    return state;
+  }
+
+  const newState: TransformState = {
+    transforms: Object.fromEntries(
+      Object.entries(state.transforms).filter(([id]) => id !== objectId)
+    ),
+  };
+
+  if (process.env.NODE_ENV === 'development') {
+    return Object.freeze(newState);
+  }
+
+  return newState;
+};
+
+/**
+ * Keeps only the transforms whose position passes a test, e.g. objects inside a new room
+ *
+ * @param state - Current transform state
+ * @param isKept - Whether a position may stay
+ * @returns New state without the rejected transforms, or the same state if all are kept
+ */
+export const keepTransformsWhere = (
+  state: TransformState,
+  isKept: (position: Vector3) => boolean
+): TransformState =>
+  Object.entries(state.transforms)
+    .filter(([, { position }]) => !isKept(position))
+    .reduce(
+      (current, [objectId]) => removeObjectTransform(current, objectId),
+      state
+    );
+
 /**
  * Gets transform for an object
  *
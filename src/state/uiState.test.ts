@@ -7,9 +7,23 @@ import {
   createInitialUIState,
   updateRayCount,
   updateMaxBounces,
+  updateEmissionPattern,
+  updateRayStyle,
+  updateRayWidth,
+  updateShowRenderViewRays,
+  updateRayGlow,
+  updateShowUnfoldedRays,
+  updateEditorMode,
+  updateRenderMode,
   updateQuality,
   validateRayCount,
   validateMaxBounces,
+  validateEmissionPattern,
+  validateRayStyle,
+  validateRayWidth,
+  validateEditorMode,
+  validateRenderMode,
+  validateQuality,
   QualityLevel,
 } from './uiState';
 
@@ -19,9 +33,18 @@ describe('uiState', () => {
       const state = createInitialUIState();
 
       expect(state).toEqual({
-        rayCount: 4,
+        rayCount: 1,
+        fanRays: 3,
         maxBounces: 2,
-        quality: 'medium',
+        emissionPattern: 'ring',
+        rayStyle: 'lines',
+        rayWidth: 0.08,
+        showRenderViewRays: false,
+        rayGlow: false,
+        showUnfoldedRays: false,
+        renderMode: 'instanced',
+        editorMode: 'room',
+        quality: 'high',
       });
     });
 
@@ -57,7 +80,7 @@ describe('uiState', () => {
 
     it('should return same state if value unchanged', () => {
       const state = createInitialUIState();
-      const newState = updateRayCount(state, 4);
+      const newState = updateRayCount(state, 1);
 
       expect(newState).toBe(state); // Same reference
     });
@@ -80,8 +103,8 @@ describe('uiState', () => {
       const tooLow = updateMaxBounces(state, 0);
       expect(tooLow.maxBounces).toBe(1);
 
-      const tooHigh = updateMaxBounces(state, 10);
-      expect(tooHigh.maxBounces).toBe(5);
+      const tooHigh = updateMaxBounces(state, 25);
+      expect(tooHigh.maxBounces).toBe(20);
     });
 
     it('should return same state if value unchanged', () => {
@@ -92,12 +115,91 @@ describe('uiState', () => {
     });
   });
 
+  describe('updateEmissionPattern', () => {
+    it('should update the emission pattern and return new state', () => {
+      const state = createInitialUIState();
+      const newState = updateEmissionPattern(state, 'sphere');
+
+      expect(newState.emissionPattern).toBe('sphere');
+      expect(state.emissionPattern).toBe('ring');
+      expect(newState).not.toBe(state);
+    });
+
+    it('should return same state if value unchanged', () => {
+      const state = createInitialUIState();
+
+      expect(updateEmissionPattern(state, 'ring')).toBe(state);
+    });
+  });
+
+  describe('updateRayStyle', () => {
+    it('should start with thin lines and switch to tubes', () => {
+      const state = createInitialUIState();
+      const newState = updateRayStyle(state, 'tubes');
+
+      expect(state.rayStyle).toBe('lines');
+      expect(newState.rayStyle).toBe('tubes');
+      expect(updateRayStyle(newState, 'tubes')).toBe(newState);
+    });
+  });
+
+  describe('updateRayWidth', () => {
+    it('should update ray width and return new state', () => {
+      const state = createInitialUIState();
+      const newState = updateRayWidth(state, 0.2);
+
+      expect(newState.rayWidth).toBe(0.2);
+      expect(state.rayWidth).toBe(0.08);
+      expect(updateRayWidth(newState, 0.2)).toBe(newState);
+    });
+  });
+
+  describe('render view ray options', () => {
+    it('should start off and turn on independently', () => {
+      const state = createInitialUIState();
+
+      expect(state.showRenderViewRays).toBe(false);
+      expect(updateShowRenderViewRays(state, true).showRenderViewRays).toBe(
+        true
+      );
+      expect(updateRayGlow(state, true).rayGlow).toBe(true);
+      expect(updateShowUnfoldedRays(state, true).showUnfoldedRays).toBe(true);
+      expect(updateRayGlow(state, false)).toBe(state);
+    });
+  });
+
+  describe('updateEditorMode', () => {
+    it('should start on the room and switch to the unfolded room', () => {
+      const state = createInitialUIState();
+      const newState = updateEditorMode(state, 'unfolded');
+
+      expect(state.editorMode).toBe('room');
+      expect(newState.editorMode).toBe('unfolded');
+      expect(updateEditorMode(newState, 'unfolded')).toBe(newState);
+    });
+  });
+
+  describe('updateRenderMode', () => {
+    it('should start with virtual image instances', () => {
+      expect(createInitialUIState().renderMode).toBe('instanced');
+    });
+
+    it('should update the render mode and return new state', () => {
+      const state = createInitialUIState();
+      const newState = updateRenderMode(state, 'mirrorTexture');
+
+      expect(newState.renderMode).toBe('mirrorTexture');
+      expect(state.renderMode).toBe('instanced');
+      expect(updateRenderMode(newState, 'mirrorTexture')).toBe(newState);
+    });
+  });
+
   describe('updateQuality', () => {
     it('should update quality and return new state', () => {
       const oldState = createInitialUIState();
-      const newState = updateQuality(oldState, 'high');
+      const newState = updateQuality(oldState, 'low');
 
-      expect(newState.quality).toBe('high');
+      expect(newState.quality).toBe('low');
       expect(newState.rayCount).toBe(oldState.rayCount);
       expect(newState.maxBounces).toBe(oldState.maxBounces);
       expect(newState).not.toBe(oldState);
@@ -105,7 +207,7 @@ describe('uiState', () => {
 
     it('should return same state if value unchanged', () => {
       const state = createInitialUIState();
-      const newState = updateQuality(state, 'medium');
+      const newState = updateQuality(state, 'high');
 
       expect(newState).toBe(state);
     });
@@ -146,12 +248,12 @@ describe('uiState', () => {
     it('should return value within valid range', () => {
       expect(validateMaxBounces(3)).toBe(3);
       expect(validateMaxBounces(1)).toBe(1);
-      expect(validateMaxBounces(5)).toBe(5);
+      expect(validateMaxBounces(20)).toBe(20);
     });
 
     it('should clamp values outside range', () => {
       expect(validateMaxBounces(0)).toBe(1);
-      expect(validateMaxBounces(10)).toBe(5);
+      expect(validateMaxBounces(25)).toBe(20);
     });
 
     it('should round fractional values', () => {
@@ -159,4 +261,62 @@ describe('uiState', () => {
       expect(validateMaxBounces(2.3)).toBe(2);
     });
   });
+
+  describe('validateEmissionPattern', () => {
+    it('should accept known patterns', () => {
+      expect(validateEmissionPattern('cone')).toBe('cone');
+      expect(validateEmissionPattern('verticalFan')).toBe('verticalFan');
+    });
+
+    it('should fall back to the ring for unknown names', () => {
+      expect(validateEmissionPattern('spiral')).toBe('ring');
+    });
+  });
+
+  describe('validateRayStyle', () => {
+    it('should fall back to lines for unknown names', () => {
+      expect(validateRayStyle('tubes')).toBe('tubes');
+      expect(validateRayStyle('ribbons')).toBe('lines');
+    });
+  });
+
+  describe('validateEditorMode', () => {
+    it('should fall back to the room for unknown modes', () => {
+      expect(validateEditorMode('unfolded')).toBe('unfolded');
+      expect(validateEditorMode('folded')).toBe('room');
+    });
+  });
+
+  describe('validateRayWidth', () => {
+    it('should clamp values outside range', () => {
+      expect(validateRayWidth(0)).toBe(0.02);
+      expect(validateRayWidth(1)).toBe(0.3);
+    });
+
+    it('should round to hundredths', () => {
+      expect(validateRayWidth(0.123)).toBe(0.12);
+    });
+  });
+
+  describe('validateQuality', () => {
+    it('should accept levels and automatic quality', () => {
+      expect(validateQuality('low')).toBe('low');
+      expect(validateQuality('auto')).toBe('auto');
+    });
+
+    it('should fall back to high quality for unknown names', () => {
+      expect(validateQuality('ultra')).toBe('high');
+    });
+  });
+
+  describe('validateRenderMode', () => {
+    it('should accept known modes', () => {
+      expect(validateRenderMode('mirrorTexture')).toBe('mirrorTexture');
+      expect(validateRenderMode('hybrid')).toBe('hybrid');
+    });
+
+    it('should fall back to instances for unknown names', () => {
+      expect(validateRenderMode('raytraced')).toBe('instanced');
+    });
+  });
 });
@@ -1,11 +1,32 @@
 // ABOUTME: UI state management with pure update functions
-// ABOUTME: Handles ray count, bounce count, and quality settings immutably
+// ABOUTME: Handles ray count, bounce count, emission pattern, ray style and quality settings immutably
+
+import type { EmissionPattern, RayStyle } from '../rays/types';
+import { MAX_BOUNCES } from '../constants';
 
 /**
  * Quality level options for rendering
  */
 export type QualityLevel = 'low' | 'medium' | 'high';
 
+/**
+ * Quality chosen in the control panel: a fixed level, or automatic from frame times
+ */
+export type QualitySetting = QualityLevel | 'auto';
+
+/**
+ * How the render view draws reflections: virtual image instances,
+ * live mirror textures on the mirror walls, or textures for the first bounce
+ * and instances beyond it
+ */
+export type RenderMode = 'instanced' | 'mirrorTexture' | 'hybrid';
+
+/**
+ * What the editor view shows: the room, or the room among its reflected copies
+ * with each ray also drawn straight through them (the method of images)
+ */
+export type EditorMode = 'room' | 'unfolded';
+
 /**
  * UI state interface
  */
@@ -13,7 +34,15 @@ export interface UIState {
   readonly rayCount: number;
   readonly fanRays: number;
   readonly maxBounces: number;
-  readonly quality: QualityLevel;
+  readonly emissionPattern: EmissionPattern;
+  readonly rayStyle: RayStyle;
+  readonly rayWidth: number; // Tube diameter in world units
+  readonly showRenderViewRays: boolean; // Also draw rays in the render view
+  readonly rayGlow: boolean; // Glow around rays in the render view
+  readonly showUnfoldedRays: boolean; // Continue rays into the virtual-image cells
+  readonly renderMode: RenderMode;
+  readonly editorMode: EditorMode;
+  readonly quality: QualitySetting;
 }
 
 /**
@@ -24,7 +53,15 @@ export const createInitialUIState = (): UIState => {
     rayCount: 1,
     fanRays: 3,
     maxBounces: 2,
-    quality: 'high' as QualityLevel,
+    emissionPattern: 'ring' as EmissionPattern,
+    rayStyle: 'lines' as RayStyle,
+    rayWidth: 0.08,
+    showRenderViewRays: false,
+    rayGlow: false,
+    showUnfoldedRays: false,
+    renderMode: 'instanced' as RenderMode,
+    editorMode: 'room' as EditorMode,
+    quality: 'high' as QualitySetting,
   });
 };
 
@@ -49,7 +86,55 @@ export const validateFanRays = (value: number): number => {
  */
 export const validateMaxBounces = (value: number): number => {
   const rounded = Math.round(value);
-  return Math.max(1, Math.min(5, rounded));
+  return Math.max(1, Math.min(MAX_BOUNCES, rounded));
+};
+
+/**
+ * Validate an emission pattern name, falling back to the horizontal ring
+ */
+export const validateEmissionPattern = (value: string): EmissionPattern => {
+  const patterns: EmissionPattern[] = ['ring', 'sphere', 'cone', 'verticalFan'];
+  return patterns.find((pattern) => pattern === value) ?? 'ring';
+};
+
+/**
+ * Validate a ray style name, falling back to thin lines
+ */
+export const validateRayStyle = (value: string): RayStyle => {
+  const styles: RayStyle[] = ['lines', 'tubes'];
+  return styles.find((style) => style === value) ?? 'lines';
+};
+
+/**
+ * Validate and clamp ray width to valid range, in hundredths of a unit
+ */
+export const validateRayWidth = (value: number): number => {
+  const rounded = Math.round(value * 100) / 100;
+  return Math.max(0.02, Math.min(0.3, rounded));
+};
+
+/**
+ * Validate a quality setting name, falling back to high quality
+ */
+export const validateQuality = (value: string): QualitySetting => {
+  const settings: QualitySetting[] = ['auto', 'low', 'medium', 'high'];
+  return settings.find((setting) => setting === value) ?? 'high';
+};
+
+/**
+ * Validate a render mode name, falling back to virtual image instances
+ */
+export const validateRenderMode = (value: string): RenderMode => {
+  const modes: RenderMode[] = ['instanced', 'mirrorTexture', 'hybrid'];
+  return modes.find((mode) => mode === value) ?? 'instanced';
+};
+
+/**
+ * Validate an editor mode name, falling back to the plain room
+ */
+export const validateEditorMode = (value: string): EditorMode => {
+  const modes: EditorMode[] = ['room', 'unfolded'];
+  return modes.find((mode) => mode === value) ?? 'room';
 };
 
 /**
@@ -106,12 +191,149 @@ export const updateMaxBounces = (
   });
 };
 
+/**
+ * Update ray emission pattern
+ */
+export const updateEmissionPattern = (
+  state: UIState,
+  emissionPattern: EmissionPattern
+): UIState => {
+  // Return same state if value unchanged
+  if (emissionPattern === state.emissionPattern) {
+    return state;
+  }
+
+  return Object.freeze({
+    ...state,
+    emissionPattern,
+  });
+};
+
+/**
+ * Update how rays are drawn
+ */
+export const updateRayStyle = (state: UIState, rayStyle: RayStyle): UIState => {
+  // Return same state if value unchanged
+  if (rayStyle === state.rayStyle) {
+    return state;
+  }
+
+  return Object.freeze({
+    ...state,
+    rayStyle,
+  });
+};
+
+/**
+ * Update ray width with validation
+ */
+export const updateRayWidth = (state: UIState, rayWidth: number): UIState => {
+  const validated = validateRayWidth(rayWidth);
+
+  // Return same state if value unchanged
+  if (validated === state.rayWidth) {
+    return state;
+  }
+
+  return Object.freeze({
+    ...state,
+    rayWidth: validated,
+  });
+};
+
+/**
+ * Show or hide rays in the render view
+ */
+export const updateShowRenderViewRays = (
+  state: UIState,
+  showRenderViewRays: boolean
+): UIState => {
+  // Return same state if value unchanged
+  if (showRenderViewRays === state.showRenderViewRays) {
+    return state;
+  }
+
+  return Object.freeze({
+    ...state,
+    showRenderViewRays,
+  });
+};
+
+/**
+ * Turn glow around render view rays on or off
+ */
+export const updateRayGlow = (state: UIState, rayGlow: boolean): UIState => {
+  // Return same state if value unchanged
+  if (rayGlow === state.rayGlow) {
+    return state;
+  }
+
+  return Object.freeze({
+    ...state,
+    rayGlow,
+  });
+};
+
+/**
+ * Show or hide rays continued into the virtual-image cells
+ */
+export const updateShowUnfoldedRays = (
+  state: UIState,
+  showUnfoldedRays: boolean
+): UIState => {
+  // Return same state if value unchanged
+  if (showUnfoldedRays === state.showUnfoldedRays) {
+    return state;
+  }
+
+  return Object.freeze({
+    ...state,
+    showUnfoldedRays,
+  });
+};
+
+/**
+ * Update how reflections are rendered
+ */
+export const updateRenderMode = (
+  state: UIState,
+  renderMode: RenderMode
+): UIState => {
+  // Return same state if value unchanged
+  if (renderMode === state.renderMode) {
+    return state;
+  }
+
+  return Object.freeze({
+    ...state,
+    renderMode,
+  });
+};
+
+/**
+ * Update what the editor view shows
+ */
+export const updateEditorMode = (
+  state: UIState,
+  editorMode: EditorMode
+): UIState => {
+  // Return same state if value unchanged
+  if (editorMode === state.editorMode) {
+    return state;
+  }
+
+  return Object.freeze({
+    ...state,
+    editorMode,
+  });
+};
+
 /**
  * Update quality level
  */
 export const updateQuality = (
   state: UIState,
-  quality: QualityLevel
+  quality: QualitySetting
 ): UIState => {
   // Return same state if value unchanged
   if (quality === state.quality) {
@@ -36,6 +36,7 @@ export const createMockWebGLContext = (): any => ({
   createBuffer: vi.fn(() => ({})),
   bindBuffer: vi.fn(),
   bufferData: vi.fn(),
+  bufferSubData: vi.fn(),
   createTexture: vi.fn(),
   bindTexture: vi.fn(),
   texParameteri: vi.fn(),
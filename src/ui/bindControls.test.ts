@@ -2,7 +2,12 @@
 // ABOUTME: Verifies event binding, state updates, and cleanup
 
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { bindSliderToState, bindDropdownToState } from './bindControls';
+import {
+  bindSliderToState,
+  bindDropdownToState,
+  bindCheckboxToState,
+  bindUndoRedoKeys,
+} from './bindControls';
 
 describe('bindControls', () => {
   describe('bindSliderToState', () => {
@@ -165,4 +170,93 @@ describe('bindControls', () => {
       unbind();
     });
   });
+
+  describe('bindCheckboxToState', () => {
+    let checkbox: HTMLInputElement;
+    let updater: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      // Create mock checkbox element
+      checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      updater = vi.fn();
+    });
+
+    it('should call updater with checked state when toggled', () => {
+      const unbind = bindCheckboxToState(checkbox, updater);
+
+      checkbox.checked = true;
+      checkbox.dispatchEvent(new Event('change', { bubbles: true }));
+      checkbox.checked = false;
+      checkbox.dispatchEvent(new Event('change', { bubbles: true }));
+
+      expect(updater).toHaveBeenNthCalledWith(1, true);
+      expect(updater).toHaveBeenNthCalledWith(2, false);
+
+      unbind();
+    });
+
+    it('should return unbind function that removes event listener', () => {
+      const unbind = bindCheckboxToState(checkbox, updater);
+
+      unbind();
+
+      checkbox.checked = true;
+      checkbox.dispatchEvent(new Event('change', { bubbles: true }));
+
+      expect(updater).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bindUndoRedoKeys', () => {
+    let onUndo: ReturnType<typeof vi.fn>;
+    let onRedo: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      onUndo = vi.fn();
+      onRedo = vi.fn();
+    });
+
+    const pressKey = (init: KeyboardEventInit): KeyboardEvent => {
+      const event = new KeyboardEvent('keydown', { cancelable: true, ...init });
+      window.dispatchEvent(event);
+      return event;
+    };
+
+    it('should undo on Ctrl+Z and redo on Ctrl+Shift+Z', () => {
+      const unbind = bindUndoRedoKeys(window, onUndo, onRedo);
+
+      const undoEvent = pressKey({ key: 'z', ctrlKey: true });
+      pressKey({ key: 'Z', ctrlKey: true, shiftKey: true });
+      pressKey({ key: 'z', metaKey: true });
+
+      expect(onUndo).toHaveBeenCalledTimes(2);
+      expect(onRedo).toHaveBeenCalledTimes(1);
+      expect(undoEvent.defaultPrevented).toBe(true);
+
+      unbind();
+    });
+
+    it('should ignore other keys', () => {
+      const unbind = bindUndoRedoKeys(window, onUndo, onRedo);
+
+      const event = pressKey({ key: 'z' });
+      pressKey({ key: 'y', ctrlKey: true });
+
+      expect(onUndo).not.toHaveBeenCalled();
+      expect(onRedo).not.toHaveBeenCalled();
+      expect(event.defaultPrevented).toBe(false);
+
+      unbind();
+    });
+
+    it('should return unbind function that removes event listener', () => {
+      const unbind = bindUndoRedoKeys(window, onUndo, onRedo);
+
+      unbind();
+      pressKey({ key: 'z', ctrlKey: true });
+
+      expect(onUndo).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -51,3 +51,72 @@ export const bindDropdownToState = (
     dropdown.removeEventListener('change', handleChange);
   };
 };
+
+/**
+ * Bind a checkbox to a state updater function
+ * @param checkbox - The HTML input element (checkbox type)
+ * @param updater - Function to call with the new checked state
+ * @returns Unbind function to remove the event listener
+ */
+export const bindCheckboxToState = (
+  checkbox: HTMLInputElement,
+  updater: (checked: boolean) => void
+): (() => void) => {
+  // Create event handler
+  const handleChange = (event: Event): void => {
+    const target = event.target as HTMLInputElement;
+    updater(target.checked);
+  };
+
+  // Attach event listener
+  checkbox.addEventListener('change', handleChange);
+
+  // Return unbind function
+  return () => {
+    checkbox.removeEventListener('change', handleChange);
+  };
+};
+
+/**
+ * Bind Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) to undo and redo
+ * Keys typed into text fields are left alone
+ * @param target - Element or window receiving key presses
+ * @param onUndo - Function to call for undo
+ * @param onRedo - Function to call for redo
+ * @returns Unbind function to remove the event listener
+ */
+export const bindUndoRedoKeys = (
+  target: Window | HTMLElement,
+  onUndo: () => void,
+  onRedo: () => void
+): (() => void) => {
+  // Create event handler
+  const handleKeyDown = (event: Event): void => {
+    const keyEvent = event as KeyboardEvent;
+    const isTextField =
+      keyEvent.target instanceof HTMLInputElement &&
+      keyEvent.target.type === 'text';
+    if (
+      !(keyEvent.ctrlKey || keyEvent.metaKey) ||
+      keyEvent.key.toLowerCase() !== 'z' ||
+      isTextField
+    ) {
+      return;
+    }
+
+    keyEvent.preventDefault();
+    if (keyEvent.shiftKey) {
+      onRedo();
+    } else {
+      onUndo();
+    }
+  };
+
+  // Attach event listener
+  target.addEventListener('keydown', handleKeyDown);
+
+  // Return unbind function
+  return () => {
+    target.removeEventListener('keydown', handleKeyDown);
+  };
+};
@@ -0,0 +1,96 @@
+// ABOUTME: Tests for the handedness labels over the render view
+// ABOUTME: Verifies projection onto the canvas, label text and element reuse
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Matrix, Vector3 } from 'babylonjs';
+import {
+  formatHandedness,
+  projectHandednessLabels,
+  updateHandednessOverlay,
+} from './createHandednessOverlay';
+import type { ReflectionPath } from '../mirrors/ReflectionInstanceManager';
+
+const createPath = (
+  id: string,
+  position: Vector3,
+  scaling: Vector3
+): ReflectionPath => ({
+  id,
+  bounceCount: 1,
+  walls: [id],
+  position,
+  scaling,
+  reflection: Matrix.Identity(),
+  sequences: [[id]],
+});
+
+describe('createHandednessOverlay', () => {
+  describe('projectHandednessLabels', () => {
+    it('should label images in view, nearest first', () => {
+      // Looks from (0, 5, -10) towards the origin
+      const viewpoint = new Vector3(0, 5, -10);
+      const viewProjection = Matrix.LookAtLH(
+        viewpoint,
+        Vector3.Zero(),
+        Vector3.Up()
+      ).multiply(Matrix.PerspectiveFovLH(Math.PI / 3, 1, 0.1, 1000));
+
+      const labels = projectHandednessLabels(
+        [
+          createPath('far', new Vector3(0, 0, 20), new Vector3(1, 1, 1)),
+          createPath('near', new Vector3(0, 0, 0), new Vector3(-1, 1, 1)),
+          createPath('behind', new Vector3(0, 5, -20), new Vector3(1, 1, 1)),
+        ],
+        viewProjection,
+        viewpoint,
+        400,
+        400
+      );
+
+      expect(labels).toHaveLength(2);
+      expect(labels[0].isFlipped).toBe(true);
+      expect(labels[0].x).toBeCloseTo(200);
+      expect(labels[0].y).toBeCloseTo(200);
+      expect(labels[1].isFlipped).toBe(false);
+    });
+  });
+
+  describe('updateHandednessOverlay', () => {
+    let overlay: HTMLDivElement;
+
+    beforeEach(() => {
+      overlay = document.createElement('div');
+      overlay.hidden = true;
+    });
+
+    it('should show one label per image', () => {
+      updateHandednessOverlay(overlay, [
+        { x: 10, y: 20, isFlipped: true },
+        { x: 30, y: 40, isFlipped: false },
+      ]);
+
+      expect(overlay.hidden).toBe(false);
+      expect(
+        Array.from(overlay.children).map((child) => child.textContent)
+      ).toEqual([formatHandedness(true), formatHandedness(false)]);
+      expect(overlay.children[0].classList).toContain('handedness-flipped');
+      expect((overlay.children[1] as HTMLElement).style.left).toBe('30px');
+    });
+
+    it('should reuse label elements and hide when empty', () => {
+      updateHandednessOverlay(overlay, [{ x: 0, y: 0, isFlipped: false }]);
+      const first = overlay.children[0];
+
+      updateHandednessOverlay(overlay, [
+        { x: 5, y: 5, isFlipped: true },
+        { x: 6, y: 6, isFlipped: true },
+      ]);
+      expect(overlay.children[0]).toBe(first);
+      expect(first.textContent).toBe('flipped');
+
+      updateHandednessOverlay(overlay, []);
+      expect(overlay.children).toHaveLength(0);
+      expect(overlay.hidden).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+// ABOUTME: Labels over the render view saying whether each virtual image is flipped
+// ABOUTME: Projects image positions onto the canvas and keeps one label element per image
+
+import { Matrix, Vector3, Viewport } from 'babylonjs';
+import {
+  isMirroredImage,
+  type ReflectionPath,
+} from '../mirrors/ReflectionInstanceManager';
+
+/**
+ * Label for one image, in pixels from the canvas's top left corner
+ */
+export interface HandednessLabel {
+  readonly x: number;
+  readonly y: number;
+  readonly isFlipped: boolean;
+}
+
+/**
+ * Most labels shown at once, nearest images first, so deep reflections don't bury the view
+ */
+const MAX_HANDEDNESS_LABELS = 40;
+
+/**
+ * Describes an image's handedness
+ *
+ * @param isFlipped - Whether the image is mirror-reversed
+ * @returns Label text
+ */
+export const formatHandedness = (isFlipped: boolean): string =>
+  isFlipped ? 'flipped' : 'same handedness';
+
+/**
+ * Places a label on each image the camera sees, nearest first
+ * Images behind the camera or off the canvas get no label
+ *
+ * @param paths - Reflection paths of the shown images
+ * @param viewProjection - View and projection of the camera the canvas shows (e.g., scene.getTransformMatrix())
+ * @param viewpoint - Camera position, to find the nearest images
+ * @param width - Canvas width in CSS pixels
+ * @param height - Canvas height in CSS pixels
+ * @returns Labels in canvas pixels
+ */
+export const projectHandednessLabels = (
+  paths: readonly ReflectionPath[],
+  viewProjection: Matrix,
+  viewpoint: Vector3,
+  width: number,
+  height: number
+): HandednessLabel[] => {
+  const viewport = new Viewport(0, 0, width, height);
+
+  return paths
+    .map((path) => ({
+      path,
+      point: Vector3.Project(
+        path.position,
+        Matrix.Identity(),
+        viewProjection,
+        viewport
+      ),
+      distance: Vector3.Distance(viewpoint, path.position),
+    }))
+    .filter(
+      ({ point }) =>
+        point.z >= 0 &&
+        point.z <= 1 &&
+        point.x >= 0 &&
+        point.x <= width &&
+        point.y >= 0 &&
+        point.y <= height
+    )
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, MAX_HANDEDNESS_LABELS)
+    .map(({ path, point }) => ({
+      x: point.x,
+      y: point.y,
+      isFlipped: isMirroredImage(path),
+    }));
+};
+
+/**
+ * Shows the labels in the overlay, reusing its label elements
+ * The overlay is hidden when there are no labels
+ *
+ * @param overlay - Overlay element, positioned over the canvas
+ * @param labels - Labels to show
+ */
+export const updateHandednessOverlay = (
+  overlay: HTMLElement,
+  labels: readonly HandednessLabel[]
+): void => {
+  while (overlay.children.length > labels.length) {
+    overlay.lastElementChild?.remove();
+  }
+  while (overlay.children.length < labels.length) {
+    overlay.append(document.createElement('div'));
+  }
+
+  labels.forEach((label, index) => {
+    const element = overlay.children[index] as HTMLElement;
+    element.className = label.isFlipped
+      ? 'handedness-label handedness-flipped'
+      : 'handedness-label';
+    element.textContent = formatHandedness(label.isFlipped);
+    element.style.left = `${label.x}px`;
+    element.style.top = `${label.y}px`;
+  });
+  overlay.hidden = labels.length === 0;
+};
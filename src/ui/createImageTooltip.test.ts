@@ -0,0 +1,63 @@
+// ABOUTME: Tests for the virtual image tooltip
+// ABOUTME: Verifies wall sequence text, positioning and hiding
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { formatWallSequence, updateImageTooltip } from './createImageTooltip';
+import { createRoomDefinition } from '../geometry/roomDefinition';
+
+describe('createImageTooltip', () => {
+  const room = createRoomDefinition();
+
+  describe('formatWallSequence', () => {
+    it('should name the walls in order', () => {
+      expect(formatWallSequence(['north', 'east'], room)).toBe('North → East');
+    });
+
+    it('should fall back to the id for unknown walls', () => {
+      expect(formatWallSequence(['gone'], room)).toBe('gone');
+    });
+  });
+
+  describe('updateImageTooltip', () => {
+    let tooltip: HTMLDivElement;
+
+    beforeEach(() => {
+      tooltip = document.createElement('div');
+      tooltip.hidden = true;
+    });
+
+    it('should list every sequence forming the image', () => {
+      updateImageTooltip(
+        tooltip,
+        [
+          ['north', 'east'],
+          ['east', 'north'],
+        ],
+        room,
+        40,
+        60
+      );
+
+      expect(tooltip.hidden).toBe(false);
+      expect(
+        Array.from(tooltip.children).map((child) => child.textContent)
+      ).toEqual(['Reflected by any of:', 'North → East', 'East → North']);
+      expect(tooltip.style.left).toBe('40px');
+      expect(tooltip.style.top).toBe('60px');
+    });
+
+    it('should replace the previous contents', () => {
+      updateImageTooltip(tooltip, [['north']], room);
+      updateImageTooltip(tooltip, [['west']], room);
+
+      expect(tooltip.textContent).toBe('Reflected by:West');
+    });
+
+    it('should hide when nothing is hovered', () => {
+      updateImageTooltip(tooltip, [['north']], room);
+      updateImageTooltip(tooltip, null, room);
+
+      expect(tooltip.hidden).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,56 @@
+// ABOUTME: Tooltip listing the mirror sequences that form a virtual image
+// ABOUTME: Shown next to the pointer when hovering an image in the render view
+
+import { getWallById, RoomDefinition } from '../geometry/roomDefinition';
+
+/**
+ * Describes a wall sequence with the walls' display names
+ *
+ * @param walls - Wall ids in the order the light hits them
+ * @param room - Room the walls belong to
+ * @returns Text such as "North → East"
+ */
+export const formatWallSequence = (
+  walls: readonly string[],
+  room: RoomDefinition
+): string =>
+  walls.map((wallId) => getWallById(room, wallId)?.label ?? wallId).join(' → ');
+
+/**
+ * Fills the tooltip with an image's wall sequences and moves it to the pointer,
+ * or hides it when nothing is hovered
+ *
+ * @param tooltip - Tooltip element, positioned inside the canvas wrapper
+ * @param sequences - Every wall sequence forming the hovered image, or null
+ * @param room - Room the walls belong to
+ * @param x - Pointer x offset within the canvas in pixels
+ * @param y - Pointer y offset within the canvas in pixels
+ */
+export const updateImageTooltip = (
+  tooltip: HTMLElement,
+  sequences: readonly string[][] | null,
+  room: RoomDefinition,
+  x: number = 0,
+  y: number = 0
+): void => {
+  if (!sequences || sequences.length === 0) {
+    tooltip.hidden = true;
+    return;
+  }
+
+  const heading = document.createElement('div');
+  heading.className = 'image-tooltip-heading';
+  heading.textContent =
+    sequences.length === 1 ? 'Reflected by:' : 'Reflected by any of:';
+
+  const lines = sequences.map((walls) => {
+    const line = document.createElement('div');
+    line.textContent = formatWallSequence(walls, room);
+    return line;
+  });
+
+  tooltip.replaceChildren(heading, ...lines);
+  tooltip.style.left = `${x}px`;
+  tooltip.style.top = `${y}px`;
+  tooltip.hidden = false;
+};
@@ -0,0 +1,62 @@
+// ABOUTME: Tests for the generated mirror toggle checkboxes
+// ABOUTME: Verifies one checkbox per surface, labels, state and rebuilding
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { renderMirrorToggles } from './createMirrorToggles';
+import {
+  createPolygonRoomDefinition,
+  createRoomDefinition,
+  getRoomSurfaces,
+} from '../geometry/roomDefinition';
+import { createRegularPolygonOutline } from '../geometry/roomPresets';
+
+describe('renderMirrorToggles', () => {
+  let container: HTMLDivElement;
+
+  beforeEach(() => {
+    container = document.createElement('div');
+    container.innerHTML = '<span class="control-label">Mirrors:</span>';
+  });
+
+  it('should create one checkbox per room surface', () => {
+    const toggles = renderMirrorToggles(
+      container,
+      getRoomSurfaces(createRoomDefinition())
+    );
+
+    expect(toggles.map((toggle) => toggle.dataset.mirrorWall)).toEqual([
+      'north',
+      'south',
+      'east',
+      'west',
+      'floor',
+      'ceiling',
+    ]);
+    expect(container.querySelectorAll('label')[0].textContent).toBe(' North');
+  });
+
+  it('should check the surfaces that are mirrors', () => {
+    const toggles = renderMirrorToggles(
+      container,
+      getRoomSurfaces(createRoomDefinition())
+    );
+
+    expect(toggles.map((toggle) => toggle.checked)).toEqual([
+      true,
+      false,
+      true,
+      true,
+      false,
+      false,
+    ]);
+  });
+
+  it('should replace previous toggles but keep the heading', () => {
+    renderMirrorToggles(container, getRoomSurfaces(createRoomDefinition()));
+    const room = createPolygonRoomDefinition(createRegularPolygonOutline(3, 5));
+    renderMirrorToggles(container, getRoomSurfaces(room));
+
+    expect(container.querySelectorAll('input')).toHaveLength(5);
+    expect(container.querySelector('.control-label')).not.toBeNull();
+  });
+});
@@ -0,0 +1,33 @@
+// ABOUTME: Builds the mirror checkbox list for whichever surfaces the current room has
+// ABOUTME: One labelled checkbox per wall, floor and ceiling, tagged with the surface id
+
+import type { WallDefinition } from '../geometry/roomDefinition';
+
+/**
+ * Replaces the checkboxes in a container with one per room surface
+ * Any non-label children (e.g., the section heading) are kept
+ *
+ * @param container - Element that holds the mirror toggles
+ * @param surfaces - Room surfaces in display order
+ * @returns Checkbox inputs, each with a data-mirror-wall attribute
+ */
+export const renderMirrorToggles = (
+  container: HTMLElement,
+  surfaces: readonly WallDefinition[]
+): HTMLInputElement[] => {
+  // Remove toggles from a previous room shape
+  container.querySelectorAll('label').forEach((label) => label.remove());
+
+  return surfaces.map((surface) => {
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.dataset.mirrorWall = surface.id;
+    checkbox.checked = surface.isMirror;
+
+    const label = document.createElement('label');
+    label.append(checkbox, ` ${surface.label}`);
+    container.appendChild(label);
+
+    return checkbox;
+  });
+};
@@ -0,0 +1,115 @@
+// ABOUTME: Tests for scene file download, reading, picking and dropping
+// ABOUTME: Verifies files reach their handlers and listeners are removed on unbind
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  bindFileDrop,
+  bindFileInput,
+  downloadTextFile,
+  readFileText,
+} from './sceneFile';
+
+const createFile = (): File =>
+  new File(['{"scene": true}'], 'scene.json', { type: 'application/json' });
+
+describe('sceneFile', () => {
+  describe('downloadTextFile', () => {
+    it('should click a download link for the text', () => {
+      URL.createObjectURL = vi.fn().mockReturnValue('blob:scene');
+      const revokeObjectURL = vi.fn();
+      URL.revokeObjectURL = revokeObjectURL;
+      const click = vi
+        .spyOn(HTMLAnchorElement.prototype, 'click')
+        .mockImplementation(() => {});
+
+      downloadTextFile('scene.json', '{}');
+
+      const link = click.mock.contexts[0] as HTMLAnchorElement;
+      expect(link.download).toBe('scene.json');
+      expect(link.href).toBe('blob:scene');
+      expect(revokeObjectURL).toHaveBeenCalledWith('blob:scene');
+
+      click.mockRestore();
+    });
+  });
+
+  describe('readFileText', () => {
+    it('should resolve with the file contents', async () => {
+      await expect(readFileText(createFile())).resolves.toBe('{"scene": true}');
+    });
+  });
+
+  describe('bindFileInput', () => {
+    let input: HTMLInputElement;
+    let onFile: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      input = document.createElement('input');
+      input.type = 'file';
+      onFile = vi.fn();
+    });
+
+    it('should pass the chosen file to the handler', () => {
+      const file = createFile();
+      Object.defineProperty(input, 'files', { value: [file] });
+      const unbind = bindFileInput(input, onFile);
+
+      input.dispatchEvent(new Event('change'));
+
+      expect(onFile).toHaveBeenCalledWith(file);
+
+      unbind();
+    });
+
+    it('should return unbind function that removes event listener', () => {
+      Object.defineProperty(input, 'files', { value: [createFile()] });
+      const unbind = bindFileInput(input, onFile);
+
+      unbind();
+      input.dispatchEvent(new Event('change'));
+
+      expect(onFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('bindFileDrop', () => {
+    let target: HTMLElement;
+    let onFile: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      target = document.createElement('div');
+      onFile = vi.fn();
+    });
+
+    const createDragEvent = (type: string, files: File[] = []): Event => {
+      const event = new Event(type, { cancelable: true });
+      Object.defineProperty(event, 'dataTransfer', { value: { files } });
+      return event;
+    };
+
+    it('should highlight while dragging and hand over the dropped file', () => {
+      const file = createFile();
+      const unbind = bindFileDrop(target, onFile);
+
+      const dragOver = createDragEvent('dragover');
+      target.dispatchEvent(dragOver);
+      expect(dragOver.defaultPrevented).toBe(true);
+      expect(target.classList.contains('drag-over')).toBe(true);
+
+      target.dispatchEvent(createDragEvent('drop', [file]));
+      expect(target.classList.contains('drag-over')).toBe(false);
+      expect(onFile).toHaveBeenCalledWith(file);
+
+      unbind();
+    });
+
+    it('should return unbind function that removes event listeners', () => {
+      const unbind = bindFileDrop(target, onFile);
+
+      unbind();
+      target.dispatchEvent(createDragEvent('drop', [createFile()]));
+
+      expect(onFile).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,105 @@
+// ABOUTME: Browser file plumbing for scene documents: download, file picker and drag-and-drop
+// ABOUTME: Binders hand over the chosen file and return unbind functions like the control binders
+
+/**
+ * Offer text to the user as a downloaded file
+ * @param filename - Suggested file name
+ * @param text - File contents
+ * @param type - MIME type of the contents
+ */
+export const downloadTextFile = (
+  filename: string,
+  text: string,
+  type = 'application/json'
+): void => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Read a file chosen by the user as text
+ * @param file - File from a picker or a drop
+ * @returns Promise of the file contents
+ */
+export const readFileText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (): void => resolve(reader.result as string);
+    reader.onerror = (): void =>
+      reject(new Error(`Could not read ${file.name}`));
+    reader.readAsText(file);
+  });
+
+/**
+ * Bind a file input to a handler for the chosen file
+ * The input is cleared afterwards so choosing the same file again still fires
+ * @param input - The HTML input element (file type)
+ * @param onFile - Function to call with the chosen file
+ * @returns Unbind function to remove the event listener
+ */
+export const bindFileInput = (
+  input: HTMLInputElement,
+  onFile: (file: File) => void
+): (() => void) => {
+  // Create event handler
+  const handleChange = (): void => {
+    const file = input.files?.[0];
+    if (file) {
+      onFile(file);
+    }
+    input.value = '';
+  };
+
+  // Attach event listener
+  input.addEventListener('change', handleChange);
+
+  // Return unbind function
+  return () => {
+    input.removeEventListener('change', handleChange);
+  };
+};
+
+/**
+ * Bind file drops on an element to a handler for the first dropped file
+ * The element gets the drag-over class while a file is held over it
+ * @param target - Element accepting drops
+ * @param onFile - Function to call with the dropped file
+ * @returns Unbind function to remove the event listeners
+ */
+export const bindFileDrop = (
+  target: HTMLElement,
+  onFile: (file: File) => void
+): (() => void) => {
+  // Create event handlers
+  const handleDragOver = (event: DragEvent): void => {
+    event.preventDefault();
+    target.classList.add('drag-over');
+  };
+  const handleDragLeave = (): void => {
+    target.classList.remove('drag-over');
+  };
+  const handleDrop = (event: DragEvent): void => {
+    event.preventDefault();
+    target.classList.remove('drag-over');
+    const file = event.dataTransfer?.files[0];
+    if (file) {
+      onFile(file);
+    }
+  };
+
+  // Attach event listeners
+  target.addEventListener('dragover', handleDragOver);
+  target.addEventListener('dragleave', handleDragLeave);
+  target.addEventListener('drop', handleDrop);
+
+  // Return unbind function
+  return () => {
+    target.removeEventListener('dragover', handleDragOver);
+    target.removeEventListener('dragleave', handleDragLeave);
+    target.removeEventListener('drop', handleDrop);
+  };
+};
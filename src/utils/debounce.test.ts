@@ -0,0 +1,53 @@
+// ABOUTME: Tests for the debounce helper
+// ABOUTME: Verifies calls are coalesced and pending work can be flushed or cancelled
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createDebounce } from './debounce';
+
+describe('createDebounce', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should run once after calls stop arriving', () => {
+    const callback = vi.fn();
+    const debounced = createDebounce(callback, 100);
+
+    debounced.schedule();
+    vi.advanceTimersByTime(60);
+    debounced.schedule();
+    vi.advanceTimersByTime(60);
+    expect(callback).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(40);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run pending work immediately when flushed', () => {
+    const callback = vi.fn();
+    const debounced = createDebounce(callback, 100);
+
+    debounced.flush();
+    expect(callback).not.toHaveBeenCalled();
+
+    debounced.schedule();
+    debounced.flush();
+    vi.advanceTimersByTime(100);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop pending work when cancelled', () => {
+    const callback = vi.fn();
+    const debounced = createDebounce(callback, 100);
+
+    debounced.schedule();
+    debounced.cancel();
+    vi.advanceTimersByTime(100);
+
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,48 @@
+// ABOUTME: Debounce helper that runs a callback once calls stop arriving
+// ABOUTME: Pending work can be flushed early (e.g. when the page is closing) or cancelled
+
+/**
+ * Debounced callback with control over pending work
+ */
+export interface Debounced {
+  readonly schedule: () => void;
+  readonly flush: () => void;
+  readonly cancel: () => void;
+}
+
+/**
+ * Create a debounced callback
+ * @param callback - Work to run after the calls settle
+ * @param delayMs - Quiet time before the work runs
+ * @returns Controls to schedule, flush or cancel the work
+ */
+export const createDebounce = (
+  callback: () => void,
+  delayMs: number
+): Debounced => {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const cancel = (): void => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const flush = (): void => {
+    if (timer !== null) {
+      cancel();
+      callback();
+    }
+  };
+
+  const schedule = (): void => {
+    cancel();
+    timer = setTimeout(() => {
+      timer = null;
+      callback();
+    }, delayMs);
+  };
+
+  return Object.freeze({ schedule, flush, cancel });
+};